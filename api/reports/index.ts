@@ -1,5 +1,31 @@
 import { VercelRequest, VercelResponse } from '@vercel/node';
 import { kv } from '@vercel/kv';
+import { EpochService, parseEpochSchedule } from '../../src/lib/epoch';
+
+// Used only when no contract node is configured; it can't see epochs an admin ended early
+const envEpochs = new EpochService(parseEpochSchedule(process.env));
+
+// Current epoch from the contract's schedule, which advanceEpoch moves
+async function getContractEpoch(): Promise<number> {
+  const rpcUrl = process.env.CONTRACT_RPC_URL;
+  if (!rpcUrl) {
+    return envEpochs.getCurrentEpoch();
+  }
+
+  const response = await fetch(rpcUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'dappReviewer_getCurrentEpoch', params: [] })
+  });
+  if (!response.ok) {
+    throw new Error(`Epoch lookup failed: ${response.status}`);
+  }
+  const body = await response.json();
+  if (body.error || !Number.isInteger(body.result)) {
+    throw new Error(`Epoch lookup failed: ${body.error?.message ?? 'invalid result'}`);
+  }
+  return body.result;
+}
 
 // Rate limiting helper
 async function checkRateLimit(ip: string): Promise<boolean> {
@@ -20,9 +46,15 @@ async function checkRateLimit(ip: string): Promise<boolean> {
 }
 
 // Dedupe by nullifier and epoch
-async function checkDuplicate(nullifier: string, epoch: string): Promise<string | null> {
-  const dedupeKey = `nullifier:${nullifier}:${epoch}`;
-  return await kv.get(dedupeKey);
+function dedupeKey(nullifier: string, epoch: number): string {
+  return `nullifier:${nullifier}:${epoch}`;
+}
+
+// Claims the key for this report; returns the report that already holds it, if any
+async function claimDedupeKey(nullifier: string, epoch: number, id: string): Promise<string | null> {
+  const key = dedupeKey(nullifier, epoch);
+  const claimed = await kv.set(key, id, { nx: true });
+  return claimed ? null : await kv.get<string>(key);
 }
 
 // GET /api/reports - List reports
@@ -99,11 +131,27 @@ async function handlePost(req: VercelRequest, res: VercelResponse) {
       return res.status(400).json({ error: 'Missing required fields' });
     }
     
-    // Extract nullifier and epoch from public signals
-    const [merkleRoot, epoch, nullifier, signalHash] = proofPublicSignals;
+    // Signals follow the membership_rln circuit: [merkleRoot, epoch, nullifier, signalHash]
+    if (!Array.isArray(proofPublicSignals) || proofPublicSignals.length < 3) {
+      return res.status(400).json({ error: 'Invalid proof public signals' });
+    }
+    const [, epochSignal, nullifier] = proofPublicSignals;
+    
+    // The proof's nullifier is bound to its epoch, so only the current epoch's proofs are accepted
+    const epoch = Number(epochSignal);
+    const currentEpoch = await getContractEpoch();
+    if (!/^\d+$/.test(String(epochSignal)) || epoch !== currentEpoch) {
+      return res.status(400).json({ error: 'Report proof is not for the current epoch' });
+    }
+    if (typeof nullifier !== 'string' || nullifier === '') {
+      return res.status(400).json({ error: 'Missing nullifier' });
+    }
+    
+    // Generate ID
+    const id = `report_${Date.now()}_${Math.random().toString(36).substring(7)}`;
     
     // Check for duplicate
-    const existingId = await checkDuplicate(nullifier, epoch);
+    const existingId = await claimDedupeKey(nullifier, epoch, id);
     if (existingId) {
       return res.status(409).json({ 
         error: 'Duplicate report', 
@@ -112,9 +160,6 @@ async function handlePost(req: VercelRequest, res: VercelResponse) {
       });
     }
     
-    // Generate ID
-    const id = `report_${Date.now()}_${Math.random().toString(36).substring(7)}`;
-    
     // Store report
     const report = {
       encryptedData,
@@ -129,9 +174,6 @@ async function handlePost(req: VercelRequest, res: VercelResponse) {
     // Add to index (newest first)
     await kv.lpush('reports:index', id);
     
-    // Store dedupe key
-    await kv.set(`nullifier:${nullifier}:${epoch}`, id);
-    
     res.status(201).json({ id, message: 'Report created successfully' });
   } catch (error) {
     console.error('POST /api/reports error:', error);
@@ -0,0 +1,112 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { kv } from '@vercel/kv';
+import { createHash } from 'crypto';
+
+interface ReviewContent {
+  title: string;
+  review: string;
+  pros: string;
+  cons: string;
+  rating: number;
+  timestamp: number;
+}
+
+// Must match serializeReviewContent in src/lib/review-content.ts
+function computeReviewHash(content: ReviewContent): string {
+  const canonical = JSON.stringify({
+    title: content.title,
+    review: content.review,
+    pros: content.pros,
+    cons: content.cons,
+    rating: content.rating,
+    timestamp: content.timestamp
+  });
+  return createHash('sha256').update(canonical, 'utf8').digest('hex');
+}
+
+function isReviewContent(value: any): value is ReviewContent {
+  return (
+    value &&
+    typeof value.title === 'string' &&
+    typeof value.review === 'string' &&
+    typeof value.pros === 'string' &&
+    typeof value.cons === 'string' &&
+    typeof value.rating === 'number' &&
+    typeof value.timestamp === 'number'
+  );
+}
+
+// GET /api/review-content?hash=<reviewHash> - Fetch content by its hash
+async function handleGet(req: VercelRequest, res: VercelResponse) {
+  try {
+    const { hash } = req.query;
+    if (typeof hash !== 'string' || !/^[0-9a-f]{64}$/.test(hash)) {
+      return res.status(400).json({ error: 'Invalid review hash' });
+    }
+
+    const content = await kv.get(`review-content:${hash}`);
+    if (!content) {
+      return res.status(404).json({ error: 'Review content not found' });
+    }
+
+    res.status(200).json({ reviewHash: hash, content });
+  } catch (error) {
+    console.error('GET /api/review-content error:', error);
+    res.status(500).json({ error: 'Failed to fetch review content' });
+  }
+}
+
+// POST /api/review-content - Store content; the hash must match the content
+async function handlePost(req: VercelRequest, res: VercelResponse) {
+  try {
+    // Check API key if configured
+    const apiSecret = process.env.SYNC_API_SECRET;
+    if (apiSecret) {
+      const providedKey = req.headers['x-api-key'];
+      if (providedKey !== apiSecret) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+    }
+
+    const { reviewHash, content } = req.body;
+    if (typeof reviewHash !== 'string' || !isReviewContent(content)) {
+      return res.status(400).json({ error: 'Missing required fields' });
+    }
+
+    if (computeReviewHash(content) !== reviewHash) {
+      return res.status(400).json({ error: 'Content does not match review hash' });
+    }
+
+    // Content is immutable: the first write for a hash wins
+    const stored = await kv.set(`review-content:${reviewHash}`, content, { nx: true });
+    if (stored === null) {
+      return res.status(409).json({ error: 'Review content already stored', reviewHash });
+    }
+
+    res.status(201).json({ reviewHash, message: 'Review content stored successfully' });
+  } catch (error) {
+    console.error('POST /api/review-content error:', error);
+    res.status(500).json({ error: 'Failed to store review content' });
+  }
+}
+
+// Main handler
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-API-Key');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  switch (req.method) {
+    case 'GET':
+      return handleGet(req, res);
+    case 'POST':
+      return handlePost(req, res);
+    default:
+      return res.status(405).json({ error: 'Method not allowed' });
+  }
+}
@@ -0,0 +1,55 @@
+pragma circom 2.0.0;
+
+// Helpful vote circuit
+//
+// The membership + rate-limit proof of membership_rln, with the nullifier
+// scoped to the review being voted on, plus a proof that the voter did not
+// write that review: the nullifier the voter's secret derives under the
+// review's own scope does not hash to the review's stored nullifier hash.
+// The contract learns only that the voter is some enrolled reviewer other
+// than the author.
+//
+// Public signals: [merkleRoot, epoch, nullifier, signalHash, authorScope, authorNullifierHash]
+
+include "membership.circom";
+
+template HelpfulVote(levels) {
+    // Public inputs
+    signal input merkleRoot;
+    signal input epoch;
+    signal input nullifier;
+    signal input signalHash;
+    signal input authorScope;          // External nullifier the review was submitted under
+    signal input authorNullifierHash;  // The review's Poseidon(nullifier)
+
+    // Private inputs
+    signal input identitySecret;
+    signal input merklePath[levels];
+    signal input merkleIndices[levels];
+    signal input messageHash;
+
+    component membership = MembershipRLN(levels);
+    membership.merkleRoot <== merkleRoot;
+    membership.epoch <== epoch;
+    membership.nullifier <== nullifier;
+    membership.signalHash <== signalHash;
+    membership.identitySecret <== identitySecret;
+    for (var i = 0; i < levels; i++) {
+        membership.merklePath[i] <== merklePath[i];
+        membership.merkleIndices[i] <== merkleIndices[i];
+    }
+    membership.messageHash <== messageHash;
+
+    // Not the author: Poseidon(Poseidon(secret, authorScope)) != authorNullifierHash
+    component authorNullifier = Poseidon(2);
+    authorNullifier.inputs[0] <== identitySecret;
+    authorNullifier.inputs[1] <== authorScope;
+    component authorHash = Poseidon(1);
+    authorHash.inputs[0] <== authorNullifier.out;
+    component isAuthor = IsEqual();
+    isAuthor.in[0] <== authorHash.out;
+    isAuthor.in[1] <== authorNullifierHash;
+    isAuthor.out === 0;
+}
+
+component main {public [merkleRoot, epoch, nullifier, signalHash, authorScope, authorNullifierHash]} = HelpfulVote(20);
@@ -0,0 +1,78 @@
+pragma circom 2.0.0;
+
+// Templates shared by the reviewer circuits (membership_rln, helpful_vote)
+
+include "../node_modules/circomlib/circuits/poseidon.circom";
+include "../node_modules/circomlib/circuits/comparators.circom";
+
+// Recompute a Merkle root from a leaf and its authentication path.
+// pathIndices[i] = 1 means the current node is the right child at level i.
+template MerkleRoot(levels) {
+    signal input leaf;
+    signal input pathElements[levels];
+    signal input pathIndices[levels];
+    signal output root;
+
+    component hashers[levels];
+    signal nodes[levels + 1];
+    signal left[levels];
+    signal right[levels];
+
+    nodes[0] <== leaf;
+
+    for (var i = 0; i < levels; i++) {
+        // Path direction must be a bit
+        pathIndices[i] * (1 - pathIndices[i]) === 0;
+
+        // left = index ? sibling : node, right = index ? node : sibling
+        left[i] <== nodes[i] + pathIndices[i] * (pathElements[i] - nodes[i]);
+        right[i] <== pathElements[i] + pathIndices[i] * (nodes[i] - pathElements[i]);
+
+        hashers[i] = Poseidon(2);
+        hashers[i].inputs[0] <== left[i];
+        hashers[i].inputs[1] <== right[i];
+        nodes[i + 1] <== hashers[i].out;
+    }
+
+    root <== nodes[levels];
+}
+
+template MembershipRLN(levels) {
+    // Public inputs
+    signal input merkleRoot;
+    signal input epoch;
+    signal input nullifier;
+    signal input signalHash;
+
+    // Private inputs
+    signal input identitySecret;
+    signal input merklePath[levels];
+    signal input merkleIndices[levels];
+    signal input messageHash;
+
+    // Identity commitment = Poseidon(secret)
+    component commitment = Poseidon(1);
+    commitment.inputs[0] <== identitySecret;
+
+    // Membership in the reviewer set
+    component tree = MerkleRoot(levels);
+    tree.leaf <== commitment.out;
+    for (var i = 0; i < levels; i++) {
+        tree.pathElements[i] <== merklePath[i];
+        tree.pathIndices[i] <== merkleIndices[i];
+    }
+    tree.root === merkleRoot;
+
+    // Rate-limit nullifier = Poseidon(secret, epoch)
+    component nullifierHash = Poseidon(2);
+    nullifierHash.inputs[0] <== identitySecret;
+    nullifierHash.inputs[1] <== epoch;
+    nullifierHash.out === nullifier;
+
+    // Signal binding: Poseidon(messageHash), or 0 for unbound proofs
+    component signalHasher = Poseidon(1);
+    signalHasher.inputs[0] <== messageHash;
+    component unbound = IsZero();
+    unbound.in <== messageHash;
+    signalHash === signalHasher.out * (1 - unbound.out);
+}
@@ -0,0 +1,13 @@
+pragma circom 2.0.0;
+
+// Reviewer membership + rate-limit nullifier circuit
+//
+// Proves that the prover knows an identity secret whose Poseidon commitment is
+// a leaf of the reviewer Merkle tree, and that the public nullifier was derived
+// from that secret and the epoch, without revealing the secret or the leaf.
+//
+// Public signals: [merkleRoot, epoch, nullifier, signalHash]
+
+include "membership.circom";
+
+component main {public [merkleRoot, epoch, nullifier, signalHash]} = MembershipRLN(20);
@@ -0,0 +1,665 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import {
+  CircuitAssertionError,
+  DAPP_STATUS,
+  DAppReviewRegistry,
+  ENROLLMENT_STATUS,
+  NULLIFIER_SCOPE,
+  REVIEW_STATUS,
+  Witnesses,
+  adminPublicKeyFor,
+  computeMerkleRoot,
+  encodeBytes,
+  epochRatingKeyFor,
+  helpfulVoteNullifierFor,
+  identityCommitmentFor,
+  moderatorPublicKeyFor,
+  ownerKeyFor,
+  reviewExternalNullifierFor,
+  reviewIdFor,
+  reviewNullifierFor,
+  reviewVersionKeyFor,
+  transientHash
+} from './DappReviewer';
+import { CompactContractAdapter, hashDAppMetadata } from '../src/lib/contract-adapter';
+import { MemoryLedgerStore } from '../src/lib/ledger-store';
+import { AuthParams, AuthorizedOperation, generateSigningKeyPair, importSigningKey, signAuthorization } from '../src/lib/admin-auth';
+import { ReviewerIdentity, deriveIdentity } from '../src/lib/identity';
+import { IncrementalMerkleTree } from '../src/lib/merkle-tree';
+import { generateHelpfulVoteProof, generateReviewerProof } from '../src/lib/midnight-stub';
+import {
+  NULLIFIER_SCOPES,
+  NullifierScope,
+  computeExternalNullifier,
+  computeOwnershipSignal,
+  computeVoteExternalNullifier,
+  computeVoteSignal,
+  deriveNullifier,
+  deriveVoteNullifier,
+  hashNullifier,
+  stringToField
+} from '../src/lib/nullifier';
+import { fieldToHex, parseFieldElement } from '../src/lib/poseidon';
+import { serveZkArtifacts } from '../src/test/zk-artifacts';
+
+type Reviewer = 'alice' | 'bob';
+
+const ADMIN_SECRET = '0x' + '11'.repeat(32);
+const MODERATOR_SECRET = '0x' + '22'.repeat(32);
+const OWNER_SECRET = '0x' + '33'.repeat(32);
+const DAPP_ADDRESS = '0x' + 'd0'.repeat(32);
+const ADDRESS_FIELD = stringToField(DAPP_ADDRESS);
+const NO_DIMENSIONS = [0, 0, 0, 0];
+
+// The app's identities: the model and the adapter see the same commitments
+const IDENTITIES: Record<Reviewer, ReviewerIdentity> = {
+  alice: deriveIdentity(BigInt(101), BigInt(102)),
+  bob: deriveIdentity(BigInt(201), BigInt(202))
+};
+const LEAF_INDEX: Record<Reviewer, number> = { alice: 0, bob: 1 };
+
+const contentHash = (n: number) => n.toString(16).padStart(64, '0');
+
+// Two-leaf reviewer tree as the app builds it: alice at index 0, bob at 1
+const buildReviewerTree = () => IncrementalMerkleTree.fromLeaves([IDENTITIES.alice.commitment, IDENTITIES.bob.commitment]);
+
+function reviewerWitnesses(tree: IncrementalMerkleTree, reviewer: Reviewer): Partial<Witnesses> {
+  const { pathElements, pathIndices } = tree.getProof(LEAF_INDEX[reviewer]);
+  return {
+    reviewerIdentitySecret: () => IDENTITIES[reviewer].secret,
+    reviewerMerklePath: () => pathElements,
+    reviewerMerkleIndices: () => pathIndices.map(index => index === 1)
+  };
+}
+
+// A registry with the dApp registered and alice and bob enrolled, in that order
+function deployRegistry(admin: Partial<Witnesses>, scope = NULLIFIER_SCOPE.PER_EPOCH): DAppReviewRegistry {
+  const registry = new DAppReviewRegistry(adminPublicKeyFor(ADMIN_SECRET), 0n, 86400n, scope);
+  registry.registerDApp(
+    admin, DAPP_ADDRESS, encodeBytes('Bridge', 32), encodeBytes('DeFi', 16), '0x' + 'ee'.repeat(32), ADDRESS_FIELD,
+    ownerKeyFor(OWNER_SECRET)
+  );
+  for (const { commitment } of [IDENTITIES.alice, IDENTITIES.bob]) {
+    registry.requestEnrollment(commitment);
+    registry.approveEnrollment(admin, commitment);
+  }
+  return registry;
+}
+
+describe('DAppReviewRegistry', () => {
+  const admin: Partial<Witnesses> = { adminSecretKey: () => ADMIN_SECRET };
+  const moderator: Partial<Witnesses> = { adminSecretKey: () => MODERATOR_SECRET };
+  let tree: IncrementalMerkleTree;
+  let reviewers: Record<Reviewer, Partial<Witnesses>>;
+  let registry: DAppReviewRegistry;
+
+  const nullifierOf = (reviewer: Reviewer, scope = NULLIFIER_SCOPE.PER_EPOCH, scopeValue = 0n) =>
+    reviewNullifierFor(IDENTITIES[reviewer].secret, reviewExternalNullifierFor(scope, ADDRESS_FIELD, scopeValue));
+
+  function submit(reviewer: Reviewer, hash: string, rating: bigint, dimensions = [0n, 0n, 0n, 0n], nullifier = nullifierOf(reviewer)): string {
+    registry.submitReview(reviewers[reviewer], DAPP_ADDRESS, hash, rating, dimensions, '0x', nullifier);
+    return reviewIdFor(nullifier, hash);
+  }
+
+  beforeEach(async () => {
+    tree = await buildReviewerTree();
+    reviewers = { alice: reviewerWitnesses(tree, 'alice'), bob: reviewerWitnesses(tree, 'bob') };
+    registry = deployRegistry(admin);
+    registry.addModerator(admin, moderatorPublicKeyFor(MODERATOR_SECRET));
+  });
+
+  it('hashes identities, reviewer roots and nullifiers as the app does', () => {
+    expect(registry.getLedger().reviewerMerkleRoot).toBe(tree.getRoot());
+    const { pathElements, pathIndices } = tree.getProof(LEAF_INDEX.bob);
+    expect(identityCommitmentFor(IDENTITIES.bob.secret)).toBe(IDENTITIES.bob.commitment);
+    expect(computeMerkleRoot(IDENTITIES.bob.commitment, pathElements, pathIndices.map(index => index === 1)))
+      .toBe(tree.getRoot());
+
+    for (const [scope, scopeValue] of [[NULLIFIER_SCOPE.PER_EPOCH, 3n], [NULLIFIER_SCOPE.LIFETIME, 0n], [NULLIFIER_SCOPE.PER_VERSION, 2n]] as const) {
+      const context = { dappAddress: DAPP_ADDRESS, scope: NULLIFIER_SCOPE[scope] as NullifierScope, epoch: 3, version: 2 };
+      const nullifier = nullifierOf('bob', scope, scopeValue);
+      expect(reviewExternalNullifierFor(scope, ADDRESS_FIELD, scopeValue)).toBe(computeExternalNullifier(context));
+      expect(nullifier).toBe(deriveNullifier(IDENTITIES.bob.secret, context));
+      expect(transientHash(nullifier)).toBe(hashNullifier(deriveNullifier(IDENTITIES.bob.secret, context)));
+    }
+  });
+
+  it('scopes review nullifiers by the deployed nullifier scope', () => {
+    const h = (n: number) => '0x' + contentHash(n);
+
+    registry = deployRegistry(admin, NULLIFIER_SCOPE.PER_VERSION);
+    const first = submit('alice', h(1), 7n, undefined, nullifierOf('alice', NULLIFIER_SCOPE.PER_VERSION, 1n));
+    expect(() => submit('alice', h(2), 7n)).toThrow('Invalid nullifier'); // A PER_EPOCH nullifier
+    expect(() => submit('alice', h(2), 7n, undefined, nullifierOf('alice', NULLIFIER_SCOPE.PER_VERSION, 1n)))
+      .toThrow('Review already submitted');
+    registry.publishDAppVersion(admin, DAPP_ADDRESS);
+    submit('alice', h(2), 7n, undefined, nullifierOf('alice', NULLIFIER_SCOPE.PER_VERSION, 2n));
+
+    // Authorship is checked under the scope the review was submitted with, not the dApp's current version
+    registry.updateReview(reviewers.alice, first, h(3), 5n, [0n, 0n, 0n, 0n]);
+    expect(() => registry.voteHelpful(reviewers.alice, first, helpfulVoteNullifierFor(IDENTITIES.alice.secret, first)))
+      .toThrow('Authors cannot vote on their own reviews');
+    registry.voteHelpful(reviewers.bob, first, helpfulVoteNullifierFor(IDENTITIES.bob.secret, first));
+    expect(() => registry.revokeReview(reviewers.bob, first)).toThrow('Only the author can change this review');
+
+    registry = deployRegistry(admin, NULLIFIER_SCOPE.LIFETIME);
+    submit('bob', h(1), 4n, undefined, nullifierOf('bob', NULLIFIER_SCOPE.LIFETIME));
+    registry.updateEpoch(86400n);
+    expect(() => submit('bob', h(2), 4n, undefined, nullifierOf('bob', NULLIFIER_SCOPE.LIFETIME)))
+      .toThrow('Review already submitted');
+    expect(() => submit('bob', h(2), 4n, undefined, nullifierOf('bob', NULLIFIER_SCOPE.PER_EPOCH, 1n)))
+      .toThrow('Invalid nullifier');
+  });
+
+  it('registers dApps for the admin only, once', () => {
+    const dapp = registry.getDAppInfo(DAPP_ADDRESS);
+    expect(dapp.status).toBe(DAPP_STATUS.ACTIVE);
+    expect(dapp.totalReviews).toBe(0n);
+    expect(registry.getTotalStats()).toEqual([1n, 0n, 0n]);
+
+    expect(() => registry.registerDApp(admin, DAPP_ADDRESS, '0x', '0x', '0x', 0n, '0x')).toThrow('DApp already registered');
+    expect(() => registry.registerDApp(moderator, '0x' + 'd1'.repeat(32), '0x', '0x', '0x', 0n, '0x'))
+      .toThrow('Only admin can register dApps');
+  });
+
+  it('lets only the registered owner key verify the team and respond', () => {
+    const owner: Partial<Witnesses> = { ownerSecretKey: () => OWNER_SECRET };
+    const id = submit('alice', '0x' + contentHash(1), 4n);
+    const responseHash = '0x' + contentHash(2);
+
+    expect(() => registry.respondToReview(owner, id, responseHash)).toThrow('DApp owner not verified');
+    expect(() => registry.verifyProjectOwner({ ownerSecretKey: () => MODERATOR_SECRET }, DAPP_ADDRESS))
+      .toThrow("Only the dApp's owner can do this");
+    registry.verifyProjectOwner(owner, DAPP_ADDRESS);
+    expect(registry.getDAppInfo(DAPP_ADDRESS).ownerVerified).toBe(true);
+    registry.respondToReview(owner, id, responseHash);
+    expect(registry.getLedger().reviewResponses.get(id)).toEqual({ responseHash, hidden: false });
+  });
+
+  it('publishes dApp versions for the admin only', () => {
+    expect(registry.getDAppInfo(DAPP_ADDRESS).version).toBe(1n);
+    registry.publishDAppVersion(admin, DAPP_ADDRESS);
+    expect(registry.getDAppInfo(DAPP_ADDRESS).version).toBe(2n);
+    expect(() => registry.publishDAppVersion(moderator, DAPP_ADDRESS)).toThrow('Only admin can publish dApp versions');
+  });
+
+  it('enrolls reviewers on approval and retires earlier roots when one is revoked', async () => {
+    const carol = deriveIdentity(BigInt(301), BigInt(302));
+    const enrollment = (commitment: bigint) => registry.getLedger().enrollments.get(commitment);
+
+    registry.requestEnrollment(carol.commitment);
+    registry.rejectEnrollment(admin, carol.commitment);
+    expect(enrollment(carol.commitment)!.status).toBe(ENROLLMENT_STATUS.REJECTED);
+    registry.requestEnrollment(carol.commitment); // A rejected commitment may ask again
+    expect(() => registry.approveEnrollment(moderator, carol.commitment)).toThrow('Only admin can approve enrollments');
+    registry.approveEnrollment(admin, carol.commitment);
+    expect(enrollment(carol.commitment)).toEqual({ status: ENROLLMENT_STATUS.APPROVED, leafIndex: 2n });
+
+    // Paths built before an approval still verify
+    expect(registry.isKnownReviewerRoot(tree.getRoot())).toBe(true);
+    submit('alice', '0x' + contentHash(1), 8n);
+
+    registry.revokeEnrollment(admin, IDENTITIES.bob.commitment);
+    expect(enrollment(IDENTITIES.bob.commitment)!.status).toBe(ENROLLMENT_STATUS.REVOKED);
+    const rebuilt = await IncrementalMerkleTree.fromLeaves([IDENTITIES.alice.commitment, 0n, carol.commitment]);
+    expect(registry.getLedger().reviewerMerkleRoot).toBe(rebuilt.getRoot());
+    expect(registry.isKnownReviewerRoot(tree.getRoot())).toBe(false);
+    expect(() => submit('bob', '0x' + contentHash(2), 4n)).toThrow('Invalid reviewer proof');
+
+    registry.requestEnrollment(IDENTITIES.bob.commitment); // Left revoked
+    expect(() => registry.approveEnrollment(admin, IDENTITIES.bob.commitment)).toThrow('Enrollment is not pending');
+  });
+
+  it('adds submitted reviews to the dApp aggregates', () => {
+    const id = submit('alice', '0x' + contentHash(1), 8n, [8n, 0n, 6n, 0n]);
+    submit('bob', '0x' + contentHash(2), 4n);
+
+    const review = registry.getLedger().reviews.get(id)!;
+    expect(review.status).toBe(REVIEW_STATUS.PENDING);
+    expect(review.nullifierHash).toBe(transientHash(nullifierOf('alice')));
+
+    const dapp = registry.getDAppInfo(DAPP_ADDRESS);
+    expect(dapp.totalReviews).toBe(2n);
+    expect(dapp.ratingSum).toBe(12n);
+    expect(dapp.averageRating).toBe(600n);
+    expect(dapp.ratingHistogram[7]).toBe(1n);
+    expect(dapp.ratingHistogram[3]).toBe(1n);
+    expect(dapp.dimensionSums).toEqual([8n, 0n, 6n, 0n]);
+    expect(dapp.dimensionCounts).toEqual([1n, 0n, 1n, 0n]);
+    expect(registry.getTotalStats()[1]).toBe(2n);
+  });
+
+  it('rejects a second review with the same nullifier and leaves the ledger unchanged', () => {
+    submit('alice', '0x' + contentHash(1), 8n);
+    const before = registry.getLedger();
+
+    expect(() => submit('alice', '0x' + contentHash(2), 2n)).toThrow('Review already submitted');
+    expect(registry.getLedger()).toEqual(before);
+    expect(registry.isNullifierUsed(DAPP_ADDRESS, nullifierOf('alice'))).toBe(true);
+  });
+
+  it('rejects reviewers outside the Merkle tree and forged nullifiers', () => {
+    const outsider: Partial<Witnesses> = { ...reviewers.alice, reviewerIdentitySecret: () => BigInt(303) };
+    expect(() => registry.submitReview(outsider, DAPP_ADDRESS, '0x' + contentHash(1), 5n, [0n, 0n, 0n, 0n], '0x', nullifierOf('alice')))
+      .toThrow('Invalid reviewer proof');
+    expect(() => registry.submitReview(reviewers.alice, DAPP_ADDRESS, '0x' + contentHash(1), 5n, [0n, 0n, 0n, 0n], '0x', nullifierOf('bob')))
+      .toThrow('Invalid nullifier');
+  });
+
+  it('takes flagged reviews out of the aggregates until they are unflagged', () => {
+    submit('alice', '0x' + contentHash(1), 8n);
+    const id = submit('bob', '0x' + contentHash(2), 4n);
+
+    registry.flagReview(moderator, id);
+    expect(registry.getLedger().reviews.get(id)!.status).toBe(REVIEW_STATUS.FLAGGED);
+    expect(registry.getDAppInfo(DAPP_ADDRESS).ratingSum).toBe(8n);
+    expect(registry.getTotalStats()[1]).toBe(1n);
+    expect(() => registry.flagReview(moderator, id)).toThrow('Review cannot be flagged');
+
+    registry.unflagReview(moderator, id);
+    expect(registry.getLedger().reviews.get(id)!.status).toBe(REVIEW_STATUS.PENDING);
+    expect(registry.getDAppInfo(DAPP_ADDRESS).ratingSum).toBe(12n);
+    expect(registry.getTotalStats()[1]).toBe(2n);
+    expect(() => registry.unflagReview(moderator, id)).toThrow('Review is not flagged');
+  });
+
+  it('lets only the admin delete reviews', () => {
+    const id = submit('alice', '0x' + contentHash(1), 8n);
+
+    expect(() => registry.deleteReview(moderator, id)).toThrow('Only admin can delete reviews');
+    registry.deleteReview(admin, id);
+    expect(registry.getLedger().reviews.has(id)).toBe(false);
+    expect(registry.getDAppInfo(DAPP_ADDRESS).totalReviews).toBe(0n);
+    // The nullifier stays used, so the review can't simply be resubmitted
+    expect(() => submit('alice', '0x' + contentHash(1), 8n)).toThrow('Review already submitted');
+  });
+
+  it('only takes reviews for active dApps', () => {
+    registry.suspendDApp(admin, DAPP_ADDRESS);
+    expect(() => submit('alice', '0x' + contentHash(1), 8n)).toThrow('DApp not active');
+
+    registry.reactivateDApp(admin, DAPP_ADDRESS);
+    submit('alice', '0x' + contentHash(1), 8n);
+    expect(() => registry.reactivateDApp(admin, DAPP_ADDRESS)).toThrow('DApp already active');
+  });
+
+  it('rejects out-of-range ratings', () => {
+    expect(() => submit('alice', '0x' + contentHash(1), 0n)).toThrow('Rating must be 1-10');
+    expect(() => submit('alice', '0x' + contentHash(1), 11n)).toThrow('Rating must be 1-10');
+    expect(() => submit('alice', '0x' + contentHash(1), 8n, [11n, 0n, 0n, 0n])).toThrow('Dimension ratings must be 0-10');
+    expect(() => submit('alice', '0x' + contentHash(1), 8n, [8n])).toThrow('Expected 4 dimension ratings');
+  });
+
+  it('keeps per-epoch aggregates and takes a new review from the same reviewer in the next epoch', () => {
+    submit('alice', '0x' + contentHash(1), 8n);
+    expect(() => registry.updateEpoch(86399n)).toThrow('Epoch has not ended yet');
+    registry.updateEpoch(86400n);
+
+    submit('alice', '0x' + contentHash(2), 6n, undefined, nullifierOf('alice', NULLIFIER_SCOPE.PER_EPOCH, 1n));
+    const epochRatings = registry.getLedger().epochRatings;
+    expect(epochRatings.get(epochRatingKeyFor(DAPP_ADDRESS, 0n))).toEqual({ reviewCount: 1n, ratingSum: 8n });
+    expect(epochRatings.get(epochRatingKeyFor(DAPP_ADDRESS, 1n))).toEqual({ reviewCount: 1n, ratingSum: 6n });
+  });
+
+  it('lets moderators approve and reject pending reviews', () => {
+    const approved = submit('alice', '0x' + contentHash(1), 8n);
+    const rejected = submit('bob', '0x' + contentHash(2), 4n);
+
+    expect(() => registry.approveReview({ adminSecretKey: () => '0x' + 'cc'.repeat(32) }, approved))
+      .toThrow('Only admin or moderators can moderate reviews');
+    registry.approveReview(moderator, approved);
+    registry.rejectReview(moderator, rejected);
+
+    const reviews = registry.getLedger().reviews;
+    expect(reviews.get(approved)!.status).toBe(REVIEW_STATUS.VERIFIED);
+    expect(reviews.get(rejected)!.status).toBe(REVIEW_STATUS.REJECTED);
+    expect(registry.getDAppInfo(DAPP_ADDRESS).ratingSum).toBe(8n);
+    expect(registry.getTotalStats()[1]).toBe(1n);
+    expect(() => registry.approveReview(moderator, rejected)).toThrow('Review cannot be approved');
+  });
+
+  it('lets the author update a review and keeps the superseded version', () => {
+    const id = submit('alice', '0x' + contentHash(1), 8n);
+    registry.approveReview(moderator, id);
+
+    expect(() => registry.updateReview(reviewers.bob, id, '0x' + contentHash(3), 6n, [0n, 0n, 0n, 0n]))
+      .toThrow('Only the author can change this review');
+
+    registry.updateReview(reviewers.alice, id, '0x' + contentHash(3), 6n, [0n, 0n, 0n, 0n]);
+    const ledger = registry.getLedger();
+    const review = ledger.reviews.get(id)!;
+    expect(review.version).toBe(2n);
+    expect(review.rating).toBe(6n);
+    expect(review.status).toBe(REVIEW_STATUS.PENDING); // Back to moderation
+    expect(ledger.reviewVersions.get(reviewVersionKeyFor(id, 1n))!.rating).toBe(8n);
+    expect(registry.getDAppInfo(DAPP_ADDRESS).ratingSum).toBe(6n);
+  });
+
+  it('lets the author revoke a review, after which it is final', () => {
+    const id = submit('alice', '0x' + contentHash(1), 8n);
+    submit('bob', '0x' + contentHash(2), 4n);
+
+    expect(() => registry.revokeReview(reviewers.bob, id)).toThrow('Only the author can change this review');
+    registry.revokeReview(reviewers.alice, id);
+
+    expect(registry.getLedger().reviews.get(id)!.status).toBe(REVIEW_STATUS.REVOKED);
+    expect(registry.getDAppInfo(DAPP_ADDRESS).ratingSum).toBe(4n);
+    expect(registry.getTotalStats()[1]).toBe(1n);
+    expect(() => registry.updateReview(reviewers.alice, id, '0x' + contentHash(3), 6n, [0n, 0n, 0n, 0n]))
+      .toThrow(CircuitAssertionError);
+    expect(() => registry.revokeReview(reviewers.alice, id)).toThrow('Review cannot be revoked');
+  });
+
+  it('counts one helpful vote per identity and none from the author', () => {
+    const id = submit('alice', '0x' + contentHash(1), 8n);
+    const vote = (reviewer: Reviewer) =>
+      registry.voteHelpful(reviewers[reviewer], id, helpfulVoteNullifierFor(IDENTITIES[reviewer].secret, id));
+
+    expect(() => vote('alice')).toThrow('Authors cannot vote on their own reviews');
+    vote('bob');
+    expect(() => vote('bob')).toThrow('Already voted on this review');
+    expect(registry.getLedger().reviews.get(id)!.helpfulVotes).toBe(1n);
+  });
+});
+
+// The same steps against the model and the adapter must be accepted or
+// rejected alike and leave the same aggregates and reviewer root behind. Both
+// hash as the app does; the adapter gets real proofs and verifies them.
+
+type Step =
+  | { op: 'submit'; reviewer: Reviewer; hash: number; rating: number; dimensions?: number[] }
+  | { op: 'update'; reviewer: Reviewer; target: Reviewer; hash: number; rating: number; stale?: true }
+  | { op: 'revoke'; reviewer: Reviewer; target: Reviewer; stale?: true }
+  | { op: 'vote'; voter: Reviewer; target: Reviewer; stale?: true }
+  | { op: 'revokeEnrollment'; reviewer: Reviewer }
+  | { op: 'flag' | 'unflag' | 'delete'; target: Reviewer };
+
+// stale: prove with the Merkle path from before the last revocation
+
+interface Stats {
+  reviewerRoot: string;
+  totalReviews: number;
+  ratingSum: number;
+  averageRating: number;
+  ratingHistogram: number[];
+  dimensionSums: number[];
+  dimensionCounts: number[];
+  statuses: Partial<Record<Reviewer, string>>;
+  helpfulVotes: Partial<Record<Reviewer, number>>;
+}
+
+interface Driver {
+  run(step: Step): Promise<void>;
+  stats(): Promise<Stats>;
+}
+
+async function modelDriver(scope: NullifierScope): Promise<Driver> {
+  const admin: Partial<Witnesses> = { adminSecretKey: () => ADMIN_SECRET };
+  const registry = deployRegistry(admin, NULLIFIER_SCOPE[scope]);
+  const leaves = [IDENTITIES.alice.commitment, IDENTITIES.bob.commitment];
+  let tree = await buildReviewerTree();
+  let staleTree = tree;
+  const witnesses = (reviewer: Reviewer, stale?: true) => reviewerWitnesses(stale ? staleTree : tree, reviewer);
+  const ids: Partial<Record<Reviewer, string>> = {};
+  const toBigints = (values: number[]) => values.map(value => BigInt(value));
+
+  return {
+    async run(step) {
+      switch (step.op) {
+        case 'submit': {
+          const { currentEpoch } = registry.getLedger();
+          const { version } = registry.getDAppInfo(DAPP_ADDRESS);
+          const scopeValue = scope === 'PER_EPOCH' ? currentEpoch : scope === 'PER_VERSION' ? version : 0n;
+          const nullifier = reviewNullifierFor(
+            IDENTITIES[step.reviewer].secret, reviewExternalNullifierFor(NULLIFIER_SCOPE[scope], ADDRESS_FIELD, scopeValue)
+          );
+          const hash = '0x' + contentHash(step.hash);
+          registry.submitReview(
+            witnesses(step.reviewer), DAPP_ADDRESS, hash, BigInt(step.rating),
+            toBigints(step.dimensions ?? NO_DIMENSIONS), '0x', nullifier
+          );
+          ids[step.reviewer] = reviewIdFor(nullifier, hash);
+          return;
+        }
+        case 'update':
+          return registry.updateReview(
+            witnesses(step.reviewer, step.stale), ids[step.target]!, '0x' + contentHash(step.hash), BigInt(step.rating), toBigints(NO_DIMENSIONS)
+          );
+        case 'revoke':
+          return registry.revokeReview(witnesses(step.reviewer, step.stale), ids[step.target]!);
+        case 'vote': {
+          const id = ids[step.target]!;
+          return registry.voteHelpful(
+            witnesses(step.voter, step.stale), id, helpfulVoteNullifierFor(IDENTITIES[step.voter].secret, id)
+          );
+        }
+        case 'revokeEnrollment':
+          registry.revokeEnrollment(admin, IDENTITIES[step.reviewer].commitment);
+          leaves[LEAF_INDEX[step.reviewer]] = 0n;
+          staleTree = tree;
+          tree = await IncrementalMerkleTree.fromLeaves(leaves);
+          return;
+        case 'flag':
+          return registry.flagReview(admin, ids[step.target]!);
+        case 'unflag':
+          return registry.unflagReview(admin, ids[step.target]!);
+        case 'delete':
+          return registry.deleteReview(admin, ids[step.target]!);
+      }
+    },
+
+    async stats() {
+      const dapp = registry.getDAppInfo(DAPP_ADDRESS);
+      const reviews = registry.getLedger().reviews;
+      const statuses: Stats['statuses'] = {};
+      const helpfulVotes: Stats['helpfulVotes'] = {};
+      for (const [reviewer, id] of Object.entries(ids) as Array<[Reviewer, string]>) {
+        const review = reviews.get(id);
+        statuses[reviewer] = review ? REVIEW_STATUS[review.status] : 'DELETED';
+        helpfulVotes[reviewer] = Number(review?.helpfulVotes ?? 0);
+      }
+      return {
+        reviewerRoot: fieldToHex(registry.getLedger().reviewerMerkleRoot),
+        totalReviews: Number(registry.getTotalStats()[1]),
+        ratingSum: Number(dapp.ratingSum),
+        averageRating: Number(dapp.averageRating),
+        ratingHistogram: dapp.ratingHistogram.map(Number),
+        dimensionSums: dapp.dimensionSums.map(Number),
+        dimensionCounts: dapp.dimensionCounts.map(Number),
+        statuses,
+        helpfulVotes
+      };
+    }
+  };
+}
+
+async function adapterDriver(scope: NullifierScope): Promise<Driver> {
+  const { privateKey: adminKeyBase64, publicKey: adminPublicKey } = await generateSigningKeyPair();
+  const { privateKey: adminKey } = await importSigningKey(adminKeyBase64);
+  const authorize = (operation: AuthorizedOperation, params: AuthParams) =>
+    signAuthorization(adminKey, adminPublicKey, operation, params);
+
+  const adapter = new CompactContractAdapter(scope, adminPublicKey, new MemoryLedgerStore());
+  await adapter.initialize();
+
+  for (const { commitment } of [IDENTITIES.alice, IDENTITIES.bob]) {
+    const key = fieldToHex(commitment);
+    await adapter.requestEnrollment(key);
+    await adapter.approveEnrollment(key, await authorize('approveEnrollment', { commitment: key }));
+  }
+  const ledgerTree = async () => IncrementalMerkleTree.fromLeaves((await adapter.getReviewerLeaves()).map(leaf => BigInt(leaf)));
+  let tree = await ledgerTree();
+  let staleTree = tree;
+
+  await adapter.registerDApp(
+    DAPP_ADDRESS, 'Bridge', 'DeFi',
+    await authorize('registerDApp', {
+      address: DAPP_ADDRESS,
+      name: 'Bridge',
+      category: 'DeFi',
+      metadataHash: hashDAppMetadata({}),
+      ownerKey: ''
+    })
+  );
+  const context = {
+    dappAddress: DAPP_ADDRESS,
+    scope,
+    epoch: await adapter.getCurrentEpoch(),
+    version: (await adapter.getDAppInfo(DAPP_ADDRESS))!.version
+  };
+  const ids: Partial<Record<Reviewer, string>> = {};
+
+  const prove = (reviewer: Reviewer, signal: string, stale?: true) => generateReviewerProof({
+    identitySecret: IDENTITIES[reviewer].secret,
+    merkleProof: (stale ? staleTree : tree).getProof(LEAF_INDEX[reviewer]),
+    externalNullifier: computeExternalNullifier(context),
+    signal
+  });
+  const reviewOf = async (target: Reviewer) =>
+    (await adapter.listReviews(DAPP_ADDRESS)).find(review => review.id === ids[target])!;
+
+  return {
+    async run(step) {
+      switch (step.op) {
+        case 'submit': {
+          const hash = contentHash(step.hash);
+          const nullifier = fieldToHex(deriveNullifier(IDENTITIES[step.reviewer].secret, context));
+          const { reviewId } = await adapter.submitReview(
+            DAPP_ADDRESS, hash, step.rating, step.dimensions ?? NO_DIMENSIONS, '', nullifier, await prove(step.reviewer, hash)
+          );
+          ids[step.reviewer] = reviewId;
+          return;
+        }
+        case 'update': {
+          const review = await reviewOf(step.target);
+          const hash = contentHash(step.hash);
+          const proof = await prove(step.reviewer, computeOwnershipSignal('update', review.id, review.version, hash), step.stale);
+          await adapter.updateReview(review.id, hash, step.rating, NO_DIMENSIONS, proof);
+          return;
+        }
+        case 'revoke': {
+          const review = await reviewOf(step.target);
+          const proof = await prove(step.reviewer, computeOwnershipSignal('revoke', review.id, review.version), step.stale);
+          await adapter.revokeReview(review.id, proof);
+          return;
+        }
+        case 'vote': {
+          const review = await reviewOf(step.target);
+          const { secret } = IDENTITIES[step.voter];
+          const proof = await generateHelpfulVoteProof({
+            identitySecret: secret,
+            merkleProof: (step.stale ? staleTree : tree).getProof(LEAF_INDEX[step.voter]),
+            externalNullifier: computeVoteExternalNullifier(review.id),
+            signal: computeVoteSignal(review.id),
+            authorScope: parseFieldElement(review.externalNullifier),
+            authorNullifierHash: parseFieldElement(review.nullifierHash)
+          });
+          await adapter.voteHelpful(review.id, fieldToHex(deriveVoteNullifier(secret, review.id)), proof);
+          return;
+        }
+        case 'revokeEnrollment': {
+          const key = fieldToHex(IDENTITIES[step.reviewer].commitment);
+          await adapter.revokeEnrollment(key, await authorize('revokeEnrollment', { commitment: key }));
+          staleTree = tree;
+          tree = await ledgerTree();
+          return;
+        }
+        case 'flag':
+          await adapter.flagReview(ids[step.target]!, await authorize('flagReview', { reviewId: ids[step.target]! }));
+          return;
+        case 'unflag':
+          await adapter.unflagReview(ids[step.target]!, await authorize('unflagReview', { reviewId: ids[step.target]! }));
+          return;
+        case 'delete':
+          await adapter.deleteReview(ids[step.target]!, await authorize('deleteReview', { reviewId: ids[step.target]! }));
+          return;
+      }
+    },
+
+    async stats() {
+      const dapp = (await adapter.getDAppInfo(DAPP_ADDRESS))!;
+      const reviews = await adapter.listReviews(DAPP_ADDRESS);
+      const statuses: Stats['statuses'] = {};
+      const helpfulVotes: Stats['helpfulVotes'] = {};
+      for (const [reviewer, id] of Object.entries(ids) as Array<[Reviewer, string]>) {
+        const review = reviews.find(review => review.id === id);
+        statuses[reviewer] = review?.status ?? 'DELETED';
+        helpfulVotes[reviewer] = review?.helpfulVotes ?? 0;
+      }
+      return {
+        reviewerRoot: await adapter.getReviewerRoot(),
+        totalReviews: (await adapter.getTotalStats()).totalReviews,
+        ratingSum: dapp.ratingSum,
+        averageRating: dapp.averageRating,
+        ratingHistogram: dapp.ratingHistogram,
+        dimensionSums: dapp.dimensionSums,
+        dimensionCounts: dapp.dimensionCounts,
+        statuses,
+        helpfulVotes
+      };
+    }
+  };
+}
+
+async function outcome(driver: Driver, step: Step): Promise<string> {
+  try {
+    await driver.run(step);
+    return 'accepted';
+  } catch {
+    return 'rejected';
+  }
+}
+
+describe('CompactContractAdapter against DAppReviewRegistry', () => {
+  let stopServer: () => void;
+
+  beforeAll(async () => {
+    stopServer = await serveZkArtifacts();
+  });
+
+  afterAll(() => {
+    stopServer();
+  });
+
+  it.each(NULLIFIER_SCOPES)('accepts and rejects the same transactions and keeps the same stats (%s)', async scope => {
+    const steps: Array<[Step, 'accepted' | 'rejected']> = [
+      [{ op: 'submit', reviewer: 'alice', hash: 1, rating: 8, dimensions: [8, 0, 6, 0] }, 'accepted'],
+      [{ op: 'submit', reviewer: 'alice', hash: 2, rating: 2 }, 'rejected'], // Nullifier already used
+      [{ op: 'submit', reviewer: 'bob', hash: 3, rating: 4 }, 'accepted'],
+      [{ op: 'vote', voter: 'bob', target: 'alice' }, 'accepted'],
+      [{ op: 'vote', voter: 'bob', target: 'alice' }, 'rejected'], // One vote per identity
+      [{ op: 'vote', voter: 'alice', target: 'alice' }, 'rejected'], // Not on your own review
+      [{ op: 'flag', target: 'bob' }, 'accepted'],
+      [{ op: 'flag', target: 'bob' }, 'rejected'],
+      [{ op: 'vote', voter: 'alice', target: 'bob' }, 'rejected'], // Flagged reviews aren't published
+      [{ op: 'unflag', target: 'bob' }, 'accepted'],
+      [{ op: 'vote', voter: 'alice', target: 'bob' }, 'accepted'],
+      [{ op: 'revokeEnrollment', reviewer: 'bob' }, 'accepted'],
+      [{ op: 'revokeEnrollment', reviewer: 'bob' }, 'rejected'],
+      [{ op: 'update', reviewer: 'bob', target: 'bob', hash: 7, rating: 3, stale: true }, 'rejected'], // Root retired
+      [{ op: 'update', reviewer: 'bob', target: 'bob', hash: 7, rating: 3 }, 'rejected'], // Leaf zeroed
+      [{ op: 'update', reviewer: 'alice', target: 'alice', hash: 5, rating: 6, stale: true }, 'rejected'],
+      [{ op: 'update', reviewer: 'bob', target: 'alice', hash: 4, rating: 2 }, 'rejected'], // Not the author
+      [{ op: 'update', reviewer: 'alice', target: 'alice', hash: 5, rating: 6 }, 'accepted'],
+      [{ op: 'revoke', reviewer: 'bob', target: 'alice' }, 'rejected'],
+      [{ op: 'revoke', reviewer: 'alice', target: 'alice' }, 'accepted'],
+      [{ op: 'update', reviewer: 'alice', target: 'alice', hash: 6, rating: 10 }, 'rejected'], // Revoked is final
+      [{ op: 'delete', target: 'bob' }, 'accepted'],
+      [{ op: 'unflag', target: 'bob' }, 'rejected']
+    ];
+
+    const model = await modelDriver(scope);
+    const adapter = await adapterDriver(scope);
+
+    for (const [step, expected] of steps) {
+      expect([await outcome(model, step), await outcome(adapter, step)], JSON.stringify(step)).toEqual([expected, expected]);
+      expect(await adapter.stats(), JSON.stringify(step)).toEqual(await model.stats());
+    }
+
+    expect(await model.stats()).toMatchObject({
+      totalReviews: 0,
+      ratingSum: 0,
+      statuses: { alice: 'REVOKED', bob: 'DELETED' }
+    });
+  }, 120_000);
+});
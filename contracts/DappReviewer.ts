@@ -1,514 +1,882 @@
-// DAppReviewRegistry Smart Contract for Midnight Network
-// Manages dApp registrations, verified reviews with ZK proofs, and reputation system
-
-// Note: This is a conceptual implementation for the Midnight Network
-// Actual implementation would use Midnight's specific SDK and runtime
-
-export interface Field {
-  value: bigint;
-  add(other: Field): Field;
-  div(other: Field): Field;
-  mod(other: Field): Field;
-  pow(exp: number): Field;
-  equals(other: Field): boolean;
-  assertEquals(other: Field, message: string): void;
+// DAppReviewRegistry - executable reference model of dapp_reviewer.compact
+//
+// Mirrors the compact contract's ledger, witnesses and circuits one-to-one so
+// the adapter and UI can be checked against the contract's exact semantics.
+// Each exported circuit is a method of the same name and each internal
+// circuit a private method. Bytes<N> values are 0x-prefixed lowercase hex
+// strings and Unsigned and Field values are bigints. A failed assert throws
+// CircuitAssertionError with the contract's message and, like a rejected
+// transaction, leaves the ledger unchanged.
+//
+// Reviewer identities, the reviewer Merkle tree and review nullifiers are
+// Field values hashed with transientHash, which the model computes with the
+// circuits' Poseidon (src/lib/poseidon.ts). Commitments, roots and nullifiers
+// are therefore the values the app derives and its proofs carry.
+//
+// Reputation is not part of the contract; it is scored off-chain from these
+// aggregates (src/lib/reputation.ts).
+
+import SHA256 from 'crypto-js/sha256';
+import Hex from 'crypto-js/enc-hex';
+import { poseidon, toField } from '../src/lib/poseidon';
+
+export type Bytes = string; // 0x-prefixed lowercase hex
+export type Field = bigint; // Reduced modulo the BN254 scalar field
+
+export enum DAPP_STATUS {
+  INACTIVE,
+  ACTIVE,
+  SUSPENDED,
+}
+
+export enum REVIEW_STATUS {
+  PENDING,
+  VERIFIED,
+  FLAGGED,
+  REJECTED,
+  REVOKED, // Withdrawn by its author
+}
+
+// How often a reviewer may review the same dApp (nullifier.ts NullifierScope)
+export enum NULLIFIER_SCOPE {
+  PER_EPOCH, // Once per epoch
+  LIFETIME, // Once ever
+  PER_VERSION, // Once per published version
+}
+
+export enum ENROLLMENT_STATUS {
+  PENDING,
+  APPROVED,
+  REJECTED,
+  REVOKED, // Leaf zeroed
+}
+
+export const MERKLE_DEPTH = 20;
+const ROOT_HISTORY_SIZE = 15; // Earlier roots accepted besides the current one
+const RATING_BUCKETS = 10;
+export const DIMENSION_SLOTS = 4;
+
+export interface DAppInfo {
+  address: Bytes; // Bytes<32>
+  name: Bytes; // Bytes<32>, see encodeBytes
+  category: Bytes; // Bytes<16>
+  metadataHash: Bytes; // Bytes<32>, hash of the off-chain catalog metadata
+  addressField: Field; // The address as review nullifiers are scoped to it (nullifier.ts stringToField)
+  registrationEpoch: bigint;
+  version: bigint; // 1 at registration, +1 per published version
+  status: DAPP_STATUS;
+  totalReviews: bigint;
+  ratingSum: bigint;
+  ratingHistogram: bigint[]; // index = rating - 1
+  averageRating: bigint; // ratingSum * 100 / totalReviews
+  dimensionSums: bigint[]; // Per dimension slot, over published reviews that rated it
+  dimensionCounts: bigint[];
+  ownerKey: Bytes; // ownerKeyFor(the team's secret), given at registration
+  ownerVerified: boolean; // The team proved it holds the owner key
+}
+
+export interface EpochRatingAggregate {
+  reviewCount: bigint;
+  ratingSum: bigint;
 }
 
-export interface Bool {
-  value: boolean;
-  and(other: Bool): Bool;
-  assertTrue(message: string): void;
-  assertFalse(message: string): void;
-  toBoolean(): boolean;
+export interface ReviewRecord {
+  dappAddress: Bytes;
+  reviewHash: Bytes;
+  rating: bigint; // 1-10
+  dimensionRatings: bigint[]; // 1-10 per dimension slot, 0 = not rated
+  epoch: bigint;
+  timestamp: bigint;
+  nullifierHash: Field; // transientHash(nullifier)
+  externalNullifier: Field; // Scope the nullifier was derived under
+  interactionProof: Bytes;
+  status: REVIEW_STATUS;
+  version: bigint; // 1 for the original, +1 per author update
+  helpfulVotes: bigint;
 }
 
-export interface PublicKey {
-  x: Field;
-  y: Field;
+// An identity commitment's place in the reviewer enrollment queue
+export interface Enrollment {
+  status: ENROLLMENT_STATUS;
+  leafIndex: bigint; // Slot in the reviewer tree once approved
 }
 
-// Struct for dApp registration
-export class DAppInfo {
-  address: Field;
-  name: string;
-  category: string;
-  description: string;
-  website: string;
-  github: string;
-  registrationEpoch: Field;
-  isActive: Bool;
-  totalReviews: Field;
-  averageRating: Field;
-  reputationScore: Field;
-  
-  constructor(
-    address: Field,
-    name: string,
-    category: string,
-    description: string,
-    website: string,
-    github: string,
-    epoch: Field
-  ) {
-    this.address = address;
-    this.name = name;
-    this.category = category;
-    this.description = description;
-    this.website = website;
-    this.github = github;
-    this.registrationEpoch = epoch;
-    this.isActive = { value: true } as Bool;
-    this.totalReviews = this.createField(0);
-    this.averageRating = this.createField(0);
-    this.reputationScore = this.createField(0);
-  }
-  
-  private createField(value: number): Field {
-    return {
-      value: BigInt(value),
-      add: function(other: Field) { return { value: this.value + other.value } as Field; },
-      div: function(other: Field) { return { value: this.value / other.value } as Field; },
-      mod: function(other: Field) { return { value: this.value % other.value } as Field; },
-      pow: function(exp: number) { return { value: this.value ** BigInt(exp) } as Field; },
-      equals: function(other: Field) { return this.value === other.value; },
-      assertEquals: function(other: Field, msg: string) { if (!this.equals(other)) throw new Error(msg); }
-    } as Field;
+// A superseded version of a review
+export interface ReviewVersion {
+  reviewHash: Bytes;
+  rating: bigint;
+  dimensionRatings: bigint[];
+  timestamp: bigint;
+}
+
+// The project team's reply to a review; its text is stored alongside
+export interface ReviewResponse {
+  responseHash: Bytes;
+  hidden: boolean; // Set by moderators
+}
+
+export interface Ledger {
+  adminPublicKey: Bytes;
+  nullifierScope: NULLIFIER_SCOPE;
+  reviewerMerkleRoot: Field;
+  reviewerRootHistory: Field[]; // ROOT_HISTORY_SIZE earlier roots, newest first, 0 = empty slot
+  reviewerTreeNodes: Map<Bytes, Field>; // key = reviewerNodeKeyFor(level, index)
+  reviewerLeafCount: bigint;
+  enrollments: Map<Field, Enrollment>; // key = identity commitment
+  genesisTime: bigint; // Block time (seconds) at which epoch 0 started
+  epochDuration: bigint; // Seconds
+  currentEpoch: bigint;
+  totalDApps: bigint; // Counter
+  totalReviews: bigint; // Counter
+  dapps: Map<Bytes, DAppInfo>;
+  reviews: Map<Bytes, ReviewRecord>;
+  reviewVersions: Map<Bytes, ReviewVersion>; // key = reviewVersionKeyFor(review ID, version)
+  reviewResponses: Map<Bytes, ReviewResponse>; // key = review ID
+  epochRatings: Map<Bytes, EpochRatingAggregate>; // key = epochRatingKeyFor(dApp, epoch)
+  usedNullifiers: Set<Bytes>;
+  usedVoteNullifiers: Set<Bytes>; // key = persistentHash(review ID, vote nullifier, 'helpful')
+  moderators: Set<Bytes>;
+}
+
+// Private inputs supplied by the caller, as in the compact `witness` declarations
+export interface Witnesses {
+  adminSecretKey(): Bytes;
+  ownerSecretKey(): Bytes; // Project team's secret behind a dApp's owner key
+  reviewerIdentitySecret(): Field;
+  reviewerMerklePath(): Field[]; // MERKLE_DEPTH siblings, leaf level first
+  reviewerMerkleIndices(): boolean[]; // true = current node is the right child
+  reviewContent(): unknown;
+}
+
+export class CircuitAssertionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CircuitAssertionError';
   }
 }
 
-// Struct for storing nullifier with dApp and epoch context
-export class ReviewNullifierRecord {
-  epoch: Field;
-  dappAddress: Field;
-  nullifier: Field;
-  used: Bool;
-  
-  constructor(epoch: Field, dappAddress: Field, nullifier: Field, used: Bool) {
-    this.epoch = epoch;
-    this.dappAddress = dappAddress;
-    this.nullifier = nullifier;
-    this.used = used;
+function assert(condition: boolean, message: string): asserts condition {
+  if (!condition) {
+    throw new CircuitAssertionError(message);
   }
 }
 
-// Struct for encrypted review data
-export class VerifiedReview {
-  dappAddress: Field;
-  reviewHash: Field;
-  rating: Field;
-  epoch: Field;
-  timestamp: Field;
-  nullifierHash: Field;
-  interactionProofHash: Field;
-  zkProof: ZKProof;
-  encryptedContent: string;
-  
-  constructor(
-    dappAddress: Field,
-    reviewHash: Field,
-    rating: Field,
-    epoch: Field,
-    timestamp: Field,
-    nullifierHash: Field,
-    interactionProofHash: Field,
-    zkProof: ZKProof,
-    encryptedContent: string
-  ) {
-    this.dappAddress = dappAddress;
-    this.reviewHash = reviewHash;
-    this.rating = rating;
-    this.epoch = epoch;
-    this.timestamp = timestamp;
-    this.nullifierHash = nullifierHash;
-    this.interactionProofHash = interactionProofHash;
-    this.zkProof = zkProof;
-    this.encryptedContent = encryptedContent;
+// Unsigned arithmetic can't go below zero
+function sub(a: bigint, b: bigint): bigint {
+  assert(a >= b, 'Unsigned underflow');
+  return a - b;
+}
+
+function toHex(part: string | bigint): string {
+  if (typeof part === 'bigint') {
+    return part.toString(16).padStart(64, '0');
   }
+  if (/^0x([0-9a-fA-F]{2})*$/.test(part)) {
+    return part.slice(2).toLowerCase();
+  }
+  return Array.from(new TextEncoder().encode(part), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// std.persistentHash over the concatenation of its arguments: the compact
+// `persistentHash(a + b, c)` is `persistentHash(a, b, c)` here. Hex strings are
+// raw bytes, other strings UTF-8 and Unsigned values 32-byte big-endian.
+export function persistentHash(...parts: Array<string | bigint>): Bytes {
+  return '0x' + SHA256(Hex.parse(parts.map(toHex).join(''))).toString(Hex);
 }
 
-// ZK Proof structure for review verification
-export class ZKProof {
-  pi_a: string[];
-  pi_b: string[][];
-  pi_c: string[];
-  protocol: string;
-  publicInputs: Field[]; // [merkleRoot, epoch, nullifier, dappAddress, reviewHash, interactionProof]
-  
-  constructor(pi_a: string[], pi_b: string[][], pi_c: string[], protocol: string, publicInputs: Field[]) {
-    this.pi_a = pi_a;
-    this.pi_b = pi_b;
-    this.pi_c = pi_c;
-    this.protocol = protocol;
-    this.publicInputs = publicInputs;
-  }
-  
-  verify(): Bool {
-    // Placeholder for actual proof verification using Midnight verifier
-    // Would verify the DAppReviewRLN circuit proof
-    return { value: true } as Bool;
+// std.transientHash over Field values: the circuits' Poseidon
+export function transientHash(...inputs: Field[]): Field {
+  return poseidon(inputs);
+}
+
+// std.degradeToTransient: a Bytes<32> value as a Field
+export const degradeToTransient = (value: Bytes): Field => toField(value);
+
+// Text as a fixed-width Bytes<N> value, zero padded (e.g. dApp names as Bytes<32>)
+export function encodeBytes(text: string, length: number): Bytes {
+  const hex = toHex(text);
+  if (hex.length > length * 2) {
+    throw new Error(`"${text}" does not fit in Bytes<${length}>`);
+  }
+  return '0x' + hex.padEnd(length * 2, '0');
+}
+
+export const adminPublicKeyFor = (adminSecret: Bytes): Bytes => persistentHash('admin', adminSecret);
+export const moderatorPublicKeyFor = (secret: Bytes): Bytes => persistentHash('moderator', secret);
+export const ownerKeyFor = (ownerSecret: Bytes): Bytes => persistentHash('owner', ownerSecret);
+export const identityCommitmentFor = (identitySecret: Field): Field => transientHash(identitySecret);
+
+// Scope tags as in nullifier.ts: 1-3 scope a review to its dApp (NULLIFIER_SCOPE + 1), 4 a vote to its review
+const HELPFUL_VOTE_TAG = 4n;
+
+// scopeValue is the epoch for PER_EPOCH, the dApp version for PER_VERSION and 0 for LIFETIME
+export const reviewExternalNullifierFor = (scope: NULLIFIER_SCOPE, addressField: Field, scopeValue: bigint): Field =>
+  transientHash(BigInt(scope) + 1n, addressField, scopeValue);
+
+export const reviewNullifierFor = (identitySecret: Field, externalNullifier: Field): Field =>
+  transientHash(identitySecret, externalNullifier);
+
+export const helpfulVoteNullifierFor = (identitySecret: Field, reviewId: Bytes): Field =>
+  transientHash(identitySecret, transientHash(HELPFUL_VOTE_TAG, degradeToTransient(reviewId)));
+
+export const reviewIdFor = (nullifier: Field, reviewHash: Bytes): Bytes => persistentHash(nullifier, reviewHash, '');
+
+export const reviewVersionKeyFor = (reviewId: Bytes, version: bigint): Bytes =>
+  persistentHash(reviewId, version, 'reviewVersions');
+
+export const epochRatingKeyFor = (dappAddress: Bytes, epoch: bigint): Bytes =>
+  persistentHash(dappAddress, epoch, 'epochRatings');
+
+export const reviewerNodeKeyFor = (level: bigint, index: bigint): Bytes =>
+  persistentHash(level, index, 'reviewerTree');
+
+// Root reached from a leaf, as verifyMerkleProof computes it
+export function computeMerkleRoot(leaf: Field, path: Field[], indices: boolean[]): Field {
+  let current = leaf;
+  for (let i = 0; i < MERKLE_DEPTH; i++) {
+    current = indices[i]
+      ? transientHash(path[i], current)
+      : transientHash(current, path[i]);
   }
+  return current;
+}
+
+function missingWitness(name: keyof Witnesses): never {
+  throw new Error(`Witness ${name} was not provided`);
 }
 
-// Main contract for dApp review registry
 export class DAppReviewRegistry {
-  // State variables
-  private reviewerMerkleRoot: Field;
-  private epochDuration: Field;
-  private currentEpoch: Field;
-  private totalDApps: Field;
-  private totalReviews: Field;
-  
-  // Storage maps
-  private registeredDApps: Map<string, DAppInfo>;
-  private usedNullifiers: Map<string, ReviewNullifierRecord>;
-  private reviewsByDApp: Map<string, VerifiedReview[]>;
-  private reviewsByEpoch: Map<string, VerifiedReview[]>;
-  
-  // Access control
-  private adminKey: PublicKey;
-  private moderatorKeys: Set<string>;
-  
-  // Event emitter
-  private events: any[] = [];
-  
-  constructor() {
-    this.registeredDApps = new Map();
-    this.usedNullifiers = new Map();
-    this.reviewsByDApp = new Map();
-    this.reviewsByEpoch = new Map();
-    this.moderatorKeys = new Set();
-    this.totalDApps = this.createField(0);
-    this.totalReviews = this.createField(0);
-  }
-  
-  // Initialize contract
-  init(
-    initialReviewerRoot: Field,
-    adminKey: PublicKey,
-    epochDurationSeconds: Field
-  ) {
-    this.reviewerMerkleRoot = initialReviewerRoot;
-    this.adminKey = adminKey;
-    this.epochDuration = epochDurationSeconds;
-    this.currentEpoch = this.calculateEpoch();
-  }
-  
-  // Register a new dApp
-  registerDApp(
-    dappAddress: Field,
-    name: string,
-    category: string,
-    description: string,
-    website: string,
-    github: string,
-    adminSignature: Signature
-  ): boolean {
-    // Verify admin signature
-    if (!this.verifyAdmin(adminSignature)) {
-      throw new Error('Unauthorized');
-    }
-    
-    const addressKey = dappAddress.value.toString();
-    
-    // Check if dApp already registered
-    if (this.registeredDApps.has(addressKey)) {
-      throw new Error('DApp already registered');
+  private ledger: Ledger;
+
+  constructor(adminKey: Bytes, genesis: bigint, epochDur: bigint, scope: NULLIFIER_SCOPE) {
+    // The reviewer tree starts empty
+    let emptyRoot = 0n;
+    for (let level = 0; level < MERKLE_DEPTH; level++) {
+      emptyRoot = transientHash(emptyRoot, emptyRoot);
     }
-    
-    // Create dApp info
-    const dappInfo = new DAppInfo(
-      dappAddress,
-      name,
-      category,
-      description,
-      website,
-      github,
-      this.currentEpoch
-    );
-    
-    this.registeredDApps.set(addressKey, dappInfo);
-    this.totalDApps = this.createField(Number(this.totalDApps.value) + 1);
-    
-    this.emitEvent('DAppRegistered', { dappAddress, name, category });
-    
-    return true;
-  }
-  
-  // Submit a verified review with ZK proof
+
+    this.ledger = {
+      adminPublicKey: adminKey,
+      nullifierScope: scope,
+      reviewerMerkleRoot: emptyRoot,
+      reviewerRootHistory: new Array<Field>(ROOT_HISTORY_SIZE).fill(0n),
+      reviewerTreeNodes: new Map(),
+      reviewerLeafCount: 0n,
+      enrollments: new Map(),
+      genesisTime: genesis,
+      epochDuration: epochDur,
+      currentEpoch: 0n,
+      totalDApps: 0n,
+      totalReviews: 0n,
+      dapps: new Map(),
+      reviews: new Map(),
+      reviewVersions: new Map(),
+      reviewResponses: new Map(),
+      epochRatings: new Map(),
+      usedNullifiers: new Set(),
+      usedVoteNullifiers: new Set(),
+      moderators: new Set(),
+    };
+  }
+
+  // Snapshot of the public ledger state
+  getLedger(): Ledger {
+    return structuredClone(this.ledger);
+  }
+
+  // blockTime stands in for the block time that the contract's blockTimeGte checks
+  updateEpoch(blockTime: bigint): void {
+    this.transact(() => {
+      const nextEpoch = this.ledger.currentEpoch + 1n;
+      assert(blockTime >= this.ledger.genesisTime + nextEpoch * this.ledger.epochDuration, 'Epoch has not ended yet');
+      this.ledger.currentEpoch = nextEpoch;
+    });
+  }
+
+  advanceEpoch(witnesses: Partial<Witnesses>, blockTime: bigint, now: bigint): void {
+    this.transact(() => {
+      this.assertAdmin(witnesses, 'Only admin can advance the epoch');
+      assert(blockTime >= now, 'Advance time is in the future');
+
+      const nextEpoch = this.ledger.currentEpoch + 1n;
+      assert(now >= nextEpoch * this.ledger.epochDuration, 'Advance time precedes the schedule');
+      this.ledger.currentEpoch = nextEpoch;
+      this.ledger.genesisTime = now - nextEpoch * this.ledger.epochDuration;
+    });
+  }
+
+  registerDApp(
+    witnesses: Partial<Witnesses>,
+    dappAddress: Bytes,
+    name: Bytes,
+    category: Bytes,
+    metadataHash: Bytes,
+    addressField: Field,
+    ownerKey: Bytes
+  ): void {
+    this.transact(() => {
+      this.assertAdmin(witnesses, 'Only admin can register dApps');
+      assert(!this.ledger.dapps.has(dappAddress), 'DApp already registered');
+
+      this.ledger.dapps.set(dappAddress, {
+        address: dappAddress,
+        name,
+        category,
+        metadataHash,
+        addressField,
+        registrationEpoch: this.ledger.currentEpoch,
+        version: 1n,
+        status: DAPP_STATUS.ACTIVE,
+        totalReviews: 0n,
+        ratingSum: 0n,
+        ratingHistogram: new Array<bigint>(RATING_BUCKETS).fill(0n),
+        averageRating: 0n,
+        dimensionSums: new Array<bigint>(DIMENSION_SLOTS).fill(0n),
+        dimensionCounts: new Array<bigint>(DIMENSION_SLOTS).fill(0n),
+        ownerKey,
+        ownerVerified: false,
+      });
+      this.ledger.totalDApps = this.ledger.totalDApps + 1n;
+    });
+  }
+
+  publishDAppVersion(witnesses: Partial<Witnesses>, dappAddress: Bytes): void {
+    this.transact(() => {
+      this.assertAdmin(witnesses, 'Only admin can publish dApp versions');
+      assert(this.ledger.dapps.has(dappAddress), 'DApp not registered');
+
+      const dappInfo = this.ledger.dapps.get(dappAddress)!;
+      dappInfo.version = dappInfo.version + 1n;
+    });
+  }
+
+  suspendDApp(witnesses: Partial<Witnesses>, dappAddress: Bytes): void {
+    this.transact(() => {
+      this.assertAdmin(witnesses, 'Only admin can suspend dApps');
+      assert(this.ledger.dapps.has(dappAddress), 'DApp not registered');
+      assert(this.ledger.dapps.get(dappAddress)!.status === DAPP_STATUS.ACTIVE, 'DApp not active');
+
+      this.setDAppStatus(dappAddress, DAPP_STATUS.SUSPENDED);
+    });
+  }
+
+  reactivateDApp(witnesses: Partial<Witnesses>, dappAddress: Bytes): void {
+    this.transact(() => {
+      this.assertAdmin(witnesses, 'Only admin can reactivate dApps');
+      assert(this.ledger.dapps.has(dappAddress), 'DApp not registered');
+      assert(this.ledger.dapps.get(dappAddress)!.status !== DAPP_STATUS.ACTIVE, 'DApp already active');
+
+      this.setDAppStatus(dappAddress, DAPP_STATUS.ACTIVE);
+    });
+  }
+
+  deactivateDApp(witnesses: Partial<Witnesses>, dappAddress: Bytes): void {
+    this.transact(() => {
+      this.assertAdmin(witnesses, 'Only admin can deactivate dApps');
+      assert(this.ledger.dapps.has(dappAddress), 'DApp not registered');
+      assert(this.ledger.dapps.get(dappAddress)!.status !== DAPP_STATUS.INACTIVE, 'DApp already inactive');
+
+      this.setDAppStatus(dappAddress, DAPP_STATUS.INACTIVE);
+    });
+  }
+
   submitReview(
-    dappAddress: Field,
-    reviewHash: Field,
-    rating: Field,
-    interactionProof: Field,
-    epoch: Field,
-    nullifier: Field,
-    proof: ZKProof,
-    encryptedContent: string
-  ): boolean {
-    // Verify dApp is registered
-    const dappKey = dappAddress.value.toString();
-    if (!this.registeredDApps.has(dappKey)) {
-      throw new Error('DApp not registered');
-    }
-    
-    // Get current state
-    const currentEpoch = this.calculateEpoch();
-    
-    // Verify epoch matches current (allow some tolerance)
-    const epochDiff = Number(currentEpoch.value - epoch.value);
-    if (Math.abs(epochDiff) > 1) {
-      throw new Error('Invalid epoch');
-    }
-    
-    // Check nullifier hasn't been used for this dApp in this epoch
-    const nullifierKey = `${epoch.value}-${dappAddress.value}-${nullifier.value}`;
-    if (this.usedNullifiers.has(nullifierKey)) {
-      throw new Error('Review already submitted for this dApp in current epoch');
-    }
-    
-    // Verify rating is in valid range (1-10)
-    if (Number(rating.value) < 1 || Number(rating.value) > 10) {
-      throw new Error('Invalid rating range');
+    witnesses: Partial<Witnesses>,
+    dappAddress: Bytes,
+    reviewHash: Bytes,
+    rating: bigint,
+    dimensionRatings: bigint[],
+    interactionProof: Bytes,
+    nullifier: Field
+  ): void {
+    this.transact(() => {
+      assert(this.ledger.dapps.has(dappAddress), 'DApp not registered');
+      assert(this.ledger.dapps.get(dappAddress)!.status === DAPP_STATUS.ACTIVE, 'DApp not active');
+
+      assert(rating >= 1n && rating <= 10n, 'Rating must be 1-10');
+      assert(dimensionRatings.length === DIMENSION_SLOTS, 'Expected 4 dimension ratings');
+      for (const dimensionRating of dimensionRatings) {
+        assert(dimensionRating >= 0n && dimensionRating <= 10n, 'Dimension ratings must be 0-10');
+      }
+
+      const nullifierKey = persistentHash(dappAddress, nullifier, '');
+      assert(!this.ledger.usedNullifiers.has(nullifierKey), 'Review already submitted');
+
+      const identitySecret = (witnesses.reviewerIdentitySecret ?? (() => missingWitness('reviewerIdentitySecret')))();
+      const merkleRoot = this.verifyMerkleProof(
+        identityCommitmentFor(identitySecret),
+        (witnesses.reviewerMerklePath ?? (() => missingWitness('reviewerMerklePath')))(),
+        (witnesses.reviewerMerkleIndices ?? (() => missingWitness('reviewerMerkleIndices')))()
+      );
+      assert(this.isKnownReviewerRoot(merkleRoot), 'Invalid reviewer proof');
+
+      const externalNullifier = this.reviewExternalNullifier(this.ledger.dapps.get(dappAddress)!);
+      assert(reviewNullifierFor(identitySecret, externalNullifier) === nullifier, 'Invalid nullifier');
+
+      const review: ReviewRecord = {
+        dappAddress,
+        reviewHash,
+        rating,
+        dimensionRatings: [...dimensionRatings],
+        epoch: this.ledger.currentEpoch,
+        timestamp: this.ledger.currentEpoch * this.ledger.epochDuration,
+        nullifierHash: transientHash(nullifier),
+        externalNullifier,
+        interactionProof,
+        status: REVIEW_STATUS.PENDING,
+        version: 1n,
+        helpfulVotes: 0n,
+      };
+      this.ledger.reviews.set(reviewIdFor(nullifier, reviewHash), review);
+      this.ledger.usedNullifiers.add(nullifierKey);
+
+      this.addDAppRating(review);
+      this.ledger.totalReviews = this.ledger.totalReviews + 1n;
+    });
+  }
+
+  updateReview(
+    witnesses: Partial<Witnesses>,
+    reviewId: Bytes,
+    reviewHash: Bytes,
+    rating: bigint,
+    dimensionRatings: bigint[]
+  ): void {
+    this.transact(() => {
+      const review = this.getReview(reviewId);
+      assert(this.isRevisable(review), 'Review cannot be updated');
+      assert(rating >= 1n && rating <= 10n, 'Rating must be 1-10');
+      assert(dimensionRatings.length === DIMENSION_SLOTS, 'Expected 4 dimension ratings');
+      for (const dimensionRating of dimensionRatings) {
+        assert(dimensionRating >= 0n && dimensionRating <= 10n, 'Dimension ratings must be 0-10');
+      }
+      this.assertReviewAuthor(witnesses, review);
+
+      const published = review.status !== REVIEW_STATUS.FLAGGED;
+      if (published) {
+        this.removeDAppRating(review);
+      }
+
+      this.ledger.reviewVersions.set(reviewVersionKeyFor(reviewId, review.version), {
+        reviewHash: review.reviewHash,
+        rating: review.rating,
+        dimensionRatings: [...review.dimensionRatings],
+        timestamp: review.timestamp,
+      });
+
+      review.reviewHash = reviewHash;
+      review.rating = rating;
+      review.dimensionRatings = [...dimensionRatings];
+      review.timestamp = this.ledger.currentEpoch * this.ledger.epochDuration;
+      review.version = review.version + 1n;
+      if (review.status === REVIEW_STATUS.VERIFIED) {
+        review.status = REVIEW_STATUS.PENDING;
+      }
+
+      if (published) {
+        this.addDAppRating(review);
+      }
+    });
+  }
+
+  revokeReview(witnesses: Partial<Witnesses>, reviewId: Bytes): void {
+    this.transact(() => {
+      const review = this.getReview(reviewId);
+      assert(this.isRevisable(review), 'Review cannot be revoked');
+      this.assertReviewAuthor(witnesses, review);
+
+      if (review.status !== REVIEW_STATUS.FLAGGED) {
+        this.removeDAppRating(review);
+        this.ledger.totalReviews = sub(this.ledger.totalReviews, 1n);
+      }
+      review.status = REVIEW_STATUS.REVOKED;
+    });
+  }
+
+  voteHelpful(witnesses: Partial<Witnesses>, reviewId: Bytes, nullifier: Field): void {
+    this.transact(() => {
+      const review = this.getReview(reviewId);
+      assert(
+        review.status === REVIEW_STATUS.PENDING || review.status === REVIEW_STATUS.VERIFIED,
+        'Only published reviews can be voted on'
+      );
+
+      const voteKey = persistentHash(reviewId, nullifier, 'helpful');
+      assert(!this.ledger.usedVoteNullifiers.has(voteKey), 'Already voted on this review');
+
+      const identitySecret = (witnesses.reviewerIdentitySecret ?? (() => missingWitness('reviewerIdentitySecret')))();
+      const merkleRoot = this.verifyMerkleProof(
+        identityCommitmentFor(identitySecret),
+        (witnesses.reviewerMerklePath ?? (() => missingWitness('reviewerMerklePath')))(),
+        (witnesses.reviewerMerkleIndices ?? (() => missingWitness('reviewerMerkleIndices')))()
+      );
+      assert(this.isKnownReviewerRoot(merkleRoot), 'Invalid reviewer proof');
+
+      assert(helpfulVoteNullifierFor(identitySecret, reviewId) === nullifier, 'Invalid nullifier');
+
+      const authorNullifier = reviewNullifierFor(identitySecret, review.externalNullifier);
+      assert(transientHash(authorNullifier) !== review.nullifierHash, 'Authors cannot vote on their own reviews');
+
+      review.helpfulVotes = review.helpfulVotes + 1n;
+      this.ledger.usedVoteNullifiers.add(voteKey);
+    });
+  }
+
+  verifyProjectOwner(witnesses: Partial<Witnesses>, dappAddress: Bytes): void {
+    this.transact(() => {
+      this.assertProjectOwner(witnesses, dappAddress);
+      this.ledger.dapps.get(dappAddress)!.ownerVerified = true;
+    });
+  }
+
+  respondToReview(witnesses: Partial<Witnesses>, reviewId: Bytes, responseHash: Bytes): void {
+    this.transact(() => {
+      const review = this.getReview(reviewId);
+      assert(this.ledger.dapps.get(review.dappAddress)!.ownerVerified, 'DApp owner not verified');
+      this.assertProjectOwner(witnesses, review.dappAddress);
+      assert(
+        review.status === REVIEW_STATUS.PENDING || review.status === REVIEW_STATUS.VERIFIED,
+        'Only published reviews can be responded to'
+      );
+      assert(!this.ledger.reviewResponses.has(reviewId), 'Review already has a response');
+
+      this.ledger.reviewResponses.set(reviewId, { responseHash, hidden: false });
+    });
+  }
+
+  hideResponse(witnesses: Partial<Witnesses>, reviewId: Bytes): void {
+    this.transact(() => {
+      this.assertModerator(witnesses);
+      this.setResponseHidden(reviewId, true);
+    });
+  }
+
+  restoreResponse(witnesses: Partial<Witnesses>, reviewId: Bytes): void {
+    this.transact(() => {
+      this.assertModerator(witnesses);
+      this.setResponseHidden(reviewId, false);
+    });
+  }
+
+  // Anyone may queue a commitment; a rejected one may ask again, anything else is left as it is
+  requestEnrollment(commitment: Field): void {
+    this.transact(() => {
+      const existing = this.ledger.enrollments.get(commitment);
+      if (existing === undefined || existing.status === ENROLLMENT_STATUS.REJECTED) {
+        this.ledger.enrollments.set(commitment, { status: ENROLLMENT_STATUS.PENDING, leafIndex: 0n });
+      }
+    });
+  }
+
+  approveEnrollment(witnesses: Partial<Witnesses>, commitment: Field): void {
+    this.transact(() => {
+      this.assertAdmin(witnesses, 'Only admin can approve enrollments');
+      const enrollment = this.getEnrollment(commitment);
+      assert(enrollment.status === ENROLLMENT_STATUS.PENDING, 'Enrollment is not pending');
+      assert(this.ledger.reviewerLeafCount < 2n ** BigInt(MERKLE_DEPTH), 'Reviewer tree is full');
+
+      const leafIndex = this.ledger.reviewerLeafCount;
+      this.ledger.reviewerLeafCount = leafIndex + 1n;
+      this.publishReviewerRoot(this.setReviewerLeaf(leafIndex, commitment), false);
+      enrollment.status = ENROLLMENT_STATUS.APPROVED;
+      enrollment.leafIndex = leafIndex;
+    });
+  }
+
+  rejectEnrollment(witnesses: Partial<Witnesses>, commitment: Field): void {
+    this.transact(() => {
+      this.assertAdmin(witnesses, 'Only admin can reject enrollments');
+      const enrollment = this.getEnrollment(commitment);
+      assert(enrollment.status === ENROLLMENT_STATUS.PENDING, 'Enrollment is not pending');
+      enrollment.status = ENROLLMENT_STATUS.REJECTED;
+    });
+  }
+
+  // Zeroes the leaf. Every earlier root still holds it, so they are all retired
+  revokeEnrollment(witnesses: Partial<Witnesses>, commitment: Field): void {
+    this.transact(() => {
+      this.assertAdmin(witnesses, 'Only admin can revoke enrollments');
+      const enrollment = this.getEnrollment(commitment);
+      assert(enrollment.status === ENROLLMENT_STATUS.APPROVED, 'Enrollment is not approved');
+
+      this.publishReviewerRoot(this.setReviewerLeaf(enrollment.leafIndex, 0n), true);
+      enrollment.status = ENROLLMENT_STATUS.REVOKED;
+    });
+  }
+
+  addModerator(witnesses: Partial<Witnesses>, moderatorKey: Bytes): void {
+    this.transact(() => {
+      this.assertAdmin(witnesses, 'Only admin can add moderators');
+      this.ledger.moderators.add(moderatorKey);
+    });
+  }
+
+  removeModerator(witnesses: Partial<Witnesses>, moderatorKey: Bytes): void {
+    this.transact(() => {
+      this.assertAdmin(witnesses, 'Only admin can remove moderators');
+      assert(this.ledger.moderators.has(moderatorKey), 'Moderator not found');
+      this.ledger.moderators.delete(moderatorKey);
+    });
+  }
+
+  approveReview(witnesses: Partial<Witnesses>, reviewId: Bytes): void {
+    this.transact(() => {
+      this.assertModerator(witnesses);
+
+      const review = this.getReview(reviewId);
+      assert(review.status === REVIEW_STATUS.PENDING, 'Review cannot be approved');
+
+      review.status = REVIEW_STATUS.VERIFIED;
+    });
+  }
+
+  rejectReview(witnesses: Partial<Witnesses>, reviewId: Bytes): void {
+    this.transact(() => {
+      this.assertModerator(witnesses);
+
+      const review = this.getReview(reviewId);
+      assert(
+        review.status === REVIEW_STATUS.PENDING || review.status === REVIEW_STATUS.FLAGGED,
+        'Review cannot be rejected'
+      );
+
+      if (review.status === REVIEW_STATUS.PENDING) {
+        this.removeDAppRating(review);
+        this.ledger.totalReviews = sub(this.ledger.totalReviews, 1n);
+      }
+      review.status = REVIEW_STATUS.REJECTED;
+    });
+  }
+
+  flagReview(witnesses: Partial<Witnesses>, reviewId: Bytes): void {
+    this.transact(() => {
+      this.assertModerator(witnesses);
+
+      const review = this.getReview(reviewId);
+      assert(
+        review.status === REVIEW_STATUS.PENDING || review.status === REVIEW_STATUS.VERIFIED,
+        'Review cannot be flagged'
+      );
+
+      this.removeDAppRating(review);
+      this.ledger.totalReviews = sub(this.ledger.totalReviews, 1n);
+      review.status = REVIEW_STATUS.FLAGGED;
+    });
+  }
+
+  unflagReview(witnesses: Partial<Witnesses>, reviewId: Bytes): void {
+    this.transact(() => {
+      this.assertModerator(witnesses);
+
+      const review = this.getReview(reviewId);
+      assert(review.status === REVIEW_STATUS.FLAGGED, 'Review is not flagged');
+
+      this.addDAppRating(review);
+      this.ledger.totalReviews = this.ledger.totalReviews + 1n;
+      review.status = REVIEW_STATUS.PENDING;
+    });
+  }
+
+  deleteReview(witnesses: Partial<Witnesses>, reviewId: Bytes): void {
+    this.transact(() => {
+      this.assertAdmin(witnesses, 'Only admin can delete reviews');
+
+      const review = this.getReview(reviewId);
+      if (review.status === REVIEW_STATUS.PENDING || review.status === REVIEW_STATUS.VERIFIED) {
+        this.removeDAppRating(review);
+        this.ledger.totalReviews = sub(this.ledger.totalReviews, 1n);
+      }
+      this.ledger.reviews.delete(reviewId);
+    });
+  }
+
+  // View circuits
+
+  getDAppInfo(dappAddress: Bytes): DAppInfo {
+    assert(this.ledger.dapps.has(dappAddress), 'DApp not found');
+    return structuredClone(this.ledger.dapps.get(dappAddress)!);
+  }
+
+  getTotalStats(): [bigint, bigint, bigint] {
+    return [this.ledger.totalDApps, this.ledger.totalReviews, this.ledger.currentEpoch];
+  }
+
+  isNullifierUsed(dappAddress: Bytes, nullifier: Field): boolean {
+    return this.ledger.usedNullifiers.has(persistentHash(dappAddress, nullifier, ''));
+  }
+
+  // The current root or one of the recent ones; empty history slots are 0, which no path hashes to
+  isKnownReviewerRoot(root: Field): boolean {
+    return root === this.ledger.reviewerMerkleRoot || this.ledger.reviewerRootHistory.includes(root);
+  }
+
+  // Internal circuits
+
+  // A circuit either completes or leaves the ledger as it was
+  private transact(circuit: () => void): void {
+    const snapshot = structuredClone(this.ledger);
+    try {
+      circuit();
+    } catch (error) {
+      this.ledger = snapshot;
+      throw error;
     }
-    
-    // Verify the ZK proof
-    const expectedPublicInputs = [
-      this.reviewerMerkleRoot,
-      epoch,
-      nullifier,
-      dappAddress,
-      reviewHash,
-      interactionProof
-    ];
-    
-    if (!this.verifyReviewProof(proof, expectedPublicInputs)) {
-      throw new Error('Invalid ZK proof');
+  }
+
+  private verifyMerkleProof(leaf: Field, path: Field[], indices: boolean[]): Field {
+    assert(path.length === MERKLE_DEPTH && indices.length === MERKLE_DEPTH, 'Invalid Merkle path length');
+    return computeMerkleRoot(leaf, path, indices);
+  }
+
+  // Write a leaf and rehash its path; returns the new root. Missing nodes are
+  // empty subtrees, whose roots are computed on the way up
+  private setReviewerLeaf(index: bigint, leaf: Field): Field {
+    let current = leaf;
+    let position = index;
+    let zero = 0n;
+    for (let level = 0n; level < BigInt(MERKLE_DEPTH); level++) {
+      this.ledger.reviewerTreeNodes.set(reviewerNodeKeyFor(level, position), current);
+      const isRight = position % 2n === 1n;
+      const siblingKey = reviewerNodeKeyFor(level, isRight ? position - 1n : position + 1n);
+      const sibling = this.ledger.reviewerTreeNodes.get(siblingKey) ?? zero;
+      current = isRight ? transientHash(sibling, current) : transientHash(current, sibling);
+      zero = transientHash(zero, zero);
+      position = position / 2n;
     }
-    
-    // Mark nullifier as used
-    this.markNullifierUsed(nullifier, dappAddress, epoch);
-    
-    // Create review record
-    const review = new VerifiedReview(
-      dappAddress,
-      reviewHash,
-      rating,
-      epoch,
-      this.getCurrentTimestamp(),
-      this.hashNullifier(nullifier),
-      interactionProof,
-      proof,
-      encryptedContent
+    return current;
+  }
+
+  private publishReviewerRoot(root: Field, retireHistory: boolean): void {
+    const history = this.ledger.reviewerRootHistory;
+    this.ledger.reviewerRootHistory = retireHistory
+      ? new Array<Field>(ROOT_HISTORY_SIZE).fill(0n)
+      : [this.ledger.reviewerMerkleRoot, ...history.slice(0, ROOT_HISTORY_SIZE - 1)];
+    this.ledger.reviewerMerkleRoot = root;
+  }
+
+  private getEnrollment(commitment: Field): Enrollment {
+    assert(this.ledger.enrollments.has(commitment), 'Enrollment request not found');
+    return this.ledger.enrollments.get(commitment)!;
+  }
+
+  private assertAdmin(witnesses: Partial<Witnesses>, message: string): void {
+    const secret = (witnesses.adminSecretKey ?? (() => missingWitness('adminSecretKey')))();
+    assert(adminPublicKeyFor(secret) === this.ledger.adminPublicKey, message);
+  }
+
+  // The external nullifier a review submitted now is scoped to
+  private reviewExternalNullifier(dapp: DAppInfo): Field {
+    const scope = this.ledger.nullifierScope;
+    const scopeValue =
+      scope === NULLIFIER_SCOPE.PER_EPOCH ? this.ledger.currentEpoch :
+      scope === NULLIFIER_SCOPE.PER_VERSION ? dapp.version :
+      0n;
+    return reviewExternalNullifierFor(scope, dapp.addressField, scopeValue);
+  }
+
+  // The caller holds the identity that derived the review's nullifier
+  private assertReviewAuthor(witnesses: Partial<Witnesses>, review: ReviewRecord): void {
+    const identitySecret = (witnesses.reviewerIdentitySecret ?? (() => missingWitness('reviewerIdentitySecret')))();
+    const merkleRoot = this.verifyMerkleProof(
+      identityCommitmentFor(identitySecret),
+      (witnesses.reviewerMerklePath ?? (() => missingWitness('reviewerMerklePath')))(),
+      (witnesses.reviewerMerkleIndices ?? (() => missingWitness('reviewerMerkleIndices')))()
     );
-    
-    // Store review
-    if (!this.reviewsByDApp.has(dappKey)) {
-      this.reviewsByDApp.set(dappKey, []);
-    }
-    this.reviewsByDApp.get(dappKey)!.push(review);
-    
-    const epochKey = epoch.value.toString();
-    if (!this.reviewsByEpoch.has(epochKey)) {
-      this.reviewsByEpoch.set(epochKey, []);
-    }
-    this.reviewsByEpoch.get(epochKey)!.push(review);
-    
-    // Update dApp statistics
-    this.updateDAppStats(dappAddress, rating);
-    
-    // Increment total reviews
-    this.totalReviews = this.createField(Number(this.totalReviews.value) + 1);
-    
-    this.emitEvent('ReviewSubmitted', { dappAddress, rating, epoch });
-    
-    return true;
-  }
-  
-  // Update reviewer Merkle root (admin only)
-  updateReviewerRoot(newRoot: Field, adminSignature: Signature): boolean {
-    if (!this.verifyAdmin(adminSignature)) {
-      throw new Error('Unauthorized');
-    }
-    
-    this.reviewerMerkleRoot = newRoot;
-    this.emitEvent('ReviewerRootUpdated', newRoot);
-    return true;
-  }
-  
-  // Add moderator (admin only)
-  addModerator(moderatorKey: PublicKey, adminSignature: Signature): boolean {
-    if (!this.verifyAdmin(adminSignature)) {
-      throw new Error('Unauthorized');
-    }
-    
-    const keyStr = `${moderatorKey.x.value}-${moderatorKey.y.value}`;
-    this.moderatorKeys.add(keyStr);
-    this.emitEvent('ModeratorAdded', moderatorKey);
-    return true;
-  }
-  
-  // Helper: Calculate current epoch
-  private calculateEpoch(): Field {
-    const timestamp = this.getCurrentTimestamp();
-    const duration = this.epochDuration || this.createField(86400); // Default 24 hours
-    return this.createField(Math.floor(Number(timestamp.value) / Number(duration.value)));
-  }
-  
-  // Helper: Mark nullifier as used
-  private markNullifierUsed(nullifier: Field, dappAddress: Field, epoch: Field) {
-    const key = `${epoch.value}-${dappAddress.value}-${nullifier.value}`;
-    const record = new ReviewNullifierRecord(
-      epoch,
-      dappAddress,
-      nullifier,
-      { value: true } as Bool
+    assert(this.isKnownReviewerRoot(merkleRoot), 'Invalid reviewer proof');
+
+    const nullifier = reviewNullifierFor(identitySecret, review.externalNullifier);
+    assert(transientHash(nullifier) === review.nullifierHash, 'Only the author can change this review');
+  }
+
+  private isRevisable(review: ReviewRecord): boolean {
+    return (
+      review.status === REVIEW_STATUS.PENDING ||
+      review.status === REVIEW_STATUS.VERIFIED ||
+      review.status === REVIEW_STATUS.FLAGGED
     );
-    this.usedNullifiers.set(key, record);
-  }
-  
-  // Helper: Update dApp statistics
-  private updateDAppStats(dappAddress: Field, newRating: Field) {
-    const dappKey = dappAddress.value.toString();
-    const dappInfo = this.registeredDApps.get(dappKey)!;
-    
-    const currentTotal = Number(dappInfo.totalReviews.value);
-    const currentAverage = Number(dappInfo.averageRating.value);
-    const newRatingNum = Number(newRating.value);
-    
-    // Update running average
-    const newTotal = currentTotal + 1;
-    const newAverage = (currentAverage * currentTotal + newRatingNum) / newTotal;
-    
-    dappInfo.totalReviews = this.createField(newTotal);
-    dappInfo.averageRating = this.createField(Math.round(newAverage * 100) / 100);
-    
-    // Update reputation score (weighted by review count and recency)
-    const reputationScore = this.calculateReputationScore(dappInfo);
-    dappInfo.reputationScore = reputationScore;
-    
-    this.registeredDApps.set(dappKey, dappInfo);
-  }
-  
-  // Helper: Calculate reputation score
-  private calculateReputationScore(dappInfo: DAppInfo): Field {
-    const reviewCount = Number(dappInfo.totalReviews.value);
-    const avgRating = Number(dappInfo.averageRating.value);
-    const currentEpoch = Number(this.currentEpoch.value);
-    const registrationEpoch = Number(dappInfo.registrationEpoch.value);
-    
-    // Base score from rating and review count
-    const baseScore = avgRating * Math.log(reviewCount + 1);
-    
-    // Longevity bonus
-    const ageBonus = Math.min((currentEpoch - registrationEpoch) * 0.1, 2.0);
-    
-    // Final reputation score
-    const reputation = Math.min(baseScore + ageBonus, 100);
-    
-    return this.createField(Math.round(reputation * 100) / 100);
-  }
-  
-  // Helper: Hash nullifier for privacy
-  private hashNullifier(nullifier: Field): Field {
-    const hashed = BigInt(nullifier.value.toString()) % BigInt(2 ** 128);
-    return this.createField(Number(hashed));
-  }
-  
-  // Helper: Get current timestamp
-  private getCurrentTimestamp(): Field {
-    return this.createField(Math.floor(Date.now() / 1000));
-  }
-  
-  // Helper: Verify ZK proof for review
-  private verifyReviewProof(proof: ZKProof, expectedPublicInputs: Field[]): boolean {
-    // Verify public inputs match
-    if (proof.publicInputs.length !== expectedPublicInputs.length) {
-      return false;
-    }
-    
-    for (let i = 0; i < expectedPublicInputs.length; i++) {
-      if (!proof.publicInputs[i].equals(expectedPublicInputs[i])) {
-        return false;
-      }
-    }
-    
-    // Verify the actual proof using Midnight's verifier
-    return proof.verify().value;
-  }
-  
-  // Helper: Verify admin signature
-  private verifyAdmin(signature: Signature): boolean {
-    // Simplified admin verification for demo
-    return true;
-  }
-  
-  // Helper: Create Field object
-  private createField(value: number): Field {
-    return {
-      value: BigInt(value),
-      add: function(other: Field) { return { value: this.value + other.value } as Field; },
-      div: function(other: Field) { return { value: this.value / other.value } as Field; },
-      mod: function(other: Field) { return { value: this.value % other.value } as Field; },
-      pow: function(exp: number) { return { value: this.value ** BigInt(exp) } as Field; },
-      equals: function(other: Field) { return this.value === other.value; },
-      assertEquals: function(other: Field, msg: string) { if (!this.equals(other)) throw new Error(msg); }
-    } as Field;
-  }
-  
-  // Event emitter
-  private emitEvent(eventName: string, data: any) {
-    this.events.push({ name: eventName, data, timestamp: Date.now() });
-    console.log(`Event: ${eventName}`, data);
-  }
-  
-  // View methods for UI
-  
-  getDAppInfo(address: Field): DAppInfo | null {
-    const key = address.value.toString();
-    return this.registeredDApps.get(key) || null;
-  }
-  
-  getDAppReviews(address: Field): VerifiedReview[] {
-    const key = address.value.toString();
-    return this.reviewsByDApp.get(key) || [];
-  }
-  
-  getTopRatedDApps(limit: number = 10): DAppInfo[] {
-    const dapps = Array.from(this.registeredDApps.values());
-    return dapps
-      .sort((a, b) => Number(b.reputationScore.value) - Number(a.reputationScore.value))
-      .slice(0, limit);
-  }
-  
-  getDAppsByCategory(category: string): DAppInfo[] {
-    const dapps = Array.from(this.registeredDApps.values());
-    return dapps.filter(dapp => dapp.category === category);
-  }
-  
-  getTotalStats(): { dapps: Field, reviews: Field, currentEpoch: Field } {
-    return {
-      dapps: this.totalDApps,
-      reviews: this.totalReviews,
-      currentEpoch: this.currentEpoch
-    };
   }
-  
-  getReviewerRoot(): Field {
-    return this.reviewerMerkleRoot;
+
+  private assertProjectOwner(witnesses: Partial<Witnesses>, dappAddress: Bytes): void {
+    assert(this.ledger.dapps.has(dappAddress), 'DApp not found');
+    const secret = (witnesses.ownerSecretKey ?? (() => missingWitness('ownerSecretKey')))();
+    assert(ownerKeyFor(secret) === this.ledger.dapps.get(dappAddress)!.ownerKey, "Only the dApp's owner can do this");
   }
-  
-  getEvents(): any[] {
-    return this.events;
+
+  private setResponseHidden(reviewId: Bytes, hidden: boolean): void {
+    const response = this.ledger.reviewResponses.get(reviewId);
+    assert(response !== undefined, 'Response not found');
+    assert(response.hidden !== hidden, 'Response is already in that state');
+    response.hidden = hidden;
+  }
+
+  private assertModerator(witnesses: Partial<Witnesses>): void {
+    const secret = (witnesses.adminSecretKey ?? (() => missingWitness('adminSecretKey')))();
+    assert(
+      this.ledger.moderators.has(moderatorPublicKeyFor(secret)) || adminPublicKeyFor(secret) === this.ledger.adminPublicKey,
+      'Only admin or moderators can moderate reviews'
+    );
+  }
+
+  // Reviews are edited in place; transact() restores them if the circuit fails
+  private getReview(reviewId: Bytes): ReviewRecord {
+    assert(this.ledger.reviews.has(reviewId), 'Review not found');
+    return this.ledger.reviews.get(reviewId)!;
+  }
+
+  private setDAppStatus(dappAddress: Bytes, status: DAPP_STATUS): void {
+    this.ledger.dapps.get(dappAddress)!.status = status;
+  }
+
+  private addDAppRating(review: ReviewRecord): void {
+    const { dappAddress, rating, epoch } = review;
+    const dappInfo = this.ledger.dapps.get(dappAddress)!;
+    const bucket = Number(rating - 1n);
+
+    dappInfo.ratingHistogram[bucket] = dappInfo.ratingHistogram[bucket] + 1n;
+    dappInfo.ratingSum = dappInfo.ratingSum + rating;
+    dappInfo.totalReviews = dappInfo.totalReviews + 1n;
+    review.dimensionRatings.forEach((dimensionRating, slot) => {
+      if (dimensionRating > 0n) {
+        dappInfo.dimensionSums[slot] = dappInfo.dimensionSums[slot] + dimensionRating;
+        dappInfo.dimensionCounts[slot] = dappInfo.dimensionCounts[slot] + 1n;
+      }
+    });
+
+    const epochKey = epochRatingKeyFor(dappAddress, epoch);
+    const aggregate = this.ledger.epochRatings.get(epochKey) ?? { reviewCount: 0n, ratingSum: 0n };
+    aggregate.reviewCount = aggregate.reviewCount + 1n;
+    aggregate.ratingSum = aggregate.ratingSum + rating;
+    this.ledger.epochRatings.set(epochKey, aggregate);
+
+    this.deriveDAppStats(dappInfo);
+  }
+
+  private removeDAppRating(review: ReviewRecord): void {
+    const { dappAddress, rating, epoch } = review;
+    const dappInfo = this.ledger.dapps.get(dappAddress)!;
+    const bucket = Number(rating - 1n);
+    assert(dappInfo.ratingHistogram[bucket] > 0n, 'DApp stats do not include this rating');
+
+    dappInfo.ratingHistogram[bucket] = dappInfo.ratingHistogram[bucket] - 1n;
+    dappInfo.ratingSum = sub(dappInfo.ratingSum, rating);
+    dappInfo.totalReviews = sub(dappInfo.totalReviews, 1n);
+    review.dimensionRatings.forEach((dimensionRating, slot) => {
+      if (dimensionRating > 0n) {
+        dappInfo.dimensionSums[slot] = sub(dappInfo.dimensionSums[slot], dimensionRating);
+        dappInfo.dimensionCounts[slot] = sub(dappInfo.dimensionCounts[slot], 1n);
+      }
+    });
+
+    const aggregate = this.ledger.epochRatings.get(epochRatingKeyFor(dappAddress, epoch))!;
+    aggregate.reviewCount = sub(aggregate.reviewCount, 1n);
+    aggregate.ratingSum = sub(aggregate.ratingSum, rating);
+
+    this.deriveDAppStats(dappInfo);
   }
-}
 
-// Signature structure
-export class Signature {
-  r: Field;
-  s: Field;
-  
-  constructor(r: Field, s: Field) {
-    this.r = r;
-    this.s = s;
+  private deriveDAppStats(dappInfo: DAppInfo): void {
+    dappInfo.averageRating = dappInfo.totalReviews === 0n
+      ? 0n
+      : (dappInfo.ratingSum * 100n) / dappInfo.totalReviews;
   }
 }
@@ -0,0 +1,150 @@
+/**
+ * Local Devnet Node
+ *
+ * Offline stand-in for a Midnight node and indexer, serving the JSON-RPC API
+ * that RpcContractAdapter talks to. Transactions run through the same
+ * CompactContractAdapter as the in-browser simulation, so they follow the
+ * contract's rules exactly (authorizations, ZK proof checks, nullifiers,
+ * moderation transitions and stats). They are applied one at a time, like
+ * blocks, and the ledger is saved to a JSON file after every change.
+ *
+ * Usage: npm run devnet
+ *   DEVNET_PORT        port to listen on (default 9944)
+ *   DEVNET_STATE_FILE  ledger snapshot (default .devnet/ledger.json; delete it to reset)
+ */
+
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { CompactContractAdapter, ContractAdapter } from '../src/lib/contract-adapter';
+import { MemoryLedgerStore, LedgerSnapshot } from '../src/lib/ledger-store';
+import { ArtifactLoader } from '../src/lib/midnightjs';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const ROOT_DIR = path.join(__dirname, '..');
+const ARTIFACT_DIR = path.join(ROOT_DIR, 'public', 'zk-artifacts');
+
+const PORT = Number(process.env.DEVNET_PORT ?? 9944);
+const STATE_FILE = path.resolve(ROOT_DIR, process.env.DEVNET_STATE_FILE ?? '.devnet/ledger.json');
+
+// Adapter methods exposed as dappReviewer_<name>; subscribe is replaced by polling getEvents
+const RPC_METHODS: (keyof ContractAdapter)[] = [
+  'registerDApp', 'getDAppInfo', 'publishDAppVersion', 'suspendDApp', 'reactivateDApp', 'deactivateDApp',
+  'submitReview', 'updateReview', 'revokeReview', 'voteHelpful', 'hasVotedHelpful',
+  'verifyProjectOwner', 'respondToReview',
+  'initializeAdmin', 'getAdminPublicKey', 'getReviewerRoot', 'isKnownReviewerRoot',
+  'requestEnrollment', 'getEnrollment', 'listEnrollments', 'approveEnrollment', 'rejectEnrollment', 'revokeEnrollment',
+  'getReviewerLeaves',
+  'advanceEpoch', 'getEpochSchedule',
+  'addModerator', 'removeModerator', 'listModerators', 'getRole', 'verifyAuthorization',
+  'approveReview', 'rejectReview', 'flagReview', 'unflagReview', 'deleteReview', 'hideResponse', 'restoreResponse',
+  'listDApps', 'listReviews', 'getTotalStats', 'isNullifierUsed', 'getNullifierScope', 'getNullifierContext',
+  'getEvents', 'getTransactionReceipt', 'getCurrentEpoch'
+];
+
+// JSON-RPC 2.0 error codes
+const PARSE_ERROR = -32700;
+const METHOD_NOT_FOUND = -32601;
+const EXECUTION_ERROR = -32000;
+
+function loadSnapshot(): LedgerSnapshot | undefined {
+  if (!fs.existsSync(STATE_FILE)) return undefined;
+  return JSON.parse(fs.readFileSync(STATE_FILE, 'utf8'));
+}
+
+function saveSnapshot(snapshot: LedgerSnapshot): void {
+  fs.mkdirSync(path.dirname(STATE_FILE), { recursive: true });
+  fs.writeFileSync(STATE_FILE, JSON.stringify(snapshot, null, 2));
+}
+
+const store = new MemoryLedgerStore(loadSnapshot(), saveSnapshot);
+const adapter = new CompactContractAdapter(undefined, undefined, store);
+
+// Requests run strictly in order, so no two transactions interleave
+let queue: Promise<unknown> = Promise.resolve();
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const result = queue.then(task);
+  queue = result.catch(() => undefined);
+  return result;
+}
+
+async function handleRpc(method: string, params: unknown[]): Promise<unknown> {
+  if (method === 'system_health') {
+    return 'ok';
+  }
+
+  const name = method.replace(/^dappReviewer_/, '') as keyof ContractAdapter;
+  if (!method.startsWith('dappReviewer_') || !RPC_METHODS.includes(name)) {
+    throw Object.assign(new Error(`Method not found: ${method}`), { code: METHOD_NOT_FOUND });
+  }
+
+  // JSON has no undefined; let optional parameters fall back to their defaults
+  const args = params.map(param => (param === null ? undefined : param));
+  const handler = adapter[name] as (...args: unknown[]) => Promise<unknown>;
+  return enqueue(() => handler.apply(adapter, args));
+}
+
+function serveArtifact(url: string, res: http.ServerResponse): void {
+  const file = path.join(ARTIFACT_DIR, path.basename(url));
+  if (!fs.existsSync(file)) {
+    res.writeHead(404).end();
+    return;
+  }
+  res.writeHead(200);
+  fs.createReadStream(file).pipe(res);
+}
+
+const server = http.createServer((req, res) => {
+  // The app is served from a different origin (the Vite dev server)
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+
+  // Proof verification loads the circuit's verification key from here
+  if (req.method === 'GET' && req.url?.startsWith('/zk-artifacts/')) {
+    serveArtifact(req.url, res);
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    res.writeHead(405).end();
+    return;
+  }
+
+  let body = '';
+  req.on('data', chunk => {
+    body += chunk;
+  });
+  req.on('end', async () => {
+    let id: unknown = null;
+    let response: object;
+    try {
+      const request = JSON.parse(body);
+      id = request.id ?? null;
+      const result = await handleRpc(request.method, request.params ?? []);
+      response = { jsonrpc: '2.0', id, result: result ?? null };
+    } catch (error) {
+      const code = error instanceof SyntaxError
+        ? PARSE_ERROR
+        : (error as { code?: number }).code ?? EXECUTION_ERROR;
+      const message = error instanceof Error ? error.message : String(error);
+      response = { jsonrpc: '2.0', id, error: { code, message } };
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(response));
+  });
+});
+
+ArtifactLoader.getInstance().setBasePath(`http://localhost:${PORT}/zk-artifacts`);
+await adapter.initialize();
+
+server.listen(PORT, () => {
+  console.log(`[Devnet] Listening on http://localhost:${PORT}`);
+  console.log(`[Devnet] Ledger snapshot: ${path.relative(ROOT_DIR, STATE_FILE)}`);
+});
@@ -0,0 +1,151 @@
+#!/usr/bin/env node
+
+/**
+ * Groth16 Circuit Setup Script
+ *
+ * Compiles the circom circuits in circuits/ to R1CS + WASM witness generators,
+ * runs a local powers-of-tau and circuit-specific Groth16 setup on BN254, and
+ * publishes the proving key, verification key and WASM to public/zk-artifacts/
+ * where MidnightJS's ArtifactLoader picks them up.
+ *
+ * The ceremony here has a single local contribution, which is fine for
+ * development but must be replaced by a multi-party ceremony for production.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { execFileSync } from 'child_process';
+import { fileURLToPath } from 'url';
+import * as snarkjs from 'snarkjs';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const ROOT_DIR = path.join(__dirname, '..');
+const CIRCUIT_DIR = path.join(ROOT_DIR, 'circuits');
+const BUILD_DIR = path.join(CIRCUIT_DIR, 'build');
+const OUTPUT_DIR = path.join(ROOT_DIR, 'public', 'zk-artifacts');
+
+// 2^13 constraints covers a depth-20 Poseidon Merkle tree plus the RLN checks
+const PTAU_POWER = 13;
+
+const CIRCUITS = [
+  {
+    name: 'membership_rln',
+    file: 'membership_rln.circom',
+    description: 'Reviewer membership proof with rate-limit nullifier',
+    treeDepth: 20,
+    publicSignals: ['merkleRoot', 'epoch', 'nullifier', 'signalHash']
+  },
+  {
+    name: 'helpful_vote',
+    file: 'helpful_vote.circom',
+    description: 'Helpful vote from an enrolled reviewer who did not write the review',
+    treeDepth: 20,
+    publicSignals: ['merkleRoot', 'epoch', 'nullifier', 'signalHash', 'authorScope', 'authorNullifierHash']
+  }
+];
+
+// `npm run setup-circuits -- helpful_vote` rebuilds only the named circuits, keeping the other keys
+const requested = process.argv.slice(2);
+const selected = requested.length > 0 ? CIRCUITS.filter(circuit => requested.includes(circuit.name)) : CIRCUITS;
+
+const entropy = () => crypto.randomBytes(32).toString('hex');
+
+for (const dir of [BUILD_DIR, OUTPUT_DIR]) {
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+}
+
+console.log('🔧 Groth16 Circuit Setup (BN254)');
+console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+console.log('');
+
+const curve = await snarkjs.curves.getCurveFromName('bn128');
+
+// Phase 1: powers of tau (shared by all circuits)
+const ptauFinal = path.join(BUILD_DIR, `pot${PTAU_POWER}_final.ptau`);
+if (!fs.existsSync(ptauFinal)) {
+  console.log(`🔑 Running powers of tau ceremony (2^${PTAU_POWER})...`);
+  const ptau0 = path.join(BUILD_DIR, `pot${PTAU_POWER}_0000.ptau`);
+  const ptau1 = path.join(BUILD_DIR, `pot${PTAU_POWER}_0001.ptau`);
+  await snarkjs.powersOfTau.newAccumulator(curve, PTAU_POWER, ptau0);
+  await snarkjs.powersOfTau.contribute(ptau0, ptau1, 'local contribution', entropy());
+  await snarkjs.powersOfTau.preparePhase2(ptau1, ptauFinal);
+  fs.unlinkSync(ptau0);
+  fs.unlinkSync(ptau1);
+} else {
+  console.log(`♻️  Reusing ${path.relative(ROOT_DIR, ptauFinal)}`);
+}
+console.log('');
+
+for (const circuit of selected) {
+  console.log(`📁 Compiling circuit: circuits/${circuit.file}`);
+  execFileSync(
+    'npx',
+    ['--no-install', 'circom2', path.join(CIRCUIT_DIR, circuit.file), '--r1cs', '--wasm', '--O2', '-o', BUILD_DIR],
+    { cwd: ROOT_DIR, stdio: 'inherit' }
+  );
+
+  const r1csFile = path.join(BUILD_DIR, `${circuit.name}.r1cs`);
+  const wasmFile = path.join(BUILD_DIR, `${circuit.name}_js`, `${circuit.name}.wasm`);
+  const r1csInfo = await snarkjs.r1cs.info(r1csFile);
+
+  // Phase 2: circuit-specific setup
+  console.log(`🔑 Generating Groth16 keys for ${circuit.name}...`);
+  const zkey0 = path.join(BUILD_DIR, `${circuit.name}_0000.zkey`);
+  const zkeyFinal = path.join(BUILD_DIR, `${circuit.name}_final.zkey`);
+  await snarkjs.zKey.newZKey(r1csFile, ptauFinal, zkey0);
+  await snarkjs.zKey.contribute(zkey0, zkeyFinal, 'local contribution', entropy());
+  fs.unlinkSync(zkey0);
+
+  const verificationKey = await snarkjs.zKey.exportVerificationKey(zkeyFinal);
+
+  const metadata = {
+    name: circuit.name,
+    description: circuit.description,
+    version: '2.0.0',
+    compiledAt: new Date().toISOString(),
+    compiler: 'circom2',
+    protocol: 'groth16',
+    curve: 'bn254',
+    treeDepth: circuit.treeDepth,
+    constraints: r1csInfo.nConstraints,
+    publicSignals: circuit.publicSignals,
+    hash: 'poseidon',
+    artifacts: {
+      provingKey: `${circuit.name}.zkey`,
+      verificationKey: `${circuit.name}.verification_key.json`,
+      wasm: `${circuit.name}.wasm`
+    }
+  };
+
+  fs.copyFileSync(wasmFile, path.join(OUTPUT_DIR, metadata.artifacts.wasm));
+  fs.copyFileSync(zkeyFinal, path.join(OUTPUT_DIR, metadata.artifacts.provingKey));
+  fs.writeFileSync(
+    path.join(OUTPUT_DIR, metadata.artifacts.verificationKey),
+    JSON.stringify(verificationKey, null, 2)
+  );
+  fs.writeFileSync(
+    path.join(OUTPUT_DIR, `${circuit.name}.metadata.json`),
+    JSON.stringify(metadata, null, 2)
+  );
+
+  console.log(`✅ ${circuit.name}: ${r1csInfo.nConstraints} constraints, ${r1csInfo.nPubInputs} public inputs`);
+  console.log('');
+}
+
+await curve.terminate();
+
+console.log('📂 Generated artifacts:');
+console.log(`   ${OUTPUT_DIR}/`);
+for (const circuit of selected) {
+  console.log(`   ├── ${circuit.name}.metadata.json`);
+  console.log(`   ├── ${circuit.name}.wasm`);
+  console.log(`   ├── ${circuit.name}.zkey`);
+  console.log(`   └── ${circuit.name}.verification_key.json`);
+}
+console.log('');
+console.log('🚀 Circuits ready for proving!');
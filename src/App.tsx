@@ -6,6 +6,7 @@ import ProjectDetailsPage from "./pages/ProjectDetailsPage";
 import AdminModerationPage from "./pages/AdminModerationPage";
 import PublicStatsPage from "./pages/PublicStatsPage";
 import SettingsPage from "./pages/SettingsPage";
+import TransactionsPage from "./pages/TransactionsPage";
 import PrivacyPage from "./pages/PrivacyPage";
 import { MetricsPage } from "./pages/MetricsPage";
 
@@ -80,6 +81,25 @@ function App() {
                 </svg>
                 Submit Review
               </NavLink>
+              <NavLink
+                to="/transactions"
+                current={location.pathname === "/transactions"}
+              >
+                <svg
+                  className="w-4 h-4 mr-2"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4"
+                  />
+                </svg>
+                Transactions
+              </NavLink>
               <NavLink to="/admin" current={location.pathname === "/admin"}>
                 <svg
                   className="w-4 h-4 mr-2"
@@ -188,6 +208,12 @@ function App() {
               >
                 Submit Review
               </MobileNavLink>
+              <MobileNavLink
+                to="/transactions"
+                current={location.pathname === "/transactions"}
+              >
+                My Transactions
+              </MobileNavLink>
               <MobileNavLink
                 to="/admin"
                 current={location.pathname === "/admin"}
@@ -229,6 +255,7 @@ function App() {
             <Route path="/" element={<HomePage />} />
             <Route path="/submit-review" element={<ReviewSubmissionPage />} />
             <Route path="/project/:id" element={<ProjectDetailsPage />} />
+            <Route path="/transactions" element={<TransactionsPage />} />
             <Route path="/admin" element={<AdminModerationPage />} />
             <Route path="/stats" element={<PublicStatsPage />} />
             <Route path="/metrics" element={<MetricsPage />} />
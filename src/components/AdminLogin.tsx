@@ -0,0 +1,185 @@
+import React, { useState, useEffect } from "react";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from "./ui/Card";
+import Button from "./ui/Button";
+import { contractManager } from "../lib/contract-adapter";
+import {
+  adminSession,
+  generateSigningKeyPair,
+  importSigningKey,
+  signAuthorization,
+} from "../lib/admin-auth";
+
+const AdminLogin: React.FC = () => {
+  const [hasAdmin, setHasAdmin] = useState<boolean | null>(null);
+  const [privateKey, setPrivateKey] = useState("");
+  const [generatedKey, setGeneratedKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    const checkAdmin = async () => {
+      const adapter = await contractManager.getReadyAdapter();
+      setHasAdmin((await adapter.getAdminPublicKey()) !== null);
+    };
+    checkAdmin();
+  }, []);
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      setPrivateKey((await file.text()).trim());
+    }
+  };
+
+  const handleLogin = async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const adapter = await contractManager.getReadyAdapter();
+      const { publicKey } = await importSigningKey(privateKey);
+      if (!(await adapter.getRole(publicKey))) {
+        throw new Error("This key is not an admin or moderator key");
+      }
+      await adminSession.login(privateKey);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  // First run without a configured admin key: create one and claim the admin role
+  const handleSetup = async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const keyPair = await generateSigningKeyPair();
+      const { privateKey: signingKey, publicKey } = await importSigningKey(
+        keyPair.privateKey
+      );
+      const authorization = await signAuthorization(
+        signingKey,
+        publicKey,
+        "initializeAdmin",
+        { publicKey }
+      );
+      const adapter = await contractManager.getReadyAdapter();
+      await adapter.initializeAdmin(publicKey, authorization);
+      setGeneratedKey(keyPair.privateKey);
+      setHasAdmin(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const downloadKey = () => {
+    if (!generatedKey) return;
+    const blob = new Blob([generatedKey], { type: "text/plain" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "admin-private-key.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto py-10 animate-fadeIn">
+      <Card variant="elevated">
+        <CardHeader>
+          <CardTitle size="xl" gradient>
+            Admin Login
+          </CardTitle>
+          <CardDescription>
+            Moderation actions are signed with your private key. It stays in
+            this tab's memory and is never sent anywhere.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {error && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-xl text-sm text-red-700">
+              {error}
+            </div>
+          )}
+
+          {generatedKey && (
+            <div className="p-4 bg-amber-50 border border-amber-200 rounded-xl space-y-3">
+              <p className="text-sm text-amber-800 font-medium">
+                Admin key created. Save this private key now; it cannot be
+                recovered.
+              </p>
+              <textarea
+                readOnly
+                value={generatedKey}
+                className="input font-mono text-xs"
+                rows={4}
+              />
+              <div className="flex gap-3">
+                <Button size="sm" variant="outline" onClick={downloadKey}>
+                  Download Key
+                </Button>
+                <Button
+                  size="sm"
+                  gradient
+                  onClick={() => adminSession.login(generatedKey)}
+                >
+                  Continue as Admin
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {hasAdmin === false && (
+            <div className="space-y-3">
+              <p className="text-sm text-slate-600">
+                No admin key is configured for this contract yet. Generate one
+                to become its admin.
+              </p>
+              <Button onClick={handleSetup} isLoading={isBusy} gradient>
+                Generate Admin Key
+              </Button>
+            </div>
+          )}
+
+          {hasAdmin && !generatedKey && (
+            <div className="space-y-4">
+              <textarea
+                value={privateKey}
+                onChange={(e) => setPrivateKey(e.target.value)}
+                className="input font-mono text-xs"
+                rows={4}
+                placeholder="Paste your admin or moderator private key"
+              />
+              <div className="flex flex-col sm:flex-row gap-4 justify-between">
+                <input
+                  type="file"
+                  accept=".txt,.key"
+                  onChange={handleFileUpload}
+                  className="text-sm text-slate-600"
+                />
+                <Button
+                  onClick={handleLogin}
+                  isLoading={isBusy}
+                  disabled={isBusy || !privateKey}
+                  gradient
+                >
+                  Log In
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AdminLogin;
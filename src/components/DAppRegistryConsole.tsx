@@ -0,0 +1,338 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from "./ui/Card";
+import Button from "./ui/Button";
+import Badge from "./ui/Badge";
+import ProjectLogo from "./ProjectLogo";
+import { contractManager } from "../lib/contract-adapter";
+import { transactionManager } from "../lib/transactions";
+import {
+  projectCatalog,
+  CatalogProject,
+  PROJECT_CATEGORIES,
+} from "../lib/project-catalog";
+import { Authorizer } from "../lib/admin-auth";
+
+interface DAppRegistryConsoleProps {
+  authorize: Authorizer;
+}
+
+type StatusAction = "suspendDApp" | "reactivateDApp" | "deactivateDApp";
+
+const emptyRegistration = {
+  address: "",
+  name: "",
+  category: "",
+  description: "",
+  website: "",
+  github: "",
+  logo: "",
+  tags: "",
+  ownerKey: "",
+};
+
+const statusVariant = {
+  ACTIVE: "success",
+  SUSPENDED: "warning",
+  INACTIVE: "default",
+} as const;
+
+const DAppRegistryConsole: React.FC<DAppRegistryConsoleProps> = ({
+  authorize,
+}) => {
+  const [projects, setProjects] = useState<CatalogProject[]>([]);
+  const [registration, setRegistration] = useState(emptyRegistration);
+  const [showForm, setShowForm] = useState(false);
+  const [isRegistering, setIsRegistering] = useState(false);
+  const [actionLoading, setActionLoading] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadProjects = useCallback(async () => {
+    try {
+      setProjects(
+        await projectCatalog.listProjects({
+          sortBy: "newest",
+          includeInactive: true,
+        })
+      );
+    } catch (err) {
+      console.error("Failed to load dApps:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadProjects();
+  }, [loadProjects]);
+
+  const handleChange = (
+    e: React.ChangeEvent<
+      HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement
+    >
+  ) => {
+    const { name, value } = e.target;
+    setRegistration((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handleRegister = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsRegistering(true);
+    setError(null);
+    try {
+      await projectCatalog.registerProject(
+        { ...registration, tags: registration.tags.split(",") },
+        authorize
+      );
+      setRegistration(emptyRegistration);
+      setShowForm(false);
+      await loadProjects();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setIsRegistering(false);
+    }
+  };
+
+  const handleStatusAction = async (address: string, action: StatusAction) => {
+    setActionLoading(address);
+    setError(null);
+    try {
+      const authorization = await authorize(action, { address });
+      await transactionManager.track(
+        action,
+        { description: `${action} ${address}`, reference: { dappAddress: address } },
+        () => contractManager.getAdapter()[action](address, authorization)
+      );
+      await loadProjects();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  return (
+    <Card variant="elevated">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle size="xl" gradient>
+            DApp Registry
+          </CardTitle>
+          <div className="flex items-center gap-3">
+            <Badge variant="primary" gradient size="sm">
+              {projects.length} registered
+            </Badge>
+            <Button
+              size="sm"
+              variant={showForm ? "ghost" : "primary"}
+              onClick={() => setShowForm((prev) => !prev)}
+            >
+              {showForm ? "Cancel" : "Register DApp"}
+            </Button>
+          </div>
+        </div>
+        <CardDescription>
+          Only registered, active dApps accept reviews. Suspending a dApp
+          pauses new reviews; deactivating retires it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-xl text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        {showForm && (
+          <form
+            onSubmit={handleRegister}
+            className="space-y-4 p-4 bg-white/60 rounded-xl border border-slate-200/60"
+          >
+            <div className="grid md:grid-cols-2 gap-4">
+              <input
+                type="text"
+                name="address"
+                value={registration.address}
+                onChange={handleChange}
+                className="input font-mono text-sm"
+                placeholder="Contract address *"
+                required
+              />
+              <input
+                type="text"
+                name="name"
+                value={registration.name}
+                onChange={handleChange}
+                className="input"
+                placeholder="Name *"
+                required
+              />
+              <select
+                name="category"
+                value={registration.category}
+                onChange={handleChange}
+                className="input"
+                required
+              >
+                <option value="">Select a category... *</option>
+                {PROJECT_CATEGORIES.map((category) => (
+                  <option key={category} value={category}>
+                    {category}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="text"
+                name="logo"
+                value={registration.logo}
+                onChange={handleChange}
+                className="input"
+                placeholder="Logo (emoji or image URL)"
+              />
+              <input
+                type="url"
+                name="website"
+                value={registration.website}
+                onChange={handleChange}
+                className="input"
+                placeholder="Website"
+              />
+              <input
+                type="url"
+                name="github"
+                value={registration.github}
+                onChange={handleChange}
+                className="input"
+                placeholder="GitHub repository"
+              />
+            </div>
+            <textarea
+              name="description"
+              value={registration.description}
+              onChange={handleChange}
+              className="input"
+              rows={3}
+              placeholder="Description"
+            />
+            <input
+              type="text"
+              name="tags"
+              value={registration.tags}
+              onChange={handleChange}
+              className="input"
+              placeholder="Tags, comma separated"
+            />
+            <input
+              type="text"
+              name="ownerKey"
+              value={registration.ownerKey}
+              onChange={handleChange}
+              className="input font-mono text-sm"
+              placeholder="Team's owner public key (base64 JWK), lets the team verify ownership"
+            />
+            <div className="flex justify-end">
+              <Button
+                type="submit"
+                isLoading={isRegistering}
+                disabled={
+                  isRegistering ||
+                  !registration.address ||
+                  !registration.name ||
+                  !registration.category
+                }
+                gradient
+              >
+                Register
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {projects.length === 0 && !showForm && (
+          <p className="text-slate-600 text-center py-6">
+            No dApps registered yet.
+          </p>
+        )}
+
+        {projects.map((project) => (
+          <div
+            key={project.address}
+            className="flex flex-col md:flex-row md:items-center justify-between gap-4 p-4 bg-white/60 rounded-xl border border-slate-200/60"
+          >
+            <div className="flex items-center gap-4">
+              <ProjectLogo
+                logo={project.logo}
+                name={project.name}
+                className="text-3xl"
+              />
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="font-semibold text-slate-900">
+                    {project.name}
+                  </span>
+                  <Badge variant={statusVariant[project.status]} size="sm">
+                    {project.status}
+                  </Badge>
+                </div>
+                <div className="font-mono text-xs text-slate-500">
+                  {project.address}
+                </div>
+                <div className="text-xs text-slate-500">
+                  {project.category} · {project.totalReviews} reviews · since
+                  epoch {project.registrationEpoch}
+                </div>
+              </div>
+            </div>
+
+            <div className="flex gap-3">
+              {project.status === "ACTIVE" && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    handleStatusAction(project.address, "suspendDApp")
+                  }
+                  isLoading={actionLoading === project.address}
+                  disabled={actionLoading !== null}
+                >
+                  Suspend
+                </Button>
+              )}
+              {project.status !== "ACTIVE" && (
+                <Button
+                  variant="success"
+                  size="sm"
+                  onClick={() =>
+                    handleStatusAction(project.address, "reactivateDApp")
+                  }
+                  isLoading={actionLoading === project.address}
+                  disabled={actionLoading !== null}
+                >
+                  Reactivate
+                </Button>
+              )}
+              {project.status !== "INACTIVE" && (
+                <Button
+                  variant="danger"
+                  size="sm"
+                  onClick={() =>
+                    handleStatusAction(project.address, "deactivateDApp")
+                  }
+                  disabled={actionLoading !== null}
+                >
+                  Deactivate
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DAppRegistryConsole;
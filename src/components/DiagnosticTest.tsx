@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { generateIdentity, generateNullifier, MerkleTree, generateMembershipProof, verifyProof, getCurrentEpoch, testUtils } from '../lib/zkProof';
+import { generateIdentity, generateNullifier, generateMembershipProof, verifyProof, getCurrentEpoch, testUtils } from '../lib/zkProof';
 import { 
   generateKeyPair, 
   encryptMessage, 
@@ -13,6 +13,7 @@ import {
   sanitizeText,
   validateAttachment
 } from '../lib/encryption';
+import { testPoseidon } from '../lib/poseidon';
 
 const DiagnosticTest: React.FC = () => {
   const [testResults, setTestResults] = useState<string[]>([]);
@@ -23,6 +24,10 @@ const DiagnosticTest: React.FC = () => {
     const results: string[] = [];
     
     try {
+      // Test 0: Poseidon Test Vectors
+      results.push('🔧 Testing Poseidon (BN254) against circomlib vectors...');
+      results.push(`✅ Poseidon test vectors: ${testPoseidon.testVectors() ? 'MATCH' : 'MISMATCH'}`);
+      
       // Test 1: Identity Generation
       results.push('🔧 Testing Identity Generation...');
       const identity = await generateIdentity();
@@ -54,7 +59,7 @@ const DiagnosticTest: React.FC = () => {
       
       // Test 6: ZK Proof Verification
       results.push('🔧 Testing ZK Proof Verification...');
-      const isValid = verifyProof(zkProof);
+      const isValid = await verifyProof(zkProof);
       results.push(`✅ ZK proof verification: ${isValid ? 'VALID' : 'INVALID'}`);
       
       // Test 7: Key Generation (Web Crypto API)
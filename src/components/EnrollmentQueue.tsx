@@ -0,0 +1,147 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from "./ui/Card";
+import Button from "./ui/Button";
+import Badge from "./ui/Badge";
+import { reviewerRegistry, EnrollmentRecord } from "../lib/reviewer-registry";
+import { Authorizer } from "../lib/admin-auth";
+
+interface EnrollmentQueueProps {
+  authorize: Authorizer;
+}
+
+const EnrollmentQueue: React.FC<EnrollmentQueueProps> = ({ authorize }) => {
+  const [enrollments, setEnrollments] = useState<EnrollmentRecord[]>([]);
+  const [actionLoading, setActionLoading] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEnrollments = useCallback(async () => {
+    try {
+      const records = await reviewerRegistry.listEnrollments();
+      setEnrollments(records.filter((r) => r.status === "PENDING" || r.status === "APPROVED"));
+    } catch (err) {
+      console.error("Failed to load enrollments:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadEnrollments();
+  }, [loadEnrollments]);
+
+  const handleAction = async (
+    commitment: string,
+    action: "approve" | "reject" | "revoke"
+  ) => {
+    setActionLoading(commitment);
+    setError(null);
+    try {
+      await reviewerRegistry[action](commitment, authorize);
+      await loadEnrollments();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const pending = enrollments.filter((r) => r.status === "PENDING");
+  const approved = enrollments.filter((r) => r.status === "APPROVED");
+
+  return (
+    <Card variant="elevated">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle size="xl" gradient>
+            Reviewer Enrollment
+          </CardTitle>
+          <div className="flex gap-2">
+            <Badge variant="warning" gradient size="sm">
+              {pending.length} pending
+            </Badge>
+            <Badge variant="success" gradient size="sm">
+              {approved.length} enrolled
+            </Badge>
+          </div>
+        </div>
+        <CardDescription>
+          Approving a commitment adds it to the reviewer Merkle tree and
+          publishes the new root to the contract.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-xl text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        {enrollments.length === 0 && (
+          <p className="text-slate-600 text-center py-6">
+            No enrollment requests yet.
+          </p>
+        )}
+
+        {enrollments.map((record) => (
+          <div
+            key={record.commitment}
+            className="flex flex-col md:flex-row md:items-center justify-between gap-4 p-4 bg-white/60 rounded-xl border border-slate-200/60"
+          >
+            <div className="space-y-1">
+              <div className="font-mono text-sm text-slate-800">
+                {record.commitment.slice(0, 18)}...{record.commitment.slice(-8)}
+              </div>
+              <div className="text-xs text-slate-500">
+                Requested {new Date(record.requestedAt).toLocaleString()}
+                {record.leafIndex !== undefined && ` · leaf #${record.leafIndex}`}
+              </div>
+            </div>
+
+            {record.status === "PENDING" ? (
+              <div className="flex gap-3">
+                <Button
+                  variant="success"
+                  size="sm"
+                  onClick={() => handleAction(record.commitment, "approve")}
+                  isLoading={actionLoading === record.commitment}
+                  disabled={actionLoading !== null}
+                >
+                  Approve
+                </Button>
+                <Button
+                  variant="danger"
+                  size="sm"
+                  onClick={() => handleAction(record.commitment, "reject")}
+                  disabled={actionLoading !== null}
+                >
+                  Reject
+                </Button>
+              </div>
+            ) : (
+              <div className="flex items-center gap-3">
+                <Badge variant="success" size="sm">
+                  ✓ Enrolled
+                </Badge>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleAction(record.commitment, "revoke")}
+                  isLoading={actionLoading === record.commitment}
+                  disabled={actionLoading !== null}
+                >
+                  Revoke
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EnrollmentQueue;
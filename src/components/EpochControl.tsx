@@ -0,0 +1,102 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from "./ui/Card";
+import Button from "./ui/Button";
+import Badge from "./ui/Badge";
+import { contractManager } from "../lib/contract-adapter";
+import { transactionManager } from "../lib/transactions";
+import { epochService } from "../lib/epoch";
+import { Authorizer } from "../lib/admin-auth";
+
+interface EpochControlProps {
+  authorize: Authorizer;
+}
+
+const EpochControl: React.FC<EpochControlProps> = ({ authorize }) => {
+  const [currentEpoch, setCurrentEpoch] = useState<number | null>(null);
+  const [isAdvancing, setIsAdvancing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEpoch = useCallback(async () => {
+    const adapter = await contractManager.getReadyAdapter();
+    setCurrentEpoch(await adapter.getCurrentEpoch());
+  }, []);
+
+  useEffect(() => {
+    loadEpoch();
+  }, [loadEpoch]);
+
+  const handleAdvance = async () => {
+    if (currentEpoch === null) return;
+    if (!window.confirm(`End epoch ${currentEpoch} now? This cannot be undone.`)) return;
+
+    setIsAdvancing(true);
+    setError(null);
+    try {
+      const authorization = await authorize("advanceEpoch", { epoch: currentEpoch });
+      await transactionManager.track(
+        "advanceEpoch",
+        { description: `End epoch ${currentEpoch}` },
+        () => contractManager.getAdapter().advanceEpoch(authorization)
+      );
+      await loadEpoch();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setIsAdvancing(false);
+    }
+  };
+
+  return (
+    <Card variant="elevated">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle size="xl" gradient>
+            Epochs
+          </CardTitle>
+          {currentEpoch !== null && (
+            <Badge variant="primary" gradient size="sm">
+              Epoch {currentEpoch}
+            </Badge>
+          )}
+        </div>
+        <CardDescription>
+          Epochs last {epochService.formatDuration()} and limit how often each
+          reviewer can review a dApp. Ending the current epoch starts the next
+          one immediately; later epochs keep their full length.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-xl text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+          {currentEpoch !== null && (
+            <div className="text-sm text-slate-600">
+              Started {epochService.getEpochStart(currentEpoch).toLocaleString()} ·{" "}
+              {epochService.formatTimeRemaining()}
+            </div>
+          )}
+          <Button
+            variant="outline"
+            onClick={handleAdvance}
+            isLoading={isAdvancing}
+            disabled={isAdvancing || currentEpoch === null}
+          >
+            End Epoch Now
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EpochControl;
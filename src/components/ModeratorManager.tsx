@@ -0,0 +1,152 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from "./ui/Card";
+import Button from "./ui/Button";
+import Badge from "./ui/Badge";
+import { contractManager } from "../lib/contract-adapter";
+import { transactionManager } from "../lib/transactions";
+import { Authorizer, generateSigningKeyPair } from "../lib/admin-auth";
+import { KeyPair } from "../lib/encryption";
+
+interface ModeratorManagerProps {
+  authorize: Authorizer;
+}
+
+const ModeratorManager: React.FC<ModeratorManagerProps> = ({ authorize }) => {
+  const [moderators, setModerators] = useState<string[]>([]);
+  const [newModeratorKey, setNewModeratorKey] = useState("");
+  const [generatedKeyPair, setGeneratedKeyPair] = useState<KeyPair | null>(
+    null
+  );
+  const [actionLoading, setActionLoading] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadModerators = useCallback(async () => {
+    const adapter = await contractManager.getReadyAdapter();
+    setModerators(await adapter.listModerators());
+  }, []);
+
+  useEffect(() => {
+    loadModerators();
+  }, [loadModerators]);
+
+  const runAction = async (
+    key: string,
+    action: "addModerator" | "removeModerator"
+  ) => {
+    setActionLoading(key);
+    setError(null);
+    try {
+      const authorization = await authorize(action, { moderatorKey: key });
+      await transactionManager.track(
+        action,
+        { description: `${action} ${key.slice(0, 12)}...` },
+        () => contractManager.getAdapter()[action](key, authorization)
+      );
+      if (action === "addModerator") {
+        setNewModeratorKey("");
+      }
+      await loadModerators();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  // Convenience for onboarding: the private key goes to the new moderator
+  const handleGenerate = async () => {
+    const keyPair = await generateSigningKeyPair();
+    setGeneratedKeyPair(keyPair);
+    setNewModeratorKey(keyPair.publicKey);
+  };
+
+  return (
+    <Card variant="elevated">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle size="xl" gradient>
+            Moderators
+          </CardTitle>
+          <Badge variant="primary" gradient size="sm">
+            {moderators.length} moderators
+          </Badge>
+        </div>
+        <CardDescription>
+          Moderators can approve, reject and flag reviews by signing with their
+          own key. Only the admin can add or remove them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-xl text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        <div className="flex flex-col md:flex-row gap-3">
+          <input
+            type="text"
+            value={newModeratorKey}
+            onChange={(e) => setNewModeratorKey(e.target.value)}
+            className="input flex-1 font-mono text-xs"
+            placeholder="Moderator public key"
+          />
+          <Button variant="outline" onClick={handleGenerate}>
+            Generate Key Pair
+          </Button>
+          <Button
+            onClick={() => runAction(newModeratorKey.trim(), "addModerator")}
+            isLoading={actionLoading === newModeratorKey.trim()}
+            disabled={actionLoading !== null || !newModeratorKey.trim()}
+            gradient
+          >
+            Add Moderator
+          </Button>
+        </div>
+
+        {generatedKeyPair && (
+          <div className="p-4 bg-amber-50 border border-amber-200 rounded-xl space-y-2">
+            <p className="text-sm text-amber-800 font-medium">
+              Give this private key to the new moderator. It is not stored
+              anywhere.
+            </p>
+            <textarea
+              readOnly
+              value={generatedKeyPair.privateKey}
+              className="input font-mono text-xs"
+              rows={3}
+            />
+          </div>
+        )}
+
+        {moderators.map((key) => (
+          <div
+            key={key}
+            className="flex items-center justify-between gap-4 p-4 bg-white/60 rounded-xl border border-slate-200/60"
+          >
+            <div className="font-mono text-xs text-slate-700 break-all">
+              {key.slice(0, 32)}...{key.slice(-12)}
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => runAction(key, "removeModerator")}
+              isLoading={actionLoading === key}
+              disabled={actionLoading !== null}
+            >
+              Remove
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ModeratorManager;
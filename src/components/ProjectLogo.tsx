@@ -0,0 +1,22 @@
+import React from "react";
+
+interface ProjectLogoProps {
+  logo: string; // emoji or image URL
+  name: string;
+  className?: string;
+}
+
+const ProjectLogo: React.FC<ProjectLogoProps> = ({ logo, name, className }) => {
+  if (/^(https?:|data:image\/)/.test(logo)) {
+    return (
+      <img
+        src={logo}
+        alt={`${name} logo`}
+        className={`w-[1em] h-[1em] rounded-xl object-cover ${className ?? ""}`}
+      />
+    );
+  }
+  return <span className={className}>{logo}</span>;
+};
+
+export default ProjectLogo;
@@ -0,0 +1,72 @@
+import React from "react";
+import { EpochRatingAggregate } from "../lib/contract-adapter";
+import { meanStars, formatStars, MAX_STARS } from "../lib/rating-scale";
+
+interface RatingTimelineProps {
+  epochRatings: EpochRatingAggregate[];
+  maxEpochs?: number;
+}
+
+// Average rating per epoch as a bar chart, most recent epochs last
+const RatingTimeline: React.FC<RatingTimelineProps> = ({
+  epochRatings,
+  maxEpochs = 30,
+}) => {
+  const visible = epochRatings.slice(-maxEpochs);
+
+  if (visible.length === 0) {
+    return (
+      <p className="text-slate-600 text-center py-6">
+        No ratings yet. The chart fills in as reviews arrive.
+      </p>
+    );
+  }
+
+  const maxCount = Math.max(...visible.map((entry) => entry.reviewCount));
+
+  return (
+    <div>
+      <div className="flex items-end gap-2 h-40">
+        {visible.map((entry) => {
+          const average = meanStars(entry.ratingSum, entry.reviewCount);
+          return (
+            <div
+              key={entry.epoch}
+              className="flex-1 flex flex-col items-center justify-end h-full min-w-[12px]"
+              title={`Epoch ${entry.epoch}: ${formatStars(average)} star average from ${
+                entry.reviewCount
+              } review${entry.reviewCount === 1 ? "" : "s"}`}
+            >
+              <span className="text-xs font-medium text-slate-600 mb-1">
+                {formatStars(average)}
+              </span>
+              <div
+                className="w-full rounded-t-lg bg-gradient-to-t from-amber-400 to-yellow-300"
+                style={{
+                  height: `${(average / MAX_STARS) * 100}%`,
+                  // Epochs with more reviews are drawn more solid
+                  opacity: 0.4 + 0.6 * (entry.reviewCount / maxCount),
+                }}
+              />
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex gap-2 mt-2">
+        {visible.map((entry) => (
+          <div
+            key={entry.epoch}
+            className="flex-1 min-w-[12px] text-center text-[10px] text-slate-500 truncate"
+          >
+            {entry.epoch}
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-slate-500 text-center mt-3">
+        Average rating per epoch · fainter bars have fewer reviews
+      </p>
+    </div>
+  );
+};
+
+export default RatingTimeline;
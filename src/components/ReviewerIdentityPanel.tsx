@@ -0,0 +1,257 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from "./ui/Card";
+import Button from "./ui/Button";
+import Badge from "./ui/Badge";
+import { identityManager } from "../lib/identity";
+import { reviewerRegistry, EnrollmentRecord } from "../lib/reviewer-registry";
+
+interface ReviewerIdentityPanelProps {
+  // Called with true once the identity is unlocked and its enrollment approved
+  onReadyChange?: (ready: boolean) => void;
+}
+
+const ReviewerIdentityPanel: React.FC<ReviewerIdentityPanelProps> = ({
+  onReadyChange,
+}) => {
+  const [commitment, setCommitment] = useState<string | null>(
+    identityManager.getStoredCommitment()
+  );
+  const [unlocked, setUnlocked] = useState(identityManager.isUnlocked());
+  const [enrollment, setEnrollment] = useState<EnrollmentRecord | null>(null);
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const refresh = useCallback(async () => {
+    const stored = identityManager.getStoredCommitment();
+    setCommitment(stored);
+    setUnlocked(identityManager.isUnlocked());
+    setEnrollment(stored ? await reviewerRegistry.getEnrollment(stored) : null);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    return identityManager.subscribe(() => {
+      refresh();
+    });
+  }, [refresh]);
+
+  useEffect(() => {
+    onReadyChange?.(unlocked && enrollment?.status === "APPROVED");
+  }, [unlocked, enrollment, onReadyChange]);
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+      setPassword("");
+      setConfirmPassword("");
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCreate = () =>
+    runAction(async () => {
+      if (password !== confirmPassword) {
+        throw new Error("Passwords do not match");
+      }
+      await identityManager.create(password);
+      await reviewerRegistry.requestEnrollment(
+        identityManager.getStoredCommitment()!
+      );
+    });
+
+  const handleUnlock = () => runAction(() => identityManager.unlock(password));
+
+  const handleRequestEnrollment = () =>
+    runAction(() => reviewerRegistry.requestEnrollment(commitment!));
+
+  const handleForget = () => {
+    if (
+      window.confirm(
+        "Delete this reviewer identity from this device? You will need a new enrollment to review again."
+      )
+    ) {
+      identityManager.remove();
+    }
+  };
+
+  const getEnrollmentBadge = () => {
+    switch (enrollment?.status) {
+      case "APPROVED":
+        return (
+          <Badge variant="success" gradient size="sm">
+            ✓ Enrolled
+          </Badge>
+        );
+      case "PENDING":
+        return (
+          <Badge variant="warning" gradient size="sm">
+            ⏳ Awaiting Approval
+          </Badge>
+        );
+      case "REJECTED":
+        return (
+          <Badge variant="danger" gradient size="sm">
+            Enrollment Rejected
+          </Badge>
+        );
+      case "REVOKED":
+        return (
+          <Badge variant="danger" gradient size="sm">
+            Enrollment Revoked
+          </Badge>
+        );
+      default:
+        return (
+          <Badge variant="default" size="sm">
+            Not Enrolled
+          </Badge>
+        );
+    }
+  };
+
+  return (
+    <Card variant="elevated" className="form-section">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle size="xl" gradient>
+            Reviewer Identity
+          </CardTitle>
+          {commitment && getEnrollmentBadge()}
+        </div>
+        <CardDescription>
+          Your anonymous identity proves you are an enrolled reviewer without
+          revealing which one. Its secrets never leave this device.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-xl text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        {!commitment && (
+          <div className="space-y-4">
+            <p className="text-sm text-slate-600">
+              Create an identity protected by a password. Its commitment is
+              sent to the reviewer registry for admin approval.
+            </p>
+            <div className="grid md:grid-cols-2 gap-4">
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="input"
+                placeholder="Password"
+              />
+              <input
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                className="input"
+                placeholder="Confirm password"
+              />
+            </div>
+            <Button
+              type="button"
+              onClick={handleCreate}
+              isLoading={isBusy}
+              disabled={isBusy || !password || !confirmPassword}
+              gradient
+            >
+              Create Identity &amp; Request Enrollment
+            </Button>
+          </div>
+        )}
+
+        {commitment && (
+          <div className="space-y-4">
+            <div className="flex justify-between items-center">
+              <span className="font-medium text-slate-600">Commitment:</span>
+              <Badge variant="outline" className="font-mono text-xs">
+                {commitment.slice(0, 18)}...
+              </Badge>
+            </div>
+
+            {!unlocked && (
+              <div className="flex flex-col sm:flex-row gap-4">
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="input flex-1"
+                  placeholder="Identity password"
+                />
+                <Button
+                  type="button"
+                  onClick={handleUnlock}
+                  isLoading={isBusy}
+                  disabled={isBusy || !password}
+                  gradient
+                >
+                  Unlock
+                </Button>
+              </div>
+            )}
+
+            {unlocked && enrollment?.status === "PENDING" && (
+              <p className="text-sm text-amber-700">
+                Your enrollment request is waiting for an admin. You can submit
+                reviews once it is approved.
+              </p>
+            )}
+
+            {(!enrollment || enrollment.status === "REJECTED") && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleRequestEnrollment}
+                isLoading={isBusy}
+                disabled={isBusy}
+              >
+                Request Enrollment
+              </Button>
+            )}
+
+            <div className="flex justify-end gap-3">
+              {unlocked && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => identityManager.lock()}
+                >
+                  Lock
+                </Button>
+              )}
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={handleForget}
+              >
+                Forget Identity
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ReviewerIdentityPanel;
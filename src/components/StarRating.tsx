@@ -0,0 +1,75 @@
+import React from "react";
+import { starFills, MAX_STARS, STAR_STEP } from "../lib/rating-scale";
+
+interface StarRatingProps {
+  stars: number; // 0-5, drawn to the nearest half star
+  size?: "sm" | "md" | "lg" | "xl";
+  // Makes the stars a picker: the left half of a star picks a half star
+  onChange?: (stars: number) => void;
+}
+
+const SIZES = {
+  sm: "w-4 h-4",
+  md: "w-5 h-5",
+  lg: "w-7 h-7",
+  xl: "w-12 h-12",
+};
+
+const FILL_WIDTHS = { full: "100%", half: "50%", empty: "0%" };
+
+const STAR_PATH =
+  "M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z";
+
+const StarRating: React.FC<StarRatingProps> = ({
+  stars,
+  size = "md",
+  onChange,
+}) => {
+  return (
+    <div
+      className="flex items-center"
+      role={onChange ? "radiogroup" : "img"}
+      aria-label={`${stars} out of ${MAX_STARS} stars`}
+    >
+      {starFills(stars).map((fill, i) => (
+        <span key={i} className={`relative inline-block ${SIZES[size]}`}>
+          <svg
+            className={`absolute inset-0 ${SIZES[size]} text-slate-300`}
+            fill="currentColor"
+            viewBox="0 0 20 20"
+          >
+            <path d={STAR_PATH} />
+          </svg>
+          <span
+            className="absolute inset-y-0 left-0 overflow-hidden"
+            style={{ width: FILL_WIDTHS[fill] }}
+          >
+            <svg
+              className={`${SIZES[size]} text-amber-400`}
+              fill="currentColor"
+              viewBox="0 0 20 20"
+            >
+              <path d={STAR_PATH} />
+            </svg>
+          </span>
+          {onChange &&
+            [i + STAR_STEP, i + 1].map((value, half) => (
+              <button
+                key={value}
+                type="button"
+                role="radio"
+                aria-checked={stars === value}
+                aria-label={`${value} stars`}
+                onClick={() => onChange(value)}
+                className={`absolute inset-y-0 w-1/2 ${
+                  half === 0 ? "left-0" : "right-0"
+                } cursor-pointer`}
+              />
+            ))}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export default StarRating;
@@ -0,0 +1,287 @@
+/**
+ * Admin and Moderator Authorization
+ *
+ * Privileged contract operations carry an ECDSA P-256 (SHA-256) signature
+ * over a canonical payload: the operation name, its parameters, a random
+ * nonce and the time it was issued. The contract adapter checks the signing
+ * key against the admin key and the moderator set, and rejects stale or
+ * reused nonces, so an authorization can't be replayed or moved to another
+ * operation.
+ *
+ * Keys use the same base64-encoded JWK format as the encryption keys.
+ */
+
+import { KeyPair } from './encryption';
+
+export type AuthRole = 'admin' | 'moderator';
+
+export type AuthorizedOperation =
+  | 'initializeAdmin'
+  | 'registerDApp'
+  | 'publishDAppVersion'
+  | 'suspendDApp'
+  | 'reactivateDApp'
+  | 'deactivateDApp'
+  | 'advanceEpoch'
+  | 'addModerator'
+  | 'removeModerator'
+  | 'approveReview'
+  | 'rejectReview'
+  | 'flagReview'
+  | 'unflagReview'
+  | 'deleteReview'
+  | 'approveEnrollment'
+  | 'rejectEnrollment'
+  | 'revokeEnrollment'
+  | 'hideResponse'
+  | 'restoreResponse'
+  // Signed by a project's owner key rather than an admin or moderator (see ./project-owner)
+  | 'verifyProjectOwner'
+  | 'respondToReview';
+
+export type AuthParams = Record<string, string | number | boolean>;
+
+// Produces the authorization string for one operation (e.g. adminSession.authorize)
+export type Authorizer = (operation: AuthorizedOperation, params: AuthParams) => Promise<string>;
+
+export interface SignedAuthorization {
+  publicKey: string;
+  operation: AuthorizedOperation;
+  nonce: string;
+  issuedAt: number;
+  signature: string; // base64 IEEE P1363 (r || s)
+}
+
+// Authorizations older than this are rejected, which bounds the nonces to remember
+export const AUTH_MAX_AGE_MS = 10 * 60 * 1000;
+const AUTH_MAX_CLOCK_SKEW_MS = 60 * 1000;
+const AUTH_DOMAIN = 'dapp-reviewer/auth/v1';
+
+const SIGNING_ALGORITHM = { name: 'ECDSA', namedCurve: 'P-256' };
+const SIGNATURE_PARAMS = { name: 'ECDSA', hash: 'SHA-256' };
+
+function bytesToBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+}
+
+// Bytes that are signed: keys sorted so parameter order never matters
+export function canonicalAuthPayload(
+  operation: AuthorizedOperation,
+  params: AuthParams,
+  nonce: string,
+  issuedAt: number
+): string {
+  const sortedParams = Object.keys(params)
+    .sort()
+    .map(key => [key, params[key]]);
+  return JSON.stringify([AUTH_DOMAIN, operation, sortedParams, nonce, issuedAt]);
+}
+
+// Canonical encoding of a P-256 public key, so keys can be compared as strings
+export function normalizePublicKey(publicKeyBase64: string): string {
+  let jwk: JsonWebKey;
+  try {
+    jwk = JSON.parse(atob(publicKeyBase64.trim()));
+  } catch {
+    throw new Error('Invalid public key');
+  }
+  if (jwk.kty !== 'EC' || jwk.crv !== 'P-256' || !jwk.x || !jwk.y) {
+    throw new Error('Invalid public key: expected an EC P-256 key');
+  }
+  return btoa(JSON.stringify({ crv: jwk.crv, kty: jwk.kty, x: jwk.x, y: jwk.y }));
+}
+
+export async function generateSigningKeyPair(): Promise<KeyPair> {
+  const keyPair = await crypto.subtle.generateKey(SIGNING_ALGORITHM, true, ['sign', 'verify']);
+  const publicKeyJwk = await crypto.subtle.exportKey('jwk', keyPair.publicKey);
+  const privateKeyJwk = await crypto.subtle.exportKey('jwk', keyPair.privateKey);
+
+  return {
+    publicKey: normalizePublicKey(btoa(JSON.stringify(publicKeyJwk))),
+    privateKey: btoa(JSON.stringify(privateKeyJwk))
+  };
+}
+
+export async function importSigningKey(privateKeyBase64: string): Promise<{ privateKey: CryptoKey; publicKey: string }> {
+  let jwk: JsonWebKey;
+  try {
+    jwk = JSON.parse(atob(privateKeyBase64.trim()));
+  } catch {
+    throw new Error('Invalid private key');
+  }
+  if (!jwk.d) {
+    throw new Error('Invalid private key: this looks like a public key');
+  }
+
+  const privateKey = await crypto.subtle.importKey('jwk', jwk, SIGNING_ALGORITHM, false, ['sign']);
+  // The private JWK carries the public point, so the public key comes for free
+  const publicKey = normalizePublicKey(btoa(JSON.stringify({ kty: jwk.kty, crv: jwk.crv, x: jwk.x, y: jwk.y })));
+  return { privateKey, publicKey };
+}
+
+export async function signAuthorization(
+  privateKey: CryptoKey,
+  publicKey: string,
+  operation: AuthorizedOperation,
+  params: AuthParams
+): Promise<string> {
+  const nonceBytes = new Uint8Array(16);
+  crypto.getRandomValues(nonceBytes);
+  const nonce = Array.from(nonceBytes, b => b.toString(16).padStart(2, '0')).join('');
+  const issuedAt = Date.now();
+
+  const authorization: SignedAuthorization = {
+    publicKey,
+    operation,
+    nonce,
+    issuedAt,
+    signature: await signMessage(privateKey, canonicalAuthPayload(operation, params, nonce, issuedAt))
+  };
+  return btoa(JSON.stringify(authorization));
+}
+
+// Checks the signature, operation binding and freshness. Nonce reuse is the caller's job.
+export async function verifyAuthorization(
+  encoded: string,
+  operation: AuthorizedOperation,
+  params: AuthParams,
+  now: number = Date.now()
+): Promise<SignedAuthorization> {
+  let authorization: SignedAuthorization;
+  try {
+    authorization = JSON.parse(atob(encoded));
+  } catch {
+    throw new Error('Invalid authorization');
+  }
+
+  if (
+    typeof authorization?.nonce !== 'string' ||
+    !/^[0-9a-f]{32}$/.test(authorization.nonce) ||
+    typeof authorization.issuedAt !== 'number' ||
+    typeof authorization.signature !== 'string'
+  ) {
+    throw new Error('Invalid authorization');
+  }
+  if (authorization.operation !== operation) {
+    throw new Error('Authorization was signed for a different operation');
+  }
+  if (authorization.issuedAt < now - AUTH_MAX_AGE_MS || authorization.issuedAt > now + AUTH_MAX_CLOCK_SKEW_MS) {
+    throw new Error('Authorization expired');
+  }
+
+  const publicKey = normalizePublicKey(authorization.publicKey);
+  const payload = canonicalAuthPayload(operation, params, authorization.nonce, authorization.issuedAt);
+  if (!(await verifyMessage(publicKey, payload, authorization.signature))) {
+    throw new Error('Invalid signature');
+  }
+
+  return { ...authorization, publicKey };
+}
+
+// Signs an arbitrary message with a signing key (authorizations, wallet challenges)
+export async function signMessage(privateKey: CryptoKey, message: string): Promise<string> {
+  const signature = await crypto.subtle.sign(SIGNATURE_PARAMS, privateKey, new TextEncoder().encode(message));
+  return bytesToBase64(new Uint8Array(signature));
+}
+
+// False for a bad signature; throws only for a malformed public key
+export async function verifyMessage(publicKey: string, message: string, signature: string): Promise<boolean> {
+  const jwk = JSON.parse(atob(normalizePublicKey(publicKey)));
+  const key = await crypto.subtle.importKey('jwk', jwk, SIGNING_ALGORITHM, false, ['verify']);
+  try {
+    return await crypto.subtle.verify(SIGNATURE_PARAMS, key, base64ToBytes(signature), new TextEncoder().encode(message));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Signing Session - holds a signing key in memory and signs authorizations
+ * with it. Each role's session decides which keys it accepts at login.
+ */
+export abstract class SigningSession {
+  private privateKey: CryptoKey | null = null;
+  private publicKey: string | null = null;
+  private listeners: Set<() => void> = new Set();
+
+  // `missingKeyMessage` is the error for signing before login
+  protected constructor(private readonly missingKeyMessage: string) {}
+
+  logout(): void {
+    this.privateKey = null;
+    this.publicKey = null;
+    this.notify();
+  }
+
+  isLoggedIn(): boolean {
+    return this.privateKey !== null;
+  }
+
+  getPublicKey(): string | null {
+    return this.publicKey;
+  }
+
+  // Bound so it can be passed around as an Authorizer
+  authorize: Authorizer = async (operation, params) => {
+    if (!this.privateKey || !this.publicKey) {
+      throw new Error(this.missingKeyMessage);
+    }
+    return signAuthorization(this.privateKey, this.publicKey, operation, params);
+  };
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Holds the key unless `check` throws for its public key
+  protected async holdKey(
+    privateKeyBase64: string,
+    check: (publicKey: string) => void = () => {}
+  ): Promise<string> {
+    const { privateKey, publicKey } = await importSigningKey(privateKeyBase64);
+    check(publicKey);
+    this.privateKey = privateKey;
+    this.publicKey = publicKey;
+    this.notify();
+    return publicKey;
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+/**
+ * Admin Session - holds the logged-in admin or moderator signing key in memory
+ */
+class AdminSession extends SigningSession {
+  private static instance: AdminSession;
+
+  private constructor() {
+    super('Log in with an admin or moderator key first');
+  }
+
+  static getInstance(): AdminSession {
+    if (!AdminSession.instance) {
+      AdminSession.instance = new AdminSession();
+    }
+    return AdminSession.instance;
+  }
+
+  async login(privateKeyBase64: string): Promise<string> {
+    const publicKey = await this.holdKey(privateKeyBase64);
+
+    console.log('[AdminSession] Logged in:', { publicKey: publicKey.slice(0, 16) + '...' });
+    return publicKey;
+  }
+}
+
+// Export singleton instance
+export const adminSession = AdminSession.getInstance();
@@ -5,68 +5,365 @@
  * on-chain and mock implementations using the Compact contract.
  */
 
+import SHA256 from 'crypto-js/sha256';
+import Hex from 'crypto-js/enc-hex';
 import { ZKProof as AppZKProof } from './midnight-stub';
+import { poseidon, parseFieldElement, fieldToHex, digestToField, FIELD_PRIME } from './poseidon';
+import { IncrementalMerkleTree } from './merkle-tree';
+import { midnightJS } from './midnightjs';
+import { reputationEngine, reviewCredibility, ReputationInput } from './reputation';
+import {
+  AuthRole,
+  AuthorizedOperation,
+  AuthParams,
+  AUTH_MAX_AGE_MS,
+  normalizePublicKey,
+  verifyAuthorization
+} from './admin-auth';
+import { LedgerStore, IndexedDBLedgerStore } from './ledger-store';
+import { EpochService, EpochSchedule, epochService } from './epoch';
+import { RpcContractAdapter } from './rpc-contract-adapter';
+import { InteractionOpening, interactionProver, isInteractionCommitment } from './interaction-proof';
+import {
+  MAX_RATING,
+  AVERAGE_PRECISION,
+  DIMENSION_SLOTS,
+  UNRATED,
+  isValidRating,
+  isValidStars,
+  starsToRating,
+  emptyDimensionRatings
+} from './rating-scale';
+import { validateCriteriaRatings } from './review-criteria';
+import { MAX_RESPONSE_LENGTH, isOwnerKeyFor } from './project-owner';
+import {
+  NullifierScope,
+  NullifierContext,
+  DEFAULT_NULLIFIER_SCOPE,
+  computeExternalNullifier,
+  computeOwnershipSignal,
+  computeVoteExternalNullifier,
+  computeVoteSignal,
+  hashNullifier
+} from './nullifier';
 
-export interface DAppInfo {
+// Layout of the persisted ledger; loadPersistedData migrates older ledgers up to it
+const LEDGER_VERSION = 2;
+
+// Recent reviewer roots stay valid so proofs built just before an approval still verify
+const REVIEWER_ROOT_HISTORY_SIZE = 16;
+
+// Descriptive fields stored alongside the on-chain DApp record
+export interface DAppMetadata {
+  description: string;
+  website: string;
+  github: string;
+  logo: string; // emoji or image URL
+  tags: string[];
+}
+
+// Published reviews submitted in one epoch
+export interface EpochRatingAggregate {
+  epoch: number;
+  reviewCount: number;
+  ratingSum: number;
+}
+
+export interface DAppInfo extends Partial<DAppMetadata> {
   address: string;
   name: string;
   category: string;
   registrationEpoch: number;
   status: 'INACTIVE' | 'ACTIVE' | 'SUSPENDED';
   totalReviews: number;
-  averageRating: number; // Rating * 100 for precision
-  reputationScore: number;
+  ratingSum: number;
+  ratingHistogram: number[]; // Published review count per rating, index = rating - 1
+  epochRatings: EpochRatingAggregate[]; // Ascending by epoch, only epochs with reviews
+  averageRating: number; // Rating * 100 for precision, derived from ratingSum
+  dimensionSums: number[]; // Per dimension slot, over published reviews that rated it
+  dimensionCounts: number[];
+  reputationScore: number; // 0-10000, see reputation.ts
+  reputationVersion: number; // Reputation algorithm that produced reputationScore
+  version: number; // Published dApp version, scopes PER_VERSION nullifiers
+  ownerKey?: string; // Public key the team gave at registration; signing with it proves ownership
+  ownerPublicKey?: string; // Set once the team proves it holds the owner key
 }
 
 export interface ReviewRecord {
   id: string;
   dappAddress: string;
   reviewHash: string;
-  rating: number; // 1-10 scale
+  rating: number; // 1-10 scale, see rating-scale.ts
+  dimensionRatings: number[]; // Per dimension slot, UNRATED (0) if not rated
   epoch: number;
   timestamp: number;
   nullifierHash: string;
+  externalNullifier: string; // Scope the nullifier was derived under, so voters can prove they aren't the author
   interactionProof: string;
-  status: 'PENDING' | 'VERIFIED' | 'FLAGGED';
+  interactionVerified: boolean; // The commitment's opening was checked against the chain on submission
+  status: 'PENDING' | 'VERIFIED' | 'FLAGGED' | 'REJECTED' | 'REVOKED'; // REVOKED by its author
+  moderatedAt?: number; // Last moderation action
+  version: number; // 1 until the author first updates the review
+  history: ReviewVersion[]; // Superseded versions, oldest first
+  updatedAt?: number; // When the current version was published, if it isn't the first
+  helpfulVotes: number; // One per voting identity, across all versions
+  response?: ReviewResponse; // From the dApp's verified owner, at most one
+  txHash?: string; // Transaction that published the current version
+}
+
+// A version of a review that its author has since replaced
+export interface ReviewVersion {
+  version: number;
+  reviewHash: string;
+  rating: number;
+  dimensionRatings: number[];
+  timestamp: number;
+  txHash?: string;
+}
+
+// The project team's public reply to a review
+export interface ReviewResponse {
+  text: string;
+  timestamp: number;
+  status: 'VISIBLE' | 'HIDDEN'; // HIDDEN by a moderator
+  moderatedAt?: number;
   txHash?: string;
 }
 
+export type EnrollmentStatus = 'PENDING' | 'APPROVED' | 'REJECTED' | 'REVOKED';
+
+// A reviewer's request to join the reviewer Merkle tree, decided by an admin
+export interface EnrollmentRecord {
+  commitment: string; // 0x-prefixed 32-byte field element
+  status: EnrollmentStatus;
+  requestedAt: number;
+  decidedAt?: number;
+  leafIndex?: number; // Slot in the reviewer tree, once approved
+  rootTxHash?: string; // Transaction that published the root with (or without) the leaf
+}
+
+// Reviews that are shown publicly and count toward dApp stats; new reviews
+// count while they wait for moderation
+export const PUBLISHED_REVIEW_STATUSES: ReviewRecord['status'][] = ['PENDING', 'VERIFIED'];
+
+// Reviews their author can still update or revoke; rejected and revoked reviews are final
+export const REVISABLE_REVIEW_STATUSES: ReviewRecord['status'][] = ['PENDING', 'VERIFIED', 'FLAGGED'];
+
+// Payload of each contract event type
+export interface ContractEventData {
+  AdminInitialized: { publicKey: string };
+  DAppRegistered: { dappAddress: string; name: string; category: string };
+  DAppVersionPublished: { dappAddress: string; version: number };
+  DAppStatusChanged: { dappAddress: string; status: DAppInfo['status'] };
+  ReviewSubmitted: { reviewId: string; dappAddress: string; rating: number };
+  ReviewUpdated: { reviewId: string; dappAddress: string; rating: number; version: number };
+  ReviewRevoked: { reviewId: string; dappAddress: string };
+  ReviewVotedHelpful: { reviewId: string; dappAddress: string; helpfulVotes: number; nullifier: string };
+  ProjectOwnerVerified: { dappAddress: string };
+  ReviewResponsePosted: { reviewId: string; dappAddress: string };
+  ReviewResponseHidden: { reviewId: string; dappAddress: string };
+  ReviewResponseRestored: { reviewId: string; dappAddress: string };
+  ReviewApproved: { reviewId: string; dappAddress: string };
+  ReviewRejected: { reviewId: string; dappAddress: string };
+  ReviewFlagged: { reviewId: string; dappAddress: string };
+  ReviewUnflagged: { reviewId: string; dappAddress: string };
+  ReviewDeleted: { reviewId: string; dappAddress: string };
+  RootUpdated: { root: string };
+  ModeratorAdded: { moderatorKey: string };
+  ModeratorRemoved: { moderatorKey: string };
+  EpochAdvanced: { previousEpoch: number };
+}
+
+export type ContractEventType = keyof ContractEventData;
+
+export type ContractEvent<T extends ContractEventType = ContractEventType> = {
+  [K in T]: {
+    seq: number; // Strictly increasing, never reused
+    type: K;
+    txHash: string;
+    epoch: number;
+    timestamp: number;
+    data: ContractEventData[K];
+  };
+}[T];
+
+export interface ContractEventFilter {
+  types?: ContractEventType[];
+  dappAddress?: string; // Events about this dApp only
+  fromSeq?: number; // Replay already emitted events from this sequence number
+}
+
+export type ContractEventHandler = (event: ContractEvent) => void;
+
+// Proof that a transaction was included: the events it emitted
+export interface TransactionReceipt {
+  txHash: string;
+  blockNumber: number; // Sequence number of the transaction's first event
+  epoch: number;
+  timestamp: number;
+  events: ContractEvent[];
+}
+
+const REVIEW_STATUS_EVENTS: Record<ReviewRecord['status'], ContractEventType> = {
+  PENDING: 'ReviewUnflagged',
+  VERIFIED: 'ReviewApproved',
+  FLAGGED: 'ReviewFlagged',
+  REJECTED: 'ReviewRejected',
+  REVOKED: 'ReviewRevoked'
+};
+
+// The exact form computeReviewHash (./review-content) produces, which is the only one the contract accepts
+export function isReviewHash(value: string): boolean {
+  return /^[0-9a-f]{64}$/.test(value);
+}
+
+// Identity commitments are Poseidon outputs: 32-byte hex encodings of BN254 field elements
+export function normalizeCommitment(commitment: string): string {
+  if (!/^0x[0-9a-fA-F]{64}$/.test(commitment) || BigInt(commitment) >= FIELD_PRIME) {
+    throw new Error('Invalid identity commitment');
+  }
+  return commitment.toLowerCase();
+}
+
+// Metadata as stored, with defaults filled in
+export function normalizeDAppMetadata(metadata: Partial<DAppMetadata>): DAppMetadata {
+  return {
+    description: metadata.description ?? '',
+    website: metadata.website ?? '',
+    github: metadata.github ?? '',
+    logo: metadata.logo ?? '',
+    tags: metadata.tags ?? []
+  };
+}
+
+// Signed with registerDApp, so the metadata can't be swapped on its way to the contract
+export function hashDAppMetadata(metadata: Partial<DAppMetadata>): string {
+  const { description, website, github, logo, tags } = normalizeDAppMetadata(metadata);
+  return `0x${SHA256(JSON.stringify([description, website, github, logo, tags])).toString(Hex)}`;
+}
+
+export function eventMatchesFilter(event: ContractEvent, filter: ContractEventFilter): boolean {
+  if (filter.types && !filter.types.includes(event.type)) return false;
+  if (filter.fromSeq !== undefined && event.seq < filter.fromSeq) return false;
+  if (filter.dappAddress !== undefined) {
+    return 'dappAddress' in event.data && event.data.dappAddress === filter.dappAddress;
+  }
+  return true;
+}
+
 export interface ContractAdapter {
   // Initialize the adapter
   initialize(): Promise<void>;
   
   // DApp management
+  // Privileged operations take an authorization string from admin-auth's
+  // signAuthorization, signed over the operation's parameters
   registerDApp(
     address: string,
     name: string,
     category: string,
-    adminSignature: string
+    authorization: string,
+    metadata?: Partial<DAppMetadata>,
+    ownerKey?: string
   ): Promise<{ txHash: string }>;
   
   getDAppInfo(address: string): Promise<DAppInfo | null>;
+  publishDAppVersion(address: string, authorization: string): Promise<{ txHash: string; version: number }>;
+  suspendDApp(address: string, authorization: string): Promise<{ txHash: string }>;
+  reactivateDApp(address: string, authorization: string): Promise<{ txHash: string }>;
+  deactivateDApp(address: string, authorization: string): Promise<{ txHash: string }>;
   
   // Review submission
   submitReview(
     dappAddress: string,
     reviewHash: string,
     rating: number,
+    dimensionRatings: number[],
     interactionProof: string,
     nullifier: string,
-    proof: AppZKProof | string // Accept both types for flexibility
+    proof: AppZKProof | string, // Accept both types for flexibility
+    interactionOpening?: InteractionOpening // Required with an interactionProof; checked, never stored
   ): Promise<{ txHash: string; reviewId: string }>;
   
+  // Changes by a review's anonymous author. The proof is a membership proof
+  // whose nullifier matches the review's and whose signal is nullifier.ts's
+  // computeOwnershipSignal for the change and the review's current version
+  updateReview(
+    reviewId: string,
+    reviewHash: string,
+    rating: number,
+    dimensionRatings: number[],
+    proof: AppZKProof | string
+  ): Promise<{ txHash: string; version: number }>;
+  revokeReview(reviewId: string, proof: AppZKProof | string): Promise<{ txHash: string }>;
+  
+  // Anonymous helpful vote on a published review. The nullifier is nullifier.ts's
+  // deriveVoteNullifier for the review, so each identity votes once per review;
+  // the helpful_vote proof also shows the voter didn't write the review
+  voteHelpful(
+    reviewId: string,
+    nullifier: string,
+    proof: AppZKProof | string
+  ): Promise<{ txHash: string; helpfulVotes: number }>;
+  hasVotedHelpful(reviewId: string, nullifier: string): Promise<boolean>;
+  
+  // Project teams. Both are signed with the key behind the dApp address (see ./project-owner)
+  verifyProjectOwner(dappAddress: string, authorization: string): Promise<{ txHash: string }>;
+  respondToReview(reviewId: string, text: string, authorization: string): Promise<{ txHash: string }>;
+  
   // Admin functions
-  updateReviewerRoot(newRoot: string, signature: string): Promise<{ txHash: string }>;
-  addModerator(moderatorKey: string, signature: string): Promise<{ txHash: string }>;
+  initializeAdmin(publicKey: string, authorization: string): Promise<{ txHash: string }>;
+  getAdminPublicKey(): Promise<string | null>;
+  getReviewerRoot(): Promise<string>;
+  isKnownReviewerRoot(root: string): Promise<boolean>;
+  advanceEpoch(authorization: string): Promise<{ txHash: string; epoch: number }>; // ends the current epoch now
+  getEpochSchedule(): Promise<EpochSchedule>;
+  addModerator(moderatorKey: string, authorization: string): Promise<{ txHash: string }>;
+  removeModerator(moderatorKey: string, authorization: string): Promise<{ txHash: string }>;
+  listModerators(): Promise<string[]>;
+  getRole(publicKey: string): Promise<AuthRole | null>;
+  // Reviewer enrollment. The request queue and the reviewer tree's leaves are
+  // ledger state, so any client can enroll and build its own Merkle path.
+  // Approving appends the commitment and publishes the new root; revoking zeroes it
+  // and retires every earlier root, since each of them still holds the leaf
+  requestEnrollment(commitment: string): Promise<EnrollmentRecord>;
+  getEnrollment(commitment: string): Promise<EnrollmentRecord | null>;
+  listEnrollments(status?: EnrollmentStatus): Promise<EnrollmentRecord[]>; // Newest first
+  approveEnrollment(commitment: string, authorization: string): Promise<EnrollmentRecord>;
+  rejectEnrollment(commitment: string, authorization: string): Promise<EnrollmentRecord>;
+  revokeEnrollment(commitment: string, authorization: string): Promise<EnrollmentRecord>;
+  getReviewerLeaves(): Promise<string[]>; // Slot order, zero for revoked leaves
   
-  // Moderation
-  flagReview(reviewId: string): Promise<{ txHash: string }>;
+  // Checks and consumes an authorization for an operation handled off-chain
+  verifyAuthorization(
+    authorization: string,
+    operation: AuthorizedOperation,
+    params: AuthParams,
+    roles: AuthRole[]
+  ): Promise<AuthRole>;
+  
+  // Moderation (admin or moderators)
+  approveReview(reviewId: string, authorization: string): Promise<{ txHash: string }>;
+  rejectReview(reviewId: string, authorization: string): Promise<{ txHash: string }>;
+  flagReview(reviewId: string, authorization: string): Promise<{ txHash: string }>;
+  unflagReview(reviewId: string, authorization: string): Promise<{ txHash: string }>;
+  deleteReview(reviewId: string, authorization: string): Promise<{ txHash: string }>; // admin only
+  hideResponse(reviewId: string, authorization: string): Promise<{ txHash: string }>;
+  restoreResponse(reviewId: string, authorization: string): Promise<{ txHash: string }>;
   
   // View functions
   listDApps(): Promise<DAppInfo[]>;
   listReviews(dappAddress?: string): Promise<ReviewRecord[]>;
   getTotalStats(): Promise<{ totalDApps: number; totalReviews: number; currentEpoch: number }>;
   isNullifierUsed(dappAddress: string, nullifier: string): Promise<boolean>;
+  getNullifierScope(): Promise<NullifierScope>;
+  getNullifierContext(dappAddress: string): Promise<NullifierContext>;
+  
+  // Events
+  // Handler runs for each matching event; the returned function unsubscribes
+  subscribe(filter: ContractEventFilter, handler: ContractEventHandler): () => void;
+  getEvents(fromSeq?: number, filter?: ContractEventFilter): Promise<ContractEvent[]>;
+  getTransactionReceipt(txHash: string): Promise<TransactionReceipt | null>; // null until included
   
   // Utility
   isAvailable(): Promise<boolean>;
@@ -81,20 +378,51 @@ export class CompactContractAdapter implements ContractAdapter {
   private dapps: Map<string, DAppInfo> = new Map();
   private reviews: Map<string, ReviewRecord> = new Map();
   private usedNullifiers: Set<string> = new Set();
+  private reviewerTree: IncrementalMerkleTree = new IncrementalMerkleTree(); // Approved commitments
+  private reviewerRoot: string = this.reviewerTree.getRootHex();
+  private reviewerRootHistory: string[] = [];
+  private enrollments: Map<string, EnrollmentRecord> = new Map();
+  private epochs: EpochService = new EpochService(epochService.getSchedule());
   private currentEpoch: number = 0;
-  private dbName = 'DAppReviewerDB';
+  private nullifierScope: NullifierScope;
+  private adminPublicKey: string | null = null;
+  private adminKeyConfigured: boolean;
+  private moderators: Set<string> = new Set();
+  private usedAuthNonces: Map<string, number> = new Map(); // nonce -> issuedAt
+  private events: ContractEvent[] = [];
+  private subscribers: Set<{ filter: ContractEventFilter; handler: ContractEventHandler }> = new Set();
+  private store: LedgerStore;
   
-  constructor() {
+  constructor(
+    nullifierScope: NullifierScope = DEFAULT_NULLIFIER_SCOPE,
+    adminPublicKey: string | undefined = import.meta.env.VITE_ADMIN_PUBLIC_KEY,
+    store: LedgerStore = new IndexedDBLedgerStore()
+  ) {
+    this.nullifierScope = nullifierScope;
+    this.store = store;
+    
+    // A configured admin key is fixed; otherwise the first initializeAdmin call sets it
+    this.adminKeyConfigured = Boolean(adminPublicKey);
+    if (adminPublicKey) {
+      this.adminPublicKey = normalizePublicKey(adminPublicKey);
+    }
+    
     // Load contract artifacts
     this.loadContractArtifacts();
   }
   
   async initialize(): Promise<void> {
-    this.currentEpoch = Math.floor(Date.now() / (1000 * 60 * 60 * 24)); // Daily epochs
+    this.currentEpoch = this.epochs.getCurrentEpoch();
     
     // Load persisted data
     await this.loadPersistedData();
     
+    // Epochs follow the schedule; record the change since the last recorded epoch
+    const lastEpoch = this.events.length > 0 ? this.events[this.events.length - 1].epoch : null;
+    if (lastEpoch !== null && lastEpoch < this.currentEpoch) {
+      await this.emit('EpochAdvanced', this.generateTxHash('epoch'), { previousEpoch: lastEpoch });
+    }
+    
     console.log('[CompactContractAdapter] Initialized with DApp Reviewer contract');
     console.log(`[CompactContractAdapter] Current epoch: ${this.currentEpoch}`);
   }
@@ -103,12 +431,19 @@ export class CompactContractAdapter implements ContractAdapter {
     address: string,
     name: string,
     category: string,
-    adminSignature: string
+    authorization: string,
+    metadata: Partial<DAppMetadata> = {},
+    ownerKey = ''
   ): Promise<{ txHash: string }> {
-    // Verify admin signature (simplified for demo)
-    if (!adminSignature || adminSignature.length < 10) {
-      throw new Error('Invalid admin signature');
-    }
+    const dappMetadata = normalizeDAppMetadata(metadata);
+    const dappOwnerKey = ownerKey ? normalizePublicKey(ownerKey) : undefined;
+    await this.authorize(
+      authorization,
+      'registerDApp',
+      { address, name, category, metadataHash: hashDAppMetadata(dappMetadata), ownerKey },
+      ['admin']
+    );
+    await this.syncEpoch();
     
     // Check if already registered
     if (this.dapps.has(address)) {
@@ -120,18 +455,28 @@ export class CompactContractAdapter implements ContractAdapter {
       address,
       name,
       category,
+      ...dappMetadata,
       registrationEpoch: this.currentEpoch,
       status: 'ACTIVE',
       totalReviews: 0,
+      ratingSum: 0,
+      ratingHistogram: new Array(MAX_RATING).fill(0),
+      epochRatings: [],
       averageRating: 0,
-      reputationScore: 0
+      dimensionSums: new Array(DIMENSION_SLOTS).fill(0),
+      dimensionCounts: new Array(DIMENSION_SLOTS).fill(0),
+      reputationScore: 0,
+      reputationVersion: reputationEngine.getCurrentVersion(),
+      version: 1,
+      ownerKey: dappOwnerKey
     };
     
     // Store and persist
     this.dapps.set(address, dappInfo);
-    await this.persistDApp(dappInfo);
+    await this.store.putDApp(dappInfo);
     
     const txHash = this.generateTxHash('register');
+    await this.emit('DAppRegistered', txHash, { dappAddress: address, name, category });
     
     console.log('[CompactContractAdapter] DApp registered:', {
       address: address.slice(0, 8) + '...',
@@ -147,14 +492,56 @@ export class CompactContractAdapter implements ContractAdapter {
     return this.dapps.get(address) || null;
   }
   
+  async publishDAppVersion(address: string, authorization: string): Promise<{ txHash: string; version: number }> {
+    await this.authorize(authorization, 'publishDAppVersion', { address }, ['admin']);
+    
+    const dapp = this.dapps.get(address);
+    if (!dapp) {
+      throw new Error('DApp not found');
+    }
+    
+    dapp.version = (dapp.version ?? 1) + 1;
+    await this.store.putDApp(dapp);
+    
+    const txHash = this.generateTxHash('publishVersion');
+    await this.emit('DAppVersionPublished', txHash, { dappAddress: address, version: dapp.version });
+    
+    console.log('[CompactContractAdapter] DApp version published:', {
+      address: address.slice(0, 8) + '...',
+      version: dapp.version,
+      txHash
+    });
+    
+    return { txHash, version: dapp.version };
+  }
+  
+  async suspendDApp(address: string, authorization: string): Promise<{ txHash: string }> {
+    await this.authorize(authorization, 'suspendDApp', { address }, ['admin']);
+    return this.setDAppStatus(address, 'SUSPENDED', ['ACTIVE']);
+  }
+  
+  async reactivateDApp(address: string, authorization: string): Promise<{ txHash: string }> {
+    await this.authorize(authorization, 'reactivateDApp', { address }, ['admin']);
+    return this.setDAppStatus(address, 'ACTIVE', ['SUSPENDED', 'INACTIVE']);
+  }
+  
+  async deactivateDApp(address: string, authorization: string): Promise<{ txHash: string }> {
+    await this.authorize(authorization, 'deactivateDApp', { address }, ['admin']);
+    return this.setDAppStatus(address, 'INACTIVE', ['ACTIVE', 'SUSPENDED']);
+  }
+  
   async submitReview(
     dappAddress: string,
     reviewHash: string,
     rating: number,
+    dimensionRatings: number[],
     interactionProof: string,
     nullifier: string,
-    proof: AppZKProof
+    proof: AppZKProof,
+    interactionOpening?: InteractionOpening
   ): Promise<{ txHash: string; reviewId: string }> {
+    await this.syncEpoch();
+    
     // Verify dApp exists and is active
     const dapp = this.dapps.get(dappAddress);
     if (!dapp || dapp.status !== 'ACTIVE') {
@@ -162,38 +549,32 @@ export class CompactContractAdapter implements ContractAdapter {
     }
     
     // Verify rating range
-    if (rating < 1 || rating > 10) {
+    if (!isValidRating(rating)) {
       throw new Error('Rating must be between 1 and 10');
     }
+    // Only the slots the dApp's category has criteria for
+    validateCriteriaRatings(dapp.category, dimensionRatings);
+    
+    if (!isReviewHash(reviewHash)) {
+      throw new Error('Invalid review hash');
+    }
+    
+    // Empty when the reviewer didn't prove an interaction; otherwise a Bytes<32> commitment
+    // whose opening must prove the statement for this review
+    if (interactionProof) {
+      await this.verifyInteraction(interactionProof, interactionOpening, dappAddress, nullifier);
+    }
     
     // Check nullifier hasn't been used
-    const nullifierKey = `${dappAddress}_${nullifier}`;
+    const nullifierKey = this.nullifierKey(dappAddress, nullifier);
     if (this.usedNullifiers.has(nullifierKey)) {
       throw new Error('Review already submitted (nullifier used)');
     }
     
-    // Verify ZK proof (improved verification)
-    if (!proof.proof || !proof.publicSignals || proof.publicSignals.length === 0) {
-      throw new Error('Invalid ZK proof: missing proof data or public signals');
-    }
+    // Verify the reviewer membership proof
+    await this.verifyReviewerProof(proof, dappAddress, reviewHash, nullifier);
     
-    // Additional proof validation - check if it's a valid base64 encoded proof
-    try {
-      const decodedProof = JSON.parse(atob(proof.proof));
-      if (!decodedProof.type || !decodedProof.signal) {
-        throw new Error('Invalid ZK proof structure');
-      }
-      
-      // Verify the proof is recent (within last hour for demo)
-      const proofAge = Date.now() - proof.timestamp;
-      if (proofAge > 60 * 60 * 1000) { // 1 hour
-        throw new Error('ZK proof is too old');
-      }
-      
-      console.log('[CompactContractAdapter] ZK proof verified successfully');
-    } catch (error) {
-      throw new Error(`ZK proof validation failed: ${error.message}`);
-    }
+    const context = await this.getNullifierContext(dappAddress);
     
     // Generate review ID and create record
     const reviewId = `review_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
@@ -202,11 +583,17 @@ export class CompactContractAdapter implements ContractAdapter {
       dappAddress,
       reviewHash,
       rating,
+      dimensionRatings: [...dimensionRatings],
       epoch: this.currentEpoch,
       timestamp: Date.now(),
-      nullifierHash: this.hashString(nullifier),
+      nullifierHash: this.hashNullifier(nullifier),
+      externalNullifier: fieldToHex(computeExternalNullifier(context)),
       interactionProof,
-      status: 'VERIFIED'
+      interactionVerified: interactionProof !== '',
+      status: 'PENDING',
+      version: 1,
+      history: [],
+      helpfulVotes: 0
     };
     
     // Store review and mark nullifier as used
@@ -214,15 +601,18 @@ export class CompactContractAdapter implements ContractAdapter {
     this.usedNullifiers.add(nullifierKey);
     
     // Update DApp stats
-    await this.updateDAppStats(dappAddress, rating);
-    
-    // Persist data
-    await this.persistReview(review);
-    await this.persistNullifier(nullifierKey);
+    await this.adjustDAppStats(review, 1);
     
+    // The txHash is part of the stored record: version history and findLanded read it back
     const txHash = this.generateTxHash('review');
     review.txHash = txHash;
     
+    // Persist data
+    await this.store.putReview(review);
+    await this.store.putNullifier(nullifierKey);
+    
+    await this.emit('ReviewSubmitted', txHash, { reviewId, dappAddress, rating });
+    
     console.log('[CompactContractAdapter] Review submitted:', {
       reviewId,
       dappAddress: dappAddress.slice(0, 8) + '...',
@@ -233,287 +623,1235 @@ export class CompactContractAdapter implements ContractAdapter {
     return { txHash, reviewId };
   }
   
-  async updateReviewerRoot(newRoot: string, signature: string): Promise<{ txHash: string }> {
-    // Verify admin signature (simplified)
-    if (!signature || signature.length < 10) {
-      throw new Error('Invalid admin signature');
+  // A published review goes back to moderation with its new content; a flagged one stays flagged
+  async updateReview(
+    reviewId: string,
+    reviewHash: string,
+    rating: number,
+    dimensionRatings: number[],
+    proof: AppZKProof
+  ): Promise<{ txHash: string; version: number }> {
+    await this.syncEpoch();
+    
+    const review = this.getRevisableReview(reviewId, 'updated');
+    const dapp = this.dapps.get(review.dappAddress);
+    if (!dapp) {
+      throw new Error('DApp not found');
     }
     
-    const txHash = this.generateTxHash('updateRoot');
+    if (!isValidRating(rating)) {
+      throw new Error('Rating must be between 1 and 10');
+    }
+    validateCriteriaRatings(dapp.category, dimensionRatings);
     
-    console.log('[CompactContractAdapter] Reviewer root updated:', {
-      newRoot: newRoot.slice(0, 16) + '...',
+    if (!isReviewHash(reviewHash)) {
+      throw new Error('Invalid review hash');
+    }
+    
+    await this.verifyOwnershipProof(
+      proof,
+      review,
+      computeOwnershipSignal('update', reviewId, review.version, reviewHash)
+    );
+    
+    // Take the old ratings out of the stats before replacing them
+    const published = PUBLISHED_REVIEW_STATUSES.includes(review.status);
+    if (published) {
+      await this.adjustDAppStats(review, -1);
+    }
+    
+    review.history.push({
+      version: review.version,
+      reviewHash: review.reviewHash,
+      rating: review.rating,
+      dimensionRatings: review.dimensionRatings,
+      timestamp: review.updatedAt ?? review.timestamp,
+      txHash: review.txHash
+    });
+    
+    const txHash = this.generateTxHash('updateReview');
+    review.reviewHash = reviewHash;
+    review.rating = rating;
+    review.dimensionRatings = [...dimensionRatings];
+    review.version += 1;
+    review.updatedAt = Date.now();
+    review.txHash = txHash;
+    if (review.status === 'VERIFIED') {
+      review.status = 'PENDING';
+    }
+    
+    if (published) {
+      await this.adjustDAppStats(review, 1);
+    }
+    await this.store.putReview(review);
+    
+    await this.emit('ReviewUpdated', txHash, {
+      reviewId,
+      dappAddress: review.dappAddress,
+      rating,
+      version: review.version
+    });
+    
+    console.log('[CompactContractAdapter] Review updated:', {
+      reviewId,
+      version: review.version,
       txHash
     });
     
-    return { txHash };
+    return { txHash, version: review.version };
   }
   
-  async addModerator(moderatorKey: string, signature: string): Promise<{ txHash: string }> {
-    // Verify admin signature (simplified)
-    if (!signature || signature.length < 10) {
-      throw new Error('Invalid admin signature');
+  // The record stays, so the history is kept; its nullifier stays used so it can't be resubmitted
+  async revokeReview(reviewId: string, proof: AppZKProof): Promise<{ txHash: string }> {
+    await this.syncEpoch();
+    
+    const review = this.getRevisableReview(reviewId, 'revoked');
+    await this.verifyOwnershipProof(proof, review, computeOwnershipSignal('revoke', reviewId, review.version));
+    
+    const published = PUBLISHED_REVIEW_STATUSES.includes(review.status);
+    review.status = 'REVOKED';
+    await this.store.putReview(review);
+    if (published) {
+      await this.adjustDAppStats(review, -1);
     }
     
-    const txHash = this.generateTxHash('addMod');
+    const txHash = this.generateTxHash('revokeReview');
+    await this.emit('ReviewRevoked', txHash, { reviewId, dappAddress: review.dappAddress });
     
-    console.log('[CompactContractAdapter] Moderator added:', {
-      moderatorKey: moderatorKey.slice(0, 16) + '...',
+    console.log('[CompactContractAdapter] Review revoked:', {
+      reviewId,
       txHash
     });
     
     return { txHash };
   }
   
-  async flagReview(reviewId: string): Promise<{ txHash: string }> {
+  async voteHelpful(
+    reviewId: string,
+    nullifier: string,
+    proof: AppZKProof
+  ): Promise<{ txHash: string; helpfulVotes: number }> {
+    await this.syncEpoch();
+    
     const review = this.reviews.get(reviewId);
     if (!review) {
       throw new Error('Review not found');
     }
+    if (!PUBLISHED_REVIEW_STATUSES.includes(review.status)) {
+      throw new Error('Only published reviews can be voted on');
+    }
+    
+    const voteKey = this.voteKey(reviewId, nullifier);
+    if (this.usedNullifiers.has(voteKey)) {
+      throw new Error('Already voted on this review (nullifier used)');
+    }
+    
+    await this.verifyVoteProof(proof, review, nullifier);
     
-    review.status = 'FLAGGED';
-    await this.persistReview(review);
+    review.helpfulVotes += 1;
+    this.usedNullifiers.add(voteKey);
+    await this.store.putReview(review);
+    await this.store.putNullifier(voteKey);
+    
+    // Votes weigh into the dApp's reputation
+    const dapp = this.dapps.get(review.dappAddress);
+    if (dapp) {
+      this.deriveDAppStats(dapp);
+      await this.store.putDApp(dapp);
+    }
     
-    const txHash = this.generateTxHash('flag');
+    const txHash = this.generateTxHash('voteHelpful');
+    await this.emit('ReviewVotedHelpful', txHash, {
+      reviewId,
+      dappAddress: review.dappAddress,
+      helpfulVotes: review.helpfulVotes,
+      nullifier
+    });
     
-    console.log('[CompactContractAdapter] Review flagged:', {
+    console.log('[CompactContractAdapter] Helpful vote recorded:', {
       reviewId,
+      helpfulVotes: review.helpfulVotes,
+      txHash
+    });
+    
+    return { txHash, helpfulVotes: review.helpfulVotes };
+  }
+  
+  async hasVotedHelpful(reviewId: string, nullifier: string): Promise<boolean> {
+    return this.usedNullifiers.has(this.voteKey(reviewId, nullifier));
+  }
+  
+  async verifyProjectOwner(dappAddress: string, authorization: string): Promise<{ txHash: string }> {
+    const dapp = this.dapps.get(dappAddress);
+    if (!dapp) {
+      throw new Error('DApp not found');
+    }
+    
+    const { publicKey, nonce, issuedAt } = await verifyAuthorization(
+      authorization,
+      'verifyProjectOwner',
+      { dappAddress }
+    );
+    if (!dapp.ownerKey) {
+      throw new Error('This dApp was registered without an owner key');
+    }
+    if (!isOwnerKeyFor(publicKey, dapp.ownerKey)) {
+      throw new Error("The signing key is not this dApp's owner key");
+    }
+    await this.consumeNonce(nonce, issuedAt);
+    
+    dapp.ownerPublicKey = publicKey;
+    await this.store.putDApp(dapp);
+    
+    const txHash = this.generateTxHash('verifyOwner');
+    await this.emit('ProjectOwnerVerified', txHash, { dappAddress });
+    
+    console.log('[CompactContractAdapter] Project owner verified:', {
+      address: dappAddress.slice(0, 8) + '...',
       txHash
     });
     
     return { txHash };
   }
   
-  async listDApps(): Promise<DAppInfo[]> {
-    return Array.from(this.dapps.values()).sort((a, b) => 
-      b.registrationEpoch - a.registrationEpoch
+  async respondToReview(reviewId: string, text: string, authorization: string): Promise<{ txHash: string }> {
+    const review = this.reviews.get(reviewId);
+    if (!review) {
+      throw new Error('Review not found');
+    }
+    const dapp = this.dapps.get(review.dappAddress);
+    if (!dapp?.ownerPublicKey) {
+      throw new Error("This dApp's owner has not been verified");
+    }
+    
+    const { publicKey, nonce, issuedAt } = await verifyAuthorization(
+      authorization,
+      'respondToReview',
+      { reviewId, text }
     );
+    if (publicKey !== dapp.ownerPublicKey) {
+      throw new Error('Only the verified project owner can respond to reviews');
+    }
+    if (!PUBLISHED_REVIEW_STATUSES.includes(review.status)) {
+      throw new Error('Only published reviews can be responded to');
+    }
+    if (review.response) {
+      throw new Error('This review already has a response');
+    }
+    const trimmed = text.trim();
+    if (!trimmed || trimmed.length > MAX_RESPONSE_LENGTH) {
+      throw new Error(`Responses must be 1-${MAX_RESPONSE_LENGTH} characters`);
+    }
+    await this.consumeNonce(nonce, issuedAt);
+    
+    const txHash = this.generateTxHash('respond');
+    review.response = { text: trimmed, timestamp: Date.now(), status: 'VISIBLE', txHash };
+    await this.store.putReview(review);
+    await this.emit('ReviewResponsePosted', txHash, { reviewId, dappAddress: review.dappAddress });
+    
+    console.log('[CompactContractAdapter] Review response posted:', {
+      reviewId,
+      txHash
+    });
+    
+    return { txHash };
   }
   
-  async listReviews(dappAddress?: string): Promise<ReviewRecord[]> {
-    let reviews = Array.from(this.reviews.values());
+  async initializeAdmin(publicKey: string, authorization: string): Promise<{ txHash: string }> {
+    if (this.adminPublicKey) {
+      throw new Error('Admin key already set');
+    }
     
-    if (dappAddress) {
-      reviews = reviews.filter(r => r.dappAddress === dappAddress);
+    // Signed by the new key itself, proving the caller holds its private key
+    const adminKey = normalizePublicKey(publicKey);
+    const signed = await verifyAuthorization(authorization, 'initializeAdmin', { publicKey: adminKey });
+    if (signed.publicKey !== adminKey) {
+      throw new Error('Authorization must be signed by the new admin key');
     }
     
-    return reviews.sort((a, b) => b.timestamp - a.timestamp);
+    this.adminPublicKey = adminKey;
+    await this.store.putState('adminPublicKey', adminKey);
+    
+    const txHash = this.generateTxHash('initAdmin');
+    await this.emit('AdminInitialized', txHash, { publicKey: adminKey });
+    
+    console.log('[CompactContractAdapter] Admin key set:', {
+      publicKey: adminKey.slice(0, 16) + '...',
+      txHash
+    });
+    
+    return { txHash };
   }
   
-  async getTotalStats(): Promise<{ totalDApps: number; totalReviews: number; currentEpoch: number }> {
-    return {
-      totalDApps: this.dapps.size,
-      totalReviews: this.reviews.size,
-      currentEpoch: this.currentEpoch
-    };
+  async getAdminPublicKey(): Promise<string | null> {
+    return this.adminPublicKey;
   }
   
-  async isNullifierUsed(dappAddress: string, nullifier: string): Promise<boolean> {
-    const nullifierKey = `${dappAddress}_${nullifier}`;
-    return this.usedNullifiers.has(nullifierKey);
+  async getReviewerRoot(): Promise<string> {
+    return this.reviewerRoot;
   }
   
-  async isAvailable(): Promise<boolean> {
-    return true;
+  async isKnownReviewerRoot(root: string): Promise<boolean> {
+    const normalized = root.toLowerCase();
+    return normalized === this.reviewerRoot || this.reviewerRootHistory.includes(normalized);
   }
   
-  async getCurrentEpoch(): Promise<number> {
-    return this.currentEpoch;
+  // Anyone can ask; a rejected commitment may ask again
+  async requestEnrollment(commitment: string): Promise<EnrollmentRecord> {
+    const key = normalizeCommitment(commitment);
+    const existing = this.enrollments.get(key);
+    if (existing && existing.status !== 'REJECTED') {
+      return existing;
+    }
+    
+    const record = await this.putEnrollment({ commitment: key, status: 'PENDING', requestedAt: Date.now() });
+    console.log('[CompactContractAdapter] Enrollment requested:', { commitment: key.slice(0, 18) + '...' });
+    return record;
   }
   
-  // Private helper methods
+  async getEnrollment(commitment: string): Promise<EnrollmentRecord | null> {
+    return this.enrollments.get(normalizeCommitment(commitment)) ?? null;
+  }
   
-  private async updateDAppStats(dappAddress: string, newRating: number): Promise<void> {
-    const dapp = this.dapps.get(dappAddress);
-    if (!dapp) return;
-    
-    const currentTotal = dapp.totalReviews;
-    const currentAverage = dapp.averageRating;
-    
-    // Update running average (multiply by 100 for precision)
-    const newTotal = currentTotal + 1;
-    const newAverage = currentTotal === 0 
-      ? newRating * 100
-      : Math.round((currentAverage * currentTotal + newRating * 100) / newTotal);
-    
-    dapp.totalReviews = newTotal;
-    dapp.averageRating = newAverage;
-    dapp.reputationScore = this.calculateReputationScore(dapp);
-    
-    await this.persistDApp(dapp);
+  async listEnrollments(status?: EnrollmentStatus): Promise<EnrollmentRecord[]> {
+    return [...this.enrollments.values()]
+      .filter(record => !status || record.status === status)
+      .sort((a, b) => b.requestedAt - a.requestedAt);
   }
   
-  private calculateReputationScore(dapp: DAppInfo): number {
-    const reviewCount = dapp.totalReviews;
-    const avgRating = dapp.averageRating; // Already * 100
-    const age = this.currentEpoch - dapp.registrationEpoch;
+  async approveEnrollment(commitment: string, authorization: string): Promise<EnrollmentRecord> {
+    const key = normalizeCommitment(commitment);
+    await this.authorize(authorization, 'approveEnrollment', { commitment: key }, ['admin']);
+    const record = this.getEnrollmentIn(key, 'PENDING');
     
-    // Base score from rating and review count
-    const logApprox = reviewCount === 0 ? 0 : 
-      reviewCount <= 1 ? 0 :
-      reviewCount <= 2 ? 69 : // ln(2) * 100
-      reviewCount <= 7 ? 194 : // ln(7) * 100
-      reviewCount <= 20 ? 299 : 399; // ln(20) * 100
+    const leafIndex = await this.reviewerTree.insert(BigInt(key));
+    const txHash = await this.publishReviewerRoot();
     
-    const baseScore = Math.round((avgRating * logApprox) / 10000);
-    
-    // Longevity bonus (max 200 points)
-    const ageBonus = Math.min(age * 10, 200);
+    console.log('[CompactContractAdapter] Enrollment approved:', { leafIndex, txHash });
+    return this.putEnrollment({ ...record, status: 'APPROVED', decidedAt: Date.now(), leafIndex, rootTxHash: txHash });
+  }
+  
+  async rejectEnrollment(commitment: string, authorization: string): Promise<EnrollmentRecord> {
+    const key = normalizeCommitment(commitment);
+    await this.authorize(authorization, 'rejectEnrollment', { commitment: key }, ['admin']);
+    const record = this.getEnrollmentIn(key, 'PENDING');
     
-    // Final reputation score (max 10000 = 100.00)
-    return Math.min(baseScore + ageBonus, 10000);
+    return this.putEnrollment({ ...record, status: 'REJECTED', decidedAt: Date.now() });
   }
   
-  private loadContractArtifacts(): void {
-    // In a real deployment, this would load the actual contract artifacts
-    console.log('[CompactContractAdapter] Loading contract artifacts...');
+  // The slot stays allocated, so every other reviewer's leaf index is unchanged
+  async revokeEnrollment(commitment: string, authorization: string): Promise<EnrollmentRecord> {
+    const key = normalizeCommitment(commitment);
+    await this.authorize(authorization, 'revokeEnrollment', { commitment: key }, ['admin']);
+    const record = this.getEnrollmentIn(key, 'APPROVED');
     
-    // Mock loading contract artifacts from /public/zk-artifacts/
-    const contractData = {
-      name: 'dapp_reviewer',
-      circuits: ['registerDApp', 'submitReview', 'updateReviewerRoot', 'addModerator', 'flagReview'],
-      witnesses: ['adminSecretKey', 'reviewerIdentitySecret', 'reviewerMerklePath', 'reviewerMerkleIndices', 'reviewContent']
-    };
+    await this.reviewerTree.remove(record.leafIndex!);
+    const txHash = await this.publishReviewerRoot(true);
     
-    console.log('[CompactContractAdapter] Contract loaded:', contractData);
+    console.log('[CompactContractAdapter] Enrollment revoked:', { leafIndex: record.leafIndex, txHash });
+    return this.putEnrollment({ ...record, status: 'REVOKED', decidedAt: Date.now(), rootTxHash: txHash });
   }
   
-  private generateTxHash(operation: string): string {
-    const timestamp = Date.now().toString();
-    const random = Math.random().toString(36).slice(2);
-    return `0x${this.hashString(operation + timestamp + random)}`;
-  }
-  
-  private hashString(input: string): string {
-    // Simple hash function for demo
-    let hash = 0;
-    for (let i = 0; i < input.length; i++) {
-      const char = input.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32-bit integer
-    }
-    return Math.abs(hash).toString(16).padStart(16, '0');
-  }
-  
-  // IndexedDB persistence methods
-  
-  private async openDB(): Promise<IDBDatabase> {
-    return new Promise((resolve, reject) => {
-      const request = indexedDB.open(this.dbName, 1);
-      request.onerror = () => reject(request.error);
-      request.onsuccess = () => resolve(request.result);
-      request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-        
-        if (!db.objectStoreNames.contains('dapps')) {
-          db.createObjectStore('dapps', { keyPath: 'address' });
-        }
-        if (!db.objectStoreNames.contains('reviews')) {
-          db.createObjectStore('reviews', { keyPath: 'id' });
-        }
-        if (!db.objectStoreNames.contains('nullifiers')) {
-          db.createObjectStore('nullifiers', { keyPath: 'key' });
-        }
-      };
-    });
+  async getReviewerLeaves(): Promise<string[]> {
+    return this.reviewerTree.getLeaves().map(leaf => fieldToHex(leaf));
   }
   
-  private async persistDApp(dapp: DAppInfo): Promise<void> {
-    const db = await this.openDB();
-    const tx = db.transaction(['dapps'], 'readwrite');
-    const store = tx.objectStore('dapps');
+  async advanceEpoch(authorization: string): Promise<{ txHash: string; epoch: number }> {
+    await this.syncEpoch();
+    // Signed for the epoch being ended, so a stale authorization can't skip a second one
+    await this.authorize(authorization, 'advanceEpoch', { epoch: this.currentEpoch }, ['admin']);
+    
+    const previousEpoch = this.currentEpoch;
+    this.epochs.setSchedule(this.epochs.advancedSchedule());
+    await this.store.putState('epochSchedule', this.epochs.getSchedule());
+    this.currentEpoch = this.epochs.getCurrentEpoch();
+    
+    const txHash = this.generateTxHash('advanceEpoch');
+    await this.emit('EpochAdvanced', txHash, { previousEpoch });
     
-    return new Promise((resolve, reject) => {
-      const request = store.put(dapp);
-      request.onsuccess = () => resolve();
-      request.onerror = () => reject(request.error);
+    console.log('[CompactContractAdapter] Epoch advanced:', {
+      from: previousEpoch,
+      to: this.currentEpoch,
+      txHash
     });
+    
+    return { txHash, epoch: this.currentEpoch };
   }
   
-  private async persistReview(review: ReviewRecord): Promise<void> {
-    const db = await this.openDB();
-    const tx = db.transaction(['reviews'], 'readwrite');
-    const store = tx.objectStore('reviews');
+  async getEpochSchedule(): Promise<EpochSchedule> {
+    return this.epochs.getSchedule();
+  }
+    
+  async addModerator(moderatorKey: string, authorization: string): Promise<{ txHash: string }> {
+    await this.authorize(authorization, 'addModerator', { moderatorKey }, ['admin']);
+    
+    const key = normalizePublicKey(moderatorKey);
+    if (key === this.adminPublicKey) {
+      throw new Error('The admin key cannot be a moderator');
+    }
+    this.moderators.add(key);
+    await this.store.putState('moderators', Array.from(this.moderators));
+    
+    const txHash = this.generateTxHash('addMod');
+    await this.emit('ModeratorAdded', txHash, { moderatorKey: key });
     
-    return new Promise((resolve, reject) => {
-      const request = store.put(review);
-      request.onsuccess = () => resolve();
-      request.onerror = () => reject(request.error);
+    console.log('[CompactContractAdapter] Moderator added:', {
+      moderatorKey: key.slice(0, 16) + '...',
+      txHash
     });
+    
+    return { txHash };
   }
   
-  private async persistNullifier(nullifierKey: string): Promise<void> {
-    const db = await this.openDB();
-    const tx = db.transaction(['nullifiers'], 'readwrite');
-    const store = tx.objectStore('nullifiers');
+  async removeModerator(moderatorKey: string, authorization: string): Promise<{ txHash: string }> {
+    await this.authorize(authorization, 'removeModerator', { moderatorKey }, ['admin']);
     
-    return new Promise((resolve, reject) => {
-      const request = store.put({ key: nullifierKey, used: true });
-      request.onsuccess = () => resolve();
-      request.onerror = () => reject(request.error);
-    });
+    const key = normalizePublicKey(moderatorKey);
+    if (!this.moderators.delete(key)) {
+      throw new Error('Moderator not found');
+    }
+    await this.store.putState('moderators', Array.from(this.moderators));
+    
+    const txHash = this.generateTxHash('removeMod');
+    await this.emit('ModeratorRemoved', txHash, { moderatorKey: key });
+    
+    return { txHash };
   }
   
-  private async loadPersistedData(): Promise<void> {
-    try {
-      const db = await this.openDB();
-      
-      // Load DApps
-      const dappTx = db.transaction(['dapps'], 'readonly');
-      const dappStore = dappTx.objectStore('dapps');
-      const dapps = await new Promise<DAppInfo[]>((resolve, reject) => {
-        const request = dappStore.getAll();
-        request.onsuccess = () => resolve(request.result);
-        request.onerror = () => reject(request.error);
-      });
-      
-      dapps.forEach(dapp => this.dapps.set(dapp.address, dapp));
-      
-      // Load Reviews
-      const reviewTx = db.transaction(['reviews'], 'readonly');
-      const reviewStore = reviewTx.objectStore('reviews');
-      const reviews = await new Promise<ReviewRecord[]>((resolve, reject) => {
-        const request = reviewStore.getAll();
-        request.onsuccess = () => resolve(request.result);
-        request.onerror = () => reject(request.error);
-      });
-      
-      reviews.forEach(review => this.reviews.set(review.id, review));
-      
-      // Load Nullifiers
-      const nullifierTx = db.transaction(['nullifiers'], 'readonly');
-      const nullifierStore = nullifierTx.objectStore('nullifiers');
-      const nullifiers = await new Promise<{key: string}[]>((resolve, reject) => {
-        const request = nullifierStore.getAll();
-        request.onsuccess = () => resolve(request.result);
-        request.onerror = () => reject(request.error);
-      });
-      
-      nullifiers.forEach(n => this.usedNullifiers.add(n.key));
-      
-      console.log(`[CompactContractAdapter] Loaded ${dapps.length} DApps, ${reviews.length} reviews, ${nullifiers.length} nullifiers`);
-    } catch (error) {
-      console.log('[CompactContractAdapter] No persisted data found, starting fresh');
-    }
+  async listModerators(): Promise<string[]> {
+    return Array.from(this.moderators);
+  }
+  
+  async getRole(publicKey: string): Promise<AuthRole | null> {
+    return this.roleOf(normalizePublicKey(publicKey));
+  }
+  
+  async verifyAuthorization(
+    authorization: string,
+    operation: AuthorizedOperation,
+    params: AuthParams,
+    roles: AuthRole[]
+  ): Promise<AuthRole> {
+    return this.authorize(authorization, operation, params, roles);
+  }
+  
+  async approveReview(reviewId: string, authorization: string): Promise<{ txHash: string }> {
+    await this.authorize(authorization, 'approveReview', { reviewId }, ['admin', 'moderator']);
+    return this.setReviewStatus(reviewId, 'VERIFIED', ['PENDING']);
+  }
+  
+  async rejectReview(reviewId: string, authorization: string): Promise<{ txHash: string }> {
+    await this.authorize(authorization, 'rejectReview', { reviewId }, ['admin', 'moderator']);
+    return this.setReviewStatus(reviewId, 'REJECTED', ['PENDING', 'FLAGGED']);
+  }
+  
+  async flagReview(reviewId: string, authorization: string): Promise<{ txHash: string }> {
+    await this.authorize(authorization, 'flagReview', { reviewId }, ['admin', 'moderator']);
+    return this.setReviewStatus(reviewId, 'FLAGGED', ['PENDING', 'VERIFIED']);
+  }
+  
+  // Flagged reviews go back to the moderation queue
+  async unflagReview(reviewId: string, authorization: string): Promise<{ txHash: string }> {
+    await this.authorize(authorization, 'unflagReview', { reviewId }, ['admin', 'moderator']);
+    return this.setReviewStatus(reviewId, 'PENDING', ['FLAGGED']);
+  }
+  
+  // Removes the record entirely; its nullifier stays used so it can't be resubmitted
+  async deleteReview(reviewId: string, authorization: string): Promise<{ txHash: string }> {
+    await this.authorize(authorization, 'deleteReview', { reviewId }, ['admin']);
+    
+    const review = this.reviews.get(reviewId);
+    if (!review) {
+      throw new Error('Review not found');
+    }
+    
+    this.reviews.delete(reviewId);
+    await this.store.deleteReview(reviewId);
+    if (PUBLISHED_REVIEW_STATUSES.includes(review.status)) {
+      await this.adjustDAppStats(review, -1);
+    }
+    
+    const txHash = this.generateTxHash('deleteReview');
+    await this.emit('ReviewDeleted', txHash, { reviewId, dappAddress: review.dappAddress });
+    
+    console.log('[CompactContractAdapter] Review deleted:', {
+      reviewId,
+      txHash
+    });
+    
+    return { txHash };
+  }
+  
+  async hideResponse(reviewId: string, authorization: string): Promise<{ txHash: string }> {
+    await this.authorize(authorization, 'hideResponse', { reviewId }, ['admin', 'moderator']);
+    return this.setResponseStatus(reviewId, 'HIDDEN');
+  }
+  
+  async restoreResponse(reviewId: string, authorization: string): Promise<{ txHash: string }> {
+    await this.authorize(authorization, 'restoreResponse', { reviewId }, ['admin', 'moderator']);
+    return this.setResponseStatus(reviewId, 'VISIBLE');
+  }
+  
+  async listDApps(): Promise<DAppInfo[]> {
+    return Array.from(this.dapps.values()).sort((a, b) => 
+      b.registrationEpoch - a.registrationEpoch
+    );
+  }
+  
+  async listReviews(dappAddress?: string): Promise<ReviewRecord[]> {
+    let reviews = Array.from(this.reviews.values());
+    
+    if (dappAddress) {
+      reviews = reviews.filter(r => r.dappAddress === dappAddress);
+    }
+    
+    return reviews.sort((a, b) => b.timestamp - a.timestamp);
+  }
+  
+  async getTotalStats(): Promise<{ totalDApps: number; totalReviews: number; currentEpoch: number }> {
+    await this.syncEpoch();
+    const publishedReviews = Array.from(this.reviews.values())
+      .filter(review => PUBLISHED_REVIEW_STATUSES.includes(review.status));
+    
+    return {
+      totalDApps: this.dapps.size,
+      totalReviews: publishedReviews.length,
+      currentEpoch: this.currentEpoch
+    };
+  }
+  
+  async isNullifierUsed(dappAddress: string, nullifier: string): Promise<boolean> {
+    return this.usedNullifiers.has(this.nullifierKey(dappAddress, nullifier));
+  }
+  
+  async getNullifierScope(): Promise<NullifierScope> {
+    return this.nullifierScope;
+  }
+  
+  async getNullifierContext(dappAddress: string): Promise<NullifierContext> {
+    await this.syncEpoch();
+    const dapp = this.dapps.get(dappAddress);
+    if (!dapp) {
+      throw new Error('DApp not found');
+    }
+    
+    return {
+      dappAddress,
+      scope: this.nullifierScope,
+      epoch: this.currentEpoch,
+      version: dapp.version ?? 1
+    };
+  }
+  
+  subscribe(filter: ContractEventFilter, handler: ContractEventHandler): () => void {
+    const subscriber = { filter, handler };
+    this.subscribers.add(subscriber);
+    
+    if (filter.fromSeq !== undefined) {
+      this.events
+        .filter(event => eventMatchesFilter(event, filter))
+        .forEach(event => this.deliver(subscriber, event));
+    }
+    
+    return () => {
+      this.subscribers.delete(subscriber);
+    };
+  }
+  
+  async getEvents(fromSeq = 0, filter: ContractEventFilter = {}): Promise<ContractEvent[]> {
+    return this.events.filter(event => event.seq >= fromSeq && eventMatchesFilter(event, filter));
+  }
+  
+  async getTransactionReceipt(txHash: string): Promise<TransactionReceipt | null> {
+    const events = this.events.filter(event => event.txHash === txHash);
+    if (events.length === 0) return null;
+    
+    return {
+      txHash,
+      blockNumber: events[0].seq,
+      epoch: events[0].epoch,
+      timestamp: events[0].timestamp,
+      events
+    };
+  }
+  
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+  
+  async getCurrentEpoch(): Promise<number> {
+    await this.syncEpoch();
+    return this.currentEpoch;
+  }
+  
+  // Private helper methods
+  
+  // Record a scheduled epoch change that happened since the last transaction
+  private async syncEpoch(): Promise<void> {
+    const epoch = this.epochs.getCurrentEpoch();
+    if (epoch <= this.currentEpoch) return;
+    
+    const previousEpoch = this.currentEpoch;
+    this.currentEpoch = epoch;
+    await this.emit('EpochAdvanced', this.generateTxHash('epoch'), { previousEpoch });
+  }
+  
+  // Append an event to the log and notify matching subscribers
+  private async emit<T extends ContractEventType>(
+    type: T,
+    txHash: string,
+    data: ContractEventData[T]
+  ): Promise<void> {
+    const previous = this.events[this.events.length - 1];
+    const event = {
+      seq: previous ? previous.seq + 1 : 1,
+      type,
+      txHash,
+      epoch: this.currentEpoch,
+      timestamp: Date.now(),
+      data
+    } as ContractEvent;
+    
+    this.events.push(event);
+    await this.store.putEvent(event);
+    
+    for (const subscriber of this.subscribers) {
+      if (eventMatchesFilter(event, subscriber.filter)) {
+        this.deliver(subscriber, event);
+      }
+    }
+  }
+  
+  // A failing handler must not break the transaction that emitted the event
+  private deliver(subscriber: { handler: ContractEventHandler }, event: ContractEvent): void {
+    try {
+      subscriber.handler(event);
+    } catch (error) {
+      console.error('[CompactContractAdapter] Event handler failed:', error);
+    }
+  }
+  
+  // Verify a signed authorization, check the signer's role and consume its nonce
+  private async authorize(
+    authorization: string,
+    operation: AuthorizedOperation,
+    params: AuthParams,
+    roles: AuthRole[]
+  ): Promise<AuthRole> {
+    const { publicKey, nonce, issuedAt } = await verifyAuthorization(authorization, operation, params);
+    
+    const role = this.roleOf(publicKey);
+    if (!role || !roles.includes(role)) {
+      throw new Error(roles.includes('moderator') ? 'Only admin or moderators can do this' : 'Only admin can do this');
+    }
+    
+    await this.consumeNonce(nonce, issuedAt);
+    return role;
+  }
+  
+  private async consumeNonce(nonce: string, issuedAt: number): Promise<void> {
+    // Nonces only need remembering until their authorization would expire anyway
+    const cutoff = Date.now() - AUTH_MAX_AGE_MS;
+    for (const [usedNonce, usedAt] of this.usedAuthNonces) {
+      if (usedAt < cutoff) this.usedAuthNonces.delete(usedNonce);
+    }
+    if (this.usedAuthNonces.has(nonce)) {
+      throw new Error('Authorization already used');
+    }
+    this.usedAuthNonces.set(nonce, issuedAt);
+    await this.store.putState('authNonces', Array.from(this.usedAuthNonces));
+  }
+  
+  private roleOf(publicKey: string): AuthRole | null {
+    if (publicKey === this.adminPublicKey) return 'admin';
+    if (this.moderators.has(publicKey)) return 'moderator';
+    return null;
+  }
+  
+  private async setDAppStatus(
+    address: string,
+    status: DAppInfo['status'],
+    allowedFrom: DAppInfo['status'][]
+  ): Promise<{ txHash: string }> {
+    const dapp = this.dapps.get(address);
+    if (!dapp) {
+      throw new Error('DApp not found');
+    }
+    if (!allowedFrom.includes(dapp.status)) {
+      throw new Error(`Cannot change DApp status from ${dapp.status} to ${status}`);
+    }
+    
+    dapp.status = status;
+    await this.store.putDApp(dapp);
+    
+    const txHash = this.generateTxHash('setStatus');
+    await this.emit('DAppStatusChanged', txHash, { dappAddress: address, status });
+    
+    console.log('[CompactContractAdapter] DApp status changed:', {
+      address: address.slice(0, 8) + '...',
+      status,
+      txHash
+    });
+    
+    return { txHash };
+  }
+  
+  // Moves a review between moderation states, adding or removing its rating from the dApp stats
+  private async setReviewStatus(
+    reviewId: string,
+    status: ReviewRecord['status'],
+    allowedFrom: ReviewRecord['status'][]
+  ): Promise<{ txHash: string }> {
+    const review = this.reviews.get(reviewId);
+    if (!review) {
+      throw new Error('Review not found');
+    }
+    if (!allowedFrom.includes(review.status)) {
+      throw new Error(`Cannot change review status from ${review.status} to ${status}`);
+    }
+    
+    const wasPublished = PUBLISHED_REVIEW_STATUSES.includes(review.status);
+    const isPublished = PUBLISHED_REVIEW_STATUSES.includes(status);
+    
+    review.status = status;
+    review.moderatedAt = Date.now();
+    await this.store.putReview(review);
+    
+    if (wasPublished !== isPublished) {
+      await this.adjustDAppStats(review, isPublished ? 1 : -1);
+    }
+    
+    const txHash = this.generateTxHash('setReviewStatus');
+    await this.emit(REVIEW_STATUS_EVENTS[status], txHash, { reviewId, dappAddress: review.dappAddress });
+    
+    console.log('[CompactContractAdapter] Review status changed:', {
+      reviewId,
+      status,
+      txHash
+    });
+    
+    return { txHash };
+  }
+  
+  private getEnrollmentIn(commitment: string, status: EnrollmentStatus): EnrollmentRecord {
+    const record = this.enrollments.get(commitment);
+    if (!record) {
+      throw new Error('Enrollment request not found');
+    }
+    if (record.status !== status) {
+      throw new Error(`Enrollment is ${record.status.toLowerCase()}, expected ${status.toLowerCase()}`);
+    }
+    return record;
+  }
+  
+  private async putEnrollment(record: EnrollmentRecord): Promise<EnrollmentRecord> {
+    this.enrollments.set(record.commitment, record);
+    await this.store.putState('enrollments', [...this.enrollments.values()]);
+    return record;
+  }
+  
+  // Persists the tree's leaves and moves to its root; recent roots stay valid
+  // for proofs built just before the change
+  // A revocation retires the history: reviewers with proofs in flight rebuild them
+  private async publishReviewerRoot(retireHistory = false): Promise<string> {
+    const root = this.reviewerTree.getRootHex();
+    await this.store.putState('reviewerLeaves', await this.getReviewerLeaves());
+    
+    if (retireHistory) {
+      this.reviewerRootHistory = [];
+    } else if (root !== this.reviewerRoot) {
+      this.reviewerRootHistory = [this.reviewerRoot, ...this.reviewerRootHistory]
+        .slice(0, REVIEWER_ROOT_HISTORY_SIZE - 1);
+    }
+    this.reviewerRoot = root;
+    await this.store.putState('reviewerRoot', {
+      current: this.reviewerRoot,
+      history: this.reviewerRootHistory
+    });
+    
+    const txHash = this.generateTxHash('updateRoot');
+    await this.emit('RootUpdated', txHash, { root });
+    
+    console.log('[CompactContractAdapter] Reviewer root updated:', {
+      newRoot: root.slice(0, 16) + '...',
+      txHash
+    });
+    
+    return txHash;
+  }
+  
+  // Responses stay on the review when hidden, so a moderator can restore them
+  private async setResponseStatus(
+    reviewId: string,
+    status: ReviewResponse['status']
+  ): Promise<{ txHash: string }> {
+    const review = this.reviews.get(reviewId);
+    if (!review?.response) {
+      throw new Error('Review has no response');
+    }
+    if (review.response.status === status) {
+      throw new Error(`Response is already ${status.toLowerCase()}`);
+    }
+    
+    review.response.status = status;
+    review.response.moderatedAt = Date.now();
+    await this.store.putReview(review);
+    
+    const txHash = this.generateTxHash('setResponseStatus');
+    await this.emit(
+      status === 'HIDDEN' ? 'ReviewResponseHidden' : 'ReviewResponseRestored',
+      txHash,
+      { reviewId, dappAddress: review.dappAddress }
+    );
+    
+    console.log('[CompactContractAdapter] Response status changed:', {
+      reviewId,
+      status,
+      txHash
+    });
+    
+    return { txHash };
+  }
+  
+  // Adds (delta 1) or removes (delta -1) one review's ratings, then re-derives the average and reputation
+  private async adjustDAppStats(review: ReviewRecord, delta: 1 | -1): Promise<void> {
+    const dapp = this.dapps.get(review.dappAddress);
+    if (!dapp) return;
+    
+    const { rating, epoch } = review;
+    if (delta < 0 && dapp.ratingHistogram[rating - 1] === 0) {
+      throw new Error('DApp stats do not include this rating');
+    }
+    
+    dapp.ratingHistogram[rating - 1] += delta;
+    dapp.ratingSum += delta * rating;
+    dapp.totalReviews += delta;
+    this.adjustDimensionRatings(dapp, review.dimensionRatings, delta);
+    this.adjustEpochRatings(dapp, rating, epoch, delta);
+    this.deriveDAppStats(dapp);
+    
+    await this.store.putDApp(dapp);
+  }
+  
+  private adjustDimensionRatings(dapp: DAppInfo, dimensionRatings: number[], delta: 1 | -1): void {
+    dimensionRatings.forEach((rating, slot) => {
+      if (rating === UNRATED) return;
+      dapp.dimensionSums[slot] += delta * rating;
+      dapp.dimensionCounts[slot] += delta;
+    });
+  }
+  
+  private adjustEpochRatings(dapp: DAppInfo, rating: number, epoch: number, delta: 1 | -1): void {
+    let aggregate = dapp.epochRatings.find(entry => entry.epoch === epoch);
+    if (!aggregate) {
+      aggregate = { epoch, reviewCount: 0, ratingSum: 0 };
+      dapp.epochRatings.push(aggregate);
+      dapp.epochRatings.sort((a, b) => a.epoch - b.epoch);
+    }
+    
+    aggregate.reviewCount += delta;
+    aggregate.ratingSum += delta * rating;
+    if (aggregate.reviewCount <= 0) {
+      dapp.epochRatings = dapp.epochRatings.filter(entry => entry !== aggregate);
+    }
+  }
+  
+  private deriveDAppStats(dapp: DAppInfo): void {
+    dapp.averageRating = dapp.totalReviews === 0
+      ? 0
+      : Math.round((dapp.ratingSum * AVERAGE_PRECISION) / dapp.totalReviews);
+    
+    const { score, version } = reputationEngine.score(this.reputationInput(dapp));
+    dapp.reputationScore = score;
+    dapp.reputationVersion = version;
+  }
+  
+  private reputationInput(dapp: DAppInfo): ReputationInput {
+    const input: ReputationInput = {
+      registrationEpoch: dapp.registrationEpoch,
+      currentEpoch: this.currentEpoch,
+      reviews: [],
+      removedReviews: 0
+    };
+    
+    for (const review of this.reviews.values()) {
+      if (review.dappAddress !== dapp.address) continue;
+      if (PUBLISHED_REVIEW_STATUSES.includes(review.status)) {
+        input.reviews.push({
+          rating: review.rating,
+          epoch: review.epoch,
+          credibility: reviewCredibility(review),
+          helpfulVotes: review.helpfulVotes
+        });
+      } else if (review.status !== 'REVOKED') {
+        // An author withdrawing their own review says nothing about the dApp
+        input.removedReviews++;
+      }
+    }
+    return input;
+  }
+  
+  // DApps persisted before the rating aggregates existed get them rebuilt from the reviews
+  private rebuildDAppStats(dapp: DAppInfo): void {
+    dapp.ratingHistogram = new Array(MAX_RATING).fill(0);
+    dapp.epochRatings = [];
+    dapp.dimensionSums = new Array(DIMENSION_SLOTS).fill(0);
+    dapp.dimensionCounts = new Array(DIMENSION_SLOTS).fill(0);
+    dapp.ratingSum = 0;
+    dapp.totalReviews = 0;
+    
+    for (const review of this.reviews.values()) {
+      if (review.dappAddress === dapp.address && PUBLISHED_REVIEW_STATUSES.includes(review.status)) {
+        dapp.ratingHistogram[review.rating - 1]++;
+        dapp.ratingSum += review.rating;
+        dapp.totalReviews++;
+        this.adjustDimensionRatings(dapp, review.dimensionRatings, 1);
+        this.adjustEpochRatings(dapp, review.rating, review.epoch, 1);
+      }
+    }
+    this.deriveDAppStats(dapp);
+  }
+  
+  private loadContractArtifacts(): void {
+    // In a real deployment, this would load the actual contract artifacts
+    console.log('[CompactContractAdapter] Loading contract artifacts...');
+    
+    // Mock loading contract artifacts from /public/zk-artifacts/
+    const contractData = {
+      name: 'dapp_reviewer',
+      circuits: [
+        'updateEpoch', 'advanceEpoch',
+        'registerDApp', 'publishDAppVersion', 'suspendDApp', 'reactivateDApp', 'deactivateDApp',
+        'submitReview', 'updateReview', 'revokeReview', 'voteHelpful',
+        'verifyProjectOwner', 'respondToReview', 'hideResponse', 'restoreResponse',
+        'requestEnrollment', 'approveEnrollment', 'rejectEnrollment', 'revokeEnrollment', 'addModerator', 'removeModerator',
+        'approveReview', 'rejectReview', 'flagReview', 'unflagReview', 'deleteReview'
+      ],
+      witnesses: ['adminSecretKey', 'ownerSecretKey', 'reviewerIdentitySecret', 'reviewerMerklePath', 'reviewerMerkleIndices', 'reviewContent']
+    };
+    
+    console.log('[CompactContractAdapter] Contract loaded:', contractData);
+  }
+  
+  private getRevisableReview(reviewId: string, change: 'updated' | 'revoked'): ReviewRecord {
+    const review = this.reviews.get(reviewId);
+    if (!review) {
+      throw new Error('Review not found');
+    }
+    if (!REVISABLE_REVIEW_STATUSES.includes(review.status)) {
+      throw new Error(`A ${review.status.toLowerCase()} review cannot be ${change}`);
+    }
+    return review;
+  }
+  
+  // Groth16 membership proof: enrolled reviewer, this dApp's nullifier scope, bound to this nullifier and review
+  private async verifyReviewerProof(
+    proof: AppZKProof,
+    dappAddress: string,
+    reviewHash: string,
+    nullifier: string
+  ): Promise<void> {
+    if (!proof.midnightProof || proof.circuitName !== 'membership_rln') {
+      throw new Error('Invalid ZK proof: missing membership proof');
+    }
+    
+    const [root, externalNullifier, proofNullifier, signalHash] = proof.midnightProof.publicSignals;
+    
+    if (!(await this.isKnownReviewerRoot(fieldToHex(BigInt(root))))) {
+      throw new Error('Invalid reviewer proof: unknown reviewer Merkle root');
+    }
+    const context = await this.getNullifierContext(dappAddress);
+    if (BigInt(externalNullifier) !== computeExternalNullifier(context)) {
+      throw new Error('ZK proof was generated for a different dApp or review scope');
+    }
+    if (BigInt(proofNullifier) !== parseFieldElement(nullifier)) {
+      throw new Error('Nullifier does not match the ZK proof');
+    }
+    if (BigInt(signalHash) !== poseidon([digestToField(reviewHash)])) {
+      throw new Error('ZK proof is not bound to this review');
+    }
+    
+    if (!(await midnightJS.verifyProof(proof.circuitName, proof.midnightProof))) {
+      throw new Error('ZK proof verification failed');
+    }
+    
+    console.log('[CompactContractAdapter] ZK proof verified successfully');
+  }
+  
+  // The opening is checked against the chain and dropped; only the commitment is stored
+  private async verifyInteraction(
+    commitment: string,
+    opening: InteractionOpening | undefined,
+    dappAddress: string,
+    nullifier: string
+  ): Promise<void> {
+    if (!isInteractionCommitment(commitment) || !opening) {
+      throw new Error('Invalid interaction proof: a commitment and its opening are required');
+    }
+    if (opening.statement.dappAddress.trim().toLowerCase() !== dappAddress.trim().toLowerCase()) {
+      throw new Error('Interaction proof was made for a different dApp');
+    }
+    if (opening.nullifier !== nullifier) {
+      throw new Error('Interaction proof was made for a different review');
+    }
+    
+    try {
+      await interactionProver.verify(commitment, opening);
+    } catch (error) {
+      throw new Error(`Invalid interaction proof: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  
+  // Membership proof from the review's author: only the identity that derived
+  // the review's nullifier can prove one that hashes to its nullifierHash
+  private async verifyOwnershipProof(proof: AppZKProof, review: ReviewRecord, signal: string): Promise<void> {
+    if (!proof.midnightProof || proof.circuitName !== 'membership_rln') {
+      throw new Error('Invalid ZK proof: missing membership proof');
+    }
+    
+    const [root, , proofNullifier, signalHash] = proof.midnightProof.publicSignals;
+    
+    if (!(await this.isKnownReviewerRoot(fieldToHex(BigInt(root))))) {
+      throw new Error('Invalid reviewer proof: unknown reviewer Merkle root');
+    }
+    if (this.hashNullifier(proofNullifier) !== review.nullifierHash) {
+      throw new Error('Only the author of this review can change it');
+    }
+    if (BigInt(signalHash) !== poseidon([digestToField(signal)])) {
+      throw new Error('ZK proof is not bound to this change');
+    }
+    
+    if (!(await midnightJS.verifyProof(proof.circuitName, proof.midnightProof))) {
+      throw new Error('ZK proof verification failed');
+    }
+  }
+  
+  // Membership proof scoped to the review rather than a dApp, from anyone but its author
+  private async verifyVoteProof(proof: AppZKProof, review: ReviewRecord, nullifier: string): Promise<void> {
+    if (!proof.midnightProof || proof.circuitName !== 'helpful_vote') {
+      throw new Error('Invalid ZK proof: missing helpful vote proof');
+    }
+    
+    const reviewId = review.id;
+    const [root, externalNullifier, proofNullifier, signalHash, authorScope, authorNullifierHash] =
+      proof.midnightProof.publicSignals;
+    
+    if (!(await this.isKnownReviewerRoot(fieldToHex(BigInt(root))))) {
+      throw new Error('Invalid reviewer proof: unknown reviewer Merkle root');
+    }
+    if (BigInt(externalNullifier) !== computeVoteExternalNullifier(reviewId)) {
+      throw new Error('ZK proof was generated for a different review');
+    }
+    if (BigInt(proofNullifier) !== parseFieldElement(nullifier)) {
+      throw new Error('Nullifier does not match the ZK proof');
+    }
+    if (BigInt(signalHash) !== poseidon([digestToField(computeVoteSignal(reviewId))])) {
+      throw new Error('ZK proof is not bound to this vote');
+    }
+    // The circuit proves the voter's nullifier under these doesn't hash to the author's
+    if (
+      BigInt(authorScope) !== parseFieldElement(review.externalNullifier) ||
+      BigInt(authorNullifierHash) !== parseFieldElement(review.nullifierHash)
+    ) {
+      throw new Error('ZK proof does not show the voter is not the author of this review');
+    }
+    
+    if (!(await midnightJS.verifyProof(proof.circuitName, proof.midnightProof))) {
+      throw new Error('ZK proof verification failed');
+    }
+  }
+  
+  // Canonical key so the same nullifier can't be replayed in another encoding (hex vs decimal)
+  private nullifierKey(dappAddress: string, nullifier: string): string {
+    return `${dappAddress}_${fieldToHex(parseFieldElement(nullifier))}`;
+  }
+  
+  // Kept with the review nullifiers under its own prefix
+  private voteKey(reviewId: string, nullifier: string): string {
+    return `helpful_${reviewId}_${fieldToHex(parseFieldElement(nullifier))}`;
+  }
+  
+  private hashNullifier(nullifier: string): string {
+    // Same Poseidon as the circuits, so the stored hash can be recomputed from a proof's nullifier
+    return fieldToHex(hashNullifier(parseFieldElement(nullifier)));
+  }
+  
+  // 32-byte transaction hash, unique per call
+  private generateTxHash(operation: string): string {
+    const nonce = Array.from(crypto.getRandomValues(new Uint8Array(16)), b => b.toString(16).padStart(2, '0')).join('');
+    return `0x${SHA256(`${operation}:${Date.now()}:${nonce}`).toString(Hex)}`;
+  }
+  
+  // Version 1 -> 2: ratings were whole stars (1-5) before the half-star 1-10
+  // scale. Reviews from then are the ones stored without dimension ratings.
+  private migrateRatingScale(reviews: ReviewRecord[]): ReviewRecord[] {
+    const rescaled = reviews.filter(review => review.dimensionRatings === undefined && isValidStars(review.rating));
+    rescaled.forEach(review => {
+      review.rating = starsToRating(review.rating);
+    });
+    return rescaled;
+  }
+  
+  private async loadPersistedData(): Promise<void> {
+    // A store that fails to load is an error, not an empty ledger: starting fresh over it would
+    // skip the migrations and hide the ledger's reviewers, roots and nullifiers
+    const { dapps, reviews, nullifiers, events, state } = await this.store.load();
+    if (dapps.length === 0 && reviews.length === 0 && events.length === 0 && Object.keys(state).length === 0) {
+      // A new ledger starts on the current layout
+      await this.store.putState('ledgerVersion', LEDGER_VERSION);
+      console.log('[CompactContractAdapter] No persisted data found, starting fresh');
+      return;
+    }
+    
+    // Ledgers without a version predate versioning (version 1)
+    const ledgerVersion = (state.ledgerVersion as number | undefined) ?? 1;
+    const rescaled = ledgerVersion < 2 ? this.migrateRatingScale(reviews) : [];
+    
+    dapps.forEach(dapp => this.dapps.set(dapp.address, dapp));
+    reviews.forEach(review => {
+      // Reviews from before dimension ratings rated none
+      review.dimensionRatings ??= emptyDimensionRatings();
+      // Reviews from before updates are on their first version
+      review.version ??= 1;
+      review.history ??= [];
+      review.helpfulVotes ??= 0;
+      // Reviews from before interaction checks: their commitments were never opened
+      review.interactionVerified ??= false;
+      // Reviews from before vote author checks: this ledger's scope at the dApp's current version
+      review.externalNullifier ??= fieldToHex(computeExternalNullifier({
+        dappAddress: review.dappAddress,
+        scope: this.nullifierScope,
+        epoch: review.epoch,
+        version: this.dapps.get(review.dappAddress)?.version ?? 1
+      }));
+      this.reviews.set(review.id, review);
+    });
+    nullifiers.forEach(key => this.usedNullifiers.add(key));
+    this.events = events;
+    for (const review of rescaled) {
+      await this.store.putReview(review);
+    }
+    const rescaledDApps = new Set(rescaled.map(review => review.dappAddress));
+    
+    // The schedule moves when an admin ends an epoch early
+    const schedule = state.epochSchedule as EpochSchedule | undefined;
+    if (schedule) {
+      this.epochs.setSchedule(schedule);
+      this.currentEpoch = this.epochs.getCurrentEpoch();
+    }
+    
+    // Backfill older records and re-score: time decay moves scores as epochs pass,
+    // and the reputation algorithm may have changed since the last run
+    for (const dapp of this.dapps.values()) {
+      const previous = { score: dapp.reputationScore, version: dapp.reputationVersion };
+      const rebuild = rescaledDApps.has(dapp.address) ||
+        !dapp.ratingHistogram || !dapp.epochRatings || !dapp.dimensionSums;
+      if (rebuild) {
+        this.rebuildDAppStats(dapp);
+      } else {
+        this.deriveDAppStats(dapp);
+      }
+      
+      if (rebuild || dapp.reputationScore !== previous.score || dapp.reputationVersion !== previous.version) {
+        await this.store.putDApp(dapp);
+        if (previous.version !== dapp.reputationVersion) {
+          console.log('[CompactContractAdapter] Reputation backfilled:', {
+            address: dapp.address.slice(0, 8) + '...',
+            fromVersion: previous.version ?? 1,
+            toVersion: dapp.reputationVersion
+          });
+        }
+      }
+    }
+    
+    // Load contract state
+    const rootState = state.reviewerRoot as { current: string; history: string[] } | undefined;
+    if (rootState) {
+      this.reviewerRoot = rootState.current;
+      this.reviewerRootHistory = rootState.history;
+    }
+    // Ledgers from before enrollment moved on-chain have neither; their reviewers enroll again
+    const leaves = (state.reviewerLeaves as string[] | undefined) ?? [];
+    this.reviewerTree = await IncrementalMerkleTree.fromLeaves(leaves.map(leaf => BigInt(leaf)));
+    const enrollments = (state.enrollments as EnrollmentRecord[] | undefined) ?? [];
+    this.enrollments = new Map(enrollments.map(record => [record.commitment, record]));
+    
+    if (!this.adminKeyConfigured) {
+      this.adminPublicKey = (state.adminPublicKey as string | undefined) ?? null;
+    }
+    this.moderators = new Set((state.moderators as string[] | undefined) ?? []);
+    this.usedAuthNonces = new Map((state.authNonces as [string, number][] | undefined) ?? []);
+    
+    if (ledgerVersion < LEDGER_VERSION) {
+      await this.store.putState('ledgerVersion', LEDGER_VERSION);
+      console.log('[CompactContractAdapter] Ledger migrated:', {
+        fromVersion: ledgerVersion,
+        toVersion: LEDGER_VERSION,
+        rescaledReviews: rescaled.length
+      });
+    }
+    
+    console.log(`[CompactContractAdapter] Loaded ${dapps.length} DApps, ${reviews.length} reviews, ${nullifiers.length} nullifiers, ${this.events.length} events`);
   }
 }
 
+export type ContractNetwork = 'simulated' | 'devnet' | 'testnet';
+
+export interface ContractNetworkConfig {
+  id: ContractNetwork;
+  label: string;
+  description: string;
+  rpcUrl?: string; // Node/indexer endpoint; the simulation needs none
+}
+
+export const CONTRACT_NETWORKS: ContractNetworkConfig[] = [
+  {
+    id: 'simulated',
+    label: 'Simulated',
+    description: 'Runs the contract in this browser and stores its ledger in IndexedDB.'
+  },
+  {
+    id: 'devnet',
+    label: 'Local Devnet',
+    description: 'Local stand-in node started with `npm run devnet`.',
+    rpcUrl: import.meta.env.VITE_DEVNET_RPC_URL || 'http://localhost:9944'
+  },
+  {
+    id: 'testnet',
+    label: 'Testnet',
+    description: 'Midnight testnet node and indexer.',
+    rpcUrl: import.meta.env.VITE_TESTNET_RPC_URL
+  }
+];
+
+const NETWORK_STORAGE_KEY = 'contract_network';
+
 /**
  * Contract Manager - Singleton that manages the active adapter
  */
 class ContractManager {
   private static instance: ContractManager;
   private adapter: ContractAdapter;
+  private network: ContractNetwork;
+  private initialized: Promise<void>;
+  private stopFollowingEpochs: (() => void) | null = null;
   
   private constructor() {
-    // Always use the Compact contract adapter for the DApp reviewer
-    console.log('[ContractManager] Using Compact DApp Reviewer contract');
-    this.adapter = new CompactContractAdapter();
+    const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(NETWORK_STORAGE_KEY) : null;
+    const network = CONTRACT_NETWORKS.find(config => config.id === stored && this.isConfigured(config));
+    this.network = network?.id ?? 'simulated';
+    
+    console.log('[ContractManager] Using network:', this.network);
+    this.adapter = this.createAdapter(this.network);
     
     // Initialize the adapter
-    this.adapter.initialize().catch(error => {
+    const adapter = this.adapter;
+    // Callers awaiting getReadyAdapter see the failure rather than an adapter with half its state
+    const initialized = adapter.initialize().then(() => this.followEpochSchedule(adapter));
+    initialized.catch(error => {
       console.error('[ContractManager] Failed to initialize adapter:', error);
     });
+    this.initialized = initialized;
   }
   
   static getInstance(): ContractManager {
@@ -527,10 +1865,63 @@ class ContractManager {
     return this.adapter;
   }
   
+  // Adapter once its persisted state has loaded (for reads on first render)
+  async getReadyAdapter(): Promise<ContractAdapter> {
+    await this.initialized;
+    return this.adapter;
+  }
+  
+  getNetwork(): ContractNetwork {
+    return this.network;
+  }
+  
+  isConfigured(config: ContractNetworkConfig): boolean {
+    return config.id === 'simulated' || Boolean(config.rpcUrl);
+  }
+  
+  // Connects to the network before switching, so a failed switch keeps the current one.
+  // Existing event subscriptions stay with the previous adapter.
+  async switchNetwork(network: ContractNetwork): Promise<void> {
+    const adapter = this.createAdapter(network);
+    await adapter.initialize();
+    await this.followEpochSchedule(adapter);
+    
+    this.adapter = adapter;
+    this.network = network;
+    this.initialized = Promise.resolve();
+    localStorage.setItem(NETWORK_STORAGE_KEY, network);
+    
+    console.log('[ContractManager] Switched network:', network);
+  }
+  
   async reinitialize(): Promise<void> {
     await this.adapter.initialize();
     console.log('[ContractManager] Adapter reinitialized');
   }
+  
+  // Everything that reads epochs through epochService uses the contract's schedule,
+  // including after an admin ends an epoch early
+  private async followEpochSchedule(adapter: ContractAdapter): Promise<void> {
+    epochService.setSchedule(await adapter.getEpochSchedule());
+    
+    this.stopFollowingEpochs?.();
+    this.stopFollowingEpochs = adapter.subscribe({ types: ['EpochAdvanced'] }, () => {
+      adapter.getEpochSchedule()
+        .then(schedule => epochService.setSchedule(schedule))
+        .catch(error => console.error('[ContractManager] Failed to load epoch schedule:', error));
+    });
+  }
+  
+  private createAdapter(network: ContractNetwork): ContractAdapter {
+    const config = CONTRACT_NETWORKS.find(entry => entry.id === network)!;
+    if (network === 'simulated') {
+      return new CompactContractAdapter();
+    }
+    if (!config.rpcUrl) {
+      throw new Error(`No RPC URL configured for ${config.label}`);
+    }
+    return new RpcContractAdapter(config.rpcUrl);
+  }
 }
 
 // Export singleton instance
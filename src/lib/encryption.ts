@@ -500,6 +500,71 @@ export function validatePasswordStrength(password: string): { valid: boolean; er
   return { valid: true };
 }
 
+// Password-protected payload (PBKDF2-SHA256 + AES-GCM)
+export interface PasswordEncryptedData {
+  encrypted: string;
+  salt: string;
+  iv: string;
+}
+
+async function derivePasswordKey(
+  password: string,
+  salt: ArrayBuffer,
+  usage: 'encrypt' | 'decrypt'
+): Promise<CryptoKey> {
+  const keyMaterial = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  
+  return crypto.subtle.deriveKey(
+    {
+      name: 'PBKDF2',
+      salt: salt,
+      iterations: 100000,
+      hash: 'SHA-256'
+    },
+    keyMaterial,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    [usage]
+  );
+}
+
+export async function encryptWithPassword(plaintext: string, password: string): Promise<PasswordEncryptedData> {
+  const salt = new Uint8Array(16);
+  crypto.getRandomValues(salt);
+  const key = await derivePasswordKey(password, salt.buffer, 'encrypt');
+  
+  const iv = new Uint8Array(12);
+  crypto.getRandomValues(iv);
+  const encrypted = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv: iv.buffer },
+    key,
+    new TextEncoder().encode(plaintext)
+  );
+  
+  return {
+    encrypted: arrayBufferToBase64(encrypted),
+    salt: arrayBufferToBase64(salt.buffer),
+    iv: arrayBufferToBase64(iv.buffer)
+  };
+}
+
+// Throws if the password is wrong (AES-GCM authentication fails)
+export async function decryptWithPassword(data: PasswordEncryptedData, password: string): Promise<string> {
+  const key = await derivePasswordKey(password, base64ToArrayBuffer(data.salt), 'decrypt');
+  const decrypted = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: base64ToArrayBuffer(data.iv) },
+    key,
+    base64ToArrayBuffer(data.encrypted)
+  );
+  return new TextDecoder().decode(decrypted);
+}
+
 export async function exportKeyPair(keyPair: KeyPair, password?: string): Promise<string> {
   const data = JSON.stringify(keyPair);
   
@@ -511,43 +576,8 @@ export async function exportKeyPair(keyPair: KeyPair, password?: string): Promis
     }
 
     // Encrypt with password using PBKDF2 + AES-GCM
-    const encoder = new TextEncoder();
-    const salt = new Uint8Array(16);
-    crypto.getRandomValues(salt);
-    
-    const keyMaterial = await crypto.subtle.importKey(
-      'raw',
-      encoder.encode(password),
-      'PBKDF2',
-      false,
-      ['deriveKey']
-    );
-    
-    const key = await crypto.subtle.deriveKey(
-      {
-        name: 'PBKDF2',
-        salt: salt,
-        iterations: 100000,
-        hash: 'SHA-256'
-      },
-      keyMaterial,
-      { name: 'AES-GCM', length: 256 },
-      false,
-      ['encrypt']
-    );
-    
-    const iv = new Uint8Array(12);
-    crypto.getRandomValues(iv);
-    const encrypted = await crypto.subtle.encrypt(
-      { name: 'AES-GCM', iv: iv.buffer },
-      key,
-      encoder.encode(data)
-    );
-    
     return JSON.stringify({
-      encrypted: arrayBufferToBase64(encrypted),
-      salt: arrayBufferToBase64(salt.buffer),
-      iv: arrayBufferToBase64(iv.buffer),
+      ...(await encryptWithPassword(data, password)),
       version: '1.0',
       protected: true
     });
@@ -569,37 +599,7 @@ export async function importKeyPair(data: string, password?: string): Promise<Ke
     }
     
     if (parsed.protected && password) {
-      const encoder = new TextEncoder();
-      
-      const keyMaterial = await crypto.subtle.importKey(
-        'raw',
-        encoder.encode(password),
-        'PBKDF2',
-        false,
-        ['deriveKey']
-      );
-      
-      const key = await crypto.subtle.deriveKey(
-        {
-          name: 'PBKDF2',
-          salt: base64ToArrayBuffer(parsed.salt),
-          iterations: 100000,
-          hash: 'SHA-256'
-        },
-        keyMaterial,
-        { name: 'AES-GCM', length: 256 },
-        false,
-        ['decrypt']
-      );
-      
-      const decrypted = await crypto.subtle.decrypt(
-        { name: 'AES-GCM', iv: base64ToArrayBuffer(parsed.iv) },
-        key,
-        base64ToArrayBuffer(parsed.encrypted)
-      );
-      
-      const decoder = new TextDecoder();
-      return JSON.parse(decoder.decode(decrypted));
+      return JSON.parse(await decryptWithPassword(parsed, password));
     }
     
     // Unprotected key file
@@ -0,0 +1,121 @@
+/**
+ * Epoch Service
+ *
+ * The single definition of epochs, shared by the contract adapters, rate-limit
+ * nullifiers, proofs, the UI and the reports API. Epoch n covers
+ * [genesisTime + n * epochDuration, genesisTime + (n + 1) * epochDuration).
+ *
+ * An admin can end the current epoch early. That moves genesisTime so the
+ * next epoch starts immediately; the contract stores the resulting schedule
+ * and clients adopt it when they connect.
+ */
+
+export interface EpochSchedule {
+  genesisTime: number; // ms since the Unix epoch at which epoch 0 started
+  epochDuration: number; // ms
+}
+
+// Daily epochs counted from the Unix epoch, as the app has always used
+export const DEFAULT_EPOCH_SCHEDULE: EpochSchedule = {
+  genesisTime: 0,
+  epochDuration: 24 * 60 * 60 * 1000
+};
+
+/**
+ * Read the schedule from environment variables, so the browser (import.meta.env)
+ * and serverless functions (process.env) agree:
+ *   VITE_EPOCH_GENESIS      ms timestamp or ISO date of epoch 0
+ *   VITE_EPOCH_DURATION_MS  epoch length in ms
+ */
+export function parseEpochSchedule(env: Record<string, string | boolean | undefined> = {}): EpochSchedule {
+  const schedule = { ...DEFAULT_EPOCH_SCHEDULE };
+
+  const genesis = env.VITE_EPOCH_GENESIS;
+  if (typeof genesis === 'string' && genesis !== '') {
+    const time = /^\d+$/.test(genesis) ? Number(genesis) : Date.parse(genesis);
+    if (Number.isFinite(time)) schedule.genesisTime = time;
+  }
+
+  const duration = Number(env.VITE_EPOCH_DURATION_MS);
+  if (Number.isInteger(duration) && duration > 0) {
+    schedule.epochDuration = duration;
+  }
+
+  return schedule;
+}
+
+export class EpochService {
+  private schedule: EpochSchedule;
+
+  constructor(schedule: EpochSchedule = DEFAULT_EPOCH_SCHEDULE) {
+    this.schedule = { ...schedule };
+  }
+
+  getSchedule(): EpochSchedule {
+    return { ...this.schedule };
+  }
+
+  setSchedule(schedule: EpochSchedule): void {
+    if (!Number.isInteger(schedule.epochDuration) || schedule.epochDuration <= 0) {
+      throw new Error('Epoch duration must be a positive number of milliseconds');
+    }
+    this.schedule = { ...schedule };
+  }
+
+  // Epoch containing the given time
+  epochAt(time: number): number {
+    return Math.floor((time - this.schedule.genesisTime) / this.schedule.epochDuration);
+  }
+
+  getCurrentEpoch(now = Date.now()): number {
+    return this.epochAt(now);
+  }
+
+  getEpochStart(epoch: number): Date {
+    return new Date(this.schedule.genesisTime + epoch * this.schedule.epochDuration);
+  }
+
+  getEpochEnd(epoch: number): Date {
+    return this.getEpochStart(epoch + 1);
+  }
+
+  getTimeToNextEpoch(now = Date.now()): number {
+    return this.getEpochEnd(this.getCurrentEpoch(now)).getTime() - now;
+  }
+
+  // Schedule under which the next epoch starts at `now`
+  advancedSchedule(now = Date.now()): EpochSchedule {
+    const nextEpoch = this.getCurrentEpoch(now) + 1;
+    return {
+      genesisTime: now - nextEpoch * this.schedule.epochDuration,
+      epochDuration: this.schedule.epochDuration
+    };
+  }
+
+  formatEpoch(epoch: number): string {
+    return this.getEpochStart(epoch).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    });
+  }
+
+  formatDuration(ms: number = this.schedule.epochDuration): string {
+    const minutes = Math.round(ms / (60 * 1000));
+    if (minutes < 60) return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+    const hours = Math.floor(minutes / 60);
+    const rest = minutes % 60;
+    if (rest > 0) return `${hours}h ${rest}m`;
+    return `${hours} hour${hours === 1 ? '' : 's'}`;
+  }
+
+  formatTimeRemaining(now = Date.now()): string {
+    const remaining = this.getTimeToNextEpoch(now);
+    const hours = Math.floor(remaining / (1000 * 60 * 60));
+    const minutes = Math.floor((remaining % (1000 * 60 * 60)) / (1000 * 60));
+    return `${hours}h ${minutes}m remaining`;
+  }
+}
+
+// Shared instance; ContractManager replaces its schedule with the contract's on connect
+export const epochService = new EpochService(parseEpochSchedule(import.meta.env));
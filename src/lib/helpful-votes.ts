@@ -0,0 +1,106 @@
+/**
+ * Helpful Votes
+ *
+ * Enrolled reviewers can mark a review as helpful without revealing who they
+ * are. A vote carries a membership proof whose nullifier is scoped to the
+ * review (see ./nullifier), so the contract accepts one vote per identity
+ * per review and never learns which identity cast it. The proof also shows
+ * the voter is not the review's author, so the contract turns away self-votes
+ * without learning who wrote the review either. Vote tallies order
+ * reviews by helpfulness and raise a review's weight in the dApp's
+ * reputation (see ./reputation).
+ */
+
+import { contractManager, ReviewRecord, PUBLISHED_REVIEW_STATUSES } from './contract-adapter';
+import { generateHelpfulVoteProof } from './midnight-stub';
+import { identityManager, ReviewerIdentity } from './identity';
+import { reviewerRegistry } from './reviewer-registry';
+import { fieldToHex, parseFieldElement } from './poseidon';
+import { transactionManager } from './transactions';
+import { reviewSubmissionService } from './review-submission';
+import { computeVoteExternalNullifier, computeVoteSignal, deriveVoteNullifier } from './nullifier';
+
+class HelpfulVoteService {
+  private static instance: HelpfulVoteService;
+
+  static getInstance(): HelpfulVoteService {
+    if (!HelpfulVoteService.instance) {
+      HelpfulVoteService.instance = new HelpfulVoteService();
+    }
+    return HelpfulVoteService.instance;
+  }
+
+  async vote(
+    reviewId: string,
+    identity: ReviewerIdentity | null = identityManager.getIdentity()
+  ): Promise<{ txHash: string; helpfulVotes: number }> {
+    if (!identity) {
+      throw new Error('Unlock your reviewer identity before voting');
+    }
+
+    const adapter = await contractManager.getReadyAdapter();
+    const review = (await adapter.listReviews()).find(record => record.id === reviewId);
+    if (!review) {
+      throw new Error('Review not found');
+    }
+    if (!PUBLISHED_REVIEW_STATUSES.includes(review.status)) {
+      throw new Error('Only published reviews can be voted on');
+    }
+    // The proof can't be generated for an author's own review, so say why up front
+    if (await reviewSubmissionService.isAuthor(review, identity)) {
+      throw new Error('You cannot vote on your own review');
+    }
+
+    const nullifier = fieldToHex(deriveVoteNullifier(identity.secret, review.id));
+    if (await adapter.hasVotedHelpful(review.id, nullifier)) {
+      throw new Error('You have already voted on this review');
+    }
+
+    const merkleProof = await reviewerRegistry.getMembershipProof(fieldToHex(identity.commitment));
+    const proof = await generateHelpfulVoteProof({
+      identitySecret: identity.secret,
+      merkleProof,
+      externalNullifier: computeVoteExternalNullifier(review.id),
+      signal: computeVoteSignal(review.id),
+      authorScope: parseFieldElement(review.externalNullifier),
+      authorNullifierHash: parseFieldElement(review.nullifierHash)
+    });
+
+    const result = await transactionManager.track(
+      'voteHelpful',
+      {
+        description: 'Helpful vote',
+        reference: { dappAddress: review.dappAddress, reviewId: review.id },
+        findLanded: async () => {
+          const events = await adapter.getEvents(0, { types: ['ReviewVotedHelpful'], dappAddress: review.dappAddress });
+          const vote = events.find(event =>
+            event.type === 'ReviewVotedHelpful' && event.data.reviewId === review.id && event.data.nullifier === nullifier
+          );
+          return vote?.type === 'ReviewVotedHelpful' ? { txHash: vote.txHash, helpfulVotes: vote.data.helpfulVotes } : null;
+        }
+      },
+      () => adapter.voteHelpful(review.id, nullifier, proof)
+    );
+
+    console.log('[HelpfulVoteService] Vote recorded:', {
+      reviewId: review.id,
+      helpfulVotes: result.helpfulVotes
+    });
+
+    return result;
+  }
+
+  // Reviews out of the given ones that this identity has already voted on
+  async votedReviewIds(reviews: ReviewRecord[], identity: ReviewerIdentity): Promise<Set<string>> {
+    const adapter = await contractManager.getReadyAdapter();
+    const voted = await Promise.all(
+      reviews.map(review =>
+        adapter.hasVotedHelpful(review.id, fieldToHex(deriveVoteNullifier(identity.secret, review.id)))
+      )
+    );
+    return new Set(reviews.filter((_, i) => voted[i]).map(review => review.id));
+  }
+}
+
+// Export singleton instance
+export const helpfulVoteService = HelpfulVoteService.getInstance();
@@ -0,0 +1,186 @@
+/**
+ * Reviewer Identity
+ *
+ * Semaphore-style identity: a random trapdoor and nullifier secret (from the
+ * Web Crypto CSPRNG) derive the identity secret used by the membership circuit,
+ * and its Poseidon commitment is the leaf enrolled in the reviewer Merkle tree.
+ *
+ *   secret     = Poseidon(nullifierSecret, trapdoor)
+ *   commitment = Poseidon(secret)
+ *
+ * The identity is stored in localStorage encrypted under a user password and is
+ * only held in memory while unlocked.
+ */
+
+import { poseidon, FIELD_PRIME, fieldToHex } from './poseidon';
+import {
+  encryptWithPassword,
+  decryptWithPassword,
+  validatePasswordStrength,
+  PasswordEncryptedData
+} from './encryption';
+
+export interface ReviewerIdentity {
+  trapdoor: bigint;
+  nullifierSecret: bigint;
+  secret: bigint;
+  commitment: bigint;
+}
+
+interface StoredIdentity {
+  version: 1;
+  commitment: string; // public, so enrollment status can be shown while locked
+  encrypted: PasswordEncryptedData;
+  createdAt: number;
+}
+
+const STORAGE_KEY = 'reviewer_identity';
+
+// Uniformly random BN254 field element (rejection sampling over 254-bit values)
+export function randomFieldElement(): bigint {
+  const bytes = new Uint8Array(32);
+  for (;;) {
+    crypto.getRandomValues(bytes);
+    bytes[0] &= 0x3f; // keep 254 bits
+    const value = BigInt('0x' + Array.from(bytes, b => b.toString(16).padStart(2, '0')).join(''));
+    if (value !== BigInt(0) && value < FIELD_PRIME) {
+      return value;
+    }
+  }
+}
+
+export function deriveIdentity(trapdoor: bigint, nullifierSecret: bigint): ReviewerIdentity {
+  const secret = poseidon([nullifierSecret, trapdoor]);
+  return {
+    trapdoor,
+    nullifierSecret,
+    secret,
+    commitment: poseidon([secret])
+  };
+}
+
+export function createIdentity(): ReviewerIdentity {
+  return deriveIdentity(randomFieldElement(), randomFieldElement());
+}
+
+class IdentityManager {
+  private static instance: IdentityManager;
+  private identity: ReviewerIdentity | null = null;
+  private listeners: Set<() => void> = new Set();
+
+  static getInstance(): IdentityManager {
+    if (!IdentityManager.instance) {
+      IdentityManager.instance = new IdentityManager();
+    }
+    return IdentityManager.instance;
+  }
+
+  hasStoredIdentity(): boolean {
+    return this.loadStored() !== null;
+  }
+
+  // Commitment of the stored identity (available while locked)
+  getStoredCommitment(): string | null {
+    return this.loadStored()?.commitment ?? null;
+  }
+
+  isUnlocked(): boolean {
+    return this.identity !== null;
+  }
+
+  getIdentity(): ReviewerIdentity | null {
+    return this.identity;
+  }
+
+  async create(password: string): Promise<ReviewerIdentity> {
+    if (this.hasStoredIdentity()) {
+      throw new Error('A reviewer identity already exists on this device');
+    }
+
+    const validation = validatePasswordStrength(password);
+    if (!validation.valid) {
+      throw new Error(validation.error);
+    }
+
+    const identity = createIdentity();
+    const stored: StoredIdentity = {
+      version: 1,
+      commitment: fieldToHex(identity.commitment),
+      encrypted: await encryptWithPassword(
+        JSON.stringify({
+          trapdoor: identity.trapdoor.toString(),
+          nullifierSecret: identity.nullifierSecret.toString()
+        }),
+        password
+      ),
+      createdAt: Date.now()
+    };
+
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+    this.identity = identity;
+    this.notify();
+
+    console.log('[IdentityManager] Identity created:', { commitment: stored.commitment.slice(0, 18) + '...' });
+    return identity;
+  }
+
+  async unlock(password: string): Promise<ReviewerIdentity> {
+    const stored = this.loadStored();
+    if (!stored) {
+      throw new Error('No reviewer identity found on this device');
+    }
+
+    let secrets: { trapdoor: string; nullifierSecret: string };
+    try {
+      secrets = JSON.parse(await decryptWithPassword(stored.encrypted, password));
+    } catch {
+      throw new Error('Incorrect password');
+    }
+
+    const identity = deriveIdentity(BigInt(secrets.trapdoor), BigInt(secrets.nullifierSecret));
+    if (fieldToHex(identity.commitment) !== stored.commitment) {
+      throw new Error('Stored identity is corrupted (commitment mismatch)');
+    }
+
+    this.identity = identity;
+    this.notify();
+    return identity;
+  }
+
+  lock(): void {
+    this.identity = null;
+    this.notify();
+  }
+
+  // Permanently delete the identity from this device
+  remove(): void {
+    localStorage.removeItem(STORAGE_KEY);
+    this.lock();
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  private loadStored(): StoredIdentity | null {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+
+    try {
+      const stored = JSON.parse(raw) as StoredIdentity;
+      return stored.version === 1 ? stored : null;
+    } catch {
+      return null;
+    }
+  }
+}
+
+// Export singleton instance
+export const identityManager = IdentityManager.getInstance();
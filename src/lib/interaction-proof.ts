@@ -0,0 +1,384 @@
+/**
+ * Proof of Interaction
+ *
+ * A reviewer can show that a wallet they control sent at least N transactions
+ * to the reviewed dApp's contract address before a given block. The statement
+ * is checked against a chain source, and what goes on-chain (into the review's
+ * `interactionProof`) is a 32-byte hiding commitment:
+ *
+ *   txRoot     = Poseidon(H(txHash_1), ..., H(txHash_k))   (hashes sorted)
+ *   commitment = Poseidon(H(domain), H(chainId), H(dappAddress), minTransactions,
+ *                         beforeBlock, H(wallet), txRoot, nullifier, salt)
+ *
+ * Transactions are public, so listing them proves nothing by itself: the
+ * wallet key also signs a challenge naming the dApp, the statement and the
+ * review's nullifier, which ties the wallet's consent to this one review.
+ *
+ * The commitment hides the wallet and its transactions. The opening (wallet,
+ * public key, signature, transaction hashes, salt) goes along with the review
+ * submission: the contract adapter checks it with `interactionProver.verify`
+ * before it accepts the commitment, then drops it, so the ledger only records
+ * that the commitment was checked. The reviewer keeps the opening and can hand
+ * it to anyone else who wants to check the claim. Keeping the opening from
+ * the node as well needs an interaction circuit with the opening as its
+ * private witness; the commitment is laid out so such a circuit can recompute it.
+ */
+
+import SHA256 from 'crypto-js/sha256';
+import Hex from 'crypto-js/enc-hex';
+import { importSigningKey, normalizePublicKey, signMessage, verifyMessage } from './admin-auth';
+import { poseidonSponge, fieldToHex, parseFieldElement } from './poseidon';
+import { stringToField } from './nullifier';
+import fixtureData from '../config/interaction-fixture.json';
+
+const INTERACTION_DOMAIN = 'dapp-reviewer/interaction/v1';
+
+// Threshold the submission form starts with; reviewers can prove a higher or lower one
+export const DEFAULT_MIN_TRANSACTIONS = 3;
+
+export interface ChainTransaction {
+  hash: string;
+  from: string;
+  to: string;
+  blockNumber: number;
+}
+
+// Read access to a chain's transaction history
+export interface ChainSource {
+  readonly chainId: string;
+  getBlockNumber(): Promise<number>;
+  getTransaction(hash: string): Promise<ChainTransaction | null>;
+}
+
+export interface ChainFixture {
+  chainId: string;
+  latestBlock: number;
+  dapps: Array<{ name: string; address: string; ownerPublicKey: string }>; // See ./project-owner
+  wallets: Array<{ label: string; address: string }>;
+  transactions: ChainTransaction[];
+}
+
+// Private keys of the fixture's dApp owners and wallets, keyed by address
+export interface FixtureKeys {
+  owners: Record<string, string>;
+  wallets: Record<string, string>;
+}
+
+// Development builds only: the import is dropped from production bundles, so they never ship the keys
+export async function loadFixtureKeys(): Promise<FixtureKeys | null> {
+  if (!import.meta.env.DEV) return null;
+  return (await import('../config/interaction-fixture-keys.json')).default;
+}
+
+/**
+ * Fixture Chain - a fixed local transaction history for development and demos.
+ * Register one of its dApps and use one of its wallets to try the flow; their
+ * private keys come from loadFixtureKeys.
+ */
+export class FixtureChain implements ChainSource {
+  readonly chainId: string;
+  private fixture: ChainFixture;
+  private transactions: Map<string, ChainTransaction>;
+
+  constructor(fixture: ChainFixture) {
+    this.chainId = fixture.chainId;
+    this.fixture = fixture;
+    this.transactions = new Map(fixture.transactions.map(tx => [normalizeHash(tx.hash), tx]));
+  }
+
+  async getBlockNumber(): Promise<number> {
+    return this.fixture.latestBlock;
+  }
+
+  async getTransaction(hash: string): Promise<ChainTransaction | null> {
+    const tx = this.transactions.get(normalizeHash(hash));
+    return tx ? { ...tx } : null;
+  }
+
+  getDApps(): ChainFixture['dapps'] {
+    return [...this.fixture.dapps];
+  }
+
+  getWallets(): ChainFixture['wallets'] {
+    return [...this.fixture.wallets];
+  }
+
+  // A wallet's transactions, so demo users don't have to copy hashes by hand
+  listTransactions(wallet: string): ChainTransaction[] {
+    const address = normalizeAddress(wallet);
+    return this.fixture.transactions.filter(tx => normalizeAddress(tx.from) === address).map(tx => ({ ...tx }));
+  }
+}
+
+export const fixtureChain = new FixtureChain(fixtureData);
+
+// What the reviewer claims about the dApp
+export interface InteractionStatement {
+  dappAddress: string;
+  minTransactions: number;
+  beforeBlock: number; // Transactions must be in earlier blocks
+}
+
+// A transaction hash, or a full receipt that must match the chain
+export type SuppliedTransaction = string | ChainTransaction;
+
+export interface InteractionWitness {
+  walletKey: string; // base64 private JWK of the wallet
+  transactions: SuppliedTransaction[];
+}
+
+// Everything needed to recompute and check a commitment; kept by the reviewer
+export interface InteractionOpening {
+  statement: InteractionStatement;
+  chainId: string;
+  wallet: string;
+  walletPublicKey: string;
+  signature: string; // base64 wallet signature over the challenge
+  transactionHashes: string[];
+  nullifier: string;
+  salt: string;
+}
+
+export interface InteractionProof {
+  commitment: string; // 0x-prefixed 32-byte hex, stored as the review's interactionProof
+  opening: InteractionOpening;
+}
+
+// Wallet address of a P-256 public key: the last 20 bytes of its SHA-256
+export function walletAddress(publicKey: string): string {
+  return '0x' + SHA256(normalizePublicKey(publicKey)).toString(Hex).slice(-40);
+}
+
+// Message the wallet signs to bind itself to one review
+export function interactionChallenge(statement: InteractionStatement, chainId: string, nullifier: string): string {
+  return JSON.stringify([
+    INTERACTION_DOMAIN,
+    chainId,
+    normalizeAddress(statement.dappAddress),
+    statement.minTransactions,
+    statement.beforeBlock,
+    nullifier
+  ]);
+}
+
+export function computeInteractionCommitment(opening: Omit<InteractionOpening, 'walletPublicKey' | 'signature'>): string {
+  const txRoot = poseidonSponge(
+    [...opening.transactionHashes].map(normalizeHash).sort().map(hash => stringToField(hash))
+  );
+  return fieldToHex(
+    poseidonSponge([
+      stringToField(INTERACTION_DOMAIN),
+      stringToField(opening.chainId),
+      stringToField(normalizeAddress(opening.statement.dappAddress)),
+      BigInt(opening.statement.minTransactions),
+      BigInt(opening.statement.beforeBlock),
+      stringToField(normalizeAddress(opening.wallet)),
+      txRoot,
+      parseFieldElement(opening.nullifier),
+      parseFieldElement(opening.salt)
+    ])
+  );
+}
+
+// Whether a review's interactionProof has the shape of a commitment (empty means none)
+export function isInteractionCommitment(value: string): boolean {
+  return /^0x[0-9a-f]{64}$/.test(value);
+}
+
+/**
+ * Parse a pasted transaction list: either a JSON array of hashes / receipts,
+ * or one hash per line.
+ */
+export function parseTransactionList(text: string): SuppliedTransaction[] {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+
+  if (trimmed.startsWith('[')) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch {
+      throw new Error('Transaction list is not valid JSON');
+    }
+    if (!Array.isArray(parsed)) {
+      throw new Error('Transaction list must be an array');
+    }
+    return parsed.map(item => {
+      if (typeof item === 'string') return item;
+      if (
+        item &&
+        typeof item.hash === 'string' &&
+        typeof item.from === 'string' &&
+        typeof item.to === 'string' &&
+        Number.isInteger(item.blockNumber)
+      ) {
+        return { hash: item.hash, from: item.from, to: item.to, blockNumber: item.blockNumber };
+      }
+      throw new Error('Each receipt needs hash, from, to and blockNumber');
+    });
+  }
+
+  return trimmed.split(/[\s,]+/).filter(Boolean);
+}
+
+/**
+ * Interaction Prover - builds and checks interaction proofs against a chain
+ */
+export class InteractionProver {
+  private chain: ChainSource;
+
+  constructor(chain: ChainSource) {
+    this.chain = chain;
+  }
+
+  getChain(): ChainSource {
+    return this.chain;
+  }
+
+  // Statement for a dApp with the default threshold, up to the latest block
+  async defaultStatement(dappAddress: string): Promise<InteractionStatement> {
+    return {
+      dappAddress,
+      minTransactions: DEFAULT_MIN_TRANSACTIONS,
+      beforeBlock: (await this.chain.getBlockNumber()) + 1
+    };
+  }
+
+  /**
+   * Check the witness against the chain and commit to it. The nullifier is the
+   * review's, so the proof can't be attached to a different review.
+   */
+  async prove(statement: InteractionStatement, witness: InteractionWitness, nullifier: string): Promise<InteractionProof> {
+    this.checkStatement(statement);
+
+    const { privateKey, publicKey } = await importSigningKey(witness.walletKey);
+    const wallet = walletAddress(publicKey);
+
+    const transactionHashes: string[] = [];
+    for (const supplied of witness.transactions) {
+      const hash = normalizeHash(typeof supplied === 'string' ? supplied : supplied.hash);
+      const tx = await this.chain.getTransaction(hash);
+      if (!tx) {
+        throw new Error(`Transaction ${shortHash(hash)} was not found on ${this.chain.chainId}`);
+      }
+      if (typeof supplied !== 'string' && !sameTransaction(supplied, tx)) {
+        throw new Error(`Receipt for ${shortHash(hash)} does not match the chain`);
+      }
+      // Transactions that don't count are left out rather than rejected
+      if (countsToward(tx, statement, wallet) && !transactionHashes.includes(hash)) {
+        transactionHashes.push(hash);
+      }
+    }
+
+    if (transactionHashes.length < statement.minTransactions) {
+      throw new Error(
+        `Found ${transactionHashes.length} of ${statement.minTransactions} required transactions from ` +
+        `${wallet} to this dApp before block ${statement.beforeBlock}`
+      );
+    }
+
+    const signature = await signMessage(privateKey, interactionChallenge(statement, this.chain.chainId, nullifier));
+    const opening: InteractionOpening = {
+      statement: { ...statement },
+      chainId: this.chain.chainId,
+      wallet,
+      walletPublicKey: publicKey,
+      signature,
+      transactionHashes,
+      nullifier,
+      salt: randomFieldHex()
+    };
+
+    console.log('[InteractionProver] Interaction proven:', {
+      dappAddress: statement.dappAddress,
+      transactions: transactionHashes.length,
+      beforeBlock: statement.beforeBlock
+    });
+
+    return { commitment: computeInteractionCommitment(opening), opening };
+  }
+
+  // Throws unless the opening proves the statement and matches the commitment
+  async verify(commitment: string, opening: InteractionOpening): Promise<void> {
+    this.checkStatement(opening.statement);
+
+    if (opening.chainId !== this.chain.chainId) {
+      throw new Error(`Proof was made against ${opening.chainId}, not ${this.chain.chainId}`);
+    }
+    if (walletAddress(opening.walletPublicKey) !== normalizeAddress(opening.wallet)) {
+      throw new Error('Wallet address does not match its public key');
+    }
+    const challenge = interactionChallenge(opening.statement, opening.chainId, opening.nullifier);
+    if (!(await verifyMessage(opening.walletPublicKey, challenge, opening.signature))) {
+      throw new Error('Invalid wallet signature');
+    }
+
+    const hashes = new Set(opening.transactionHashes.map(normalizeHash));
+    if (hashes.size < opening.statement.minTransactions) {
+      throw new Error('Not enough transactions');
+    }
+    for (const hash of hashes) {
+      const tx = await this.chain.getTransaction(hash);
+      if (!tx || !countsToward(tx, opening.statement, opening.wallet)) {
+        throw new Error(`Transaction ${shortHash(hash)} does not count toward the statement`);
+      }
+    }
+
+    if (computeInteractionCommitment(opening) !== commitment) {
+      throw new Error('Opening does not match the commitment');
+    }
+  }
+
+  private checkStatement(statement: InteractionStatement): void {
+    if (!statement.dappAddress.trim()) {
+      throw new Error('A dApp address is required');
+    }
+    if (!Number.isInteger(statement.minTransactions) || statement.minTransactions < 1) {
+      throw new Error('At least one transaction must be required');
+    }
+    if (!Number.isInteger(statement.beforeBlock) || statement.beforeBlock < 1) {
+      throw new Error('Block number must be a positive integer');
+    }
+  }
+}
+
+// Helper functions
+
+function countsToward(tx: ChainTransaction, statement: InteractionStatement, wallet: string): boolean {
+  return (
+    normalizeAddress(tx.from) === normalizeAddress(wallet) &&
+    normalizeAddress(tx.to) === normalizeAddress(statement.dappAddress) &&
+    tx.blockNumber < statement.beforeBlock
+  );
+}
+
+function sameTransaction(a: ChainTransaction, b: ChainTransaction): boolean {
+  return (
+    normalizeHash(a.hash) === normalizeHash(b.hash) &&
+    normalizeAddress(a.from) === normalizeAddress(b.from) &&
+    normalizeAddress(a.to) === normalizeAddress(b.to) &&
+    a.blockNumber === b.blockNumber
+  );
+}
+
+function normalizeAddress(address: string): string {
+  return address.trim().toLowerCase();
+}
+
+function normalizeHash(hash: string): string {
+  const lower = hash.trim().toLowerCase();
+  return lower.startsWith('0x') ? lower : '0x' + lower;
+}
+
+function shortHash(hash: string): string {
+  return hash.slice(0, 10) + '...';
+}
+
+function randomFieldHex(): string {
+  const bytes = new Uint8Array(31); // Below the field modulus
+  crypto.getRandomValues(bytes);
+  return '0x' + Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Export singleton instance, checking against the local fixture chain
+export const interactionProver = new InteractionProver(fixtureChain);
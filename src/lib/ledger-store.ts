@@ -0,0 +1,209 @@
+/**
+ * Ledger Stores
+ *
+ * Where CompactContractAdapter keeps contract state between sessions. The
+ * browser simulation uses IndexedDB; the local devnet node keeps its ledger in
+ * memory and writes a snapshot to disk after every change.
+ */
+
+import type { DAppInfo, ReviewRecord, ContractEvent } from './contract-adapter';
+
+export interface LedgerSnapshot {
+  dapps: DAppInfo[];
+  reviews: ReviewRecord[];
+  nullifiers: string[];
+  events: ContractEvent[]; // Ascending by seq
+  state: Record<string, unknown>; // Contract-level values: admin key, roots, moderators, nonces
+}
+
+export interface LedgerStore {
+  load(): Promise<LedgerSnapshot>;
+  putDApp(dapp: DAppInfo): Promise<void>;
+  putReview(review: ReviewRecord): Promise<void>;
+  deleteReview(reviewId: string): Promise<void>;
+  putNullifier(nullifierKey: string): Promise<void>;
+  putEvent(event: ContractEvent): Promise<void>;
+  putState(key: string, value: unknown): Promise<void>;
+}
+
+export const emptyLedgerSnapshot = (): LedgerSnapshot => ({
+  dapps: [],
+  reviews: [],
+  nullifiers: [],
+  events: [],
+  state: {}
+});
+
+/**
+ * IndexedDB Ledger Store - the in-browser simulation's persistence
+ */
+export class IndexedDBLedgerStore implements LedgerStore {
+  private dbName: string;
+
+  constructor(dbName = 'DAppReviewerDB') {
+    this.dbName = dbName;
+  }
+
+  async load(): Promise<LedgerSnapshot> {
+    const db = await this.openDB();
+
+    const [dapps, reviews, nullifiers, events, state] = await Promise.all([
+      this.getAll<DAppInfo>(db, 'dapps'),
+      this.getAll<ReviewRecord>(db, 'reviews'),
+      this.getAll<{ key: string }>(db, 'nullifiers'),
+      this.getAll<ContractEvent>(db, 'events'), // Keyed by seq, so already in order
+      this.getAll<{ key: string; value: unknown }>(db, 'state')
+    ]);
+
+    return {
+      dapps,
+      reviews,
+      nullifiers: nullifiers.map(n => n.key),
+      events,
+      state: Object.fromEntries(state.map(entry => [entry.key, entry.value]))
+    };
+  }
+
+  async putDApp(dapp: DAppInfo): Promise<void> {
+    return this.write('dapps', store => store.put(dapp));
+  }
+
+  async putReview(review: ReviewRecord): Promise<void> {
+    return this.write('reviews', store => store.put(review));
+  }
+
+  async deleteReview(reviewId: string): Promise<void> {
+    return this.write('reviews', store => store.delete(reviewId));
+  }
+
+  async putNullifier(nullifierKey: string): Promise<void> {
+    return this.write('nullifiers', store => store.put({ key: nullifierKey, used: true }));
+  }
+
+  async putEvent(event: ContractEvent): Promise<void> {
+    return this.write('events', store => store.put(event));
+  }
+
+  async putState(key: string, value: unknown): Promise<void> {
+    return this.write('state', store => store.put({ key, value }));
+  }
+
+  private async openDB(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, 3);
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result);
+      request.onupgradeneeded = (event) => {
+        const db = (event.target as IDBOpenDBRequest).result;
+
+        if (!db.objectStoreNames.contains('dapps')) {
+          db.createObjectStore('dapps', { keyPath: 'address' });
+        }
+        if (!db.objectStoreNames.contains('reviews')) {
+          db.createObjectStore('reviews', { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains('nullifiers')) {
+          db.createObjectStore('nullifiers', { keyPath: 'key' });
+        }
+        if (!db.objectStoreNames.contains('state')) {
+          db.createObjectStore('state', { keyPath: 'key' });
+        }
+        if (!db.objectStoreNames.contains('events')) {
+          db.createObjectStore('events', { keyPath: 'seq' });
+        }
+      };
+    });
+  }
+
+  private async getAll<T>(db: IDBDatabase, storeName: string): Promise<T[]> {
+    const store = db.transaction([storeName], 'readonly').objectStore(storeName);
+
+    return new Promise((resolve, reject) => {
+      const request = store.getAll();
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private async write(storeName: string, operation: (store: IDBObjectStore) => IDBRequest): Promise<void> {
+    const db = await this.openDB();
+    const store = db.transaction([storeName], 'readwrite').objectStore(storeName);
+
+    return new Promise((resolve, reject) => {
+      const request = operation(store);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+/**
+ * Memory Ledger Store - keeps the ledger in memory and reports every change,
+ * so the devnet node can write it out as a snapshot
+ */
+export class MemoryLedgerStore implements LedgerStore {
+  private dapps: Map<string, DAppInfo> = new Map();
+  private reviews: Map<string, ReviewRecord> = new Map();
+  private nullifiers: Set<string> = new Set();
+  private events: ContractEvent[] = [];
+  private state: Record<string, unknown> = {};
+  private onChange?: (snapshot: LedgerSnapshot) => void;
+
+  constructor(initial: LedgerSnapshot = emptyLedgerSnapshot(), onChange?: (snapshot: LedgerSnapshot) => void) {
+    initial.dapps.forEach(dapp => this.dapps.set(dapp.address, dapp));
+    initial.reviews.forEach(review => this.reviews.set(review.id, review));
+    initial.nullifiers.forEach(key => this.nullifiers.add(key));
+    this.events = [...initial.events];
+    this.state = { ...initial.state };
+    this.onChange = onChange;
+  }
+
+  // Copies, like IndexedDB's structured clone, so later edits to the adapter's objects don't leak in
+  snapshot(): LedgerSnapshot {
+    return structuredClone({
+      dapps: Array.from(this.dapps.values()),
+      reviews: Array.from(this.reviews.values()),
+      nullifiers: Array.from(this.nullifiers),
+      events: this.events,
+      state: this.state
+    });
+  }
+
+  async load(): Promise<LedgerSnapshot> {
+    return this.snapshot();
+  }
+
+  async putDApp(dapp: DAppInfo): Promise<void> {
+    this.dapps.set(dapp.address, structuredClone(dapp));
+    this.changed();
+  }
+
+  async putReview(review: ReviewRecord): Promise<void> {
+    this.reviews.set(review.id, structuredClone(review));
+    this.changed();
+  }
+
+  async deleteReview(reviewId: string): Promise<void> {
+    this.reviews.delete(reviewId);
+    this.changed();
+  }
+
+  async putNullifier(nullifierKey: string): Promise<void> {
+    this.nullifiers.add(nullifierKey);
+    this.changed();
+  }
+
+  async putEvent(event: ContractEvent): Promise<void> {
+    this.events.push(structuredClone(event));
+    this.changed();
+  }
+
+  async putState(key: string, value: unknown): Promise<void> {
+    this.state[key] = structuredClone(value);
+    this.changed();
+  }
+
+  private changed(): void {
+    this.onChange?.(this.snapshot());
+  }
+}
@@ -0,0 +1,368 @@
+/**
+ * Incremental Merkle Tree for reviewer identity commitments
+ *
+ * Fixed-depth (20, matching `reviewerMerklePath(): Bytes<32>[20]` in the compact
+ * contract) Poseidon Merkle tree. Leaves are appended left to right; empty
+ * subtrees hash to precomputed zero values, so only non-empty nodes are kept in
+ * memory and persisted to IndexedDB. Leaves can be updated in place or removed
+ * by zeroing, which keeps every other leaf's index (and proof shape) stable.
+ *
+ * The ledger holds the reviewer tree's leaves (ContractAdapter.getReviewerLeaves).
+ * The contract adapter rebuilds its tree from them in memory with fromLeaves;
+ * the reviewer registry keeps a persisted copy per network and brings it up to
+ * date with syncLeaves, which rehashes only the slots that changed.
+ */
+
+import { openDB, DBSchema, IDBPDatabase } from 'idb';
+import { poseidon, fieldToHex, toField } from './poseidon';
+
+export const REVIEWER_TREE_DEPTH = 20;
+
+// Value of an empty leaf
+export const ZERO_LEAF = BigInt(0);
+
+export interface MerkleProof {
+  root: bigint;
+  leaf: bigint;
+  leafIndex: number;
+  pathElements: bigint[];
+  pathIndices: number[];
+}
+
+// Recompute a Merkle root from a leaf and its authentication path.
+// pathIndices[i] = 1 means the current node is the right child at level i.
+export function computeMerkleRoot(
+  leaf: bigint,
+  pathElements: bigint[],
+  pathIndices: number[]
+): bigint {
+  let current = leaf;
+  for (let i = 0; i < pathElements.length; i++) {
+    current = pathIndices[i]
+      ? poseidon([pathElements[i], current])
+      : poseidon([current, pathElements[i]]);
+  }
+  return current;
+}
+
+export function verifyMerkleProof(proof: MerkleProof): boolean {
+  return computeMerkleRoot(proof.leaf, proof.pathElements, proof.pathIndices) === proof.root;
+}
+
+// Persisted layout: one record per non-empty node plus the next free leaf index
+interface MerkleTreeDB extends DBSchema {
+  nodes: {
+    key: string; // `${level}:${index}`
+    value: {
+      key: string;
+      value: string; // 0x-prefixed field element
+    };
+  };
+  meta: {
+    key: string;
+    value: {
+      key: string;
+      value: number;
+    };
+  };
+}
+
+const nodeKey = (level: number, index: number) => `${level}:${index}`;
+
+export class IncrementalMerkleTree {
+  readonly depth: number;
+  private zeros: bigint[];
+  private nodes: Map<string, bigint> = new Map();
+  private nextIndex = 0;
+  private dbName: string | null;
+  private db: IDBPDatabase<MerkleTreeDB> | null = null;
+  private loaded: Promise<void> | null = null;
+
+  // Pass dbName = null for a purely in-memory tree
+  constructor(depth: number = REVIEWER_TREE_DEPTH, dbName: string | null = null) {
+    if (!Number.isInteger(depth) || depth < 1 || depth > 32) {
+      throw new Error(`Unsupported Merkle tree depth ${depth}`);
+    }
+    this.depth = depth;
+    this.dbName = dbName;
+
+    // zeros[i] is the root of an empty subtree of height i
+    this.zeros = [ZERO_LEAF];
+    for (let i = 1; i <= depth; i++) {
+      this.zeros.push(poseidon([this.zeros[i - 1], this.zeros[i - 1]]));
+    }
+  }
+
+  // In-memory tree holding these leaves in slot order (zero leaves are removed slots)
+  static async fromLeaves(leaves: bigint[], depth: number = REVIEWER_TREE_DEPTH): Promise<IncrementalMerkleTree> {
+    const tree = new IncrementalMerkleTree(depth);
+    if (leaves.length > tree.capacity) {
+      throw new Error('Merkle tree is full');
+    }
+    tree.nextIndex = leaves.length;
+    for (const [index, leaf] of leaves.entries()) {
+      const value = toField(leaf);
+      if (value !== ZERO_LEAF) {
+        await tree.setLeaf(index, value);
+      }
+    }
+    return tree;
+  }
+
+  // Make the tree hold exactly these leaves (zero for removed slots), rehashing only
+  // the slots that differ. A ledger with fewer slots than the tree was reset, so start over
+  async syncLeaves(leaves: bigint[]): Promise<void> {
+    await this.init();
+    if (leaves.length > this.capacity) {
+      throw new Error('Merkle tree is full');
+    }
+    if (leaves.length < this.nextIndex) {
+      await this.clear();
+    }
+
+    const previous = this.nextIndex;
+    this.nextIndex = leaves.length;
+    for (const [index, leaf] of leaves.entries()) {
+      const value = toField(leaf);
+      if (index < previous ? value !== this.getNode(0, index) : value !== ZERO_LEAF) {
+        await this.setLeaf(index, value);
+      }
+    }
+    // A new slot count with no changed leaf still has to be recorded
+    if (this.nextIndex !== previous) {
+      await this.persist([]);
+    }
+  }
+
+  // Load persisted nodes (no-op for in-memory trees); safe to call repeatedly
+  async init(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.load().catch(error => {
+        this.loaded = null;
+        throw error;
+      });
+    }
+    return this.loaded;
+  }
+
+  get capacity(): number {
+    return 2 ** this.depth;
+  }
+
+  // Number of leaf slots used so far (removed leaves still occupy their slot)
+  get size(): number {
+    return this.nextIndex;
+  }
+
+  getRoot(): bigint {
+    return this.getNode(this.depth, 0);
+  }
+
+  getRootHex(): string {
+    return fieldToHex(this.getRoot());
+  }
+
+  getLeaf(index: number): bigint {
+    this.assertIndex(index);
+    return this.getNode(0, index);
+  }
+
+  // Every allocated slot in order, zero for removed leaves
+  getLeaves(): bigint[] {
+    return Array.from({ length: this.nextIndex }, (_, index) => this.getNode(0, index));
+  }
+
+  // Index of the first slot holding this leaf, or -1
+  indexOf(leaf: bigint): number {
+    const value = toField(leaf);
+    if (value === ZERO_LEAF) return -1;
+    for (let i = 0; i < this.nextIndex; i++) {
+      if (this.nodes.get(nodeKey(0, i)) === value) return i;
+    }
+    return -1;
+  }
+
+  // Append a leaf and return its index
+  async insert(leaf: bigint): Promise<number> {
+    await this.init();
+    const value = toField(leaf);
+    if (value === ZERO_LEAF) {
+      throw new Error('Cannot insert the zero leaf');
+    }
+    if (this.nextIndex >= this.capacity) {
+      throw new Error('Merkle tree is full');
+    }
+
+    const index = this.nextIndex;
+    this.nextIndex++;
+    await this.setLeaf(index, value);
+
+    console.log('[MerkleTree] Leaf inserted:', { index, root: this.getRootHex().slice(0, 18) + '...' });
+    return index;
+  }
+
+  async update(index: number, leaf: bigint): Promise<void> {
+    await this.init();
+    this.assertIndex(index);
+    const value = toField(leaf);
+    if (value === ZERO_LEAF) {
+      throw new Error('Use remove() to clear a leaf');
+    }
+    await this.setLeaf(index, value);
+  }
+
+  // Remove by zeroing: the slot stays allocated so other indices are unchanged
+  async remove(index: number): Promise<void> {
+    await this.init();
+    this.assertIndex(index);
+    await this.setLeaf(index, ZERO_LEAF);
+  }
+
+  getProof(index: number): MerkleProof {
+    this.assertIndex(index);
+
+    const pathElements: bigint[] = [];
+    const pathIndices: number[] = [];
+    let current = index;
+
+    for (let level = 0; level < this.depth; level++) {
+      const isRightNode = current % 2 === 1;
+      pathElements.push(this.getNode(level, isRightNode ? current - 1 : current + 1));
+      pathIndices.push(isRightNode ? 1 : 0);
+      current = Math.floor(current / 2);
+    }
+
+    return {
+      root: this.getRoot(),
+      leaf: this.getNode(0, index),
+      leafIndex: index,
+      pathElements,
+      pathIndices
+    };
+  }
+
+  // Drop all leaves (in memory and in IndexedDB)
+  async clear(): Promise<void> {
+    await this.init();
+    this.nodes.clear();
+    this.nextIndex = 0;
+
+    const db = await this.getDB();
+    if (db) {
+      const tx = db.transaction(['nodes', 'meta'], 'readwrite');
+      await Promise.all([
+        tx.objectStore('nodes').clear(),
+        tx.objectStore('meta').put({ key: 'nextIndex', value: 0 }),
+        tx.done
+      ]);
+    }
+  }
+
+  // Private helpers
+
+  private getNode(level: number, index: number): bigint {
+    return this.nodes.get(nodeKey(level, index)) ?? this.zeros[level];
+  }
+
+  private assertIndex(index: number): void {
+    if (!Number.isInteger(index) || index < 0 || index >= this.nextIndex) {
+      throw new Error(`Leaf index ${index} out of range (tree has ${this.nextIndex} leaves)`);
+    }
+  }
+
+  // Write a leaf and rehash its path to the root, persisting the changed nodes
+  private async setLeaf(index: number, value: bigint): Promise<void> {
+    const changed: Array<[string, bigint | null]> = [];
+    const write = (level: number, i: number, node: bigint) => {
+      const key = nodeKey(level, i);
+      // Empty subtrees are implied by the zero values, so keep storage sparse
+      if (node === this.zeros[level]) {
+        this.nodes.delete(key);
+        changed.push([key, null]);
+      } else {
+        this.nodes.set(key, node);
+        changed.push([key, node]);
+      }
+    };
+
+    write(0, index, value);
+    let current = index;
+    for (let level = 0; level < this.depth; level++) {
+      const parent = Math.floor(current / 2);
+      const left = this.getNode(level, parent * 2);
+      const right = this.getNode(level, parent * 2 + 1);
+      write(level + 1, parent, poseidon([left, right]));
+      current = parent;
+    }
+
+    await this.persist(changed);
+  }
+
+  private async getDB(): Promise<IDBPDatabase<MerkleTreeDB> | null> {
+    if (!this.dbName || typeof indexedDB === 'undefined') return null;
+    if (!this.db) {
+      this.db = await openDB<MerkleTreeDB>(this.dbName, 1, {
+        upgrade(db) {
+          if (!db.objectStoreNames.contains('nodes')) {
+            db.createObjectStore('nodes', { keyPath: 'key' });
+          }
+          if (!db.objectStoreNames.contains('meta')) {
+            db.createObjectStore('meta', { keyPath: 'key' });
+          }
+        },
+      });
+    }
+    return this.db;
+  }
+
+  private async load(): Promise<void> {
+    const db = await this.getDB();
+    if (!db) return;
+
+    const [records, meta] = await Promise.all([
+      db.getAll('nodes'),
+      db.get('meta', 'nextIndex')
+    ]);
+
+    this.nodes.clear();
+    records.forEach(record => this.nodes.set(record.key, BigInt(record.value)));
+    this.nextIndex = meta?.value ?? 0;
+
+    console.log(`[MerkleTree] Loaded ${this.nextIndex} leaves, root ${this.getRootHex().slice(0, 18)}...`);
+  }
+
+  private async persist(changed: Array<[string, bigint | null]>): Promise<void> {
+    const db = await this.getDB();
+    if (!db) return;
+
+    const tx = db.transaction(['nodes', 'meta'], 'readwrite');
+    const nodes = tx.objectStore('nodes');
+    await Promise.all([
+      ...changed.map(([key, value]) =>
+        value === null ? nodes.delete(key) : nodes.put({ key, value: fieldToHex(value) })
+      ),
+      tx.objectStore('meta').put({ key: 'nextIndex', value: this.nextIndex }),
+      tx.done
+    ]);
+  }
+}
+
+// Test utilities
+export const testMerkleTree = {
+  async testProofs(): Promise<boolean> {
+    const tree = new IncrementalMerkleTree();
+    const leaves = [BigInt(11), BigInt(22), BigInt(33)];
+    for (const leaf of leaves) {
+      await tree.insert(leaf);
+    }
+
+    const proofsValid = leaves.every((_, i) => verifyMerkleProof(tree.getProof(i)));
+
+    // Zeroing a leaf must change the root and keep other proofs valid
+    const before = tree.getRoot();
+    await tree.remove(1);
+    const removed = tree.getRoot() !== before && tree.getLeaf(1) === ZERO_LEAF;
+
+    return proofsValid && removed && verifyMerkleProof(tree.getProof(2));
+  }
+};
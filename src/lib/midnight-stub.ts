@@ -7,7 +7,12 @@
  */
 
 import { hashMessage } from './encryption';
-import { midnightJS, MidnightJS, MidnightProof, PoseidonHash } from './midnightjs';
+import { midnightJS, MidnightJS, MidnightProof, PoseidonHash, ProofInput } from './midnightjs';
+import { computeMerkleRoot, testMerkleTree, MerkleProof } from './merkle-tree';
+import { digestToField } from './poseidon';
+import { EpochService, epochService } from './epoch';
+
+export type { MerkleProof } from './merkle-tree';
 
 // Environment flag to use real MidnightJS or fallback to stub
 const USE_REAL_MIDNIGHT = import.meta.env.VITE_USE_REAL_MIDNIGHT !== 'false';
@@ -28,12 +33,6 @@ export interface ZKProof {
   circuitName?: string;
 }
 
-export interface MerkleProof {
-  root: string;
-  path: string[];
-  indices: number[];
-}
-
 // Implementation of proof generation using MidnightJS
 export async function generateProof(data: ProofData): Promise<ZKProof> {
   const messageHash = await hashMessage(JSON.stringify(data));
@@ -43,15 +42,19 @@ export async function generateProof(data: ProofData): Promise<ZKProof> {
       console.log('[Midnight SDK] Using real MidnightJS for proof generation');
       
       // Create proof input for the membership_rln circuit
-      const epoch = Math.floor(data.timestamp / (24 * 60 * 60 * 1000)); // Daily epochs
+      const epoch = epochService.epochAt(data.timestamp);
       const identitySecret = data.nullifier; // Use nullifier as identity for demo
       
       // Generate mock Merkle tree data (in production, this would be real membership data)
-      const merkleRoot = PoseidonHash.hash([BigInt(1), BigInt(2), BigInt(3)]).toString();
       const merklePath = Array(20).fill(0).map((_, i) => 
         PoseidonHash.hash([BigInt(i), BigInt(data.timestamp)]).toString()
       );
       const merkleIndices = Array(20).fill(0).map((_, i) => i % 2);
+      const merkleRoot = computeMerkleRoot(
+        PoseidonHash.hash([BigInt(identitySecret)]),
+        merklePath.map(p => BigInt(p)),
+        merkleIndices
+      ).toString();
       
       const proofInput = MidnightJS.createProofInput(
         merkleRoot,
@@ -88,9 +91,10 @@ export async function generateProof(data: ProofData): Promise<ZKProof> {
       hash: messageHash.toString(),
       version: '1.0'
     })),
+    // Laid out like the circuit's signals, so the epoch is always at index 1
     publicInputs: [
       messageHash.toString(),
-      data.timestamp.toString(),
+      epochService.epochAt(data.timestamp).toString(),
       data.nullifier
     ],
     nullifier: data.nullifier,
@@ -98,6 +102,61 @@ export async function generateProof(data: ProofData): Promise<ZKProof> {
   };
 }
 
+export interface ReviewerProofData {
+  identitySecret: bigint;
+  merkleProof: MerkleProof;
+  externalNullifier: bigint; // review scope, see ./nullifier
+  signal: string; // review content hash, bound to the proof via signalHash
+}
+
+export interface HelpfulVoteProofData extends ReviewerProofData {
+  authorScope: bigint; // external nullifier the voted review was submitted under
+  authorNullifierHash: bigint; // the voted review's stored nullifier hash
+}
+
+// Membership + rate-limit proof for an enrolled reviewer identity (always a real proof)
+export async function generateReviewerProof(data: ReviewerProofData): Promise<ZKProof> {
+  return proveReviewer('membership_rln', createReviewerProofInput(data));
+}
+
+// Membership proof that also shows the voter is not the review's author (always a real proof)
+export async function generateHelpfulVoteProof(data: HelpfulVoteProofData): Promise<ZKProof> {
+  return proveReviewer('helpful_vote', {
+    ...createReviewerProofInput(data),
+    authorScope: data.authorScope.toString(),
+    authorNullifierHash: data.authorNullifierHash.toString()
+  });
+}
+
+function createReviewerProofInput(data: ReviewerProofData): ProofInput {
+  return MidnightJS.createProofInput(
+    data.merkleProof.root.toString(),
+    data.externalNullifier,
+    data.identitySecret.toString(),
+    data.merkleProof.pathElements.map(p => p.toString()),
+    data.merkleProof.pathIndices,
+    signalToField(data.signal).toString()
+  );
+}
+
+async function proveReviewer(circuitName: string, proofInput: ProofInput): Promise<ZKProof> {
+  const midnightProof = await midnightJS.generateProof(circuitName, proofInput);
+  
+  return {
+    proof: JSON.stringify(midnightProof),
+    publicInputs: midnightProof.publicSignals,
+    nullifier: proofInput.nullifier,
+    timestamp: Date.now(),
+    midnightProof,
+    circuitName
+  };
+}
+
+// Map a signal (a review hash or other 32-byte hex digest) onto the field element used as the circuit's message
+export function signalToField(signal: string): bigint {
+  return digestToField(signal);
+}
+
 // Implementation of proof verification using MidnightJS
 export async function verifyProof(proof: ZKProof): Promise<boolean> {
   if (USE_REAL_MIDNIGHT && proof.midnightProof && proof.circuitName) {
@@ -168,72 +227,25 @@ export async function verifyProof(proof: ZKProof): Promise<boolean> {
   }
 }
 
-// Stub implementation of Merkle tree operations
-export class MerkleTree {
-  private leaves: string[];
-  private root: string;
-  
-  constructor(leaves: string[] = []) {
-    this.leaves = leaves;
-    this.root = this.computeRoot();
-  }
-  
-  private computeRoot(): string {
-    // Simplified Merkle root calculation
-    // In production, this would use proper Poseidon hashing
-    if (this.leaves.length === 0) {
-      return '0x0';
-    }
-    
-    const hash = this.leaves.reduce((acc, leaf) => {
-      return btoa(acc + leaf);
-    }, '');
-    
-    return '0x' + hash.substring(0, 64);
-  }
-  
-  addLeaf(leaf: string): void {
-    this.leaves.push(leaf);
-    this.root = this.computeRoot();
-  }
-  
-  getRoot(): string {
-    return this.root;
-  }
-  
-  generateProof(leafIndex: number): MerkleProof {
-    // Simplified proof generation
-    // In production, this would generate actual Merkle path
-    return {
-      root: this.root,
-      path: [this.leaves[leafIndex]],
-      indices: [leafIndex]
-    };
-  }
-  
-  verifyProof(leaf: string, proof: MerkleProof): boolean {
-    // Simplified verification
-    // In production, this would verify the actual Merkle path
-    return proof.path.includes(leaf) && proof.root === this.root;
-  }
-}
+// Merkle tree operations use the shared incremental tree
+export { IncrementalMerkleTree as MerkleTree } from './merkle-tree';
 
 // Rate limiting with nullifiers
 export class RateLimitNullifier {
   private usedNullifiers: Set<string>;
-  private epochDuration: number; // in milliseconds
+  private epochs: EpochService;
   
-  constructor(epochDuration: number = 60 * 60 * 1000) { // 1 hour default
+  constructor(epochs: EpochService = epochService) {
     this.usedNullifiers = new Set();
-    this.epochDuration = epochDuration;
+    this.epochs = epochs;
   }
   
   getCurrentEpoch(): number {
-    return Math.floor(Date.now() / this.epochDuration);
+    return this.epochs.getCurrentEpoch();
   }
   
   generateNullifier(userId: string, epoch?: number): string {
-    const currentEpoch = epoch || this.getCurrentEpoch();
+    const currentEpoch = epoch ?? this.getCurrentEpoch();
     // In production, this would use proper cryptographic hashing
     return btoa(`${userId}_${currentEpoch}`);
   }
@@ -306,7 +318,6 @@ export class InMemoryProofStorage implements ProofStorage {
 // Export a singleton instance for demo purposes
 export const proofStorage = new InMemoryProofStorage();
 export const rateLimiter = new RateLimitNullifier();
-export const merkleTree = new MerkleTree();
 
 // Test utilities
 export const testMidnightSDK = {
@@ -347,13 +358,9 @@ export const testMidnightSDK = {
     }
   },
   
-  testMerkleTree(): boolean {
+  async testMerkleTree(): Promise<boolean> {
     try {
-      const tree = new MerkleTree(['leaf1', 'leaf2', 'leaf3']);
-      const proof = tree.generateProof(1);
-      const isValid = tree.verifyProof('leaf2', proof);
-      
-      return isValid;
+      return await testMerkleTree.testProofs();
     } catch (error) {
       console.error('Merkle tree test failed:', error);
       return false;
@@ -4,26 +4,47 @@
  * This module provides the interface to Midnight Network's zero-knowledge proof system.
  * It loads compiled circuit artifacts and provides proof generation/verification functions.
  * 
- * For the challenge, this demonstrates how a real MidnightJS integration would work,
- * using the compiled Compact circuit artifacts.
+ * Proofs are real Groth16 proofs over BN254: the circom WASM witness generator and
+ * proving keys produced by `npm run setup-circuits` (see circuits/*.circom)
+ * are executed with snarkjs, and verification performs the pairing check against the
+ * exported verification key.
  */
 
-import { hashMessage } from './encryption';
+import { FIELD_PRIME, poseidonSponge } from './poseidon';
+import { computeMerkleRoot } from './merkle-tree';
+import * as snarkjs from 'snarkjs';
+import type { SnarkjsGroth16Proof, SnarkjsVerificationKey } from 'snarkjs';
 
 // Types for Midnight artifacts
+interface CircuitMetadata {
+  name: string;
+  protocol: string;
+  curve: string;
+  treeDepth: number;
+  constraints: number;
+  publicSignals: string[];
+  artifacts: {
+    provingKey: string;
+    verificationKey: string;
+    wasm: string;
+  };
+}
+
 interface MidnightArtifacts {
-  metadata: any;
-  provingKey: any;
-  verificationKey: any;
-  wasm: any;
+  metadata: CircuitMetadata;
+  provingKey: Uint8Array; // Groth16 .zkey
+  verificationKey: SnarkjsVerificationKey;
+  wasm: Uint8Array; // circom witness generator
 }
 
 interface ProofInput {
   // Public inputs
   merkleRoot: string;
-  epoch: number;
+  epoch: bigint | number; // external nullifier: a plain epoch or a hashed review scope
   nullifier: string;
   signalHash: string;
+  authorScope?: string; // helpful_vote only: the voted review's external nullifier
+  authorNullifierHash?: string; // helpful_vote only: the voted review's Poseidon(nullifier)
   
   // Private inputs
   identitySecret: string;
@@ -46,6 +67,7 @@ class ArtifactLoader {
   private static instance: ArtifactLoader;
   private artifacts: Map<string, MidnightArtifacts> = new Map();
   private loading: Map<string, Promise<MidnightArtifacts>> = new Map();
+  private basePath = '/zk-artifacts';
   
   static getInstance(): ArtifactLoader {
     if (!ArtifactLoader.instance) {
@@ -54,6 +76,12 @@ class ArtifactLoader {
     return ArtifactLoader.instance;
   }
   
+  // Point the loader at a different artifact location (e.g. a CDN or a test server)
+  setBasePath(basePath: string): void {
+    this.basePath = basePath.replace(/\/$/, '');
+    this.artifacts.clear();
+  }
+  
   async loadArtifacts(circuitName: string): Promise<MidnightArtifacts> {
     // Check cache
     if (this.artifacts.has(circuitName)) {
@@ -81,74 +109,87 @@ class ArtifactLoader {
   }
   
   private async loadArtifactsFromFiles(circuitName: string): Promise<MidnightArtifacts> {
-    const basePath = `/zk-artifacts/${circuitName}`;
-    
     console.log(`[MidnightJS] Loading artifacts for circuit: ${circuitName}`);
     
+    // Metadata names the remaining artifact files
+    const metadata: CircuitMetadata = await this.fetchOk(`${this.basePath}/${circuitName}.metadata.json`)
+      .then(r => r.json());
+    
+    if (metadata.protocol !== 'groth16' || metadata.curve !== 'bn254') {
+      throw new Error(`Unsupported circuit ${circuitName}: ${metadata.protocol}/${metadata.curve}`);
+    }
+    
     // Load all artifacts in parallel
-    const [metadata, provingKey, verificationKey, wasm] = await Promise.all([
-      fetch(`${basePath}.metadata.json`).then(r => r.json()),
-      fetch(`${basePath}.proving_key.json`).then(r => r.json()),
-      fetch(`${basePath}.verification_key.json`).then(r => r.json()),
-      fetch(`${basePath}.wasm.json`).then(r => r.json())
+    const [provingKey, verificationKey, wasm] = await Promise.all([
+      this.fetchOk(`${this.basePath}/${metadata.artifacts.provingKey}`)
+        .then(r => r.arrayBuffer()).then(b => new Uint8Array(b)),
+      this.fetchOk(`${this.basePath}/${metadata.artifacts.verificationKey}`)
+        .then(r => r.json()),
+      this.fetchOk(`${this.basePath}/${metadata.artifacts.wasm}`)
+        .then(r => r.arrayBuffer()).then(b => new Uint8Array(b))
     ]);
     
-    console.log(`[MidnightJS] Artifacts loaded successfully`);
+    console.log(`[MidnightJS] Artifacts loaded successfully (${metadata.constraints} constraints)`);
     
     return { metadata, provingKey, verificationKey, wasm };
   }
+  
+  private async fetchOk(url: string): Promise<Response> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to load artifact ${url}: ${response.status}`);
+    }
+    return response;
+  }
+}
+
+// Convert between the app's hex-encoded affine proof and snarkjs' projective decimal form
+function toHex(value: string): string {
+  return '0x' + BigInt(value).toString(16).padStart(64, '0');
+}
+
+function toDecimal(value: string): string {
+  return BigInt(value).toString();
 }
 
-// Poseidon hash implementation (simplified for demo)
+function fromSnarkjsProof(proof: SnarkjsGroth16Proof, publicSignals: string[]): MidnightProof {
+  return {
+    pi_a: [toHex(proof.pi_a[0]), toHex(proof.pi_a[1])],
+    pi_b: [
+      [toHex(proof.pi_b[0][0]), toHex(proof.pi_b[0][1])],
+      [toHex(proof.pi_b[1][0]), toHex(proof.pi_b[1][1])]
+    ],
+    pi_c: [toHex(proof.pi_c[0]), toHex(proof.pi_c[1])],
+    protocol: 'groth16',
+    curve: 'bn254',
+    publicSignals
+  };
+}
+
+function toSnarkjsProof(proof: MidnightProof): SnarkjsGroth16Proof {
+  return {
+    pi_a: [toDecimal(proof.pi_a[0]), toDecimal(proof.pi_a[1]), '1'],
+    pi_b: [
+      [toDecimal(proof.pi_b[0][0]), toDecimal(proof.pi_b[0][1])],
+      [toDecimal(proof.pi_b[1][0]), toDecimal(proof.pi_b[1][1])],
+      ['1', '0']
+    ],
+    pi_c: [toDecimal(proof.pi_c[0]), toDecimal(proof.pi_c[1]), '1'],
+    protocol: 'groth16',
+    curve: 'bn128'
+  };
+}
+
+// Poseidon hash over BN254, backed by the shared implementation in ./poseidon
 export class PoseidonHash {
-  private static readonly PRIME = BigInt('21888242871839275222246405745257275088548364400416034343698204186575808495617');
+  static readonly PRIME = FIELD_PRIME;
   
   static hash(inputs: bigint[]): bigint {
-    // Simplified Poseidon-like hash for demo
-    // In production, use actual Poseidon implementation
-    let state = BigInt(0);
-    
-    for (let i = 0; i < inputs.length; i++) {
-      state = (state + inputs[i] * BigInt(i + 1)) % PoseidonHash.PRIME;
-      state = PoseidonHash.sbox(state);
-    }
-    
-    // Mix rounds
-    for (let round = 0; round < 8; round++) {
-      state = PoseidonHash.mix(state, BigInt(round));
-    }
-    
-    return state;
-  }
-  
-  private static sbox(x: bigint): bigint {
-    // x^5 mod p (simplified S-box)
-    return PoseidonHash.modPow(x, BigInt(5), PoseidonHash.PRIME);
-  }
-  
-  private static mix(state: bigint, round: bigint): bigint {
-    // Linear mixing
-    const mixed = (state * BigInt(0x1234567890abcdef)) + round;
-    return mixed % PoseidonHash.PRIME;
-  }
-  
-  private static modPow(base: bigint, exp: bigint, mod: bigint): bigint {
-    let result = BigInt(1);
-    base = base % mod;
-    
-    while (exp > 0) {
-      if (exp % BigInt(2) === BigInt(1)) {
-        result = (result * base) % mod;
-      }
-      exp = exp / BigInt(2);
-      base = (base * base) % mod;
-    }
-    
-    return result;
+    return poseidonSponge(inputs);
   }
 }
 
-// Witness calculator (simulates WASM execution)
+// Witness calculator (executes the circom WASM witness generator)
 class WitnessCalculator {
   private artifacts: MidnightArtifacts;
   
@@ -156,40 +197,72 @@ class WitnessCalculator {
     this.artifacts = artifacts;
   }
   
-  calculateWitness(input: ProofInput): bigint[] {
-    // In production, this would execute the WASM module
-    // For demo, we simulate witness calculation
+  async calculateWitness(input: ProofInput): Promise<Uint8Array> {
+    // Fail early with a readable error instead of a WASM assertion
+    this.checkConstraints(input);
+    
+    const circuitInput = {
+      merkleRoot: BigInt(input.merkleRoot).toString(),
+      epoch: input.epoch.toString(),
+      nullifier: BigInt(input.nullifier).toString(),
+      signalHash: BigInt(input.signalHash).toString(),
+      identitySecret: BigInt(input.identitySecret).toString(),
+      merklePath: input.merklePath.map(p => BigInt(p).toString()),
+      merkleIndices: input.merkleIndices.map(i => i.toString()),
+      messageHash: input.messageHash ? BigInt(input.messageHash).toString() : '0',
+      ...(input.authorScope !== undefined && input.authorNullifierHash !== undefined && {
+        authorScope: BigInt(input.authorScope).toString(),
+        authorNullifierHash: BigInt(input.authorNullifierHash).toString()
+      })
+    };
     
-    const witness: bigint[] = [];
+    const witness: { type: 'mem'; data?: Uint8Array } = { type: 'mem' };
+    await snarkjs.wtns.calculate(circuitInput, this.artifacts.wasm, witness);
     
-    // Add constant 1 (standard in R1CS)
-    witness.push(BigInt(1));
+    if (!witness.data) {
+      throw new Error('Witness generation produced no output');
+    }
     
-    // Add public inputs
-    witness.push(BigInt(input.merkleRoot));
-    witness.push(BigInt(input.epoch));
-    witness.push(BigInt(input.nullifier));
-    witness.push(BigInt(input.signalHash));
+    return witness.data;
+  }
+  
+  // Membership + RLN constraints, evaluated with the same Poseidon as zkProof.ts
+  private checkConstraints(input: ProofInput): void {
+    const depth = this.artifacts.metadata.treeDepth;
+    if (input.merklePath.length !== depth || input.merkleIndices.length !== depth) {
+      throw new Error(`Merkle path must have exactly ${depth} levels`);
+    }
     
-    // Add private inputs
-    witness.push(BigInt(input.identitySecret));
+    const secret = BigInt(input.identitySecret);
+    const commitment = PoseidonHash.hash([secret]);
     
-    // Add Merkle path elements
-    for (const pathElement of input.merklePath) {
-      witness.push(BigInt(pathElement));
+    const root = computeMerkleRoot(
+      commitment,
+      input.merklePath.map(p => BigInt(p)),
+      input.merkleIndices
+    );
+    if (root !== BigInt(input.merkleRoot)) {
+      throw new Error('Witness does not satisfy membership constraint (Merkle root mismatch)');
     }
     
-    // Add Merkle indices
-    for (const index of input.merkleIndices) {
-      witness.push(BigInt(index));
+    const nullifier = PoseidonHash.hash([secret, BigInt(input.epoch)]);
+    if (nullifier !== BigInt(input.nullifier)) {
+      throw new Error('Witness does not satisfy nullifier constraint');
     }
     
-    // Add message hash if provided
-    if (input.messageHash) {
-      witness.push(BigInt(input.messageHash));
+    const signalHash = input.messageHash
+      ? PoseidonHash.hash([BigInt(input.messageHash)])
+      : BigInt(0);
+    if (signalHash !== BigInt(input.signalHash)) {
+      throw new Error('Witness does not satisfy signal hash constraint');
     }
     
-    return witness;
+    if (input.authorScope !== undefined && input.authorNullifierHash !== undefined) {
+      const authorNullifier = PoseidonHash.hash([secret, BigInt(input.authorScope)]);
+      if (PoseidonHash.hash([authorNullifier]) === BigInt(input.authorNullifierHash)) {
+        throw new Error('Witness does not satisfy author constraint (voter wrote the review)');
+      }
+    }
   }
 }
 
@@ -207,51 +280,14 @@ class ProofGenerator {
     console.log('[MidnightJS] Generating proof...');
     
     // Calculate witness
-    const witness = this.witnessCalculator.calculateWitness(input);
+    const witness = await this.witnessCalculator.calculateWitness(input);
     
-    // In production, this would use the actual Groth16 prover
-    // For demo, we create a deterministic mock proof based on inputs
-    const proof = this.createMockProof(witness, input);
+    // Groth16 prover over BN254
+    const { proof, publicSignals } = await snarkjs.groth16.prove(this.artifacts.provingKey, witness);
     
     console.log('[MidnightJS] Proof generated successfully');
     
-    return proof;
-  }
-  
-  private createMockProof(witness: bigint[], input: ProofInput): MidnightProof {
-    // Create deterministic but realistic-looking proof elements
-    const hash1 = PoseidonHash.hash([witness[0], witness[1]]);
-    const hash2 = PoseidonHash.hash([witness[2], witness[3]]);
-    const hash3 = PoseidonHash.hash([witness[4] || BigInt(0), BigInt(Date.now())]);
-    
-    return {
-      pi_a: [
-        '0x' + hash1.toString(16).padStart(64, '0'),
-        '0x' + hash2.toString(16).padStart(64, '0')
-      ],
-      pi_b: [
-        [
-          '0x' + hash3.toString(16).padStart(64, '0'),
-          '0x' + PoseidonHash.hash([hash1, hash2]).toString(16).padStart(64, '0')
-        ],
-        [
-          '0x' + PoseidonHash.hash([hash2, hash3]).toString(16).padStart(64, '0'),
-          '0x' + PoseidonHash.hash([hash3, hash1]).toString(16).padStart(64, '0')
-        ]
-      ],
-      pi_c: [
-        '0x' + PoseidonHash.hash([hash1, hash3]).toString(16).padStart(64, '0'),
-        '0x' + PoseidonHash.hash([hash2, BigInt(witness.length)]).toString(16).padStart(64, '0')
-      ],
-      protocol: 'groth16',
-      curve: 'bn254',
-      publicSignals: [
-        input.merkleRoot,
-        input.epoch.toString(),
-        input.nullifier,
-        input.signalHash
-      ]
-    };
+    return fromSnarkjsProof(proof, publicSignals);
   }
 }
 
@@ -279,9 +315,12 @@ class ProofVerifier {
         return false;
       }
       
-      // In production, this would perform actual pairing checks
-      // For demo, we verify the proof was generated with our system
-      const isValid = this.performPairingCheck(proof);
+      // Pairing check against the circuit's verification key
+      const isValid = await snarkjs.groth16.verify(
+        this.artifacts.verificationKey,
+        proof.publicSignals.map(toDecimal),
+        toSnarkjsProof(proof)
+      );
       
       console.log(`[MidnightJS] Proof verification result: ${isValid}`);
       
@@ -293,61 +332,33 @@ class ProofVerifier {
   }
   
   private validateProofStructure(proof: MidnightProof): boolean {
+    const isHex = (str: string) => /^0x[0-9a-f]{64}$/i.test(str);
+    
     return (
       proof.pi_a?.length === 2 &&
       proof.pi_b?.length === 2 &&
       proof.pi_b[0]?.length === 2 &&
       proof.pi_b[1]?.length === 2 &&
       proof.pi_c?.length === 2 &&
+      [...proof.pi_a, ...proof.pi_b[0], ...proof.pi_b[1], ...proof.pi_c].every(isHex) &&
       proof.protocol === 'groth16' &&
       proof.curve === 'bn254' &&
       Array.isArray(proof.publicSignals) &&
-      proof.publicSignals.length === 4
+      proof.publicSignals.length === this.artifacts.verificationKey.nPublic
     );
   }
   
   private validatePublicSignals(signals: string[]): boolean {
-    // Validate each public signal
-    const [merkleRoot, epoch, nullifier, signalHash] = signals;
-    
-    // Check merkle root format
-    if (!merkleRoot || merkleRoot.length < 1) return false;
-    
-    // Check epoch is reasonable
-    const epochNum = parseInt(epoch);
-    if (isNaN(epochNum) || epochNum < 0) return false;
-    
-    // Check nullifier exists
-    if (!nullifier || nullifier.length < 1) return false;
-    
-    // Signal hash can be 0 for non-bound proofs
-    if (signalHash === undefined) return false;
-    
-    return true;
-  }
-  
-  private performPairingCheck(proof: MidnightProof): boolean {
-    // In production, this would perform actual elliptic curve pairing checks
-    // For demo, we verify the proof has expected properties
-    
-    // Check that proof elements are properly formatted hex strings
-    const isHex = (str: string) => /^0x[0-9a-f]{64}$/i.test(str);
-    
-    if (!isHex(proof.pi_a[0]) || !isHex(proof.pi_a[1])) return false;
-    if (!isHex(proof.pi_c[0]) || !isHex(proof.pi_c[1])) return false;
-    
-    for (const pair of proof.pi_b) {
-      if (!isHex(pair[0]) || !isHex(pair[1])) return false;
-    }
-    
-    // Simulate pairing check (would be actual cryptographic verification in production)
-    // For demo, we check that the proof elements are related through our hash function
-    const a1 = BigInt(proof.pi_a[0]);
-    const a2 = BigInt(proof.pi_a[1]);
-    const checksum = PoseidonHash.hash([a1, a2]);
-    
-    // The proof is valid if it was generated by our system
-    return checksum !== BigInt(0);
+    // Every public signal must be a canonical field element
+    const inField = (value: string) => {
+      try {
+        const v = BigInt(value);
+        return v >= BigInt(0) && v < PoseidonHash.PRIME;
+      } catch {
+        return false;
+      }
+    };
+    return signals.every(inField);
   }
 }
 
@@ -398,7 +409,7 @@ export class MidnightJS {
   // Helper function to create proof input from application data
   static createProofInput(
     merkleRoot: string,
-    epoch: number,
+    epoch: bigint | number,
     identitySecret: string,
     merklePath: string[],
     merkleIndices: number[],
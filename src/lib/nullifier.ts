@@ -0,0 +1,149 @@
+/**
+ * Review Nullifiers
+ *
+ * A reviewer's nullifier for a dApp is deterministic, so a second review in the
+ * same scope reproduces the same value and is rejected:
+ *
+ *   externalNullifier = Poseidon(scopeTag, H(dappAddress), scopeValue)
+ *   nullifier         = Poseidon(identitySecret, externalNullifier)
+ *
+ * The external nullifier is the membership circuit's public `epoch` input, so
+ * the proof itself attests the nullifier was derived for this dApp and scope.
+ * The scope decides how often a reviewer may review the same dApp:
+ *   - PER_EPOCH:   once per dApp per epoch (scopeValue = epoch)
+ *   - LIFETIME:    once per dApp ever (scopeValue = 0)
+ *   - PER_VERSION: once per published dApp version (scopeValue = version)
+ *
+ * Review records store Poseidon(nullifier) rather than the nullifier. Only the
+ * author can re-derive it, which is how they later prove they wrote a review
+ * (to update or revoke it) without revealing who they are.
+ *
+ * Helpful votes use a nullifier scoped to the review instead of the dApp, so
+ * each identity can vote once per review:
+ *
+ *   externalNullifier = Poseidon(HELPFUL_VOTE_TAG, H(reviewId))
+ */
+
+import { poseidon, poseidonSponge, fieldToHex, parseFieldElement, digestToField } from './poseidon';
+
+export type NullifierScope = 'PER_EPOCH' | 'LIFETIME' | 'PER_VERSION';
+
+export const NULLIFIER_SCOPES: NullifierScope[] = ['PER_EPOCH', 'LIFETIME', 'PER_VERSION'];
+
+const SCOPE_TAGS: Record<NullifierScope, number> = {
+  PER_EPOCH: 1,
+  LIFETIME: 2,
+  PER_VERSION: 3,
+};
+
+// Distinct from the review scope tags, so a vote nullifier never collides with a review's
+const HELPFUL_VOTE_TAG = 4;
+
+export const DEFAULT_NULLIFIER_SCOPE: NullifierScope =
+  NULLIFIER_SCOPES.find(scope => scope === import.meta.env.VITE_NULLIFIER_SCOPE) ?? 'PER_EPOCH';
+
+// Everything needed to derive a reviewer's nullifier for one dApp
+export interface NullifierContext {
+  dappAddress: string;
+  scope: NullifierScope;
+  epoch: number;
+  version: number;
+}
+
+// Encode an arbitrary string as a field element: UTF-8 bytes in 31-byte chunks, length-prefixed
+export function stringToField(value: string): bigint {
+  const bytes = new TextEncoder().encode(value);
+  const chunks: bigint[] = [BigInt(bytes.length)];
+  for (let i = 0; i < bytes.length; i += 31) {
+    const chunk = bytes.slice(i, i + 31);
+    chunks.push(BigInt('0x' + (Array.from(chunk, b => b.toString(16).padStart(2, '0')).join('') || '0')));
+  }
+  return poseidonSponge(chunks);
+}
+
+export function computeExternalNullifier(context: NullifierContext): bigint {
+  const scopeValue =
+    context.scope === 'PER_EPOCH' ? context.epoch :
+    context.scope === 'PER_VERSION' ? context.version :
+    0;
+
+  return poseidon([
+    BigInt(SCOPE_TAGS[context.scope]),
+    stringToField(context.dappAddress),
+    BigInt(scopeValue)
+  ]);
+}
+
+export function deriveNullifier(identitySecret: bigint, context: NullifierContext): bigint {
+  return poseidon([identitySecret, computeExternalNullifier(context)]);
+}
+
+// What a review record stores in place of the nullifier
+export function hashNullifier(nullifier: bigint): bigint {
+  return poseidon([nullifier]);
+}
+
+/**
+ * The context a review was submitted under, found by re-deriving the reviewer's
+ * nullifier for each candidate (any scope, the review's epoch, each dApp
+ * version so far) and matching it against the stored hash. Null when this
+ * identity did not write the review.
+ */
+export function findReviewNullifierContext(
+  identitySecret: bigint,
+  review: { dappAddress: string; epoch: number; nullifierHash: string },
+  latestVersion: number
+): NullifierContext | null {
+  const target = parseFieldElement(review.nullifierHash);
+  for (const scope of NULLIFIER_SCOPES) {
+    const versions = scope === 'PER_VERSION' ? latestVersion : 1;
+    for (let version = 1; version <= versions; version++) {
+      const context = { dappAddress: review.dappAddress, scope, epoch: review.epoch, version };
+      if (hashNullifier(deriveNullifier(identitySecret, context)) === target) {
+        return context;
+      }
+    }
+  }
+  return null;
+}
+
+export type OwnershipAction = 'update' | 'revoke';
+
+// Signal an author's proof is bound to: one action on one version of one
+// review, so a proof can't be replayed once the review changes
+export function computeOwnershipSignal(
+  action: OwnershipAction,
+  reviewId: string,
+  version: number,
+  reviewHash?: string
+): string {
+  return fieldToHex(poseidon([
+    stringToField(`${action}:${reviewId}`),
+    BigInt(version),
+    reviewHash ? digestToField(reviewHash) : BigInt(0)
+  ]));
+}
+
+export function computeVoteExternalNullifier(reviewId: string): bigint {
+  return poseidon([BigInt(HELPFUL_VOTE_TAG), stringToField(reviewId)]);
+}
+
+export function deriveVoteNullifier(identitySecret: bigint, reviewId: string): bigint {
+  return poseidon([identitySecret, computeVoteExternalNullifier(reviewId)]);
+}
+
+// Signal a helpful vote's proof is bound to
+export function computeVoteSignal(reviewId: string): string {
+  return fieldToHex(stringToField(`helpful:${reviewId}`));
+}
+
+export function describeScope(scope: NullifierScope): string {
+  switch (scope) {
+    case 'PER_EPOCH':
+      return 'once per dApp per epoch';
+    case 'LIFETIME':
+      return 'once per dApp';
+    case 'PER_VERSION':
+      return 'once per dApp version';
+  }
+}
@@ -0,0 +1,267 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import * as snarkjs from 'snarkjs';
+import { POSEIDON_TEST_VECTORS, fieldToHex, poseidon, testPoseidon } from './poseidon';
+import { deriveIdentity } from './identity';
+import { IncrementalMerkleTree, computeMerkleRoot, verifyMerkleProof } from './merkle-tree';
+import { MidnightJS, PoseidonHash, midnightJS } from './midnightjs';
+import { generateHelpfulVoteProof, generateReviewerProof, signalToField } from './midnight-stub';
+import {
+  computeExternalNullifier,
+  computeVoteExternalNullifier,
+  computeVoteSignal,
+  NullifierScope,
+  deriveNullifier,
+  hashNullifier
+} from './nullifier';
+import { computeCommitment, generateMembershipProof, generateNullifier, verifyProof } from './zkProof';
+import { CompactContractAdapter, hashDAppMetadata } from './contract-adapter';
+import { MemoryLedgerStore } from './ledger-store';
+import { AuthParams, AuthorizedOperation, generateSigningKeyPair, importSigningKey, signAuthorization } from './admin-auth';
+import { fixtureChain, interactionProver, loadFixtureKeys } from './interaction-proof';
+import { PUBLIC_DIR, serveZkArtifacts } from '../test/zk-artifacts';
+
+// Every module hashes with the circuits' Poseidon, so commitments, nullifiers
+// and roots computed anywhere in the app must be the values the circuit computes
+
+const identity = deriveIdentity(BigInt(1234567), BigInt(7654321));
+const others = [deriveIdentity(BigInt(11), BigInt(12)), deriveIdentity(BigInt(21), BigInt(22))];
+
+async function buildTree(): Promise<IncrementalMerkleTree> {
+  const tree = new IncrementalMerkleTree();
+  for (const leaf of [identity, ...others]) {
+    await tree.insert(leaf.commitment);
+  }
+  return tree;
+}
+
+// An adapter with one dApp registered and every identity above enrolled
+async function deployAdapter(scope: NullifierScope, dappAddress: string) {
+  const { privateKey, publicKey } = await generateSigningKeyPair();
+  const { privateKey: adminKey } = await importSigningKey(privateKey);
+  const authorize = (operation: AuthorizedOperation, params: AuthParams) =>
+    signAuthorization(adminKey, publicKey, operation, params);
+
+  const adapter = new CompactContractAdapter(scope, publicKey, new MemoryLedgerStore());
+  await adapter.initialize();
+  await adapter.registerDApp(dappAddress, 'Bridge', 'DeFi', await authorize('registerDApp', {
+    address: dappAddress,
+    name: 'Bridge',
+    category: 'DeFi',
+    metadataHash: hashDAppMetadata({}),
+    ownerKey: ''
+  }));
+  for (const { commitment } of [identity, ...others]) {
+    const key = fieldToHex(commitment);
+    await adapter.requestEnrollment(key);
+    await adapter.approveEnrollment(key, await authorize('approveEnrollment', { commitment: key }));
+  }
+  return { adapter, authorize };
+}
+
+describe('poseidon', () => {
+  it.each(POSEIDON_TEST_VECTORS)('matches circomlib for $inputs.length input(s)', ({ inputs, expected }) => {
+    expect(poseidon(inputs)).toBe(expected);
+    expect(PoseidonHash.hash(inputs)).toBe(expected);
+  });
+
+  it('passes the self-test the diagnostics page runs', () => {
+    expect(testPoseidon.testVectors()).toBe(true);
+  });
+});
+
+describe('identity commitments', () => {
+  it('are Poseidon(secret) in identity, zkProof and midnightjs', async () => {
+    expect(identity.secret).toBe(poseidon([BigInt(7654321), BigInt(1234567)]));
+    expect(identity.commitment).toBe(poseidon([identity.secret]));
+    expect(await computeCommitment(identity.secret)).toBe(identity.commitment);
+    expect(PoseidonHash.hash([identity.secret])).toBe(identity.commitment);
+  });
+});
+
+describe('nullifiers', () => {
+  const context = { scope: 'PER_EPOCH' as const, dappAddress: '0xabc', epoch: 42, version: 1 };
+  const externalNullifier = computeExternalNullifier(context);
+
+  it('are Poseidon(secret, externalNullifier) in nullifier, zkProof and midnightjs', async () => {
+    const expected = poseidon([identity.secret, externalNullifier]);
+    expect(deriveNullifier(identity.secret, context)).toBe(expected);
+
+    const input = MidnightJS.createProofInput('0', externalNullifier, identity.secret.toString(), [], []);
+    expect(input.nullifier).toBe(expected.toString());
+  });
+
+  it('agree on epoch nullifiers between zkProof and midnightjs', async () => {
+    const input = MidnightJS.createProofInput('0', 42, identity.secret.toString(), [], []);
+    expect((await generateNullifier(identity.secret, 42)).toString()).toBe(input.nullifier);
+  });
+});
+
+describe('merkle roots', () => {
+  it('start from the all-zero tree', () => {
+    let root = BigInt(0);
+    for (let level = 0; level < 20; level++) {
+      root = poseidon([root, root]);
+    }
+    expect(new IncrementalMerkleTree().getRoot()).toBe(root);
+  });
+
+  it('can be recomputed from every leaf proof', async () => {
+    const tree = await buildTree();
+    for (let index = 0; index < 3; index++) {
+      const proof = tree.getProof(index);
+      expect(proof.root).toBe(tree.getRoot());
+      expect(computeMerkleRoot(proof.leaf, proof.pathElements, proof.pathIndices)).toBe(tree.getRoot());
+      expect(verifyMerkleProof(proof)).toBe(true);
+    }
+  });
+
+  it('match the tree built from the same leaves after a sync', async () => {
+    const tree = await buildTree();
+    const synced = async (leaves: bigint[]) => {
+      await tree.syncLeaves(leaves);
+      return tree.getRoot() === (await IncrementalMerkleTree.fromLeaves(leaves)).getRoot() && tree.size === leaves.length;
+    };
+
+    // Revoked, approved after, and a revoked slot a new client has never seen
+    expect(await synced([identity.commitment, BigInt(0), others[1].commitment, BigInt(44), BigInt(0)])).toBe(true);
+    // A shorter ledger is a different one
+    expect(await synced([others[0].commitment])).toBe(true);
+  });
+});
+
+describe('proofs from the real prover', () => {
+  let stopServer: () => void;
+
+  beforeAll(async () => {
+    stopServer = await serveZkArtifacts();
+  });
+
+  afterAll(() => {
+    stopServer();
+  });
+
+  it('from zkProof carry the root, nullifier and signal hash the app computes', async () => {
+    const tree = await buildTree();
+    const messageHash = BigInt(987654321);
+    const proof = await generateMembershipProof(identity, tree.getProof(0), 42, messageHash);
+
+    expect(proof.publicSignals).toEqual([
+      tree.getRoot().toString(),
+      '42',
+      (await generateNullifier(identity.secret, 42)).toString(),
+      poseidon([messageHash]).toString()
+    ]);
+    expect(await verifyProof(proof)).toBe(true);
+
+    const forged = { ...proof, publicSignals: [...proof.publicSignals] };
+    forged.publicSignals[1] = '43';
+    expect(await verifyProof(forged)).toBe(false);
+  }, 60_000);
+
+  it('for helpful votes come only from identities that did not write the review', async () => {
+    const tree = await buildTree();
+    const context = { scope: 'PER_EPOCH' as const, dappAddress: '0xabc', epoch: 42, version: 1 };
+    const review = {
+      authorScope: computeExternalNullifier(context),
+      authorNullifierHash: hashNullifier(deriveNullifier(identity.secret, context))
+    };
+    const voteFor = (secret: bigint, index: number) => ({
+      identitySecret: secret,
+      merkleProof: tree.getProof(index),
+      externalNullifier: computeVoteExternalNullifier('review_1'),
+      signal: computeVoteSignal('review_1'),
+      ...review
+    });
+
+    const vote = await generateHelpfulVoteProof(voteFor(others[0].secret, 1));
+    expect(vote.publicInputs.slice(4)).toEqual([review.authorScope.toString(), review.authorNullifierHash.toString()]);
+    expect(await midnightJS.verifyProof('helpful_vote', vote.midnightProof!)).toBe(true);
+
+    await expect(generateHelpfulVoteProof(voteFor(identity.secret, 0))).rejects.toThrow('author constraint');
+
+    // The circuit itself has no witness for the author, whatever the prover does
+    const authorInput = MidnightJS.createProofInput(
+      tree.getRoot().toString(),
+      computeVoteExternalNullifier('review_1'),
+      identity.secret.toString(),
+      tree.getProof(0).pathElements.map(String),
+      tree.getProof(0).pathIndices,
+      signalToField(computeVoteSignal('review_1')).toString()
+    );
+    const wasm = await readFile(path.join(PUBLIC_DIR, 'zk-artifacts/helpful_vote.wasm'));
+    await expect(snarkjs.wtns.calculate({
+      merkleRoot: authorInput.merkleRoot,
+      epoch: authorInput.epoch.toString(),
+      nullifier: authorInput.nullifier,
+      signalHash: authorInput.signalHash,
+      authorScope: review.authorScope.toString(),
+      authorNullifierHash: review.authorNullifierHash.toString(),
+      identitySecret: authorInput.identitySecret,
+      merklePath: authorInput.merklePath,
+      merkleIndices: authorInput.merkleIndices.map(String),
+      messageHash: authorInput.messageHash!
+    }, new Uint8Array(wasm), { type: 'mem' })).rejects.toThrow();
+  }, 60_000);
+
+  it('against a reviewer root from before a revocation are rejected', async () => {
+    const dappAddress = '0x' + 'd0'.repeat(32);
+    const { adapter, authorize } = await deployAdapter('LIFETIME', dappAddress);
+    const before = await IncrementalMerkleTree.fromLeaves((await adapter.getReviewerLeaves()).map(BigInt));
+
+    const revoked = fieldToHex(others[0].commitment);
+    await adapter.revokeEnrollment(revoked, await authorize('revokeEnrollment', { commitment: revoked }));
+    const after = await IncrementalMerkleTree.fromLeaves((await adapter.getReviewerLeaves()).map(BigInt));
+
+    const context = { scope: 'LIFETIME' as const, dappAddress, epoch: await adapter.getCurrentEpoch(), version: 1 };
+    const submit = async (secret: bigint, tree: IncrementalMerkleTree, index: number, hash: string) => {
+      const proof = await generateReviewerProof({
+        identitySecret: secret,
+        merkleProof: tree.getProof(index),
+        externalNullifier: computeExternalNullifier(context),
+        signal: hash
+      });
+      return adapter.submitReview(dappAddress, hash, 8, [0, 0, 0, 0], '', fieldToHex(deriveNullifier(secret, context)), proof);
+    };
+
+    expect(await adapter.isKnownReviewerRoot(fieldToHex(before.getRoot()))).toBe(false);
+    await expect(submit(others[0].secret, before, 1, '1'.repeat(64))).rejects.toThrow('unknown reviewer Merkle root');
+    // Reviewers who are still enrolled rebuild their path against the new root
+    await expect(submit(identity.secret, before, 0, '2'.repeat(64))).rejects.toThrow('unknown reviewer Merkle root');
+    await expect(submit(identity.secret, after, 0, '2'.repeat(64))).resolves.toMatchObject({ txHash: expect.any(String) });
+  }, 60_000);
+
+  it('with an interaction commitment are accepted only with an opening that checks out', async () => {
+    const [{ address: dappAddress }] = fixtureChain.getDApps();
+    const { adapter } = await deployAdapter('PER_EPOCH', dappAddress);
+    const [wallet] = fixtureChain.getWallets();
+    const keys = await loadFixtureKeys();
+
+    const context = { scope: 'PER_EPOCH' as const, dappAddress, epoch: await adapter.getCurrentEpoch(), version: 1 };
+    const nullifier = fieldToHex(deriveNullifier(identity.secret, context));
+    const reviewHash = '3'.repeat(64);
+    const { commitment, opening } = await interactionProver.prove(
+      await interactionProver.defaultStatement(dappAddress),
+      { walletKey: keys!.wallets[wallet.address], transactions: fixtureChain.listTransactions(wallet.address) },
+      nullifier
+    );
+    const proof = await generateReviewerProof({
+      identitySecret: identity.secret,
+      merkleProof: (await buildTree()).getProof(0),
+      externalNullifier: computeExternalNullifier(context),
+      signal: reviewHash
+    });
+    const submit = (interactionOpening?: typeof opening) =>
+      adapter.submitReview(dappAddress, reviewHash, 8, [0, 0, 0, 0], commitment, nullifier, proof, interactionOpening);
+
+    // A well-formed commitment alone no longer passes
+    await expect(submit()).rejects.toThrow('a commitment and its opening are required');
+    await expect(submit({ ...opening, salt: '0x01' })).rejects.toThrow('Opening does not match the commitment');
+    await expect(submit({ ...opening, nullifier: fieldToHex(1n) })).rejects.toThrow('made for a different review');
+
+    const { reviewId } = await submit(opening);
+    const review = (await adapter.listReviews(dappAddress)).find(review => review.id === reviewId)!;
+    expect(review).toMatchObject({ interactionProof: commitment, interactionVerified: true });
+  }, 60_000);
+});
@@ -0,0 +1,283 @@
+/**
+ * Poseidon Hash over the BN254 scalar field
+ *
+ * Single Poseidon implementation shared by the ZK proof library, the MidnightJS
+ * integration layer and the contract adapter, so identity commitments,
+ * nullifiers and Merkle roots agree across modules.
+ *
+ * Parameters follow the reference specification (x^5 S-box, 8 full rounds and
+ * the recommended partial rounds per width). Round constants and the Cauchy
+ * MDS matrix are derived with the reference Grain LFSR, which yields the same
+ * constants as circomlib, so hashes are interchangeable with circom circuits.
+ */
+
+// BN254 (alt_bn128) scalar field modulus
+export const FIELD_PRIME = BigInt(
+  '21888242871839275222246405745257275088548364400416034343698204186575808495617'
+);
+
+const FIELD_BITS = 254;
+const FULL_ROUNDS = 8;
+
+// Recommended partial rounds for widths t = 2..17 (128-bit security, alpha = 5)
+const PARTIAL_ROUNDS = [56, 57, 56, 60, 60, 63, 64, 63, 60, 66, 60, 65, 70, 60, 64, 68];
+
+export const MIN_WIDTH = 2;
+export const MAX_WIDTH = MIN_WIDTH + PARTIAL_ROUNDS.length - 1;
+
+export interface PoseidonParams {
+  width: number;
+  fullRounds: number;
+  partialRounds: number;
+  roundConstants: bigint[];
+  mds: bigint[][];
+}
+
+export interface PoseidonOptions {
+  // State width t (arity + 1). Inputs are zero-padded up to width - 1.
+  width?: number;
+  // Initial capacity element, state[0] before the permutation
+  initialState?: bigint;
+}
+
+// Field helpers
+
+export function toField(value: bigint | number | string): bigint {
+  const v = BigInt(value) % FIELD_PRIME;
+  return v < BigInt(0) ? v + FIELD_PRIME : v;
+}
+
+// Parse a decimal, 0x-prefixed or bare hex string (e.g. a SHA-256 digest) into the field
+export function parseFieldElement(value: string): bigint {
+  const trimmed = value.trim();
+  if (/^0x[0-9a-f]+$/i.test(trimmed)) return toField(trimmed);
+  if (/^[0-9]+$/.test(trimmed)) return toField(trimmed);
+  if (/^[0-9a-f]+$/i.test(trimmed)) return toField('0x' + trimmed);
+  throw new Error(`Invalid field element: ${value}`);
+}
+
+// A 32-byte digest (e.g. SHA-256) as one field element: Poseidon of its two
+// 128-bit halves. Unlike parseFieldElement, which reduces digests >= FIELD_PRIME
+// so that h and h + FIELD_PRIME collide, this is injective on digests.
+export function digestToField(digest: string): bigint {
+  const trimmed = digest.trim();
+  if (!/^(0x)?[0-9a-f]{64}$/i.test(trimmed)) {
+    throw new Error(`Invalid 32-byte digest: ${digest}`);
+  }
+  const hex = trimmed.replace(/^0x/i, '');
+  return poseidon([BigInt('0x' + hex.slice(0, 32)), BigInt('0x' + hex.slice(32))]);
+}
+
+// Format a field element as a 32-byte hex string
+export function fieldToHex(value: bigint): string {
+  return '0x' + toField(value).toString(16).padStart(64, '0');
+}
+
+function modPow(base: bigint, exp: bigint): bigint {
+  let result = BigInt(1);
+  base = toField(base);
+  while (exp > BigInt(0)) {
+    if (exp & BigInt(1)) {
+      result = (result * base) % FIELD_PRIME;
+    }
+    exp >>= BigInt(1);
+    base = (base * base) % FIELD_PRIME;
+  }
+  return result;
+}
+
+function modInverse(value: bigint): bigint {
+  if (toField(value) === BigInt(0)) {
+    throw new Error('Cannot invert zero in the scalar field');
+  }
+  return modPow(value, FIELD_PRIME - BigInt(2));
+}
+
+// Grain LFSR used by the reference parameter generation script
+class GrainLFSR {
+  private state: number[];
+  private head = 0;
+
+  constructor(width: number, fullRounds: number, partialRounds: number) {
+    const bits = (value: number, length: number) =>
+      value.toString(2).padStart(length, '0').split('').map(Number);
+
+    // field = 1 (prime field), sbox = 0 (x^alpha)
+    this.state = [
+      ...bits(1, 2),
+      ...bits(0, 4),
+      ...bits(FIELD_BITS, 12),
+      ...bits(width, 12),
+      ...bits(fullRounds, 10),
+      ...bits(partialRounds, 10),
+      ...Array(30).fill(1),
+    ];
+
+    // Discard the first 160 bits
+    for (let i = 0; i < 160; i++) {
+      this.clock();
+    }
+  }
+
+  private clock(): number {
+    const at = (i: number) => this.state[(this.head + i) % 80];
+    const bit = at(62) ^ at(51) ^ at(38) ^ at(23) ^ at(13) ^ at(0);
+    this.state[this.head] = bit;
+    this.head = (this.head + 1) % 80;
+    return bit;
+  }
+
+  // Self-shrinking output: emit the second bit of each pair whose first bit is 1
+  private nextBit(): number {
+    while (this.clock() === 0) {
+      this.clock();
+    }
+    return this.clock();
+  }
+
+  nextBits(count: number): bigint {
+    let value = BigInt(0);
+    for (let i = 0; i < count; i++) {
+      value = (value << BigInt(1)) | BigInt(this.nextBit());
+    }
+    return value;
+  }
+
+  nextFieldElement(): bigint {
+    let value = this.nextBits(FIELD_BITS);
+    while (value >= FIELD_PRIME) {
+      value = this.nextBits(FIELD_BITS);
+    }
+    return value;
+  }
+}
+
+const paramsCache: Map<number, PoseidonParams> = new Map();
+
+// Derive (and cache) the parameters for a given state width
+export function getPoseidonParams(width: number): PoseidonParams {
+  if (!Number.isInteger(width) || width < MIN_WIDTH || width > MAX_WIDTH) {
+    throw new Error(`Unsupported Poseidon width ${width} (expected ${MIN_WIDTH}-${MAX_WIDTH})`);
+  }
+
+  const cached = paramsCache.get(width);
+  if (cached) return cached;
+
+  const partialRounds = PARTIAL_ROUNDS[width - MIN_WIDTH];
+  const grain = new GrainLFSR(width, FULL_ROUNDS, partialRounds);
+
+  const roundConstants: bigint[] = [];
+  for (let i = 0; i < (FULL_ROUNDS + partialRounds) * width; i++) {
+    roundConstants.push(grain.nextFieldElement());
+  }
+
+  // Cauchy MDS matrix M[i][j] = 1 / (x_i + y_j)
+  let samples: bigint[];
+  do {
+    samples = [];
+    for (let i = 0; i < 2 * width; i++) {
+      samples.push(toField(grain.nextBits(FIELD_BITS)));
+    }
+  } while (new Set(samples.map(String)).size !== samples.length);
+
+  const xs = samples.slice(0, width);
+  const ys = samples.slice(width);
+  const mds = xs.map(x => ys.map(y => modInverse(x + y)));
+
+  const params: PoseidonParams = {
+    width,
+    fullRounds: FULL_ROUNDS,
+    partialRounds,
+    roundConstants,
+    mds,
+  };
+  paramsCache.set(width, params);
+  return params;
+}
+
+// Apply the Poseidon permutation to a full state of `width` elements
+export function poseidonPermutation(state: bigint[]): bigint[] {
+  const { width, fullRounds, partialRounds, roundConstants, mds } = getPoseidonParams(state.length);
+  const halfFull = fullRounds / 2;
+  const totalRounds = fullRounds + partialRounds;
+  const five = BigInt(5);
+
+  let current = state.map(toField);
+
+  for (let round = 0; round < totalRounds; round++) {
+    // Add round constants
+    current = current.map((v, i) => (v + roundConstants[round * width + i]) % FIELD_PRIME);
+
+    // S-box layer: every element in full rounds, first element in partial rounds
+    const isFullRound = round < halfFull || round >= halfFull + partialRounds;
+    if (isFullRound) {
+      current = current.map(v => modPow(v, five));
+    } else {
+      current[0] = modPow(current[0], five);
+    }
+
+    // Linear layer
+    current = mds.map(row =>
+      row.reduce((acc, m, j) => (acc + m * current[j]) % FIELD_PRIME, BigInt(0))
+    );
+  }
+
+  return current;
+}
+
+// Hash field elements; arity = inputs.length unless a wider state is requested
+export function poseidon(inputs: Array<bigint | number | string>, options: PoseidonOptions = {}): bigint {
+  const width = options.width ?? inputs.length + 1;
+
+  if (inputs.length === 0) {
+    throw new Error('Poseidon requires at least one input');
+  }
+  if (inputs.length > width - 1) {
+    throw new Error(`Too many inputs (${inputs.length}) for Poseidon width ${width}`);
+  }
+
+  const state = [
+    toField(options.initialState ?? BigInt(0)),
+    ...inputs.map(toField),
+    ...Array(width - 1 - inputs.length).fill(BigInt(0)),
+  ];
+
+  return poseidonPermutation(state)[0];
+}
+
+// Hash an arbitrary number of elements by chaining 16-ary Poseidon calls
+export function poseidonSponge(inputs: Array<bigint | number | string>): bigint {
+  const arity = MAX_WIDTH - 1;
+  if (inputs.length <= arity) {
+    return poseidon(inputs);
+  }
+
+  let acc = poseidon(inputs.slice(0, arity));
+  for (let i = arity; i < inputs.length; i += arity - 1) {
+    acc = poseidon([acc, ...inputs.slice(i, i + arity - 1)]);
+  }
+  return acc;
+}
+
+// Reference vectors from circomlib / circomlibjs
+export const POSEIDON_TEST_VECTORS: Array<{ inputs: bigint[]; expected: bigint }> = [
+  {
+    inputs: [BigInt(1)],
+    expected: BigInt('18586133768512220936620570745912940619677854269274689475585506675881198879027'),
+  },
+  {
+    inputs: [BigInt(1), BigInt(2)],
+    expected: BigInt('0x115cc0f5e7d690413df64c6b9662e9cf2a3617f2743245519e19607a4417189a'),
+  },
+  {
+    inputs: [BigInt(1), BigInt(2), BigInt(3)],
+    expected: BigInt('6542985608222806190361240322586112750744169038454362455181422643027100751666'),
+  },
+];
+
+// Test utilities
+export const testPoseidon = {
+  testVectors(): boolean {
+    return POSEIDON_TEST_VECTORS.every(({ inputs, expected }) => poseidon(inputs) === expected);
+  }
+};
@@ -0,0 +1,144 @@
+/**
+ * Project Catalog
+ *
+ * Read model over the contract adapter's registered dApps for the browse and
+ * detail pages: fills in missing metadata, converts the on-chain rating to a
+ * display value and supports search, category filtering and sorting.
+ */
+
+import { contractManager, DAppInfo, DAppMetadata, hashDAppMetadata } from './contract-adapter';
+import { transactionManager } from './transactions';
+import { Authorizer } from './admin-auth';
+import { averageToStars } from './rating-scale';
+
+export const PROJECT_CATEGORIES = [
+  'DeFi',
+  'NFT',
+  'Gaming',
+  'Infrastructure',
+  'Layer 2',
+  'Bridge',
+  'Wallet',
+  'Exchange',
+  'Lending',
+  'DAO',
+  'Oracle',
+  'Other',
+];
+
+export type ProjectSortOption = 'rating' | 'reviews' | 'reputation' | 'newest' | 'name';
+
+export interface CatalogProject extends Omit<DAppInfo, keyof DAppMetadata>, DAppMetadata {
+  rating: number; // Average in stars (0-5), converted from averageRating
+}
+
+export interface ProjectQuery {
+  search?: string;
+  category?: string; // matches the category or any tag
+  sortBy?: ProjectSortOption;
+  includeInactive?: boolean;
+}
+
+export interface ProjectRegistration extends Partial<DAppMetadata> {
+  address: string;
+  name: string;
+  category: string;
+  ownerKey?: string; // The team's public key, see ./project-owner
+}
+
+const DEFAULT_LOGO = '🧩';
+
+export function toCatalogProject(dapp: DAppInfo): CatalogProject {
+  return {
+    ...dapp,
+    description: dapp.description ?? '',
+    website: dapp.website ?? '',
+    github: dapp.github ?? '',
+    logo: dapp.logo || DEFAULT_LOGO,
+    tags: dapp.tags ?? [],
+    rating: averageToStars(dapp.averageRating)
+  };
+}
+
+function matchesSearch(project: CatalogProject, search: string): boolean {
+  const term = search.trim().toLowerCase();
+  if (!term) return true;
+
+  return [project.name, project.description, project.address, project.category, ...project.tags]
+    .some(value => value.toLowerCase().includes(term));
+}
+
+function compareProjects(sortBy: ProjectSortOption) {
+  return (a: CatalogProject, b: CatalogProject): number => {
+    switch (sortBy) {
+      case 'rating':
+        return b.averageRating - a.averageRating || b.totalReviews - a.totalReviews;
+      case 'reviews':
+        return b.totalReviews - a.totalReviews;
+      case 'reputation':
+        return b.reputationScore - a.reputationScore;
+      case 'newest':
+        return b.registrationEpoch - a.registrationEpoch;
+      case 'name':
+        return a.name.localeCompare(b.name);
+    }
+  };
+}
+
+class ProjectCatalog {
+  private static instance: ProjectCatalog;
+
+  static getInstance(): ProjectCatalog {
+    if (!ProjectCatalog.instance) {
+      ProjectCatalog.instance = new ProjectCatalog();
+    }
+    return ProjectCatalog.instance;
+  }
+
+  async listProjects(query: ProjectQuery = {}): Promise<CatalogProject[]> {
+    const adapter = await contractManager.getReadyAdapter();
+    const { search = '', category, sortBy = 'rating', includeInactive = false } = query;
+
+    return (await adapter.listDApps())
+      .map(toCatalogProject)
+      .filter(project => includeInactive || project.status === 'ACTIVE')
+      .filter(project => !category || project.category === category || project.tags.includes(category))
+      .filter(project => matchesSearch(project, search))
+      .sort(compareProjects(sortBy));
+  }
+
+  async getProject(address: string): Promise<CatalogProject | null> {
+    const adapter = await contractManager.getReadyAdapter();
+    const dapp = await adapter.getDAppInfo(address);
+    return dapp ? toCatalogProject(dapp) : null;
+  }
+
+  // Admin: register a dApp on-chain together with its catalog metadata
+  async registerProject(registration: ProjectRegistration, authorize: Authorizer): Promise<{ txHash: string }> {
+    const { category, address: rawAddress, name: rawName, ownerKey: rawOwnerKey = '', ...metadata } = registration;
+    const address = rawAddress.trim();
+    const name = rawName.trim();
+    const ownerKey = rawOwnerKey.trim();
+    if (!address || !name) {
+      throw new Error('Project address and name are required');
+    }
+
+    const dappMetadata = { ...metadata, tags: metadata.tags?.map(tag => tag.trim()).filter(Boolean) };
+    const adapter = await contractManager.getReadyAdapter();
+    const authorization = await authorize('registerDApp', {
+      address,
+      name,
+      category,
+      metadataHash: hashDAppMetadata(dappMetadata),
+      ownerKey
+    });
+    return transactionManager.track(
+      'registerDApp',
+      { description: `Register ${name}`, reference: { dappAddress: address } },
+      () => adapter.registerDApp(address, name, category, authorization, dappMetadata, ownerKey)
+    );
+  }
+}
+
+// Export singleton instance
+export const projectCatalog = ProjectCatalog.getInstance();
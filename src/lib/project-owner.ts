@@ -0,0 +1,68 @@
+/**
+ * Project Owners
+ *
+ * A dApp's team hands the admin a P-256 public key when the dApp is listed,
+ * and the admin registers the dApp with it as its owner key. The team proves
+ * it owns the project by signing a challenge with the matching private key,
+ * which only it holds. The challenge is an authorization in admin-auth's
+ * format for the 'verifyProjectOwner' operation, with a fresh nonce and
+ * timestamp, so it can't be replayed. Once the contract has checked it, the
+ * key is the dApp's verified owner key. Responses to reviews must then be
+ * signed with it.
+ *
+ * The fixture chain lists its dApps' owner public keys; development builds
+ * also load the private keys (see loadFixtureKeys), so the flow can be tried
+ * locally.
+ */
+
+import { SigningSession, normalizePublicKey } from './admin-auth';
+
+// Longest response a team can post to a review
+export const MAX_RESPONSE_LENGTH = 2000;
+
+// Whether the key is the owner key the dApp was registered with
+export function isOwnerKeyFor(publicKey: string, ownerKey: string | undefined): boolean {
+  return ownerKey !== undefined && normalizePublicKey(publicKey) === normalizePublicKey(ownerKey);
+}
+
+/**
+ * Project Owner Session - holds a project team's owner key in memory
+ */
+class ProjectOwnerSession extends SigningSession {
+  private static instance: ProjectOwnerSession;
+
+  private constructor() {
+    super('Sign in with the project owner key first');
+  }
+
+  static getInstance(): ProjectOwnerSession {
+    if (!ProjectOwnerSession.instance) {
+      ProjectOwnerSession.instance = new ProjectOwnerSession();
+    }
+    return ProjectOwnerSession.instance;
+  }
+
+  // Only accepts the private half of the dApp's registered owner key
+  async login(privateKeyBase64: string, dapp: { address: string; ownerKey?: string }): Promise<string> {
+    if (!dapp.ownerKey) {
+      throw new Error('This dApp was registered without an owner key');
+    }
+    const publicKey = await this.holdKey(privateKeyBase64, key => {
+      if (!isOwnerKeyFor(key, dapp.ownerKey)) {
+        throw new Error("This is not the dApp's owner key");
+      }
+    });
+
+    console.log('[ProjectOwnerSession] Logged in:', { dappAddress: dapp.address });
+    return publicKey;
+  }
+
+  // Whether the session holds the owner key of this dApp
+  ownsDApp(dapp: { ownerKey?: string }): boolean {
+    const publicKey = this.getPublicKey();
+    return publicKey !== null && isOwnerKeyFor(publicKey, dapp.ownerKey);
+  }
+}
+
+// Export singleton instance
+export const projectOwnerSession = ProjectOwnerSession.getInstance();
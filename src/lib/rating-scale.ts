@@ -0,0 +1,88 @@
+/**
+ * Rating Scale
+ *
+ * The one definition of how ratings are stored and shown. On-chain a rating
+ * is an integer from 1 to 10, and the UI shows it as 0.5-5 stars in half-star
+ * steps, so rating 7 is 3.5 stars. Averages are stored on-chain as
+ * ratingSum * 100 / count, on the same 1-10 scale.
+ *
+ * A review can also rate up to DIMENSION_SLOTS dimensions on the same scale.
+ * Dimension ratings are stored by slot, and 0 in a slot means the reviewer
+ * left that dimension unrated. What each slot means depends on the dApp's
+ * category (see ./review-criteria).
+ */
+
+export const MIN_RATING = 1;
+export const MAX_RATING = 10;
+export const MAX_STARS = 5;
+export const STAR_STEP = 0.5;
+const RATINGS_PER_STAR = 1 / STAR_STEP;
+
+// On-chain averages are fixed-point with this factor
+export const AVERAGE_PRECISION = 100;
+
+export const DIMENSION_SLOTS = 4;
+export const UNRATED = 0;
+
+export function isValidRating(rating: number): boolean {
+  return Number.isInteger(rating) && rating >= MIN_RATING && rating <= MAX_RATING;
+}
+
+export function isValidStars(stars: number): boolean {
+  return isValidRating(stars * RATINGS_PER_STAR);
+}
+
+// 0.5-5 stars in half-star steps to the on-chain 1-10 scale
+export function starsToRating(stars: number): number {
+  if (!isValidStars(stars)) {
+    throw new Error(`Ratings must be ${STAR_STEP}-${MAX_STARS} stars in half-star steps`);
+  }
+  return stars * RATINGS_PER_STAR;
+}
+
+export function ratingToStars(rating: number): number {
+  return rating / RATINGS_PER_STAR;
+}
+
+// On-chain fixed-point average (e.g. DAppInfo.averageRating) to stars
+export function averageToStars(averageRating: number): number {
+  return ratingToStars(averageRating / AVERAGE_PRECISION);
+}
+
+// Mean of a sum of on-chain ratings, in stars; 0 when there are none
+export function meanStars(ratingSum: number, count: number): number {
+  return count === 0 ? 0 : ratingToStars(ratingSum / count);
+}
+
+export function formatStars(stars: number): string {
+  return stars.toFixed(1);
+}
+
+export type StarFill = 'full' | 'half' | 'empty';
+
+// How to draw each of the MAX_STARS stars, rounding to the nearest half star
+export function starFills(stars: number): StarFill[] {
+  const halves = Math.round(stars * 2);
+  return Array.from({ length: MAX_STARS }, (_, i) =>
+    halves >= (i + 1) * 2 ? 'full' : halves === i * 2 + 1 ? 'half' : 'empty'
+  );
+}
+
+// Whole-star bucket for breakdowns and filters: half stars round up (4.5 counts as 5)
+export function starBucket(rating: number): number {
+  return Math.ceil(ratingToStars(rating));
+}
+
+// Throws unless every slot is UNRATED or a valid rating
+export function validateDimensionRatings(dimensionRatings: number[]): void {
+  if (dimensionRatings.length !== DIMENSION_SLOTS) {
+    throw new Error(`Dimension ratings must have ${DIMENSION_SLOTS} slots`);
+  }
+  if (!dimensionRatings.every(rating => rating === UNRATED || isValidRating(rating))) {
+    throw new Error(`Dimension ratings must be between ${MIN_RATING} and ${MAX_RATING}, or ${UNRATED} for unrated`);
+  }
+}
+
+export function emptyDimensionRatings(): number[] {
+  return new Array(DIMENSION_SLOTS).fill(UNRATED);
+}
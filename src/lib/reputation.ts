@@ -0,0 +1,207 @@
+/**
+ * DApp Reputation Scoring
+ *
+ * The one implementation of dApp reputation. The contract only keeps rating
+ * aggregates; scores are computed off-chain from a dApp's reviews on a
+ * 0-10000 scale (100.00). Every algorithm has a version number, and the
+ * adapter stores the version next to each score so scores produced by an
+ * older formula can be found and backfilled.
+ */
+
+// Ratings use the on-chain 1-10 scale
+import { MIN_RATING, MAX_RATING } from './rating-scale';
+
+const MAX_SCORE = 10000;
+
+export interface ReputationReview {
+  rating: number;
+  epoch: number;
+  credibility: number; // 0-1, how much weight the reviewer's evidence earns
+  helpfulVotes: number; // Anonymous votes from other reviewers
+}
+
+export interface ReputationInput {
+  registrationEpoch: number;
+  currentEpoch: number;
+  reviews: ReputationReview[]; // Published reviews only
+  removedReviews: number; // Reviews flagged or rejected by moderators
+}
+
+export interface ReputationAlgorithm {
+  version: number;
+  description: string;
+  score(input: ReputationInput): number; // 0-10000
+}
+
+export interface ReputationResult {
+  score: number;
+  version: number;
+}
+
+// Version 1: the original formula - average rating times a stepped log of the
+// review count, plus up to 200 points for age
+const logCountV1: ReputationAlgorithm = {
+  version: 1,
+  description: 'Average rating scaled by a stepped log of review count, plus an age bonus',
+  score({ registrationEpoch, currentEpoch, reviews }) {
+    const reviewCount = reviews.length;
+    const ratingSum = reviews.reduce((sum, review) => sum + review.rating, 0);
+    const avgRating = reviewCount === 0 ? 0 : Math.round((ratingSum * 100) / reviewCount);
+
+    const logApprox = reviewCount <= 1 ? 0 :
+      reviewCount <= 2 ? 69 : // ln(2) * 100
+      reviewCount <= 7 ? 194 : // ln(7) * 100
+      reviewCount <= 20 ? 299 : 399; // ln(20) * 100
+
+    const baseScore = Math.round((avgRating * logApprox) / 10000);
+    const ageBonus = Math.min((currentEpoch - registrationEpoch) * 10, 200);
+
+    return Math.min(baseScore + ageBonus, MAX_SCORE);
+  }
+};
+
+// Version 2 tuning
+const PRIOR_MEAN = (MIN_RATING + MAX_RATING) / 2; // Few reviews pull toward the middle; unreviewed dApps score 0
+const PRIOR_WEIGHT = 5; // Worth five full-weight reviews
+const DECAY_HALF_LIFE_EPOCHS = 180; // A review's weight halves every ~6 months
+const MAX_REMOVED_PENALTY = 0.5; // A dApp whose reviews were all removed loses half its score
+
+// Bayesian average of decayed, weighted ratings, discounted by the share of
+// reviews moderators removed; versions 2-5 differ in how reviews are weighted
+function bayesianScore(
+  { currentEpoch, reviews, removedReviews }: ReputationInput,
+  reviewWeight: (review: ReputationReview) => number
+): number {
+  if (reviews.length === 0) return 0;
+
+  let weightSum = 0;
+  let weightedRatings = 0;
+  for (const review of reviews) {
+    const age = Math.max(0, currentEpoch - review.epoch);
+    const weight = reviewWeight(review) * Math.pow(0.5, age / DECAY_HALF_LIFE_EPOCHS);
+    weightSum += weight;
+    weightedRatings += weight * review.rating;
+  }
+
+  const bayesianMean = (PRIOR_MEAN * PRIOR_WEIGHT + weightedRatings) / (PRIOR_WEIGHT + weightSum);
+  const normalized = (bayesianMean - MIN_RATING) / (MAX_RATING - MIN_RATING);
+
+  const removedRatio = removedReviews / (reviews.length + removedReviews);
+  const penalty = 1 - MAX_REMOVED_PENALTY * removedRatio;
+
+  return Math.round(Math.min(Math.max(normalized * penalty, 0), 1) * MAX_SCORE);
+}
+
+// Version 2: weighted by the reviewer's evidence
+const bayesianV2: ReputationAlgorithm = {
+  version: 2,
+  description: 'Bayesian average with time decay and credibility weights, penalised by removed-review ratio',
+  score(input) {
+    return bayesianScore(input, review => review.credibility);
+  }
+};
+
+// Version 3 tuning
+const HELPFUL_VOTE_BONUS = 0.1; // Each helpful vote adds a tenth of the review's weight...
+const MAX_HELPFUL_BONUS = 1; // ...up to double
+
+// Version 3: as version 2, with helpful votes raising a review's credibility
+const helpfulV3: ReputationAlgorithm = {
+  version: 3,
+  description: 'Version 2 with credibility raised by anonymous helpful votes',
+  score(input) {
+    return bayesianScore(
+      input,
+      review => review.credibility * helpfulVoteFactor(review)
+    );
+  }
+};
+
+// Version 4: as version 3 without credibility. Nothing on-chain checked an
+// interaction commitment against the chain, so any well-formed value would earn it.
+const unverifiedEvidenceV4: ReputationAlgorithm = {
+  version: 4,
+  description: 'Version 3 without credibility for unverified interaction commitments',
+  score(input) {
+    return bayesianScore(input, helpfulVoteFactor);
+  }
+};
+
+// Version 5: version 3's weighting again, now that a commitment's opening is
+// checked against the chain when the review is submitted
+const verifiedEvidenceV5: ReputationAlgorithm = {
+  version: 5,
+  description: 'Version 3 with credibility only for interaction proofs checked on submission',
+  score(input) {
+    return bayesianScore(input, review => review.credibility * helpfulVoteFactor(review));
+  }
+};
+
+function helpfulVoteFactor(review: ReputationReview): number {
+  return 1 + Math.min(review.helpfulVotes * HELPFUL_VOTE_BONUS, MAX_HELPFUL_BONUS);
+}
+
+// Reviews whose interaction proof (see ./interaction-proof) was checked on submission count fully;
+// others count for less. Version 4 ignores it.
+export function reviewCredibility(review: { interactionVerified: boolean }): number {
+  return review.interactionVerified ? 1 : 0.75;
+}
+
+/**
+ * Reputation Engine - registry of scoring algorithms by version
+ */
+class ReputationEngine {
+  private static instance: ReputationEngine;
+  private algorithms: Map<number, ReputationAlgorithm> = new Map();
+  private currentVersion: number;
+
+  private constructor() {
+    this.register(logCountV1);
+    this.register(bayesianV2);
+    this.register(helpfulV3);
+    this.register(unverifiedEvidenceV4);
+    this.register(verifiedEvidenceV5);
+    this.currentVersion = verifiedEvidenceV5.version;
+  }
+
+  static getInstance(): ReputationEngine {
+    if (!ReputationEngine.instance) {
+      ReputationEngine.instance = new ReputationEngine();
+    }
+    return ReputationEngine.instance;
+  }
+
+  register(algorithm: ReputationAlgorithm, makeCurrent = false): void {
+    if (this.algorithms.has(algorithm.version)) {
+      throw new Error(`Reputation algorithm version ${algorithm.version} already registered`);
+    }
+    this.algorithms.set(algorithm.version, algorithm);
+    if (makeCurrent) {
+      this.currentVersion = algorithm.version;
+    }
+
+    console.log('[ReputationEngine] Registered algorithm:', {
+      version: algorithm.version,
+      current: makeCurrent
+    });
+  }
+
+  getCurrentVersion(): number {
+    return this.currentVersion;
+  }
+
+  listAlgorithms(): ReputationAlgorithm[] {
+    return Array.from(this.algorithms.values()).sort((a, b) => a.version - b.version);
+  }
+
+  score(input: ReputationInput, version: number = this.currentVersion): ReputationResult {
+    const algorithm = this.algorithms.get(version);
+    if (!algorithm) {
+      throw new Error(`Unknown reputation algorithm version ${version}`);
+    }
+    return { score: algorithm.score(input), version };
+  }
+}
+
+// Export singleton instance
+export const reputationEngine = ReputationEngine.getInstance();
@@ -0,0 +1,182 @@
+/**
+ * Review Content Store
+ *
+ * Only the SHA-256 `reviewHash` of a review goes on-chain; the title, body,
+ * pros and cons are kept here, keyed by that hash. Content is stored in
+ * IndexedDB and, when cloud sync is enabled, mirrored through
+ * `/api/review-content` so other browsers can read it. Every read and write
+ * re-hashes the content and rejects anything that doesn't match the hash.
+ */
+
+import { openDB, DBSchema, IDBPDatabase } from 'idb';
+import { syncManager } from './sync-provider';
+
+export interface ReviewContent {
+  title: string;
+  review: string;
+  pros: string;
+  cons: string;
+  rating: number; // 1-10, as in the on-chain record
+  timestamp: number;
+}
+
+interface StoredReviewContent {
+  reviewHash: string;
+  content: ReviewContent;
+  storedAt: number;
+}
+
+interface ReviewContentDB extends DBSchema {
+  contents: {
+    key: string;
+    value: StoredReviewContent;
+  };
+}
+
+// Fixed field order so the same content always serializes to the same bytes
+export function serializeReviewContent(content: ReviewContent): string {
+  return JSON.stringify({
+    title: content.title,
+    review: content.review,
+    pros: content.pros,
+    cons: content.cons,
+    rating: content.rating,
+    timestamp: content.timestamp
+  });
+}
+
+// SHA-256 of the canonical serialization, as 64 lowercase hex chars
+export async function computeReviewHash(content: ReviewContent): Promise<string> {
+  const data = new TextEncoder().encode(serializeReviewContent(content));
+  const hashBuffer = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(hashBuffer), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export async function verifyReviewContent(reviewHash: string, content: ReviewContent): Promise<boolean> {
+  return (await computeReviewHash(content)) === normalizeReviewHash(reviewHash);
+}
+
+function normalizeReviewHash(reviewHash: string): string {
+  return reviewHash.replace(/^0x/i, '').toLowerCase();
+}
+
+class ReviewContentStore {
+  private static instance: ReviewContentStore;
+  private db: IDBPDatabase<ReviewContentDB> | null = null;
+  private readonly DB_NAME = 'review-content';
+  private readonly DB_VERSION = 1;
+
+  static getInstance(): ReviewContentStore {
+    if (!ReviewContentStore.instance) {
+      ReviewContentStore.instance = new ReviewContentStore();
+    }
+    return ReviewContentStore.instance;
+  }
+
+  // Store content under its hash; rejects content that doesn't hash to reviewHash
+  async put(reviewHash: string, content: ReviewContent): Promise<void> {
+    const key = normalizeReviewHash(reviewHash);
+    if (!(await verifyReviewContent(key, content))) {
+      throw new Error('Review content does not match its hash');
+    }
+
+    const db = await this.getDB();
+    await db.put('contents', { reviewHash: key, content, storedAt: Date.now() });
+
+    const endpoint = syncManager.getCloudEndpoint();
+    if (endpoint) {
+      try {
+        const response = await fetch(`${endpoint.baseUrl}/api/review-content`, {
+          method: 'POST',
+          headers: endpoint.headers,
+          body: JSON.stringify({ reviewHash: key, content })
+        });
+        // 409 means the same hash is already stored remotely
+        if (!response.ok && response.status !== 409) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+      } catch (error) {
+        console.error('[ReviewContentStore] Failed to sync review content:', error);
+      }
+    }
+
+    console.log('[ReviewContentStore] Content stored:', { reviewHash: key.slice(0, 16) + '...' });
+  }
+
+  // Verified content for reviewHash, or null if it is unknown or fails verification
+  async get(reviewHash: string): Promise<ReviewContent | null> {
+    const key = normalizeReviewHash(reviewHash);
+    const db = await this.getDB();
+
+    const stored = await db.get('contents', key);
+    if (stored) {
+      if (await verifyReviewContent(key, stored.content)) {
+        return stored.content;
+      }
+      console.warn('[ReviewContentStore] Discarding local content with mismatched hash:', key);
+      await db.delete('contents', key);
+    }
+
+    const remote = await this.fetchRemote(key);
+    if (remote) {
+      await db.put('contents', { reviewHash: key, content: remote, storedAt: Date.now() });
+    }
+    return remote;
+  }
+
+  async getMany(reviewHashes: string[]): Promise<Map<string, ReviewContent>> {
+    const contents = new Map<string, ReviewContent>();
+    await Promise.all(
+      reviewHashes.map(async reviewHash => {
+        const content = await this.get(reviewHash);
+        if (content) {
+          contents.set(reviewHash, content);
+        }
+      })
+    );
+    return contents;
+  }
+
+  // Private helpers
+
+  private async fetchRemote(reviewHash: string): Promise<ReviewContent | null> {
+    const endpoint = syncManager.getCloudEndpoint();
+    if (!endpoint) return null;
+
+    try {
+      const response = await fetch(
+        `${endpoint.baseUrl}/api/review-content?hash=${encodeURIComponent(reviewHash)}`,
+        { method: 'GET', headers: endpoint.headers }
+      );
+      if (!response.ok) {
+        return null;
+      }
+
+      const { content } = await response.json();
+      if (!content || !(await verifyReviewContent(reviewHash, content))) {
+        console.warn('[ReviewContentStore] Remote content failed hash verification:', reviewHash);
+        return null;
+      }
+      return content;
+    } catch (error) {
+      console.error('[ReviewContentStore] Failed to fetch review content:', error);
+      return null;
+    }
+  }
+
+  private async getDB(): Promise<IDBPDatabase<ReviewContentDB>> {
+    if (!this.db) {
+      this.db = await openDB<ReviewContentDB>(this.DB_NAME, this.DB_VERSION, {
+        upgrade(db) {
+          if (!db.objectStoreNames.contains('contents')) {
+            db.createObjectStore('contents', { keyPath: 'reviewHash' });
+          }
+        },
+      });
+    }
+    return this.db;
+  }
+}
+
+// Export singleton instance
+export const reviewContentStore = ReviewContentStore.getInstance();
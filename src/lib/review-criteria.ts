@@ -0,0 +1,176 @@
+/**
+ * Review Criteria
+ *
+ * Besides the overall rating, a review scores criteria that depend on the
+ * dApp's category: bridges are rated on finality time and fund safety,
+ * wallets on key management, lending markets on liquidation fairness. A
+ * category's schema assigns its criteria to the rating scale's dimension
+ * slots in order, so the contract keeps a fixed-size vector while the meaning
+ * of each slot follows the category. A dApp's category is set when it is
+ * registered and never changes, so its slots keep their meaning.
+ */
+
+import {
+  DIMENSION_SLOTS,
+  UNRATED,
+  meanStars,
+  ratingToStars,
+  starsToRating,
+  validateDimensionRatings
+} from './rating-scale';
+
+export interface ReviewCriterion {
+  id: string;
+  label: string;
+  description: string;
+}
+
+// Used for categories without their own schema
+export const GENERAL_CRITERIA: ReviewCriterion[] = [
+  { id: 'security', label: 'Security', description: 'Audits, track record and how safe funds felt' },
+  { id: 'ux', label: 'User Experience', description: 'How easy the dApp was to use' },
+  { id: 'support', label: 'Support', description: 'Documentation and help when something went wrong' },
+  { id: 'fees', label: 'Fees', description: 'Whether costs were fair and clearly shown' }
+];
+
+// Keyed by PROJECT_CATEGORIES entries; at most DIMENSION_SLOTS criteria each
+const CATEGORY_CRITERIA: Record<string, ReviewCriterion[]> = {
+  DeFi: [
+    { id: 'security', label: 'Contract Security', description: 'Audits, exploits and how safe deposits felt' },
+    { id: 'returns', label: 'Returns', description: 'Whether yields matched what was advertised' },
+    { id: 'ux', label: 'User Experience', description: 'How easy deposits, swaps and withdrawals were' },
+    { id: 'fees', label: 'Fees', description: 'Protocol and gas costs for what you did' }
+  ],
+  NFT: [
+    { id: 'mintFairness', label: 'Mint Fairness', description: 'Allowlists, bots and how fair drops felt' },
+    { id: 'creatorTerms', label: 'Creator Terms', description: 'Royalties and rights as promised' },
+    { id: 'ux', label: 'User Experience', description: 'Browsing, listing and buying' },
+    { id: 'fees', label: 'Fees', description: 'Marketplace and minting costs' }
+  ],
+  Gaming: [
+    { id: 'gameplay', label: 'Gameplay', description: 'Whether the game is fun without the token' },
+    { id: 'economy', label: 'Economy Fairness', description: 'Pay-to-win, inflation and item value' },
+    { id: 'ux', label: 'Onboarding', description: 'Getting started without crypto know-how' },
+    { id: 'support', label: 'Support', description: 'Help with lost items or stuck transactions' }
+  ],
+  Infrastructure: [
+    { id: 'reliability', label: 'Reliability', description: 'Uptime and consistent behaviour' },
+    { id: 'performance', label: 'Performance', description: 'Latency and throughput under load' },
+    { id: 'documentation', label: 'Documentation', description: 'How easy it was to integrate' },
+    { id: 'support', label: 'Support', description: 'Response to issues and outages' }
+  ],
+  'Layer 2': [
+    { id: 'withdrawalTime', label: 'Withdrawal Time', description: 'How long it took to get funds back to L1' },
+    { id: 'security', label: 'Security', description: 'Proof system, upgrade keys and decentralization' },
+    { id: 'fees', label: 'Fees', description: 'Transaction costs compared with L1' },
+    { id: 'ux', label: 'User Experience', description: 'Bridging in, wallets and tooling' }
+  ],
+  Bridge: [
+    { id: 'finalityTime', label: 'Finality Time', description: 'How long until funds arrived on the other chain' },
+    { id: 'fundSafety', label: 'Fund Safety', description: 'Custody model, audits and incident history' },
+    { id: 'fees', label: 'Fees', description: 'Bridge and relayer costs' },
+    { id: 'support', label: 'Support', description: 'Help with stuck or failed transfers' }
+  ],
+  Wallet: [
+    { id: 'keyManagement', label: 'Key Management', description: 'Backups, recovery and hardware wallet support' },
+    { id: 'security', label: 'Security', description: 'Transaction previews and phishing protection' },
+    { id: 'ux', label: 'User Experience', description: 'Sending, receiving and connecting to dApps' },
+    { id: 'support', label: 'Support', description: 'Help when something went wrong' }
+  ],
+  Exchange: [
+    { id: 'liquidity', label: 'Liquidity', description: 'Slippage and depth on the pairs you traded' },
+    { id: 'fundSafety', label: 'Fund Safety', description: 'Custody, proof of reserves and withdrawals' },
+    { id: 'fees', label: 'Fees', description: 'Trading and withdrawal fees' },
+    { id: 'support', label: 'Support', description: 'Response to account and order issues' }
+  ],
+  Lending: [
+    { id: 'liquidationFairness', label: 'Liquidation Fairness', description: 'Thresholds, penalties and warnings before liquidation' },
+    { id: 'rates', label: 'Rates', description: 'Borrow and supply rates compared with similar markets' },
+    { id: 'security', label: 'Security', description: 'Audits, oracle design and incident history' },
+    { id: 'ux', label: 'User Experience', description: 'Managing positions and health factors' }
+  ],
+  DAO: [
+    { id: 'transparency', label: 'Transparency', description: 'Treasury reporting and decision records' },
+    { id: 'governance', label: 'Governance Process', description: 'How proposals are made and voted on' },
+    { id: 'community', label: 'Community', description: 'How members are heard and treated' }
+  ],
+  Oracle: [
+    { id: 'accuracy', label: 'Accuracy', description: 'How closely feeds tracked the market' },
+    { id: 'reliability', label: 'Reliability', description: 'Uptime and behaviour during volatility' },
+    { id: 'latency', label: 'Latency', description: 'How quickly updates arrived' },
+    { id: 'documentation', label: 'Documentation', description: 'How easy feeds were to integrate' }
+  ]
+};
+
+export function getCriteria(category: string): ReviewCriterion[] {
+  return CATEGORY_CRITERIA[category] ?? GENERAL_CRITERIA;
+}
+
+/**
+ * Star ratings keyed by criterion id to on-chain dimension slots. Criteria left
+ * out, or rated 0, are unrated.
+ */
+export function criteriaStarsToRatings(category: string, stars: Record<string, number | undefined>): number[] {
+  const criteria = getCriteria(category);
+  const unknown = Object.keys(stars).filter(id => stars[id] && !criteria.some(criterion => criterion.id === id));
+  if (unknown.length > 0) {
+    throw new Error(`${category} dApps are not rated on: ${unknown.join(', ')}`);
+  }
+
+  return Array.from({ length: DIMENSION_SLOTS }, (_, slot) => {
+    const value = criteria[slot] ? stars[criteria[slot].id] : undefined;
+    return value === undefined || value === 0 ? UNRATED : starsToRating(value);
+  });
+}
+
+// On-chain dimension slots back to star ratings keyed by criterion id, e.g. to edit a review
+export function criteriaRatingsToStars(category: string, dimensionRatings: number[]): Record<string, number> {
+  const stars: Record<string, number> = {};
+  getCriteria(category).forEach((criterion, slot) => {
+    if (dimensionRatings[slot] !== UNRATED) {
+      stars[criterion.id] = ratingToStars(dimensionRatings[slot]);
+    }
+  });
+  return stars;
+}
+
+// Throws unless the ratings are valid and only use the category's slots
+export function validateCriteriaRatings(category: string, dimensionRatings: number[]): void {
+  validateDimensionRatings(dimensionRatings);
+  const criteria = getCriteria(category);
+  if (dimensionRatings.some((rating, slot) => slot >= criteria.length && rating !== UNRATED)) {
+    throw new Error(`${category} dApps are rated on ${criteria.length} criteria`);
+  }
+}
+
+export interface CriterionAverage {
+  criterion: ReviewCriterion;
+  average: number; // Stars
+  count: number;
+}
+
+// Per-criterion averages from a dApp's dimension aggregates; criteria nobody rated are left out
+export function criteriaAverages(
+  category: string,
+  dimensionSums: number[],
+  dimensionCounts: number[]
+): CriterionAverage[] {
+  return getCriteria(category)
+    .map((criterion, slot) => ({
+      criterion,
+      average: meanStars(dimensionSums[slot], dimensionCounts[slot]),
+      count: dimensionCounts[slot]
+    }))
+    .filter(entry => entry.count > 0);
+}
+
+// A review's rated criteria, in stars
+export function reviewCriteriaScores(
+  category: string,
+  dimensionRatings: number[]
+): Array<{ criterion: ReviewCriterion; stars: number }> {
+  return getCriteria(category)
+    .map((criterion, slot) => ({ criterion, rating: dimensionRatings[slot] }))
+    .filter(entry => entry.rating !== UNRATED)
+    .map(entry => ({ criterion: entry.criterion, stars: ratingToStars(entry.rating) }));
+}
@@ -0,0 +1,542 @@
+/**
+ * Review Submission Service
+ *
+ * The full pipeline for publishing a review, usable from the submission page
+ * or from scripts such as importers. Each stage reports progress as it starts
+ * and completes, and a failure is thrown as a ReviewSubmissionError naming
+ * the stage. The nullifier is derived and checked before the membership
+ * proof is generated, so a duplicate review is rejected before the slow step.
+ *
+ * Authors can later update or revoke a review. They re-derive the review's
+ * nullifier from their identity and prove they own it, so the change is
+ * accepted without revealing who they are.
+ */
+
+import { contractManager, ContractAdapter, ReviewRecord, REVISABLE_REVIEW_STATUSES } from './contract-adapter';
+import { generateReviewerProof, ZKProof } from './midnight-stub';
+import { identityManager, ReviewerIdentity } from './identity';
+import { reviewerRegistry } from './reviewer-registry';
+import { fieldToHex, parseFieldElement } from './poseidon';
+import { transactionManager } from './transactions';
+import { reviewContentStore, computeReviewHash, ReviewContent } from './review-content';
+import {
+  interactionProver,
+  InteractionOpening,
+  InteractionStatement,
+  InteractionWitness
+} from './interaction-proof';
+import { MAX_STARS, STAR_STEP, isValidStars, starsToRating } from './rating-scale';
+import { criteriaStarsToRatings } from './review-criteria';
+import {
+  NullifierContext,
+  computeExternalNullifier,
+  computeOwnershipSignal,
+  deriveNullifier,
+  describeScope,
+  findReviewNullifierContext,
+  hashNullifier
+} from './nullifier';
+
+export type SubmissionStage =
+  | 'validate'
+  | 'hash'
+  | 'deriveNullifier'
+  | 'checkNullifier'
+  | 'proveInteraction'
+  | 'proveMembership'
+  | 'submit'
+  | 'storeContent';
+
+// In the order they run
+export const SUBMISSION_STAGES: SubmissionStage[] = [
+  'validate',
+  'hash',
+  'deriveNullifier',
+  'checkNullifier',
+  'proveInteraction',
+  'proveMembership',
+  'submit',
+  'storeContent'
+];
+
+// Updates and revocations skip the checks that only apply to new reviews
+export const UPDATE_STAGES: SubmissionStage[] = [
+  'validate',
+  'hash',
+  'deriveNullifier',
+  'proveMembership',
+  'submit',
+  'storeContent'
+];
+
+export const REVOKE_STAGES: SubmissionStage[] = ['validate', 'deriveNullifier', 'proveMembership', 'submit'];
+
+export const SUBMISSION_STAGE_LABELS: Record<SubmissionStage, string> = {
+  validate: 'Checking the review',
+  hash: 'Hashing the content',
+  deriveNullifier: 'Deriving your nullifier',
+  checkNullifier: 'Checking for an earlier review',
+  proveInteraction: 'Proving your dApp interaction',
+  proveMembership: 'Generating the membership proof',
+  submit: 'Submitting to the contract',
+  storeContent: 'Storing the review content'
+};
+
+export const MIN_REVIEW_LENGTH = 50;
+
+export type SubmissionErrorCode =
+  | 'INVALID_REVIEW'
+  | 'DAPP_UNAVAILABLE'
+  | 'IDENTITY_LOCKED'
+  | 'ALREADY_REVIEWED'
+  | 'NOT_AUTHOR'
+  | 'INTERACTION_UNPROVEN'
+  | 'PROOF_FAILED'
+  | 'TRANSACTION_FAILED'
+  | 'STORAGE_FAILED'
+  | 'UNEXPECTED';
+
+export class ReviewSubmissionError extends Error {
+  readonly stage: SubmissionStage;
+  readonly code: SubmissionErrorCode;
+  readonly cause?: unknown; // Underlying error, if any
+
+  constructor(stage: SubmissionStage, code: SubmissionErrorCode, message: string, cause?: unknown) {
+    super(message);
+    this.name = 'ReviewSubmissionError';
+    this.stage = stage;
+    this.code = code;
+    this.cause = cause;
+  }
+}
+
+export interface SubmissionProgress {
+  stage: SubmissionStage;
+  status: 'started' | 'completed';
+  step: number; // 1-based position in the operation's stages (e.g. SUBMISSION_STAGES)
+  totalSteps: number;
+}
+
+export type SubmissionProgressHandler = (progress: SubmissionProgress) => void;
+
+export interface ReviewSubmissionInput {
+  dappAddress: string;
+  title: string;
+  review: string;
+  pros: string;
+  cons: string;
+  rating: number; // Stars, in half-star steps (see ./rating-scale)
+  criteria?: Record<string, number>; // Stars by criterion id for the dApp's category; missing or 0 means unrated
+  identity?: ReviewerIdentity; // Defaults to the unlocked identity in this browser
+  // Optional proof that the reviewer used the dApp; see ./interaction-proof
+  interaction?: {
+    statement: Omit<InteractionStatement, 'dappAddress'>;
+    witness: InteractionWitness;
+  };
+}
+
+// A new version of an existing review; the dApp and interaction proof carry over
+export type ReviewUpdateInput = Omit<ReviewSubmissionInput, 'dappAddress' | 'interaction'> & {
+  reviewId: string;
+};
+
+export interface ReviewUpdateResult {
+  txHash: string;
+  reviewHash: string;
+  version: number;
+}
+
+export interface ReviewSubmissionResult {
+  reviewId: string;
+  txHash: string;
+  reviewHash: string;
+  nullifier: string;
+  interactionOpening?: InteractionOpening; // Only the commitment is published; the reviewer keeps this
+}
+
+class ReviewSubmissionService {
+  private static instance: ReviewSubmissionService;
+
+  static getInstance(): ReviewSubmissionService {
+    if (!ReviewSubmissionService.instance) {
+      ReviewSubmissionService.instance = new ReviewSubmissionService();
+    }
+    return ReviewSubmissionService.instance;
+  }
+
+  async submit(
+    input: ReviewSubmissionInput,
+    onProgress: SubmissionProgressHandler = () => {}
+  ): Promise<ReviewSubmissionResult> {
+    const run = this.stageRunner(SUBMISSION_STAGES, onProgress);
+    const adapter = await contractManager.getReadyAdapter();
+
+    const { identity, dappName, dimensionRatings } = await run('validate', () => this.validate(adapter, input));
+
+    const content = this.buildContent(input);
+    const reviewHash = await run('hash', () => computeReviewHash(content));
+
+    const { context, nullifier } = await run('deriveNullifier', async () => {
+      const context = await adapter.getNullifierContext(input.dappAddress);
+      return { context, nullifier: fieldToHex(deriveNullifier(identity.secret, context)) };
+    });
+
+    await run('checkNullifier', async () => {
+      if (await adapter.isNullifierUsed(input.dappAddress, nullifier)) {
+        throw new ReviewSubmissionError(
+          'checkNullifier',
+          'ALREADY_REVIEWED',
+          `You have already reviewed this DApp (reviews are limited to ${describeScope(context.scope)})`
+        );
+      }
+    });
+
+    // Bound to the nullifier, so the interaction proof only fits this review
+    const interaction = await run('proveInteraction', async () => {
+      if (!input.interaction) return null;
+      try {
+        return await interactionProver.prove(
+          { ...input.interaction.statement, dappAddress: input.dappAddress },
+          input.interaction.witness,
+          nullifier
+        );
+      } catch (error) {
+        throw new ReviewSubmissionError('proveInteraction', 'INTERACTION_UNPROVEN', errorMessage(error), error);
+      }
+    });
+    const interactionProof = interaction?.commitment ?? '';
+
+    const proof = await run('proveMembership', () => this.proveMembership(identity, context, reviewHash));
+
+    const result = await run('submit', async () => {
+      try {
+        // Tracked locally under "My Transactions"
+        return await transactionManager.track(
+          'submitReview',
+          {
+            description: `Review of ${dappName}`,
+            reference: { dappAddress: input.dappAddress },
+            // The nullifier admits one review, so a review carrying it is this one
+            findLanded: async () => {
+              const nullifierHash = fieldToHex(hashNullifier(parseFieldElement(nullifier)));
+              const landed = (await adapter.listReviews(input.dappAddress))
+                .find(review => review.nullifierHash === nullifierHash);
+              return landed?.txHash ? { txHash: landed.txHash, reviewId: landed.id } : null;
+            }
+          },
+          () => adapter.submitReview(
+            input.dappAddress,
+            reviewHash,
+            content.rating,
+            dimensionRatings,
+            interactionProof,
+            nullifier,
+            proof,
+            interaction?.opening
+          )
+        );
+      } catch (error) {
+        throw new ReviewSubmissionError('submit', 'TRANSACTION_FAILED', errorMessage(error), error);
+      }
+    });
+
+    // Only the hash is on-chain; keep the content so the review can be displayed
+    await run('storeContent', async () => {
+      try {
+        await reviewContentStore.put(reviewHash, content);
+      } catch (error) {
+        throw new ReviewSubmissionError(
+          'storeContent',
+          'STORAGE_FAILED',
+          `The review was published but its content could not be stored: ${errorMessage(error)}`,
+          error
+        );
+      }
+    });
+
+    console.log('[ReviewSubmissionService] Review submitted:', {
+      reviewId: result.reviewId,
+      txHash: result.txHash.slice(0, 12) + '...'
+    });
+
+    return { ...result, reviewHash, nullifier, interactionOpening: interaction?.opening };
+  }
+
+  // Publishes a new version of the identity's own review
+  async update(
+    input: ReviewUpdateInput,
+    onProgress: SubmissionProgressHandler = () => {}
+  ): Promise<ReviewUpdateResult> {
+    const run = this.stageRunner(UPDATE_STAGES, onProgress);
+    const adapter = await contractManager.getReadyAdapter();
+
+    const { identity, review, dappName, dappVersion, dimensionRatings } = await run('validate', async () => {
+      const target = await this.findRevisableReview(adapter, input.reviewId, input.identity, 'updated');
+      this.checkContent(input);
+      return { ...target, dimensionRatings: this.criteriaRatings(target.category, input) };
+    });
+
+    const content = this.buildContent(input);
+    const reviewHash = await run('hash', () => computeReviewHash(content));
+
+    const context = await run('deriveNullifier', async () => this.authorContext(identity, review, dappVersion));
+
+    const proof = await run('proveMembership', () => this.proveMembership(
+      identity,
+      context,
+      computeOwnershipSignal('update', review.id, review.version, reviewHash)
+    ));
+
+    const result = await run('submit', async () => {
+      try {
+        return await transactionManager.track(
+          'updateReview',
+          {
+            description: `Update of your ${dappName} review`,
+            reference: { dappAddress: review.dappAddress, reviewId: review.id },
+            findLanded: async () => {
+              const current = (await adapter.listReviews(review.dappAddress)).find(record => record.id === review.id);
+              return current?.txHash && current.version === review.version + 1 && current.reviewHash === reviewHash
+                ? { txHash: current.txHash, version: current.version }
+                : null;
+            }
+          },
+          () => adapter.updateReview(review.id, reviewHash, content.rating, dimensionRatings, proof)
+        );
+      } catch (error) {
+        throw new ReviewSubmissionError('submit', 'TRANSACTION_FAILED', errorMessage(error), error);
+      }
+    });
+
+    await run('storeContent', async () => {
+      try {
+        await reviewContentStore.put(reviewHash, content);
+      } catch (error) {
+        throw new ReviewSubmissionError(
+          'storeContent',
+          'STORAGE_FAILED',
+          `The update was published but its content could not be stored: ${errorMessage(error)}`,
+          error
+        );
+      }
+    });
+
+    console.log('[ReviewSubmissionService] Review updated:', {
+      reviewId: review.id,
+      version: result.version
+    });
+
+    return { ...result, reviewHash };
+  }
+
+  // Withdraws the identity's own review from the dApp's stats; its history stays public
+  async revoke(
+    reviewId: string,
+    identity?: ReviewerIdentity,
+    onProgress: SubmissionProgressHandler = () => {}
+  ): Promise<{ txHash: string }> {
+    const run = this.stageRunner(REVOKE_STAGES, onProgress);
+    const adapter = await contractManager.getReadyAdapter();
+
+    const target = await run('validate', () => this.findRevisableReview(adapter, reviewId, identity, 'revoked'));
+    const { review } = target;
+
+    const context = await run('deriveNullifier', async () =>
+      this.authorContext(target.identity, review, target.dappVersion)
+    );
+
+    const proof = await run('proveMembership', () => this.proveMembership(
+      target.identity,
+      context,
+      computeOwnershipSignal('revoke', review.id, review.version)
+    ));
+
+    const result = await run('submit', async () => {
+      try {
+        return await transactionManager.track(
+          'revokeReview',
+          {
+            description: `Revocation of your ${target.dappName} review`,
+            reference: { dappAddress: review.dappAddress, reviewId },
+            findLanded: async () => {
+              const events = await adapter.getEvents(0, { types: ['ReviewRevoked'], dappAddress: review.dappAddress });
+              const revoked = events.find(event => event.type === 'ReviewRevoked' && event.data.reviewId === reviewId);
+              return revoked ? { txHash: revoked.txHash } : null;
+            }
+          },
+          () => adapter.revokeReview(reviewId, proof)
+        );
+      } catch (error) {
+        throw new ReviewSubmissionError('submit', 'TRANSACTION_FAILED', errorMessage(error), error);
+      }
+    });
+
+    console.log('[ReviewSubmissionService] Review revoked:', { reviewId });
+
+    return result;
+  }
+
+  // Whether the identity wrote the review, checked locally without a proof
+  async isAuthor(review: ReviewRecord, identity: ReviewerIdentity): Promise<boolean> {
+    const adapter = await contractManager.getReadyAdapter();
+    const dappInfo = await adapter.getDAppInfo(review.dappAddress);
+    return findReviewNullifierContext(identity.secret, review, dappInfo?.version ?? 1) !== null;
+  }
+
+  // Private helpers
+
+  // Runs one stage of an operation, reporting progress and tagging failures with the stage
+  private stageRunner(stages: SubmissionStage[], onProgress: SubmissionProgressHandler) {
+    return async <T>(stage: SubmissionStage, task: () => Promise<T>): Promise<T> => {
+      const progress = { stage, step: stages.indexOf(stage) + 1, totalSteps: stages.length };
+      onProgress({ ...progress, status: 'started' });
+      try {
+        const result = await task();
+        onProgress({ ...progress, status: 'completed' });
+        return result;
+      } catch (error) {
+        if (error instanceof ReviewSubmissionError) throw error;
+        throw new ReviewSubmissionError(stage, 'UNEXPECTED', errorMessage(error), error);
+      }
+    };
+  }
+
+  private buildContent(input: ReviewUpdateInput | ReviewSubmissionInput): ReviewContent {
+    return {
+      title: input.title,
+      review: input.review,
+      pros: input.pros,
+      cons: input.cons,
+      rating: starsToRating(input.rating), // Same scale as the on-chain record
+      timestamp: Date.now()
+    };
+  }
+
+  private checkContent(input: ReviewUpdateInput | ReviewSubmissionInput): void {
+    const invalid = (message: string) => new ReviewSubmissionError('validate', 'INVALID_REVIEW', message);
+
+    if (!input.title.trim()) throw invalid('A title is required');
+    if (input.review.length < MIN_REVIEW_LENGTH) {
+      throw invalid(`Reviews must be at least ${MIN_REVIEW_LENGTH} characters`);
+    }
+    if (!isValidStars(input.rating)) {
+      throw invalid(`Rating must be between ${STAR_STEP} and ${MAX_STARS} stars, in half-star steps`);
+    }
+  }
+
+  // Criteria depend on the DApp's category (see ./review-criteria)
+  private criteriaRatings(category: string, input: ReviewUpdateInput | ReviewSubmissionInput): number[] {
+    try {
+      return criteriaStarsToRatings(category, input.criteria ?? {});
+    } catch (error) {
+      throw new ReviewSubmissionError('validate', 'INVALID_REVIEW', errorMessage(error), error);
+    }
+  }
+
+  private async findRevisableReview(
+    adapter: ContractAdapter,
+    reviewId: string,
+    identity: ReviewerIdentity | undefined,
+    change: 'updated' | 'revoked'
+  ): Promise<{
+    identity: ReviewerIdentity;
+    review: ReviewRecord;
+    dappName: string;
+    dappVersion: number;
+    category: string;
+  }> {
+    const unavailable = (message: string) => new ReviewSubmissionError('validate', 'INVALID_REVIEW', message);
+
+    const review = (await adapter.listReviews()).find(record => record.id === reviewId);
+    if (!review) throw unavailable('Review not found');
+    if (!REVISABLE_REVIEW_STATUSES.includes(review.status)) {
+      throw unavailable(`A ${review.status.toLowerCase()} review cannot be ${change}`);
+    }
+
+    const dappInfo = await adapter.getDAppInfo(review.dappAddress);
+    if (!dappInfo) {
+      throw new ReviewSubmissionError('validate', 'DAPP_UNAVAILABLE', 'This DApp is not registered');
+    }
+
+    const signedIn = identity ?? identityManager.getIdentity();
+    if (!signedIn) {
+      throw new ReviewSubmissionError('validate', 'IDENTITY_LOCKED', 'Unlock your reviewer identity first');
+    }
+
+    return {
+      identity: signedIn,
+      review,
+      dappName: dappInfo.name,
+      dappVersion: dappInfo.version,
+      category: dappInfo.category
+    };
+  }
+
+  // The context the review's nullifier was derived in, which only its author can find
+  private authorContext(identity: ReviewerIdentity, review: ReviewRecord, dappVersion: number): NullifierContext {
+    const context = findReviewNullifierContext(identity.secret, review, dappVersion);
+    if (!context) {
+      throw new ReviewSubmissionError(
+        'deriveNullifier',
+        'NOT_AUTHOR',
+        'This review was not written with your reviewer identity'
+      );
+    }
+    return context;
+  }
+
+  private async validate(
+    adapter: ContractAdapter,
+    input: ReviewSubmissionInput
+  ): Promise<{ identity: ReviewerIdentity; dappName: string; dimensionRatings: number[] }> {
+    this.checkContent(input);
+
+    // DApps are registered by an admin; reviews are only accepted for active ones
+    const dappInfo = await adapter.getDAppInfo(input.dappAddress);
+    if (!dappInfo) {
+      throw new ReviewSubmissionError('validate', 'DAPP_UNAVAILABLE', 'This DApp is not registered');
+    }
+    if (dappInfo.status !== 'ACTIVE') {
+      throw new ReviewSubmissionError(
+        'validate',
+        'DAPP_UNAVAILABLE',
+        `This DApp is ${dappInfo.status.toLowerCase()} and is not accepting reviews`
+      );
+    }
+
+    const dimensionRatings = this.criteriaRatings(dappInfo.category, input);
+
+    const identity = input.identity ?? identityManager.getIdentity();
+    if (!identity) {
+      throw new ReviewSubmissionError('validate', 'IDENTITY_LOCKED', 'Unlock your reviewer identity before submitting');
+    }
+
+    return { identity, dappName: dappInfo.name, dimensionRatings };
+  }
+
+  // Signal is the review hash for a new review, or the ownership signal for a change
+  private async proveMembership(
+    identity: ReviewerIdentity,
+    context: NullifierContext,
+    signal: string
+  ): Promise<ZKProof> {
+    try {
+      const merkleProof = await reviewerRegistry.getMembershipProof(fieldToHex(identity.commitment));
+      return await generateReviewerProof({
+        identitySecret: identity.secret,
+        merkleProof,
+        externalNullifier: computeExternalNullifier(context),
+        signal
+      });
+    } catch (error) {
+      throw new ReviewSubmissionError('proveMembership', 'PROOF_FAILED', errorMessage(error), error);
+    }
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Export singleton instance
+export const reviewSubmissionService = ReviewSubmissionService.getInstance();
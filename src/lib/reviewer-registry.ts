@@ -0,0 +1,105 @@
+/**
+ * Reviewer Enrollment Registry
+ *
+ * Reviewers submit their identity commitment to the contract's enrollment
+ * queue; an admin approves or rejects each request. Approving appends the
+ * commitment to the reviewer Merkle tree and publishes the new root, so only
+ * enrolled identities can prove membership. Revoking an enrollment zeroes the
+ * leaf and publishes the resulting root.
+ *
+ * The queue and the tree's leaves are ledger state (see ContractAdapter), so a
+ * reviewer can enroll in one browser, be approved from another, and build
+ * their Merkle path wherever they write reviews. Each browser keeps its copy of
+ * the tree in IndexedDB, one per network, and only rehashes the leaves that
+ * changed since the last proof.
+ */
+
+import { IncrementalMerkleTree, MerkleProof, REVIEWER_TREE_DEPTH } from './merkle-tree';
+import { contractManager, normalizeCommitment, ContractNetwork, EnrollmentRecord, EnrollmentStatus } from './contract-adapter';
+import { Authorizer } from './admin-auth';
+
+export type { EnrollmentRecord, EnrollmentStatus } from './contract-adapter';
+
+class ReviewerRegistry {
+  private static instance: ReviewerRegistry;
+  private trees: Map<ContractNetwork, IncrementalMerkleTree> = new Map();
+
+  static getInstance(): ReviewerRegistry {
+    if (!ReviewerRegistry.instance) {
+      ReviewerRegistry.instance = new ReviewerRegistry();
+    }
+    return ReviewerRegistry.instance;
+  }
+
+  async requestEnrollment(commitment: string): Promise<EnrollmentRecord> {
+    const adapter = await contractManager.getReadyAdapter();
+    const record = await adapter.requestEnrollment(normalizeCommitment(commitment));
+
+    console.log('[ReviewerRegistry] Enrollment requested:', { commitment: record.commitment.slice(0, 18) + '...' });
+    return record;
+  }
+
+  async getEnrollment(commitment: string): Promise<EnrollmentRecord | null> {
+    const adapter = await contractManager.getReadyAdapter();
+    return adapter.getEnrollment(normalizeCommitment(commitment));
+  }
+
+  async listEnrollments(status?: EnrollmentStatus): Promise<EnrollmentRecord[]> {
+    const adapter = await contractManager.getReadyAdapter();
+    return adapter.listEnrollments(status);
+  }
+
+  // Admin: add the commitment to the reviewer tree and publish the new root
+  async approve(commitment: string, authorize: Authorizer): Promise<EnrollmentRecord> {
+    const key = normalizeCommitment(commitment);
+    const adapter = await contractManager.getReadyAdapter();
+    const record = await adapter.approveEnrollment(key, await authorize('approveEnrollment', { commitment: key }));
+
+    console.log('[ReviewerRegistry] Enrollment approved:', { leafIndex: record.leafIndex, txHash: record.rootTxHash });
+    return record;
+  }
+
+  async reject(commitment: string, authorize: Authorizer): Promise<EnrollmentRecord> {
+    const key = normalizeCommitment(commitment);
+    const adapter = await contractManager.getReadyAdapter();
+    return adapter.rejectEnrollment(key, await authorize('rejectEnrollment', { commitment: key }));
+  }
+
+  // Admin: remove an approved reviewer by zeroing their leaf
+  async revoke(commitment: string, authorize: Authorizer): Promise<EnrollmentRecord> {
+    const key = normalizeCommitment(commitment);
+    const adapter = await contractManager.getReadyAdapter();
+    return adapter.revokeEnrollment(key, await authorize('revokeEnrollment', { commitment: key }));
+  }
+
+  // Merkle path for an approved commitment, rebuilt from the ledger's leaves.
+  // The contract also accepts recent roots, so an approval landing in between doesn't invalidate it;
+  // a revocation does, and the path has to be rebuilt
+  async getMembershipProof(commitment: string): Promise<MerkleProof> {
+    const record = await this.getEnrollment(commitment);
+    if (!record || record.status !== 'APPROVED' || record.leafIndex === undefined) {
+      throw new Error('Reviewer identity is not enrolled');
+    }
+
+    const adapter = await contractManager.getReadyAdapter();
+    const leaves = await adapter.getReviewerLeaves();
+    const tree = this.getTree(contractManager.getNetwork());
+    await tree.syncLeaves(leaves.map(leaf => BigInt(leaf)));
+    if (record.leafIndex >= tree.size || tree.getLeaf(record.leafIndex) !== BigInt(record.commitment)) {
+      throw new Error('Reviewer tree is out of sync with the registry');
+    }
+    return tree.getProof(record.leafIndex);
+  }
+
+  private getTree(network: ContractNetwork): IncrementalMerkleTree {
+    let tree = this.trees.get(network);
+    if (!tree) {
+      tree = new IncrementalMerkleTree(REVIEWER_TREE_DEPTH, `ReviewerTreeDB-${network}`);
+      this.trees.set(network, tree);
+    }
+    return tree;
+  }
+}
+
+// Export singleton instance
+export const reviewerRegistry = ReviewerRegistry.getInstance();
@@ -0,0 +1,421 @@
+/**
+ * RPC Contract Adapter
+ *
+ * ContractAdapter backed by a Midnight-style node and indexer over JSON-RPC
+ * 2.0. Transactions go to the node and ledger reads and events come from the
+ * indexer. Every adapter method maps to the RPC method `dappReviewer_<name>`
+ * with the same positional parameters. `npm run devnet` starts a local
+ * stand-in node (scripts/devnet-server.ts) that serves this API.
+ */
+
+import { ZKProof as AppZKProof } from './midnight-stub';
+import { AuthRole, AuthorizedOperation, AuthParams } from './admin-auth';
+import { NullifierScope, NullifierContext } from './nullifier';
+import { EpochSchedule } from './epoch';
+import { InteractionOpening } from './interaction-proof';
+import {
+  ContractAdapter,
+  ContractEvent,
+  ContractEventFilter,
+  ContractEventHandler,
+  DAppInfo,
+  DAppMetadata,
+  EnrollmentRecord,
+  EnrollmentStatus,
+  ReviewRecord,
+  TransactionReceipt,
+  eventMatchesFilter
+} from './contract-adapter';
+
+// How often the indexer is asked for new events while anyone is subscribed
+const EVENT_POLL_INTERVAL_MS = 2000;
+
+interface JsonRpcResponse<T> {
+  jsonrpc: '2.0';
+  id: number;
+  result?: T;
+  error?: { code: number; message: string };
+}
+
+// The node couldn't be reached or didn't answer. Unless it is known not to
+// have been delivered, the request may still have run on the node.
+export class RpcTransportError extends Error {
+  constructor(message: string, readonly delivery: 'not-delivered' | 'unknown') {
+    super(message);
+    this.name = 'RpcTransportError';
+  }
+}
+
+export class RpcContractAdapter implements ContractAdapter {
+  private rpcUrl: string;
+  private nextRequestId = 1;
+  private subscribers: Set<{ filter: ContractEventFilter; handler: ContractEventHandler }> = new Set();
+  private lastSeenSeq = 0;
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private polling: Promise<void> = Promise.resolve();
+
+  constructor(rpcUrl: string) {
+    this.rpcUrl = rpcUrl.replace(/\/$/, '');
+  }
+
+  async initialize(): Promise<void> {
+    try {
+      await this.call<string>('system_health');
+    } catch (error) {
+      throw new Error(`Cannot reach Midnight node at ${this.rpcUrl}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    // Subscribers only hear about events from here on
+    const events = await this.getEvents();
+    this.lastSeenSeq = events.length > 0 ? events[events.length - 1].seq : 0;
+
+    console.log('[RpcContractAdapter] Connected to', this.rpcUrl);
+  }
+
+  // DApp management
+
+  async registerDApp(
+    address: string,
+    name: string,
+    category: string,
+    authorization: string,
+    metadata?: Partial<DAppMetadata>,
+    ownerKey?: string
+  ): Promise<{ txHash: string }> {
+    return this.submit('registerDApp', address, name, category, authorization, metadata, ownerKey);
+  }
+
+  async getDAppInfo(address: string): Promise<DAppInfo | null> {
+    return this.query('getDAppInfo', address);
+  }
+
+  async publishDAppVersion(address: string, authorization: string): Promise<{ txHash: string; version: number }> {
+    return this.submit('publishDAppVersion', address, authorization);
+  }
+
+  async suspendDApp(address: string, authorization: string): Promise<{ txHash: string }> {
+    return this.submit('suspendDApp', address, authorization);
+  }
+
+  async reactivateDApp(address: string, authorization: string): Promise<{ txHash: string }> {
+    return this.submit('reactivateDApp', address, authorization);
+  }
+
+  async deactivateDApp(address: string, authorization: string): Promise<{ txHash: string }> {
+    return this.submit('deactivateDApp', address, authorization);
+  }
+
+  // Review submission
+
+  async submitReview(
+    dappAddress: string,
+    reviewHash: string,
+    rating: number,
+    dimensionRatings: number[],
+    interactionProof: string,
+    nullifier: string,
+    proof: AppZKProof | string,
+    interactionOpening?: InteractionOpening
+  ): Promise<{ txHash: string; reviewId: string }> {
+    return this.submit(
+      'submitReview', dappAddress, reviewHash, rating, dimensionRatings, interactionProof, nullifier, proof, interactionOpening
+    );
+  }
+
+  async updateReview(
+    reviewId: string,
+    reviewHash: string,
+    rating: number,
+    dimensionRatings: number[],
+    proof: AppZKProof | string
+  ): Promise<{ txHash: string; version: number }> {
+    return this.submit('updateReview', reviewId, reviewHash, rating, dimensionRatings, proof);
+  }
+
+  async revokeReview(reviewId: string, proof: AppZKProof | string): Promise<{ txHash: string }> {
+    return this.submit('revokeReview', reviewId, proof);
+  }
+
+  async voteHelpful(
+    reviewId: string,
+    nullifier: string,
+    proof: AppZKProof | string
+  ): Promise<{ txHash: string; helpfulVotes: number }> {
+    return this.submit('voteHelpful', reviewId, nullifier, proof);
+  }
+
+  async hasVotedHelpful(reviewId: string, nullifier: string): Promise<boolean> {
+    return this.query('hasVotedHelpful', reviewId, nullifier);
+  }
+
+  async verifyProjectOwner(dappAddress: string, authorization: string): Promise<{ txHash: string }> {
+    return this.submit('verifyProjectOwner', dappAddress, authorization);
+  }
+
+  async respondToReview(reviewId: string, text: string, authorization: string): Promise<{ txHash: string }> {
+    return this.submit('respondToReview', reviewId, text, authorization);
+  }
+
+  // Admin functions
+
+  async initializeAdmin(publicKey: string, authorization: string): Promise<{ txHash: string }> {
+    return this.submit('initializeAdmin', publicKey, authorization);
+  }
+
+  async getAdminPublicKey(): Promise<string | null> {
+    return this.query('getAdminPublicKey');
+  }
+
+  async getReviewerRoot(): Promise<string> {
+    return this.query('getReviewerRoot');
+  }
+
+  async isKnownReviewerRoot(root: string): Promise<boolean> {
+    return this.query('isKnownReviewerRoot', root);
+  }
+
+  async advanceEpoch(authorization: string): Promise<{ txHash: string; epoch: number }> {
+    return this.submit('advanceEpoch', authorization);
+  }
+
+  async getEpochSchedule(): Promise<EpochSchedule> {
+    return this.query('getEpochSchedule');
+  }
+
+  async addModerator(moderatorKey: string, authorization: string): Promise<{ txHash: string }> {
+    return this.submit('addModerator', moderatorKey, authorization);
+  }
+
+  async removeModerator(moderatorKey: string, authorization: string): Promise<{ txHash: string }> {
+    return this.submit('removeModerator', moderatorKey, authorization);
+  }
+
+  async listModerators(): Promise<string[]> {
+    return this.query('listModerators');
+  }
+
+  async getRole(publicKey: string): Promise<AuthRole | null> {
+    return this.query('getRole', publicKey);
+  }
+
+  // Reviewer enrollment
+
+  async requestEnrollment(commitment: string): Promise<EnrollmentRecord> {
+    return this.submit('requestEnrollment', commitment);
+  }
+
+  async getEnrollment(commitment: string): Promise<EnrollmentRecord | null> {
+    return this.query('getEnrollment', commitment);
+  }
+
+  async listEnrollments(status?: EnrollmentStatus): Promise<EnrollmentRecord[]> {
+    return this.query('listEnrollments', status);
+  }
+
+  async approveEnrollment(commitment: string, authorization: string): Promise<EnrollmentRecord> {
+    return this.submit('approveEnrollment', commitment, authorization);
+  }
+
+  async rejectEnrollment(commitment: string, authorization: string): Promise<EnrollmentRecord> {
+    return this.submit('rejectEnrollment', commitment, authorization);
+  }
+
+  async revokeEnrollment(commitment: string, authorization: string): Promise<EnrollmentRecord> {
+    return this.submit('revokeEnrollment', commitment, authorization);
+  }
+
+  async getReviewerLeaves(): Promise<string[]> {
+    return this.query('getReviewerLeaves');
+  }
+
+  async verifyAuthorization(
+    authorization: string,
+    operation: AuthorizedOperation,
+    params: AuthParams,
+    roles: AuthRole[]
+  ): Promise<AuthRole> {
+    // Consumes the nonce on the node, so it is a write
+    return this.submit('verifyAuthorization', authorization, operation, params, roles);
+  }
+
+  // Moderation
+
+  async approveReview(reviewId: string, authorization: string): Promise<{ txHash: string }> {
+    return this.submit('approveReview', reviewId, authorization);
+  }
+
+  async rejectReview(reviewId: string, authorization: string): Promise<{ txHash: string }> {
+    return this.submit('rejectReview', reviewId, authorization);
+  }
+
+  async flagReview(reviewId: string, authorization: string): Promise<{ txHash: string }> {
+    return this.submit('flagReview', reviewId, authorization);
+  }
+
+  async unflagReview(reviewId: string, authorization: string): Promise<{ txHash: string }> {
+    return this.submit('unflagReview', reviewId, authorization);
+  }
+
+  async deleteReview(reviewId: string, authorization: string): Promise<{ txHash: string }> {
+    return this.submit('deleteReview', reviewId, authorization);
+  }
+
+  async hideResponse(reviewId: string, authorization: string): Promise<{ txHash: string }> {
+    return this.submit('hideResponse', reviewId, authorization);
+  }
+
+  async restoreResponse(reviewId: string, authorization: string): Promise<{ txHash: string }> {
+    return this.submit('restoreResponse', reviewId, authorization);
+  }
+
+  // View functions
+
+  async listDApps(): Promise<DAppInfo[]> {
+    return this.query('listDApps');
+  }
+
+  async listReviews(dappAddress?: string): Promise<ReviewRecord[]> {
+    return this.query('listReviews', dappAddress);
+  }
+
+  async getTotalStats(): Promise<{ totalDApps: number; totalReviews: number; currentEpoch: number }> {
+    return this.query('getTotalStats');
+  }
+
+  async isNullifierUsed(dappAddress: string, nullifier: string): Promise<boolean> {
+    return this.query('isNullifierUsed', dappAddress, nullifier);
+  }
+
+  async getNullifierScope(): Promise<NullifierScope> {
+    return this.query('getNullifierScope');
+  }
+
+  async getNullifierContext(dappAddress: string): Promise<NullifierContext> {
+    return this.query('getNullifierContext', dappAddress);
+  }
+
+  // Events
+
+  subscribe(filter: ContractEventFilter, handler: ContractEventHandler): () => void {
+    const subscriber = { filter, handler };
+    this.subscribers.add(subscriber);
+
+    if (filter.fromSeq !== undefined) {
+      this.getEvents(filter.fromSeq, filter)
+        .then(events => events
+          .filter(event => event.seq <= this.lastSeenSeq) // Newer ones arrive through polling
+          .forEach(event => this.deliver(subscriber, event)))
+        .catch(error => console.error('[RpcContractAdapter] Event replay failed:', error));
+    }
+
+    if (!this.pollTimer) {
+      this.pollTimer = setInterval(() => this.pollEvents(), EVENT_POLL_INTERVAL_MS);
+    }
+
+    return () => {
+      this.subscribers.delete(subscriber);
+      if (this.subscribers.size === 0 && this.pollTimer) {
+        clearInterval(this.pollTimer);
+        this.pollTimer = null;
+      }
+    };
+  }
+
+  async getEvents(fromSeq = 0, filter: ContractEventFilter = {}): Promise<ContractEvent[]> {
+    return this.query('getEvents', fromSeq, filter);
+  }
+
+  async getTransactionReceipt(txHash: string): Promise<TransactionReceipt | null> {
+    return this.query('getTransactionReceipt', txHash);
+  }
+
+  // Utility
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      await this.call('system_health');
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async getCurrentEpoch(): Promise<number> {
+    return this.query('getCurrentEpoch');
+  }
+
+  // Private helper methods
+
+  private async query<T>(method: string, ...params: unknown[]): Promise<T> {
+    return this.call<T>(`dappReviewer_${method}`, params);
+  }
+
+  // Own transactions show up for subscribers right away instead of at the next poll
+  private async submit<T>(method: string, ...params: unknown[]): Promise<T> {
+    const result = await this.call<T>(`dappReviewer_${method}`, params);
+    if (this.subscribers.size > 0) {
+      await this.pollEvents();
+    }
+    return result;
+  }
+
+  private async call<T>(method: string, params: unknown[] = []): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(this.rpcUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: this.nextRequestId++, method, params })
+      });
+    } catch (error) {
+      // The connection may have dropped after the node received the request
+      throw new RpcTransportError(`RPC request failed: ${error instanceof Error ? error.message : error}`, 'unknown');
+    }
+    if (!response.ok) {
+      // 429 and 503 mean the node turned the request away without running it
+      const delivery = response.status === 429 || response.status === 503 ? 'not-delivered' : 'unknown';
+      throw new RpcTransportError(`RPC request failed: ${response.status}`, delivery);
+    }
+
+    let body: JsonRpcResponse<T>;
+    try {
+      body = await response.json();
+    } catch {
+      throw new RpcTransportError('RPC request failed: malformed response', 'unknown');
+    }
+    if (body.error) {
+      throw new Error(body.error.message);
+    }
+    return body.result as T;
+  }
+
+  // Polls run one after another, so no event is delivered twice
+  private pollEvents(): Promise<void> {
+    this.polling = this.polling.then(() => this.fetchNewEvents());
+    return this.polling;
+  }
+
+  private async fetchNewEvents(): Promise<void> {
+    try {
+      const events = await this.getEvents(this.lastSeenSeq + 1);
+      for (const event of events) {
+        this.lastSeenSeq = event.seq;
+        for (const subscriber of this.subscribers) {
+          if (eventMatchesFilter(event, subscriber.filter)) {
+            this.deliver(subscriber, event);
+          }
+        }
+      }
+    } catch (error) {
+      console.error('[RpcContractAdapter] Event poll failed:', error);
+    }
+  }
+
+  private deliver(subscriber: { handler: ContractEventHandler }, event: ContractEvent): void {
+    try {
+      subscriber.handler(event);
+    } catch (error) {
+      console.error('[RpcContractAdapter] Event handler failed:', error);
+    }
+  }
+}
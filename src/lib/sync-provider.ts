@@ -143,6 +143,11 @@ export class HttpSyncProvider implements SyncProvider {
     this.localProvider = new LocalSyncProvider(); // Keep local copy for offline
   }
   
+  // Base URL and headers for other stores that share this sync backend
+  getEndpoint(): { baseUrl: string; headers: HeadersInit } {
+    return { baseUrl: this.baseUrl, headers: this.getHeaders() };
+  }
+  
   private getHeaders(): HeadersInit {
     const headers: HeadersInit = {
       'Content-Type': 'application/json',
@@ -364,6 +369,10 @@ class SyncManager {
   isCloudSync(): boolean {
     return this.provider instanceof HttpSyncProvider;
   }
+  
+  getCloudEndpoint(): { baseUrl: string; headers: HeadersInit } | null {
+    return this.provider instanceof HttpSyncProvider ? this.provider.getEndpoint() : null;
+  }
 }
 
 // Export singleton instance
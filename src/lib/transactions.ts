@@ -0,0 +1,271 @@
+/**
+ * Transaction Manager
+ *
+ * Tracks every contract transaction this browser submits: pending until the
+ * network returns a receipt, then confirmed, or failed with the reason.
+ * Requests the node never received are retried with backoff. When it is
+ * unclear whether a request arrived, the ledger is checked for the
+ * transaction before anything is sent again. Contract rejections are final.
+ * Records live only in this browser's IndexedDB. A review's transaction is
+ * looked up by its public txHash, so checking that it landed never links
+ * the review to the reviewer's identity.
+ */
+
+import { openDB, DBSchema, IDBPDatabase } from 'idb';
+import { contractManager, ContractNetwork, TransactionReceipt } from './contract-adapter';
+import { RpcTransportError } from './rpc-contract-adapter';
+
+export type TransactionStatus = 'pending' | 'confirmed' | 'failed';
+
+// What the transaction was about, for display and status lookups
+export interface TransactionReference {
+  dappAddress?: string;
+  reviewId?: string;
+}
+
+export interface TransactionRecord {
+  id: string;
+  operation: string; // ContractAdapter method, e.g. 'submitReview'
+  description: string;
+  network: ContractNetwork;
+  status: TransactionStatus;
+  attempts: number;
+  txHash?: string;
+  receipt?: TransactionReceipt;
+  error?: string;
+  reference: TransactionReference;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface TrackOptions<T = unknown> {
+  description: string;
+  reference?: TransactionReference;
+  maxAttempts?: number;
+  // Looks the transaction up on the ledger, e.g. by its nullifier, after a
+  // request that may have landed; null if it didn't. Without it such a
+  // request is never sent again.
+  findLanded?: () => Promise<T | null>;
+}
+
+interface TransactionDB extends DBSchema {
+  transactions: {
+    key: string;
+    value: TransactionRecord;
+  };
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 1000; // Doubles with every attempt
+const RECEIPT_POLL_ATTEMPTS = 5;
+const RECEIPT_POLL_INTERVAL_MS = 2000;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Only requests the node never received are safe to repeat; the contract rejects the same call again
+function isUndelivered(error: unknown): boolean {
+  return error instanceof RpcTransportError && error.delivery === 'not-delivered';
+}
+
+// The request may or may not have run on the node
+function isAmbiguous(error: unknown): boolean {
+  return error instanceof RpcTransportError && error.delivery === 'unknown';
+}
+
+class TransactionManager {
+  private static instance: TransactionManager;
+  private db: IDBPDatabase<TransactionDB> | null = null;
+  private listeners: Set<() => void> = new Set();
+  private readonly DB_NAME = 'transactions';
+  private readonly DB_VERSION = 1;
+
+  static getInstance(): TransactionManager {
+    if (!TransactionManager.instance) {
+      TransactionManager.instance = new TransactionManager();
+    }
+    return TransactionManager.instance;
+  }
+
+  // Submit through `send`, recording each attempt. Resolves with send's result
+  // once submitted; confirmation continues in the background.
+  async track<T extends { txHash: string }>(
+    operation: string,
+    options: TrackOptions<T>,
+    send: () => Promise<T>
+  ): Promise<T> {
+    const now = Date.now();
+    const record: TransactionRecord = {
+      id: crypto.randomUUID(),
+      operation,
+      description: options.description,
+      network: contractManager.getNetwork(),
+      status: 'pending',
+      attempts: 0,
+      reference: { ...options.reference },
+      createdAt: now,
+      updatedAt: now
+    };
+    const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+
+    while (true) {
+      record.attempts++;
+      await this.save(record);
+
+      let result: T;
+      try {
+        result = await send();
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+
+        const landed = isAmbiguous(error) ? await this.findLanded(record, options) : null;
+        if (landed) {
+          result = landed;
+        } else if (isUndelivered(error) && record.attempts < maxAttempts) {
+          console.log('[TransactionManager] Retrying after error:', { operation, attempt: record.attempts, message });
+          record.error = message;
+          await this.save(record);
+          await delay(RETRY_BASE_DELAY_MS * 2 ** (record.attempts - 1));
+          continue;
+        } else {
+          record.status = 'failed';
+          record.error = isAmbiguous(error) && !options.findLanded
+            ? `${message} (the transaction may still have been applied)`
+            : message;
+          await this.save(record);
+          throw error;
+        }
+      }
+
+      record.txHash = result.txHash;
+      record.error = undefined;
+      if ('reviewId' in result && typeof result.reviewId === 'string') {
+        record.reference.reviewId = result.reviewId;
+      }
+      await this.save(record);
+
+      this.pollReceipt(record).catch(error => {
+        console.error('[TransactionManager] Receipt polling failed:', error);
+      });
+      return result;
+    }
+  }
+
+  async list(): Promise<TransactionRecord[]> {
+    const db = await this.getDB();
+    const records = await db.getAll('transactions');
+    return records.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async get(id: string): Promise<TransactionRecord | undefined> {
+    const db = await this.getDB();
+    return db.get('transactions', id);
+  }
+
+  // Ask the network again for a pending transaction's receipt
+  async refresh(id: string): Promise<TransactionRecord | undefined> {
+    const record = await this.get(id);
+    if (!record || record.status !== 'pending') return record;
+
+    if (!record.txHash) {
+      // The tab closed before the network answered, so we can't know whether it was sent
+      record.status = 'failed';
+      record.error = 'Interrupted before the network accepted the transaction';
+      await this.save(record);
+      return record;
+    }
+
+    await this.checkReceipt(record);
+    return record;
+  }
+
+  async remove(id: string): Promise<void> {
+    const db = await this.getDB();
+    await db.delete('transactions', id);
+    this.notify();
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Private helpers
+
+  // A failed lookup counts as not landed, so the transaction is reported failed
+  private async findLanded<T>(record: TransactionRecord, options: TrackOptions<T>): Promise<T | null> {
+    if (!options.findLanded) return null;
+    try {
+      const landed = await options.findLanded();
+      if (landed) {
+        console.log('[TransactionManager] Transaction landed despite the error:', record.operation);
+      }
+      return landed;
+    } catch (error) {
+      console.error('[TransactionManager] Landed lookup failed:', error);
+      return null;
+    }
+  }
+
+  private async pollReceipt(record: TransactionRecord): Promise<void> {
+    for (let attempt = 0; attempt < RECEIPT_POLL_ATTEMPTS; attempt++) {
+      if (await this.checkReceipt(record)) return;
+      await delay(RECEIPT_POLL_INTERVAL_MS);
+    }
+    console.log('[TransactionManager] No receipt yet, leaving pending:', record.txHash);
+  }
+
+  // Receipts only exist on the network the transaction was sent to
+  private async checkReceipt(record: TransactionRecord): Promise<boolean> {
+    if (record.network !== contractManager.getNetwork()) return false;
+
+    try {
+      const adapter = await contractManager.getReadyAdapter();
+      const receipt = await adapter.getTransactionReceipt(record.txHash!);
+      if (!receipt) return false;
+
+      record.status = 'confirmed';
+      record.receipt = receipt;
+      record.error = undefined;
+      await this.save(record);
+
+      console.log('[TransactionManager] Transaction confirmed:', {
+        operation: record.operation,
+        txHash: record.txHash!.slice(0, 12) + '...',
+        blockNumber: receipt.blockNumber
+      });
+      return true;
+    } catch (error) {
+      console.error('[TransactionManager] Receipt lookup failed:', error);
+      return false;
+    }
+  }
+
+  private async save(record: TransactionRecord): Promise<void> {
+    record.updatedAt = Date.now();
+    const db = await this.getDB();
+    await db.put('transactions', record);
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  private async getDB(): Promise<IDBPDatabase<TransactionDB>> {
+    if (!this.db) {
+      this.db = await openDB<TransactionDB>(this.DB_NAME, this.DB_VERSION, {
+        upgrade(db) {
+          if (!db.objectStoreNames.contains('transactions')) {
+            db.createObjectStore('transactions', { keyPath: 'id' });
+          }
+        },
+      });
+    }
+    return this.db;
+  }
+}
+
+// Export singleton instance
+export const transactionManager = TransactionManager.getInstance();
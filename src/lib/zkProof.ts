@@ -1,31 +1,18 @@
 // Zero-Knowledge Proof Generation Library
 // Handles membership proofs and rate-limit nullifiers
 
-// Simple Poseidon hash implementation (mock for demo)
-class PoseidonHasher {
-  private F: any;
-  
-  constructor() {
-    // Mock field for demo
-    this.F = {
-      toString: (val: any) => val.toString()
-    };
-  }
-  
-  hash(inputs: bigint[]): bigint {
-    // Simple mock hash for demo - in production use actual Poseidon
-    let result = BigInt(0);
-    for (const input of inputs) {
-      result = (result * BigInt(31) + input) % BigInt(2 ** 253);
-    }
-    return result;
-  }
-}
+import { poseidon as poseidonHash } from './poseidon';
+import { IncrementalMerkleTree, MerkleProof } from './merkle-tree';
+import { createIdentity } from './identity';
+import { epochService } from './epoch';
+import { MidnightJS, MidnightProof, midnightJS } from './midnightjs';
+
+export { computeMerkleRoot, IncrementalMerkleTree } from './merkle-tree';
+export type { MerkleProof } from './merkle-tree';
 
-// Mock buildPoseidon for demo
+// Poseidon hasher over the BN254 scalar field (shared with midnightjs and the contract adapter)
 async function buildPoseidon() {
-  const hasher = new PoseidonHasher();
-  return (inputs: bigint[]) => hasher.hash(inputs);
+  return (inputs: bigint[]) => poseidonHash(inputs);
 }
 
 export interface Identity {
@@ -33,28 +20,12 @@ export interface Identity {
   commitment: bigint;
 }
 
-export interface MerkleProof {
-  root: bigint;
-  pathElements: bigint[];
-  pathIndices: number[];
-}
-
-export interface ZKProofData {
-  pi_a: string[];
-  pi_b: string[][];
-  pi_c: string[];
-  protocol: string;
-  publicSignals: string[];
-}
+// Groth16 proof of the membership_rln circuit
+export type ZKProofData = MidnightProof;
 
-// Generate a new identity
+// Generate a new identity (CSPRNG trapdoor + nullifier secret, see ./identity)
 export async function generateIdentity(): Promise<Identity> {
-  // Generate random secret (in production, use secure random)
-  const secret = BigInt(Math.floor(Math.random() * 2 ** 250));
-  
-  // Compute commitment using Poseidon hash
-  const poseidon = await buildPoseidon();
-  const commitment = poseidon([secret]);
+  const { secret, commitment } = createIdentity();
   
   return {
     secret,
@@ -62,6 +33,12 @@ export async function generateIdentity(): Promise<Identity> {
   };
 }
 
+// Compute the identity commitment for a secret
+export async function computeCommitment(secret: bigint): Promise<bigint> {
+  const poseidon = await buildPoseidon();
+  return poseidon([secret]);
+}
+
 // Generate nullifier for rate limiting
 export async function generateNullifier(
   identitySecret: bigint,
@@ -72,133 +49,27 @@ export async function generateNullifier(
   return nullifier;
 }
 
-// Build Merkle tree from identity commitments
-export class MerkleTree {
-  private levels: bigint[][];
-  private poseidon: any;
-  
-  constructor(leaves: bigint[], poseidon: any) {
-    this.poseidon = poseidon;
-    this.levels = [];
-    this.buildTree(leaves);
-  }
-  
-  private buildTree(leaves: bigint[]) {
-    // Pad leaves to power of 2
-    const depth = Math.ceil(Math.log2(leaves.length || 1));
-    const paddedSize = 2 ** depth;
-    const paddedLeaves = [...leaves];
-    
-    while (paddedLeaves.length < paddedSize) {
-      paddedLeaves.push(BigInt(0));
-    }
-    
-    this.levels.push(paddedLeaves);
-    
-    // Build tree levels
-    for (let level = 0; level < depth; level++) {
-      const currentLevel = this.levels[level];
-      const nextLevel: bigint[] = [];
-      
-      for (let i = 0; i < currentLevel.length; i += 2) {
-        const left = currentLevel[i];
-        const right = currentLevel[i + 1] || BigInt(0);
-        const hash = this.poseidon([left, right]);
-        nextLevel.push(hash);
-      }
-      
-      this.levels.push(nextLevel);
-    }
-  }
-  
-  getRoot(): bigint {
-    return this.levels[this.levels.length - 1][0] || BigInt(0);
-  }
-  
-  getProof(leafIndex: number): MerkleProof {
-    const pathElements: bigint[] = [];
-    const pathIndices: number[] = [];
-    
-    for (let level = 0; level < this.levels.length - 1; level++) {
-      const levelSize = this.levels[level].length;
-      const isRightNode = leafIndex % 2;
-      const siblingIndex = isRightNode ? leafIndex - 1 : leafIndex + 1;
-      
-      if (siblingIndex < levelSize) {
-        pathElements.push(this.levels[level][siblingIndex]);
-        pathIndices.push(isRightNode ? 0 : 1);
-      }
-      
-      leafIndex = Math.floor(leafIndex / 2);
-    }
-    
-    return {
-      root: this.getRoot(),
-      pathElements,
-      pathIndices
-    };
-  }
-}
-
-// Generate ZK proof for membership and rate limiting
+// Membership and rate-limit proof from the membership_rln circuit (see ./midnightjs)
 export async function generateMembershipProof(
   identity: Identity,
   merkleProof: MerkleProof,
   epoch: number,
   messageHash?: bigint
 ): Promise<ZKProofData> {
-  // Calculate nullifier
-  const nullifier = await generateNullifier(identity.secret, epoch);
-  
-  // Calculate signal hash if message provided
-  const poseidon = await buildPoseidon();
-  const signalHash = messageHash 
-    ? poseidon([messageHash])
-    : BigInt(0);
-  
-  // In production, this would use snarkjs or Midnight's proof generation
-  // For demo, we create a mock proof structure
-  const proof: ZKProofData = {
-    pi_a: [
-      "0x" + BigInt(Math.floor(Math.random() * 2 ** 256)).toString(16),
-      "0x" + BigInt(Math.floor(Math.random() * 2 ** 256)).toString(16)
-    ],
-    pi_b: [
-      [
-        "0x" + BigInt(Math.floor(Math.random() * 2 ** 256)).toString(16),
-        "0x" + BigInt(Math.floor(Math.random() * 2 ** 256)).toString(16)
-      ],
-      [
-        "0x" + BigInt(Math.floor(Math.random() * 2 ** 256)).toString(16),
-        "0x" + BigInt(Math.floor(Math.random() * 2 ** 256)).toString(16)
-      ]
-    ],
-    pi_c: [
-      "0x" + BigInt(Math.floor(Math.random() * 2 ** 256)).toString(16),
-      "0x" + BigInt(Math.floor(Math.random() * 2 ** 256)).toString(16)
-    ],
-    protocol: "groth16",
-    publicSignals: [
-      merkleProof.root.toString(),
-      epoch.toString(),
-      nullifier.toString(),
-      signalHash.toString()
-    ]
-  };
-  
-  return proof;
+  const input = MidnightJS.createProofInput(
+    merkleProof.root.toString(),
+    epoch,
+    identity.secret.toString(),
+    merkleProof.pathElements.map(element => element.toString()),
+    merkleProof.pathIndices,
+    messageHash?.toString()
+  );
+  return midnightJS.generateProof('membership_rln', input);
 }
 
-// Verify ZK proof (simplified for demo)
-export function verifyProof(proof: ZKProofData): boolean {
-  // In production, this would call the actual verifier
-  // For demo, we do basic validation
-  return (
-    proof.pi_a.length === 2 &&
-    proof.pi_b.length === 2 &&
-    proof.pi_c.length === 2 &&
-    proof.publicSignals.length === 4
-  );
+// Check a proof against the circuit's verification key
+export async function verifyProof(proof: ZKProofData): Promise<boolean> {
+  return midnightJS.verifyProof('membership_rln', proof);
 }
 
 // Helper to convert bigint to hex string
@@ -211,21 +82,14 @@ export function hexToBigint(hex: string): bigint {
   return BigInt(hex);
 }
 
-// Calculate current epoch (24 hour periods)
+// Current epoch from the shared epoch schedule
 export function getCurrentEpoch(): number {
-  const EPOCH_DURATION = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
-  return Math.floor(Date.now() / EPOCH_DURATION);
+  return epochService.getCurrentEpoch();
 }
 
 // Format epoch to human-readable date
 export function formatEpoch(epoch: number): string {
-  const EPOCH_DURATION = 24 * 60 * 60 * 1000;
-  const date = new Date(epoch * EPOCH_DURATION);
-  return date.toLocaleDateString('en-US', {
-    year: 'numeric',
-    month: 'short',
-    day: 'numeric'
-  });
+  return epochService.formatEpoch(epoch);
 }
 
 // Export test utilities for demo
@@ -239,10 +103,12 @@ export const testUtils = {
     return identities;
   },
   
-  // Build test Merkle tree
-  async buildTestTree(identities: Identity[]): Promise<MerkleTree> {
-    const poseidon = await buildPoseidon();
-    const commitments = identities.map(id => id.commitment);
-    return new MerkleTree(commitments, poseidon);
+  // Build an in-memory test Merkle tree
+  async buildTestTree(identities: Identity[]): Promise<IncrementalMerkleTree> {
+    const tree = new IncrementalMerkleTree();
+    for (const identity of identities) {
+      await tree.insert(identity.commitment);
+    }
+    return tree;
   }
 };
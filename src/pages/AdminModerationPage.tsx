@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useState, useEffect, useCallback } from "react";
 import {
   Card,
   CardContent,
@@ -8,98 +8,124 @@ import {
 } from "../components/ui/Card";
 import Button from "../components/ui/Button";
 import Badge from "../components/ui/Badge";
+import EnrollmentQueue from "../components/EnrollmentQueue";
+import DAppRegistryConsole from "../components/DAppRegistryConsole";
+import ModeratorManager from "../components/ModeratorManager";
+import EpochControl from "../components/EpochControl";
+import AdminLogin from "../components/AdminLogin";
+import ProjectLogo from "../components/ProjectLogo";
+import StarRating from "../components/StarRating";
+import { contractManager, ReviewRecord } from "../lib/contract-adapter";
+import { transactionManager } from "../lib/transactions";
+import { adminSession, AuthRole } from "../lib/admin-auth";
+import { reviewContentStore, ReviewContent } from "../lib/review-content";
+import { projectCatalog, CatalogProject } from "../lib/project-catalog";
+import { ratingToStars, formatStars, MAX_STARS } from "../lib/rating-scale";
 
-// Mock data for pending reviews
-const pendingReviews = [
-  {
-    id: "rev-001",
-    projectName: "Uniswap",
-    category: "DeFi",
-    rating: 5,
-    title: "Excellent DEX with great liquidity",
-    review:
-      "I have been using Uniswap for over a year now and it has been an amazing experience. The interface is intuitive, gas fees are reasonable, and the liquidity is always good. The V3 update with concentrated liquidity has made it even better for LPs.",
-    pros: "Great UI/UX, High liquidity, Reliable smart contracts, Active development",
-    cons: "Gas fees can be high during network congestion, Limited to Ethereum ecosystem initially",
-    submittedAt: "2024-01-15T10:30:00Z",
-    proofVerified: true,
-    hasAttachments: true,
-    status: "pending",
-    submissionId: "ZK-PROOF-001",
-  },
-  {
-    id: "rev-002",
-    projectName: "SomeScamToken",
-    category: "DeFi",
-    rating: 1,
-    title: "Obvious rug pull - lost my funds",
-    review:
-      "This project looked promising initially but turned out to be a complete scam. The developers disappeared with all the funds and the token value went to zero overnight. Stay away from this project at all costs.",
-    pros: "Initially good marketing",
-    cons: "Complete scam, Rug pull, Lost all funds, No real utility, Developers disappeared",
-    submittedAt: "2024-01-14T15:45:00Z",
-    proofVerified: true,
-    hasAttachments: false,
-    status: "pending",
-    submissionId: "ZK-PROOF-002",
-  },
-  {
-    id: "rev-003",
-    projectName: "Chainlink",
-    category: "Oracle",
-    rating: 4,
-    title: "Solid oracle network with room for improvement",
-    review:
-      "Chainlink has established itself as the go-to oracle solution in DeFi. The network is reliable and has good decentralization. However, I think the tokenomics could be improved and the fees are sometimes high for smaller projects.",
-    pros: "Reliable oracle feeds, Good decentralization, Wide adoption, Strong partnerships",
-    cons: "High fees, Complex tokenomics, Competition from other oracles emerging",
-    submittedAt: "2024-01-14T09:20:00Z",
-    proofVerified: true,
-    hasAttachments: true,
-    status: "pending",
-    submissionId: "ZK-PROOF-003",
-  },
-  {
-    id: "rev-004",
-    projectName: "Aave",
-    category: "Lending",
-    rating: 5,
-    title: "Best lending protocol in DeFi",
-    review:
-      "Aave continues to be the most innovative lending protocol. The flash loans feature is revolutionary and the safety module provides great security. Multi-chain expansion has been seamless.",
-    pros: "Innovation, Security, Multi-chain, Flash loans",
-    cons: "Complex for beginners, High gas costs on Ethereum",
-    submittedAt: "2024-01-13T14:15:00Z",
-    proofVerified: true,
-    hasAttachments: false,
-    status: "approved",
-    submissionId: "ZK-PROOF-004",
-  },
-  {
-    id: "rev-005",
-    projectName: "BadProject",
-    category: "DeFi",
-    rating: 2,
-    title: "Poor execution and broken promises",
-    review:
-      "This project promised a lot but delivered very little. The team is unresponsive and the technology is outdated.",
-    pros: "Good initial idea",
-    cons: "Poor execution, Unresponsive team, Outdated tech",
-    submittedAt: "2024-01-12T11:30:00Z",
-    proofVerified: true,
-    hasAttachments: true,
-    status: "rejected",
-    submissionId: "ZK-PROOF-005",
+type ModerationStatus =
+  | "pending"
+  | "approved"
+  | "flagged"
+  | "rejected"
+  | "revoked";
+type ModerationAction =
+  | "approve"
+  | "reject"
+  | "flag"
+  | "unflag"
+  | "delete"
+  | "hide" // The project team's response
+  | "restore";
+
+const moderationStatus: Record<ReviewRecord["status"], ModerationStatus> = {
+  PENDING: "pending",
+  VERIFIED: "approved",
+  FLAGGED: "flagged",
+  REJECTED: "rejected",
+  REVOKED: "revoked",
+};
+
+// Which actions the adapter allows from each status (deletion is always
+// allowed, but admin only)
+const availableActions: Record<ModerationStatus, ModerationAction[]> = {
+  pending: ["approve", "flag", "reject"],
+  approved: ["flag"],
+  flagged: ["unflag", "reject"],
+  rejected: [],
+  revoked: [], // Withdrawn by the author
+};
+
+const actionOperation = {
+  approve: "approveReview",
+  reject: "rejectReview",
+  flag: "flagReview",
+  unflag: "unflagReview",
+  delete: "deleteReview",
+  hide: "hideResponse",
+  restore: "restoreResponse",
+} as const;
+
+// A review record joined with its content and dApp
+interface ModerationReview {
+  id: string;
+  projectName: string;
+  projectLogo: string;
+  category: string;
+  rating: number; // Stars
+  title: string;
+  review: string;
+  pros: string;
+  cons: string;
+  submittedAt: string;
+  moderatedAt?: string;
+  epoch: number;
+  version: number; // Above 1 once the author has edited the review
+  status: ModerationStatus;
+  response?: {
+    text: string;
+    respondedAt: string;
+    hidden: boolean;
+  };
+}
+
+const toModerationReview = (
+  record: ReviewRecord,
+  content: ReviewContent | undefined,
+  project: CatalogProject | undefined
+): ModerationReview => ({
+  id: record.id,
+  projectName: project?.name ?? record.dappAddress,
+  projectLogo: project?.logo ?? "🧩",
+  category: project?.category ?? "Unknown",
+  rating: ratingToStars(record.rating),
+  title: content?.title ?? "Review content unavailable",
+  review:
+    content?.review ??
+    "The text of this review could not be found or failed hash verification.",
+  pros: content?.pros ?? "",
+  cons: content?.cons ?? "",
+  submittedAt: new Date(record.timestamp).toISOString(),
+  moderatedAt: record.moderatedAt
+    ? new Date(record.moderatedAt).toISOString()
+    : undefined,
+  epoch: record.epoch,
+  version: record.version,
+  status: moderationStatus[record.status],
+  response: record.response && {
+    text: record.response.text,
+    respondedAt: new Date(record.response.timestamp).toISOString(),
+    hidden: record.response.status === "HIDDEN",
   },
-];
+});
 
 // Review Card Component
 interface ReviewCardProps {
-  review: any;
+  review: ModerationReview;
   isSelected: boolean;
   onSelect: () => void;
-  onAction: (reviewId: string, action: "approve" | "reject") => void;
+  onAction: (reviewId: string, action: ModerationAction) => void;
   isLoading: boolean;
+  canDelete: boolean;
 }
 
 const ReviewCard: React.FC<ReviewCardProps> = ({
@@ -108,8 +134,9 @@ const ReviewCard: React.FC<ReviewCardProps> = ({
   onSelect,
   onAction,
   isLoading,
+  canDelete,
 }) => {
-  const getStatusConfig = (status: string) => {
+  const getStatusConfig = (status: ModerationStatus) => {
     switch (status) {
       case "pending":
         return {
@@ -125,6 +152,13 @@ const ReviewCard: React.FC<ReviewCardProps> = ({
           icon: "✅",
           text: "Approved",
         };
+      case "flagged":
+        return {
+          badge: "warning" as const,
+          cardClass: "review-card-rejected",
+          icon: "🚩",
+          text: "Flagged",
+        };
       case "rejected":
         return {
           badge: "danger" as const,
@@ -132,6 +166,13 @@ const ReviewCard: React.FC<ReviewCardProps> = ({
           icon: "❌",
           text: "Rejected",
         };
+      case "revoked":
+        return {
+          badge: "default" as const,
+          cardClass: "review-card-rejected",
+          icon: "↩️",
+          text: "Revoked by Author",
+        };
       default:
         return {
           badge: "default" as const,
@@ -165,15 +206,11 @@ const ReviewCard: React.FC<ReviewCardProps> = ({
         <div className="flex items-start justify-between">
           <div className="flex-1">
             <div className="flex items-center space-x-4 mb-4">
-              <div className="text-3xl">
-                {review.projectName === "Uniswap"
-                  ? "🦄"
-                  : review.projectName === "Chainlink"
-                  ? "🔗"
-                  : review.projectName === "Aave"
-                  ? "👻"
-                  : "🔷"}
-              </div>
+              <ProjectLogo
+                logo={review.projectLogo}
+                name={review.projectName}
+                className="text-3xl"
+              />
               <div className="flex-1">
                 <div className="flex items-center space-x-3 mb-2">
                   <CardTitle className="text-xl">
@@ -183,22 +220,9 @@ const ReviewCard: React.FC<ReviewCardProps> = ({
                     {review.category}
                   </Badge>
                   <div className="flex items-center space-x-1">
-                    {[...Array(5)].map((_, i) => (
-                      <svg
-                        key={i}
-                        className={`w-4 h-4 ${
-                          i < review.rating
-                            ? "text-amber-400"
-                            : "text-slate-300"
-                        }`}
-                        fill="currentColor"
-                        viewBox="0 0 20 20"
-                      >
-                        <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
-                      </svg>
-                    ))}
+                    <StarRating stars={review.rating} size="sm" />
                     <span className="text-lg font-bold gradient-text ml-2">
-                      {review.rating}/5
+                      {formatStars(review.rating)}/{MAX_STARS}
                     </span>
                   </div>
                 </div>
@@ -244,28 +268,16 @@ const ReviewCard: React.FC<ReviewCardProps> = ({
                   ZK Verified
                 </span>
               </div>
-              {review.hasAttachments && (
-                <div className="flex items-center space-x-2">
-                  <svg
-                    className="w-4 h-4 text-blue-500"
-                    fill="none"
-                    stroke="currentColor"
-                    viewBox="0 0 24 24"
-                  >
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      strokeWidth={2}
-                      d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13"
-                    />
-                  </svg>
-                  <span className="text-blue-600 font-medium">
-                    Has Attachments
-                  </span>
-                </div>
+              <Badge variant="outline" size="sm">
+                Epoch {review.epoch}
+              </Badge>
+              {review.version > 1 && (
+                <Badge variant="info" size="sm">
+                  Edited (v{review.version})
+                </Badge>
               )}
               <Badge variant="outline" size="sm">
-                ID: {review.submissionId}
+                ID: {review.id}
               </Badge>
             </div>
           </div>
@@ -376,75 +388,116 @@ const ReviewCard: React.FC<ReviewCardProps> = ({
             </div>
           )}
 
+          {/* Project team response */}
+          {review.response && (
+            <div className="pt-6 border-t border-slate-200/60">
+              <div className="flex items-center justify-between mb-3">
+                <h4 className="font-semibold text-slate-900 flex items-center gap-3">
+                  Project Team Response
+                  {review.response.hidden && (
+                    <Badge variant="danger" size="sm">
+                      Hidden
+                    </Badge>
+                  )}
+                </h4>
+                <span className="text-sm text-slate-500">
+                  {formatDate(review.response.respondedAt)}
+                </span>
+              </div>
+              <p className="text-slate-700 leading-relaxed bg-slate-50 p-4 rounded-xl whitespace-pre-line">
+                {review.response.text}
+              </p>
+              <div className="flex justify-end mt-3">
+                {review.response.hidden ? (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onAction(review.id, "restore")}
+                    isLoading={isLoading}
+                    disabled={isLoading}
+                  >
+                    Restore Response
+                  </Button>
+                ) : (
+                  <Button
+                    variant="danger"
+                    size="sm"
+                    onClick={() => onAction(review.id, "hide")}
+                    isLoading={isLoading}
+                    disabled={isLoading}
+                  >
+                    Hide Response
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+
           {/* Action Buttons */}
-          {review.status === "pending" && (
+          {availableActions[review.status].length > 0 && (
             <div className="flex flex-col sm:flex-row gap-4 pt-6 border-t border-slate-200/60">
-              <Button
-                variant="success"
-                size="lg"
-                onClick={() => onAction(review.id, "approve")}
-                isLoading={isLoading}
-                disabled={isLoading}
-                gradient
-                className="flex-1"
-              >
-                <svg
-                  className="w-5 h-5 mr-2"
-                  fill="none"
-                  stroke="currentColor"
-                  viewBox="0 0 24 24"
+              {availableActions[review.status].includes("approve") && (
+                <Button
+                  variant="success"
+                  size="lg"
+                  onClick={() => onAction(review.id, "approve")}
+                  isLoading={isLoading}
+                  disabled={isLoading}
+                  gradient
+                  className="flex-1"
                 >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M5 13l4 4L19 7"
-                  />
-                </svg>
-                Approve Review
-              </Button>
-              <Button
-                variant="danger"
-                size="lg"
-                onClick={() => onAction(review.id, "reject")}
-                isLoading={isLoading}
-                disabled={isLoading}
-                gradient
-                className="flex-1"
-              >
-                <svg
-                  className="w-5 h-5 mr-2"
-                  fill="none"
-                  stroke="currentColor"
-                  viewBox="0 0 24 24"
+                  <svg
+                    className="w-5 h-5 mr-2"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M5 13l4 4L19 7"
+                    />
+                  </svg>
+                  Approve Review
+                </Button>
+              )}
+              {availableActions[review.status].includes("flag") && (
+                <Button
+                  variant="outline"
+                  size="lg"
+                  onClick={() => onAction(review.id, "flag")}
+                  isLoading={isLoading}
+                  disabled={isLoading}
+                  className="flex-1"
+                >
+                  🚩 Flag Review
+                </Button>
+              )}
+              {availableActions[review.status].includes("unflag") && (
+                <Button
+                  variant="outline"
+                  size="lg"
+                  onClick={() => onAction(review.id, "unflag")}
+                  isLoading={isLoading}
+                  disabled={isLoading}
+                  className="flex-1"
+                >
+                  Unflag Review
+                </Button>
+              )}
+              {availableActions[review.status].includes("reject") && (
+                <Button
+                  variant="danger"
+                  size="lg"
+                  onClick={() => onAction(review.id, "reject")}
+                  isLoading={isLoading}
+                  disabled={isLoading}
+                  gradient
+                  className="flex-1"
                 >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M6 18L18 6M6 6l12 12"
-                  />
-                </svg>
-                Reject Review
-              </Button>
-            </div>
-          )}
-
-          {/* Status Actions for Approved/Rejected */}
-          {review.status !== "pending" && (
-            <div className="pt-6 border-t border-slate-200/60">
-              <div className="flex items-center justify-between">
-                <div className="flex items-center space-x-3">
-                  <Badge variant={statusConfig.badge} gradient size="lg">
-                    {statusConfig.icon} Review {review.status}
-                  </Badge>
-                  <span className="text-sm text-slate-500">
-                    Action completed on {formatDate(review.submittedAt)}
-                  </span>
-                </div>
-                <Button variant="outline" size="sm">
                   <svg
-                    className="w-4 h-4 mr-2"
+                    className="w-5 h-5 mr-2"
                     fill="none"
                     stroke="currentColor"
                     viewBox="0 0 24 24"
@@ -453,12 +506,40 @@ const ReviewCard: React.FC<ReviewCardProps> = ({
                       strokeLinecap="round"
                       strokeLinejoin="round"
                       strokeWidth={2}
-                      d="M9 5H7a2 2 0 00-2 2v10a2 2 0 002 2h8a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2"
+                      d="M6 18L18 6M6 6l12 12"
                     />
                   </svg>
-                  View Details
+                  Reject Review
                 </Button>
-              </div>
+              )}
+            </div>
+          )}
+
+          {/* Last moderation action */}
+          {(review.moderatedAt || canDelete) && (
+            <div className="flex items-center justify-between pt-6 border-t border-slate-200/60">
+              {review.moderatedAt ? (
+                <div className="flex items-center space-x-3">
+                  <Badge variant={statusConfig.badge} gradient size="lg">
+                    {statusConfig.icon} Review {review.status}
+                  </Badge>
+                  <span className="text-sm text-slate-500">
+                    Action completed on {formatDate(review.moderatedAt)}
+                  </span>
+                </div>
+              ) : (
+                <div />
+              )}
+              {canDelete && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onAction(review.id, "delete")}
+                  disabled={isLoading}
+                >
+                  Delete Permanently
+                </Button>
+              )}
             </div>
           )}
         </CardContent>
@@ -468,35 +549,120 @@ const ReviewCard: React.FC<ReviewCardProps> = ({
 };
 
 const AdminModerationPage: React.FC = () => {
-  const [reviews, setReviews] = useState(pendingReviews);
+  const [reviews, setReviews] = useState<ModerationReview[]>([]);
+  const [reviewsLoading, setReviewsLoading] = useState(true);
   const [selectedReview, setSelectedReview] = useState<string | null>(null);
-  const [filter, setFilter] = useState<
-    "all" | "pending" | "approved" | "rejected"
-  >("pending");
+  const [filter, setFilter] = useState<"all" | ModerationStatus>("pending");
   const [actionLoading, setActionLoading] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [publicKey, setPublicKey] = useState(adminSession.getPublicKey());
+  const [role, setRole] = useState<AuthRole | null>(null);
 
-  const handleReviewAction = async (
-    reviewId: string,
-    action: "approve" | "reject"
-  ) => {
-    setActionLoading(reviewId);
+  useEffect(
+    () =>
+      adminSession.subscribe(() => setPublicKey(adminSession.getPublicKey())),
+    []
+  );
 
-    // Simulate API call
-    await new Promise((resolve) => setTimeout(resolve, 2000));
+  useEffect(() => {
+    let cancelled = false;
+    const loadRole = async () => {
+      if (!publicKey) {
+        setRole(null);
+        return;
+      }
+      const adapter = await contractManager.getReadyAdapter();
+      const currentRole = await adapter.getRole(publicKey);
+      if (!cancelled) {
+        setRole(currentRole);
+      }
+    };
+    loadRole();
+    return () => {
+      cancelled = true;
+    };
+  }, [publicKey]);
 
-    setReviews((prev) =>
-      prev.map((review) =>
-        review.id === reviewId
-          ? {
-              ...review,
-              status: action === "approve" ? "approved" : "rejected",
-            }
-          : review
+  // On-chain review records joined with their content and dApp
+  const loadReviews = useCallback(async () => {
+    const adapter = await contractManager.getReadyAdapter();
+    const [records, projects] = await Promise.all([
+      adapter.listReviews(),
+      projectCatalog.listProjects({ includeInactive: true }),
+    ]);
+    const contents = await reviewContentStore.getMany(
+      records.map((record) => record.reviewHash)
+    );
+    const projectsByAddress = new Map(
+      projects.map((project) => [project.address, project])
+    );
+    return records.map((record) =>
+      toModerationReview(
+        record,
+        contents.get(record.reviewHash),
+        projectsByAddress.get(record.dappAddress)
       )
     );
+  }, []);
 
-    setActionLoading(null);
-    setSelectedReview(null);
+  useEffect(() => {
+    if (!role) return;
+
+    let cancelled = false;
+    const load = async () => {
+      setReviewsLoading(true);
+      try {
+        const result = await loadReviews();
+        if (!cancelled) setReviews(result);
+      } catch (err) {
+        console.error("Failed to load reviews:", err);
+      } finally {
+        if (!cancelled) setReviewsLoading(false);
+      }
+    };
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [role, loadReviews]);
+
+  const handleReviewAction = async (
+    reviewId: string,
+    action: ModerationAction
+  ) => {
+    if (
+      action === "delete" &&
+      !window.confirm("Delete this review permanently? This cannot be undone.")
+    ) {
+      return;
+    }
+    setActionLoading(reviewId);
+    setError(null);
+    try {
+      const operation = actionOperation[action];
+      const authorization = await adminSession.authorize(operation, {
+        reviewId,
+      });
+      const adapter = await contractManager.getReadyAdapter();
+      await transactionManager.track(
+        operation,
+        {
+          description:
+            action === "hide" || action === "restore"
+              ? `${action} team response`
+              : `${action} review`,
+          reference: { reviewId },
+        },
+        () => adapter[operation](reviewId, authorization)
+      );
+      setReviews(await loadReviews());
+      setSelectedReview(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setActionLoading(null);
+    }
   };
 
   const filteredReviews = reviews.filter((review) => {
@@ -508,9 +674,15 @@ const AdminModerationPage: React.FC = () => {
     total: reviews.length,
     pending: reviews.filter((r) => r.status === "pending").length,
     approved: reviews.filter((r) => r.status === "approved").length,
+    flagged: reviews.filter((r) => r.status === "flagged").length,
     rejected: reviews.filter((r) => r.status === "rejected").length,
+    revoked: reviews.filter((r) => r.status === "revoked").length,
   };
 
+  if (!publicKey || !role) {
+    return <AdminLogin />;
+  }
+
   return (
     <div className="space-y-8 animate-fadeIn">
       {/* Header */}
@@ -533,12 +705,18 @@ const AdminModerationPage: React.FC = () => {
           <div className="flex items-center space-x-3 px-6 py-3 bg-gradient-to-r from-emerald-100 to-teal-100 border border-emerald-200 rounded-2xl shadow-lg">
             <div className="w-3 h-3 bg-emerald-500 rounded-full animate-pulse"></div>
             <span className="font-semibold text-emerald-700">
-              Admin Authenticated
+              {role === "admin" ? "Admin" : "Moderator"} Authenticated
             </span>
             <Badge variant="success" gradient size="sm">
               Verified
             </Badge>
+            <span className="font-mono text-xs text-emerald-700">
+              {publicKey.slice(0, 12)}...
+            </span>
           </div>
+          <Button variant="ghost" onClick={() => adminSession.logout()}>
+            Log Out
+          </Button>
         </div>
 
         <div className="flex items-center space-x-4">
@@ -692,12 +870,30 @@ const AdminModerationPage: React.FC = () => {
         </Card>
       </div>
 
+      {role === "admin" && (
+        <>
+          {/* Reviewer Enrollment */}
+          <EnrollmentQueue authorize={adminSession.authorize} />
+
+          {/* DApp Registry */}
+          <DAppRegistryConsole authorize={adminSession.authorize} />
+
+          {/* Moderators */}
+          <ModeratorManager authorize={adminSession.authorize} />
+
+          {/* Epochs */}
+          <EpochControl authorize={adminSession.authorize} />
+        </>
+      )}
+
       {/* Filters */}
       <Card variant="glass" className="p-6">
         <div className="flex flex-col sm:flex-row items-center justify-between gap-4">
           <h2 className="text-2xl font-bold gradient-text">Review Queue</h2>
           <div className="flex flex-wrap gap-3">
-            {(["all", "pending", "approved", "rejected"] as const).map(
+            {(
+              ["all", "pending", "approved", "flagged", "rejected", "revoked"] as const
+            ).map(
               (filterOption) => (
                 <button
                   key={filterOption}
@@ -717,6 +913,12 @@ const AdminModerationPage: React.FC = () => {
         </div>
       </Card>
 
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-xl text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
       {/* Reviews List */}
       <div className="space-y-6">
         {filteredReviews.map((review) => (
@@ -729,10 +931,15 @@ const AdminModerationPage: React.FC = () => {
             }
             onAction={handleReviewAction}
             isLoading={actionLoading === review.id}
+            canDelete={role === "admin"}
           />
         ))}
 
-        {filteredReviews.length === 0 && (
+        {reviewsLoading && (
+          <p className="text-center text-slate-600 py-8">Loading reviews...</p>
+        )}
+
+        {!reviewsLoading && filteredReviews.length === 0 && (
           <Card variant="elevated" className="text-center py-16">
             <CardContent>
               <div className="w-20 h-20 mx-auto bg-gradient-to-br from-slate-200 to-slate-300 rounded-3xl flex items-center justify-center mb-6">
@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useState, useEffect } from "react";
 import { Link } from "react-router-dom";
 import {
   Card,
@@ -9,84 +9,69 @@ import {
 } from "../components/ui/Card";
 import Button from "../components/ui/Button";
 import Badge from "../components/ui/Badge";
+import ProjectLogo from "../components/ProjectLogo";
+import StarRating from "../components/StarRating";
+import { contractManager } from "../lib/contract-adapter";
+import {
+  projectCatalog,
+  CatalogProject,
+  ProjectSortOption,
+  PROJECT_CATEGORIES,
+} from "../lib/project-catalog";
+import { formatStars } from "../lib/rating-scale";
 
-// Mock data for demonstration
-const featuredProjects = [
-  {
-    id: "uniswap",
-    name: "Uniswap",
-    category: "DEX",
-    rating: 4.8,
-    totalReviews: 1247,
-    description: "Decentralized exchange protocol on Ethereum",
-    logo: "🦄",
-    verified: true,
-    tags: ["DeFi", "DEX", "Ethereum"],
-    trending: true,
-    volume24h: "$1.2B",
-  },
-  {
-    id: "aave",
-    name: "Aave",
-    category: "Lending",
-    rating: 4.6,
-    totalReviews: 892,
-    description: "Open source and non-custodial liquidity protocol",
-    logo: "👻",
-    verified: true,
-    tags: ["DeFi", "Lending", "Multi-chain"],
-    trending: false,
-    tvl: "$6.8B",
-  },
-  {
-    id: "chainlink",
-    name: "Chainlink",
-    category: "Oracle",
-    rating: 4.7,
-    totalReviews: 1053,
-    description: "Decentralized oracle network",
-    logo: "🔗",
-    verified: true,
-    tags: ["Oracle", "Infrastructure", "Multi-chain"],
-    trending: true,
-    price: "$14.23",
-  },
-  {
-    id: "compound",
-    name: "Compound",
-    category: "Lending",
-    rating: 4.4,
-    totalReviews: 756,
-    description: "Algorithmic, autonomous interest rate protocol",
-    logo: "🏛️",
-    verified: true,
-    tags: ["DeFi", "Lending", "Ethereum"],
-    trending: false,
-    apr: "5.2%",
-  },
-];
+const categories = ["All", ...PROJECT_CATEGORIES];
 
-const categories = [
-  "All",
-  "DeFi",
-  "NFT",
-  "Gaming",
-  "Infrastructure",
-  "Layer 2",
+const sortOptions: { value: ProjectSortOption; label: string }[] = [
+  { value: "rating", label: "Top Rated" },
+  { value: "reviews", label: "Most Reviewed" },
+  { value: "reputation", label: "Reputation" },
+  { value: "newest", label: "Newest" },
+  { value: "name", label: "Name" },
 ];
 
 const HomePage: React.FC = () => {
   const [selectedCategory, setSelectedCategory] = useState("All");
   const [searchTerm, setSearchTerm] = useState("");
+  const [sortBy, setSortBy] = useState<ProjectSortOption>("rating");
+  const [projects, setProjects] = useState<CatalogProject[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [stats, setStats] = useState({ totalDApps: 0, totalReviews: 0 });
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadProjects = async () => {
+      try {
+        const results = await projectCatalog.listProjects({
+          search: searchTerm,
+          category: selectedCategory === "All" ? undefined : selectedCategory,
+          sortBy,
+        });
+        if (!cancelled) setProjects(results);
+      } catch (error) {
+        console.error("Failed to load projects:", error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+    loadProjects();
 
-  const filteredProjects = featuredProjects.filter((project) => {
-    const matchesCategory =
-      selectedCategory === "All" || project.tags.includes(selectedCategory);
-    const matchesSearch =
-      project.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      project.description.toLowerCase().includes(searchTerm.toLowerCase());
-    return matchesCategory && matchesSearch;
-  });
+    return () => {
+      cancelled = true;
+    };
+  }, [searchTerm, selectedCategory, sortBy]);
+
+  useEffect(() => {
+    const loadStats = async () => {
+      try {
+        const adapter = await contractManager.getReadyAdapter();
+        setStats(await adapter.getTotalStats());
+      } catch (error) {
+        console.error("Failed to load contract stats:", error);
+      }
+    };
+    loadStats();
+  }, []);
 
   return (
     <div className="space-y-12 animate-fadeIn">
@@ -224,19 +209,23 @@ const HomePage: React.FC = () => {
       <section className="grid grid-cols-1 sm:grid-cols-3 gap-6">
         <Card variant="glass" className="stats-card">
           <CardContent spacing="lg" className="text-center">
-            <div className="stats-number mb-2">247</div>
-            <div className="text-slate-600 font-medium">Projects Reviewed</div>
+            <div className="stats-number mb-2">
+              {stats.totalDApps.toLocaleString()}
+            </div>
+            <div className="text-slate-600 font-medium">Registered Projects</div>
             <div className="text-xs text-emerald-600 font-medium mt-1">
-              ↗ +12 this week
+              On-chain registry
             </div>
           </CardContent>
         </Card>
         <Card variant="glass" className="stats-card">
           <CardContent spacing="lg" className="text-center">
-            <div className="stats-number mb-2">3,948</div>
+            <div className="stats-number mb-2">
+              {stats.totalReviews.toLocaleString()}
+            </div>
             <div className="text-slate-600 font-medium">Total Reviews</div>
             <div className="text-xs text-emerald-600 font-medium mt-1">
-              ↗ +89 this week
+              Verified by membership proofs
             </div>
           </CardContent>
         </Card>
@@ -257,11 +246,23 @@ const HomePage: React.FC = () => {
       <section>
         <div className="flex items-center justify-between mb-8">
           <h2 className="text-3xl font-bold gradient-text">
-            Featured Projects
+            Projects
           </h2>
           <div className="flex items-center space-x-3">
+            <select
+              value={sortBy}
+              onChange={(e) => setSortBy(e.target.value as ProjectSortOption)}
+              className="input py-2"
+              aria-label="Sort projects"
+            >
+              {sortOptions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
             <Badge variant="primary" gradient size="lg">
-              {filteredProjects.length} Projects
+              {projects.length} Projects
             </Badge>
             {selectedCategory !== "All" && (
               <Badge variant="outline" size="lg">
@@ -271,15 +272,30 @@ const HomePage: React.FC = () => {
           </div>
         </div>
 
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-          {filteredProjects.map((project, index) => (
-            <ProjectCard
-              key={project.id}
-              project={project}
-              featured={index < 2}
-            />
-          ))}
-        </div>
+        {!isLoading && projects.length === 0 ? (
+          <Card variant="glass" className="text-center py-16">
+            <CardContent>
+              <h3 className="text-xl font-bold text-slate-900 mb-4">
+                No projects found
+              </h3>
+              <p className="text-slate-600">
+                {searchTerm || selectedCategory !== "All"
+                  ? "No registered projects match your search."
+                  : "No dApps have been registered yet."}
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            {projects.map((project, index) => (
+              <ProjectCard
+                key={project.address}
+                project={project}
+                featured={sortBy === "rating" && index < 2}
+              />
+            ))}
+          </div>
+        )}
       </section>
 
       {/* How It Works - Enhanced */}
@@ -473,19 +489,7 @@ const HomePage: React.FC = () => {
 
 // Project Card Component - Enhanced
 interface ProjectCardProps {
-  project: {
-    id: string;
-    name: string;
-    category: string;
-    rating: number;
-    totalReviews: number;
-    description: string;
-    logo: string;
-    verified: boolean;
-    tags: string[];
-    trending?: boolean;
-    [key: string]: any;
-  };
+  project: CatalogProject;
   featured?: boolean;
 }
 
@@ -502,29 +506,16 @@ const ProjectCard: React.FC<ProjectCardProps> = ({
         <div className="flex items-start justify-between">
           <div className="flex items-center space-x-4">
             <div className="text-4xl group-hover:scale-110 transition-transform duration-300">
-              {project.logo}
+              <ProjectLogo logo={project.logo} name={project.name} />
             </div>
             <div className="flex-1">
               <div className="flex items-center space-x-3 mb-2">
                 <CardTitle className="text-xl group-hover:text-blue-600 transition-colors">
                   {project.name}
                 </CardTitle>
-                {project.verified && (
-                  <svg
-                    className="w-5 h-5 text-blue-500"
-                    fill="currentColor"
-                    viewBox="0 0 20 20"
-                  >
-                    <path
-                      fillRule="evenodd"
-                      d="M6.267 3.455a3.066 3.066 0 001.745-.723 3.066 3.066 0 013.976 0 3.066 3.066 0 001.745.723 3.066 3.066 0 012.812 2.812c.051.643.304 1.254.723 1.745a3.066 3.066 0 010 3.976 3.066 3.066 0 00-.723 1.745 3.066 3.066 0 01-2.812 2.812 3.066 3.066 0 00-1.745.723 3.066 3.066 0 01-3.976 0 3.066 3.066 0 00-1.745-.723 3.066 3.066 0 01-2.812-2.812 3.066 3.066 0 00-.723-1.745 3.066 3.066 0 010-3.976 3.066 3.066 0 00.723-1.745 3.066 3.066 0 012.812-2.812zm7.44 5.252a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z"
-                      clipRule="evenodd"
-                    />
-                  </svg>
-                )}
-                {project.trending && (
-                  <Badge variant="success" gradient size="sm" pulse>
-                    🔥 Trending
+                {project.status !== "ACTIVE" && (
+                  <Badge variant="warning" size="sm">
+                    {project.status}
                   </Badge>
                 )}
               </div>
@@ -537,24 +528,9 @@ const ProjectCard: React.FC<ProjectCardProps> = ({
           <div className="text-right">
             <div className="flex items-center space-x-2 mb-1">
               <span className="text-2xl font-bold gradient-text">
-                {project.rating}
+                {project.totalReviews > 0 ? formatStars(project.rating) : "–"}
               </span>
-              <div className="flex">
-                {[...Array(5)].map((_, i) => (
-                  <svg
-                    key={i}
-                    className={`w-4 h-4 ${
-                      i < Math.floor(project.rating)
-                        ? "text-amber-400"
-                        : "text-slate-300"
-                    }`}
-                    fill="currentColor"
-                    viewBox="0 0 20 20"
-                  >
-                    <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
-                  </svg>
-                ))}
-              </div>
+              <StarRating stars={project.rating} size="sm" />
             </div>
             <p className="text-sm text-slate-500">
               {project.totalReviews.toLocaleString()} reviews
@@ -576,22 +552,27 @@ const ProjectCard: React.FC<ProjectCardProps> = ({
 
         {/* Project Stats */}
         <div className="flex items-center justify-between mb-6 text-sm">
-          {Object.entries(project).map(([key, value]) => {
-            if (["volume24h", "tvl", "price", "apr"].includes(key)) {
-              return (
-                <div key={key} className="text-center">
-                  <div className="font-semibold text-slate-700 capitalize">
-                    {key.replace(/([A-Z])/g, " $1").replace("24h", "24H")}
-                  </div>
-                  <div className="gradient-text-success font-bold">{value}</div>
-                </div>
-              );
-            }
-            return null;
-          })}
+          <div className="text-center">
+            <div className="font-semibold text-slate-700">Reputation</div>
+            <div className="gradient-text-success font-bold">
+              {(project.reputationScore / 100).toFixed(2)}
+            </div>
+          </div>
+          <div className="text-center">
+            <div className="font-semibold text-slate-700">Version</div>
+            <div className="gradient-text-success font-bold">
+              v{project.version}
+            </div>
+          </div>
+          <div className="text-center">
+            <div className="font-semibold text-slate-700">Since Epoch</div>
+            <div className="gradient-text-success font-bold">
+              {project.registrationEpoch}
+            </div>
+          </div>
         </div>
 
-        <Link to={`/project/${project.id}`}>
+        <Link to={`/project/${encodeURIComponent(project.address)}`}>
           <Button
             variant="outline"
             className="w-full group-hover:bg-blue-50 group-hover:border-blue-300 group-hover:text-blue-700 transition-all"
@@ -4,6 +4,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../co
 import Badge from '../components/ui/Badge';
 import { db } from '../lib/db';
 import { midnightJS } from '../lib/midnightjs';
+import { epochService } from '../lib/epoch';
 
 interface Metric {
   label: string;
@@ -179,8 +180,7 @@ export function MetricsPage() {
     },
     {
       label: 'Epoch Duration',
-      value: '24',
-      unit: 'hours',
+      value: epochService.formatDuration(),
       description: 'Rate-limit window',
       icon: <Clock className="h-4 w-4" />,
     },
@@ -1,6 +1,7 @@
 import React from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/Card';
 import { Link } from 'react-router-dom';
+import { epochService } from '../lib/epoch';
 
 const PrivacyPage: React.FC = () => {
   return (
@@ -107,7 +108,7 @@ const PrivacyPage: React.FC = () => {
                 </li>
                 <li>
                   <strong>Rate-Limit Nullifiers (RLN):</strong> Prevent spam by limiting reports to one per 
-                  identity per epoch (24 hours) without revealing your identity.
+                  identity per epoch ({epochService.formatDuration()}) without revealing your identity.
                 </li>
                 <li>
                   <strong>Groth16 Protocol:</strong> Industry-standard SNARK construction providing succinct, 
@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useState, useEffect } from "react";
 import { useParams, Link } from "react-router-dom";
 import {
   Card,
@@ -9,136 +9,117 @@ import {
 } from "../components/ui/Card";
 import Button from "../components/ui/Button";
 import Badge from "../components/ui/Badge";
+import {
+  contractManager,
+  ReviewRecord,
+  ReviewVersion,
+  PUBLISHED_REVIEW_STATUSES,
+} from "../lib/contract-adapter";
+import { reviewContentStore, ReviewContent } from "../lib/review-content";
+import { projectCatalog, CatalogProject } from "../lib/project-catalog";
+import ProjectLogo from "../components/ProjectLogo";
+import RatingTimeline from "../components/RatingTimeline";
+import StarRating from "../components/StarRating";
+import { ratingToStars, formatStars, starBucket } from "../lib/rating-scale";
+import { criteriaAverages, reviewCriteriaScores } from "../lib/review-criteria";
+import { identityManager } from "../lib/identity";
+import { helpfulVoteService } from "../lib/helpful-votes";
+import { findReviewNullifierContext } from "../lib/nullifier";
+import { reviewSubmissionService } from "../lib/review-submission";
+import {
+  projectOwnerSession,
+  MAX_RESPONSE_LENGTH,
+} from "../lib/project-owner";
+import { transactionManager } from "../lib/transactions";
 
-// Mock project data
-const projectsData: { [key: string]: any } = {
-  uniswap: {
-    id: "uniswap",
-    name: "Uniswap",
-    category: "DEX",
-    logo: "🦄",
-    website: "https://uniswap.org",
-    description:
-      "A decentralized trading protocol, facilitating automated trading of decentralized finance (DeFi) tokens.",
-    verified: true,
-    tags: ["DeFi", "DEX", "Ethereum", "AMM"],
-    totalReviews: 1247,
-    averageRating: 4.8,
-    ratingBreakdown: {
-      5: 892,
-      4: 234,
-      3: 78,
-      2: 32,
-      1: 11,
-    },
-    stats: {
-      totalValueLocked: "$4.2B",
-      dailyVolume: "$1.8B",
-      totalUsers: "3.5M+",
-      founded: "2018",
-    },
-    trending: true,
-  },
-  aave: {
-    id: "aave",
-    name: "Aave",
-    category: "Lending",
-    logo: "👻",
-    website: "https://aave.com",
-    description:
-      "Open source and non-custodial liquidity protocol that enables users to earn interest on deposits and borrow assets.",
-    verified: true,
-    tags: ["DeFi", "Lending", "Multi-chain"],
-    totalReviews: 892,
-    averageRating: 4.6,
-    ratingBreakdown: {
-      5: 623,
-      4: 178,
-      3: 67,
-      2: 18,
-      1: 6,
-    },
-    stats: {
-      totalValueLocked: "$6.8B",
-      totalBorrowed: "$3.2B",
-      totalUsers: "890K+",
-      founded: "2017",
-    },
-    trending: false,
-  },
-};
+// A review record joined with its off-chain content
+interface DisplayReview {
+  id: string;
+  rating: number; // Stars
+  dimensionRatings: number[]; // On-chain scale by criteria slot
+  title: string;
+  review: string;
+  pros: string;
+  cons: string;
+  createdAt: string;
+  epoch: number;
+  helpful: number; // Anonymous helpful votes
+  zkVerified: boolean;
+  contentAvailable: boolean;
+  version: number;
+  updatedAt?: string;
+  history: DisplayVersion[]; // Earlier versions, newest first
+  ownReview: boolean; // Written with the identity unlocked in this browser
+  votedHelpful: boolean; // The unlocked identity already voted on it
+  response?: DisplayResponse;
+}
 
-// Mock reviews data
-const reviewsData: { [key: string]: any[] } = {
-  uniswap: [
-    {
-      id: "rev-u1",
-      rating: 5,
-      title: "Best DEX in the space",
-      review:
-        "Uniswap has consistently been my go-to DEX for trading. The interface is clean, the liquidity is excellent, and the gas optimization in V3 is impressive. The concentrated liquidity feature has made providing liquidity much more capital efficient.",
-      pros: "Excellent liquidity, Great UI/UX, Reliable smart contracts, V3 innovations",
-      cons: "High gas fees on Ethereum, Limited cross-chain support initially",
-      createdAt: "2024-01-10T14:30:00Z",
-      helpful: 234,
-      category: "Power User",
-      zkVerified: true,
-    },
-    {
-      id: "rev-u2",
-      rating: 5,
-      title: "Solid and reliable",
-      review:
-        "Been using Uniswap for 2 years now. Never had any issues with the protocol. The team is constantly innovating and the governance is active. V3 brought some great improvements.",
-      pros: "Reliable, Good governance, Active development, Strong community",
-      cons: "Can be confusing for beginners, Gas costs",
-      createdAt: "2024-01-08T09:15:00Z",
-      helpful: 156,
-      category: "Long-term User",
-      zkVerified: true,
-    },
-    {
-      id: "rev-u3",
-      rating: 4,
-      title: "Great but expensive",
-      review:
-        "Love the simplicity and reliability of Uniswap. However, the gas fees can be quite high, especially for smaller trades. Would love to see more L2 integrations.",
-      pros: "Simple interface, Reliable, Good token selection",
-      cons: "High gas fees, Limited L2 support",
-      createdAt: "2024-01-05T16:45:00Z",
-      helpful: 89,
-      category: "Regular User",
-      zkVerified: true,
-    },
-  ],
-  aave: [
-    {
-      id: "rev-a1",
-      rating: 5,
-      title: "Outstanding lending protocol",
-      review:
-        "Aave has been a game-changer for DeFi lending. The variety of assets, stable and variable rates, and features like flash loans make it incredibly versatile. The safety module provides additional security.",
-      pros: "Wide asset variety, Flash loans, Safety module, Multi-chain",
-      cons: "Complex for beginners, Liquidation risks",
-      createdAt: "2024-01-12T11:20:00Z",
-      helpful: 198,
-      category: "DeFi Expert",
-      zkVerified: true,
-    },
-    {
-      id: "rev-a2",
-      rating: 4,
-      title: "Good yields and features",
-      review:
-        "Great platform for earning yield on my crypto. The interest rates are competitive and the platform feels secure. The mobile app could use some improvements though.",
-      pros: "Good yields, Secure, Multi-chain support",
-      cons: "Mobile app needs work, Complex interface",
-      createdAt: "2024-01-09T13:50:00Z",
-      helpful: 124,
-      category: "Yield Farmer",
-      zkVerified: true,
+// The project team's reply, threaded under the review
+interface DisplayResponse {
+  text: string;
+  respondedAt: string;
+  hidden: boolean; // By a moderator; the text is not shown
+}
+
+// An earlier version of a review, as its author first published it
+interface DisplayVersion {
+  version: number;
+  rating: number; // Stars
+  title: string;
+  review: string;
+  publishedAt: string;
+  contentAvailable: boolean;
+}
+
+const toDisplayVersion = (
+  version: ReviewVersion,
+  content: ReviewContent | undefined
+): DisplayVersion => ({
+  version: version.version,
+  rating: ratingToStars(version.rating),
+  title: content?.title ?? "Review content unavailable",
+  review: content?.review ?? "",
+  publishedAt: new Date(version.timestamp).toISOString(),
+  contentAvailable: content !== undefined,
+});
+
+const toDisplayReview = (
+  record: ReviewRecord,
+  contents: Map<string, ReviewContent>,
+  reader: { ownReview: boolean; votedHelpful: boolean }
+): DisplayReview => {
+  const content = contents.get(record.reviewHash);
+  return {
+    id: record.id,
+    rating: ratingToStars(record.rating),
+    dimensionRatings: record.dimensionRatings,
+    title: content?.title ?? "Review content unavailable",
+    review:
+      content?.review ??
+      "The text of this review could not be found or failed hash verification.",
+    pros: content?.pros ?? "",
+    cons: content?.cons ?? "",
+    createdAt: new Date(record.timestamp).toISOString(),
+    epoch: record.epoch,
+    helpful: record.helpfulVotes,
+    zkVerified: true,
+    contentAvailable: content !== undefined,
+    version: record.version,
+    updatedAt: record.updatedAt
+      ? new Date(record.updatedAt).toISOString()
+      : undefined,
+    history: record.history
+      .map((version) =>
+        toDisplayVersion(version, contents.get(version.reviewHash))
+      )
+      .reverse(),
+    ...reader,
+    response: record.response && {
+      text: record.response.text,
+      respondedAt: new Date(record.response.timestamp).toISOString(),
+      hidden: record.response.status === "HIDDEN",
     },
-  ],
+  };
 };
 
 const ProjectDetailsPage: React.FC = () => {
@@ -147,9 +128,118 @@ const ProjectDetailsPage: React.FC = () => {
     "newest" | "oldest" | "rating-high" | "rating-low" | "helpful"
   >("newest");
   const [filterRating, setFilterRating] = useState<number | null>(null);
+  const [reviews, setReviews] = useState<DisplayReview[]>([]);
+  const [reviewsLoading, setReviewsLoading] = useState(true);
+  const [project, setProject] = useState<CatalogProject | null>(null);
+  const [projectLoading, setProjectLoading] = useState(true);
+  // Bumped by contract events so stats and reviews reload in place
+  const [liveVersion, setLiveVersion] = useState(0);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [votingId, setVotingId] = useState<string | null>(null);
+  const [respondingId, setRespondingId] = useState<string | null>(null);
+  const [ownerKey, setOwnerKey] = useState(projectOwnerSession.getPublicKey());
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  // Unlocking or locking the identity changes which reviews are the reader's own
+  useEffect(
+    () => identityManager.subscribe(() => setLiveVersion((version) => version + 1)),
+    []
+  );
+
+  useEffect(
+    () =>
+      projectOwnerSession.subscribe(() =>
+        setOwnerKey(projectOwnerSession.getPublicKey())
+      ),
+    []
+  );
 
-  const project = id ? projectsData[id] : null;
-  const reviews = id ? reviewsData[id] || [] : [];
+  useEffect(() => {
+    let cancelled = false;
+    const loadProject = async () => {
+      if (liveVersion === 0) setProjectLoading(true);
+      try {
+        const result = id ? await projectCatalog.getProject(id) : null;
+        if (!cancelled) setProject(result);
+      } catch (error) {
+        console.error("Failed to load project:", error);
+      } finally {
+        if (!cancelled) setProjectLoading(false);
+      }
+    };
+    loadProject();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id, liveVersion]);
+
+  useEffect(() => {
+    if (!project) return;
+    return contractManager
+      .getAdapter()
+      .subscribe({ dappAddress: project.address }, () =>
+        setLiveVersion((version) => version + 1)
+      );
+  }, [project?.address]);
+
+  // On-chain review records joined with their hash-verified content
+  useEffect(() => {
+    if (!project) return;
+
+    let cancelled = false;
+    const loadReviews = async () => {
+      if (liveVersion === 0) setReviewsLoading(true);
+      try {
+        const adapter = await contractManager.getReadyAdapter();
+        const records = (await adapter.listReviews(project.address)).filter(
+          (record) => PUBLISHED_REVIEW_STATUSES.includes(record.status)
+        );
+        const contents = await reviewContentStore.getMany(
+          records.flatMap((record) => [
+            record.reviewHash,
+            ...record.history.map((version) => version.reviewHash),
+          ])
+        );
+        // Authorship and votes are checked locally by re-deriving nullifiers
+        const identity = identityManager.getIdentity();
+        const isOwn = (record: ReviewRecord) =>
+          identity !== null &&
+          findReviewNullifierContext(identity.secret, record, project.version) !==
+            null;
+        const voted = identity
+          ? await helpfulVoteService.votedReviewIds(records, identity)
+          : new Set<string>();
+        if (!cancelled) {
+          setReviews(
+            records.map((record) =>
+              toDisplayReview(record, contents, {
+                ownReview: isOwn(record),
+                votedHelpful: voted.has(record.id),
+              })
+            )
+          );
+        }
+      } catch (error) {
+        console.error("Failed to load reviews:", error);
+      } finally {
+        if (!cancelled) setReviewsLoading(false);
+      }
+    };
+    loadReviews();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [project?.address, liveVersion]);
+
+  if (projectLoading) {
+    return (
+      <div className="max-w-4xl mx-auto text-center py-20 animate-fadeIn">
+        <p className="text-xl text-slate-600">Loading project...</p>
+      </div>
+    );
+  }
 
   if (!project) {
     return (
@@ -198,9 +288,30 @@ const ProjectDetailsPage: React.FC = () => {
     );
   }
 
+  // Per-star counts from the on-chain histogram (index is rating - 1); half stars round up
+  const ratingBreakdown: Record<number, number> = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+  project.ratingHistogram.forEach((count, index) => {
+    ratingBreakdown[starBucket(index + 1)] += count;
+  });
+
+  const criterionAverages = criteriaAverages(
+    project.category,
+    project.dimensionSums,
+    project.dimensionCounts
+  );
+
+  const projectStats = {
+    reputation: (project.reputationScore / 100).toFixed(2),
+    version: `v${project.version}`,
+    registeredEpoch: project.registrationEpoch,
+    status: project.status.toLowerCase(),
+  };
+
   // Sort and filter reviews
   const sortedAndFilteredReviews = reviews
-    .filter((review) => (filterRating ? review.rating === filterRating : true))
+    .filter((review) =>
+      filterRating ? Math.ceil(review.rating) === filterRating : true
+    )
     .sort((a, b) => {
       switch (sortBy) {
         case "newest":
@@ -216,12 +327,91 @@ const ProjectDetailsPage: React.FC = () => {
         case "rating-low":
           return a.rating - b.rating;
         case "helpful":
-          return b.helpful - a.helpful;
+          return (
+            b.helpful - a.helpful ||
+            new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+          );
         default:
           return 0;
       }
     });
 
+  // Contract events reload the list once the revocation lands
+  const handleRevoke = async (reviewId: string) => {
+    if (
+      !window.confirm(
+        "Revoke your review? It will no longer count toward this project's rating. This cannot be undone."
+      )
+    ) {
+      return;
+    }
+
+    setRevokingId(reviewId);
+    setActionError(null);
+    try {
+      await reviewSubmissionService.revoke(reviewId);
+    } catch (error) {
+      console.error("Failed to revoke review:", error);
+      setActionError(
+        `Revocation failed: ${error instanceof Error ? error.message : error}`
+      );
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  // The vote's contract event reloads the tally
+  const handleVoteHelpful = async (reviewId: string) => {
+    setVotingId(reviewId);
+    setActionError(null);
+    try {
+      await helpfulVoteService.vote(reviewId);
+    } catch (error) {
+      console.error("Failed to vote:", error);
+      setActionError(
+        `Vote failed: ${error instanceof Error ? error.message : error}`
+      );
+    } finally {
+      setVotingId(null);
+    }
+  };
+
+  // Signed with the owner key; the contract event reloads the thread
+  const handleRespond = async (reviewId: string, text: string) => {
+    setRespondingId(reviewId);
+    setActionError(null);
+    try {
+      const authorization = await projectOwnerSession.authorize(
+        "respondToReview",
+        { reviewId, text }
+      );
+      const adapter = await contractManager.getReadyAdapter();
+      await transactionManager.track(
+        "respondToReview",
+        {
+          description: `Team response on ${project.name}`,
+          reference: { dappAddress: project.address, reviewId },
+        },
+        () => adapter.respondToReview(reviewId, text, authorization)
+      );
+      return true;
+    } catch (error) {
+      console.error("Failed to respond:", error);
+      setActionError(
+        `Response failed: ${error instanceof Error ? error.message : error}`
+      );
+      return false;
+    } finally {
+      setRespondingId(null);
+    }
+  };
+
+  // The signed-in owner key is the one the contract verified for this dApp
+  const isVerifiedTeam =
+    ownerKey !== null &&
+    project.ownerPublicKey === ownerKey &&
+    projectOwnerSession.ownsDApp(project);
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString("en-US", {
       year: "numeric",
@@ -267,31 +457,21 @@ const ProjectDetailsPage: React.FC = () => {
             <div className="flex-1">
               <div className="flex items-start gap-6 mb-8">
                 <div className="text-6xl group-hover:scale-110 transition-transform duration-300">
-                  {project.logo}
+                  <ProjectLogo logo={project.logo} name={project.name} />
                 </div>
                 <div className="flex-1">
                   <div className="flex items-center gap-4 mb-4">
                     <h1 className="text-4xl font-bold gradient-text">
                       {project.name}
                     </h1>
-                    {project.verified && (
-                      <div className="w-8 h-8 bg-gradient-to-br from-blue-500 to-purple-500 rounded-full flex items-center justify-center">
-                        <svg
-                          className="w-5 h-5 text-white"
-                          fill="currentColor"
-                          viewBox="0 0 20 20"
-                        >
-                          <path
-                            fillRule="evenodd"
-                            d="M6.267 3.455a3.066 3.066 0 001.745-.723 3.066 3.066 0 013.976 0 3.066 3.066 0 001.745.723 3.066 3.066 0 012.812 2.812c.051.643.304 1.254.723 1.745a3.066 3.066 0 010 3.976 3.066 3.066 0 00-.723 1.745 3.066 3.066 0 01-2.812 2.812 3.066 3.066 0 00-1.745.723 3.066 3.066 0 01-3.976 0 3.066 3.066 0 00-1.745-.723 3.066 3.066 0 01-2.812-2.812 3.066 3.066 0 00-.723-1.745 3.066 3.066 0 010-3.976 3.066 3.066 0 00.723-1.745 3.066 3.066 0 012.812-2.812zm7.44 5.252a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z"
-                            clipRule="evenodd"
-                          />
-                        </svg>
-                      </div>
+                    {project.status !== "ACTIVE" && (
+                      <Badge variant="warning" gradient size="lg">
+                        {project.status}
+                      </Badge>
                     )}
-                    {project.trending && (
-                      <Badge variant="warning" gradient size="lg" pulse>
-                        🔥 Trending
+                    {project.ownerPublicKey && (
+                      <Badge variant="success" gradient size="lg">
+                        ✓ Verified Team
                       </Badge>
                     )}
                   </div>
@@ -308,46 +488,61 @@ const ProjectDetailsPage: React.FC = () => {
                   <p className="text-lg text-slate-600 mb-6 leading-relaxed">
                     {project.description}
                   </p>
-                  <a
-                    href={project.website}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="inline-flex items-center text-blue-600 hover:text-blue-800 transition-colors font-medium"
-                  >
-                    <svg
-                      className="w-5 h-5 mr-2"
-                      fill="none"
-                      stroke="currentColor"
-                      viewBox="0 0 24 24"
+                  {project.website && (
+                    <a
+                      href={project.website}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center text-blue-600 hover:text-blue-800 transition-colors font-medium"
                     >
-                      <path
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                        strokeWidth={2}
-                        d="M21 12a9 9 0 01-9 9m9-9a9 9 0 00-9-9m9 9H3m9 9v-9m0-9v9"
-                      />
-                    </svg>
-                    Visit Official Website
-                    <svg
-                      className="w-4 h-4 ml-1"
-                      fill="none"
-                      stroke="currentColor"
-                      viewBox="0 0 24 24"
+                      <svg
+                        className="w-5 h-5 mr-2"
+                        fill="none"
+                        stroke="currentColor"
+                        viewBox="0 0 24 24"
+                      >
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth={2}
+                          d="M21 12a9 9 0 01-9 9m9-9a9 9 0 00-9-9m9 9H3m9 9v-9m0-9v9"
+                        />
+                      </svg>
+                      Visit Official Website
+                      <svg
+                        className="w-4 h-4 ml-1"
+                        fill="none"
+                        stroke="currentColor"
+                        viewBox="0 0 24 24"
+                      >
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth={2}
+                          d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14"
+                        />
+                      </svg>
+                    </a>
+                  )}
+                  {project.github && (
+                    <a
+                      href={project.github}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center text-blue-600 hover:text-blue-800 transition-colors font-medium ml-6"
                     >
-                      <path
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                        strokeWidth={2}
-                        d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14"
-                      />
-                    </svg>
-                  </a>
+                      Source Code
+                    </a>
+                  )}
+                  <div className="mt-4 font-mono text-xs text-slate-500 break-all">
+                    {project.address}
+                  </div>
                 </div>
               </div>
 
               {/* Project Stats - Enhanced */}
               <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
-                {Object.entries(project.stats).map(([key, value]) => (
+                {Object.entries(projectStats).map(([key, value]) => (
                   <Card
                     key={key}
                     variant="glass"
@@ -375,23 +570,12 @@ const ProjectDetailsPage: React.FC = () => {
                 <CardContent spacing="lg">
                   <div className="text-center mb-8">
                     <div className="text-5xl font-bold gradient-text mb-4">
-                      {project.averageRating}
+                      {project.totalReviews > 0
+                        ? formatStars(project.rating)
+                        : "–"}
                     </div>
                     <div className="flex justify-center mb-4">
-                      {[...Array(5)].map((_, i) => (
-                        <svg
-                          key={i}
-                          className={`w-7 h-7 ${
-                            i < Math.floor(project.averageRating)
-                              ? "text-amber-400"
-                              : "text-slate-300"
-                          }`}
-                          fill="currentColor"
-                          viewBox="0 0 20 20"
-                        >
-                          <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
-                        </svg>
-                      ))}
+                      <StarRating stars={project.rating} size="lg" />
                     </div>
                     <div className="text-slate-600 font-medium">
                       {project.totalReviews.toLocaleString()} reviews
@@ -401,8 +585,10 @@ const ProjectDetailsPage: React.FC = () => {
                   {/* Rating breakdown - Enhanced */}
                   <div className="space-y-4 mb-8">
                     {[5, 4, 3, 2, 1].map((rating) => {
-                      const count = project.ratingBreakdown[rating];
-                      const percentage = (count / project.totalReviews) * 100;
+                      const count = ratingBreakdown[rating];
+                      const percentage = project.totalReviews
+                        ? (count / project.totalReviews) * 100
+                        : 0;
 
                       return (
                         <div key={rating} className="flex items-center gap-3">
@@ -432,7 +618,37 @@ const ProjectDetailsPage: React.FC = () => {
                     })}
                   </div>
 
-                  <Link to="/submit-review">
+                  {/* Per-criterion averages for the project's category */}
+                  {criterionAverages.length > 0 && (
+                    <div className="space-y-3 mb-8">
+                      <p className="text-sm font-bold text-slate-700">
+                        {project.category} criteria
+                      </p>
+                      {criterionAverages.map(({ criterion, average, count }) => (
+                        <div
+                          key={criterion.id}
+                          className="flex items-center justify-between gap-3"
+                          title={`${criterion.description} (${count} rating${count === 1 ? "" : "s"})`}
+                        >
+                          <span className="text-sm font-medium text-slate-700">
+                            {criterion.label}
+                          </span>
+                          <div className="flex items-center gap-2">
+                            <StarRating stars={average} size="sm" />
+                            <span className="w-8 text-sm text-slate-600 text-right">
+                              {formatStars(average)}
+                            </span>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  <Link
+                    to={`/submit-review?dapp=${encodeURIComponent(
+                      project.address
+                    )}`}
+                  >
                     <Button gradient size="lg" className="w-full">
                       <svg
                         className="w-5 h-5 mr-2"
@@ -457,6 +673,18 @@ const ProjectDetailsPage: React.FC = () => {
         </CardContent>
       </Card>
 
+      {/* Rating over time */}
+      <Card variant="elevated">
+        <CardHeader>
+          <CardTitle size="lg" gradient>
+            Rating Over Time
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <RatingTimeline epochRatings={project.epochRatings} />
+        </CardContent>
+      </Card>
+
       {/* Reviews Section */}
       <div className="flex flex-col xl:flex-row gap-8">
         {/* Filters and sorting - Enhanced */}
@@ -513,7 +741,7 @@ const ProjectDetailsPage: React.FC = () => {
                     <div className="flex items-center justify-between">
                       <span>{rating} Stars</span>
                       <Badge variant="outline" size="sm">
-                        {project.ratingBreakdown[rating]}
+                        {ratingBreakdown[rating]}
                       </Badge>
                     </div>
                   </button>
@@ -521,6 +749,8 @@ const ProjectDetailsPage: React.FC = () => {
               </div>
             </CardContent>
           </Card>
+
+          <ProjectTeamCard project={project} isVerifiedTeam={isVerifiedTeam} />
         </div>
 
         {/* Reviews list - Enhanced */}
@@ -534,7 +764,19 @@ const ProjectDetailsPage: React.FC = () => {
             </Badge>
           </div>
 
-          {sortedAndFilteredReviews.length === 0 ? (
+          {actionError && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-xl text-sm text-red-700">
+              {actionError}
+            </div>
+          )}
+
+          {reviewsLoading ? (
+            <Card variant="glass" className="text-center py-16">
+              <CardContent>
+                <p className="text-slate-600">Loading reviews...</p>
+              </CardContent>
+            </Card>
+          ) : sortedAndFilteredReviews.length === 0 ? (
             <Card variant="elevated" className="text-center py-16">
               <CardContent>
                 <div className="w-20 h-20 mx-auto bg-gradient-to-br from-slate-200 to-slate-300 rounded-3xl flex items-center justify-center mb-6">
@@ -556,7 +798,9 @@ const ProjectDetailsPage: React.FC = () => {
                   No reviews found
                 </h3>
                 <p className="text-slate-600">
-                  No reviews match your current filter criteria.
+                  {reviews.length === 0
+                    ? "Nobody has reviewed this project yet."
+                    : "No reviews match your current filter criteria."}
                 </p>
               </CardContent>
             </Card>
@@ -565,7 +809,15 @@ const ProjectDetailsPage: React.FC = () => {
               <ReviewCard
                 key={review.id}
                 review={review}
+                category={project.category}
                 formatDate={formatDate}
+                onRevoke={handleRevoke}
+                revoking={revokingId === review.id}
+                onVoteHelpful={handleVoteHelpful}
+                voting={votingId === review.id}
+                canRespond={isVerifiedTeam}
+                onRespond={handleRespond}
+                responding={respondingId === review.id}
               />
             ))
           )}
@@ -577,41 +829,73 @@ const ProjectDetailsPage: React.FC = () => {
 
 // Review Card Component - Enhanced
 interface ReviewCardProps {
-  review: any;
+  review: DisplayReview;
+  category: string; // Decides what each criteria slot means
   formatDate: (date: string) => string;
+  onRevoke: (reviewId: string) => void;
+  revoking: boolean;
+  onVoteHelpful: (reviewId: string) => void;
+  voting: boolean;
+  canRespond: boolean; // The reader is the dApp's verified team
+  onRespond: (reviewId: string, text: string) => Promise<boolean>;
+  responding: boolean;
 }
 
-const ReviewCard: React.FC<ReviewCardProps> = ({ review, formatDate }) => {
+const ReviewCard: React.FC<ReviewCardProps> = ({
+  review,
+  category,
+  formatDate,
+  onRevoke,
+  revoking,
+  onVoteHelpful,
+  voting,
+  canRespond,
+  onRespond,
+  responding,
+}) => {
+  const [showHistory, setShowHistory] = useState(false);
+  const [showResponseForm, setShowResponseForm] = useState(false);
+  const [responseText, setResponseText] = useState("");
+
+  const submitResponse = async () => {
+    if (await onRespond(review.id, responseText.trim())) {
+      setShowResponseForm(false);
+      setResponseText("");
+    }
+  };
+  const criteriaScores = reviewCriteriaScores(category, review.dimensionRatings);
+
   return (
     <Card variant="elevated" className="review-card">
       <CardHeader>
         <div className="flex items-start justify-between mb-4">
           <div className="flex-1">
             <div className="flex items-center gap-4 mb-3">
-              <div className="flex items-center">
-                {[...Array(5)].map((_, i) => (
-                  <svg
-                    key={i}
-                    className={`w-5 h-5 ${
-                      i < review.rating ? "text-amber-400" : "text-slate-300"
-                    }`}
-                    fill="currentColor"
-                    viewBox="0 0 20 20"
-                  >
-                    <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
-                  </svg>
-                ))}
-              </div>
+              <StarRating stars={review.rating} size="md" />
               <Badge variant="outline" size="sm">
-                {review.category}
+                Epoch {review.epoch}
               </Badge>
               {review.zkVerified && (
                 <Badge variant="success" gradient size="sm">
                   🔐 ZK Verified
                 </Badge>
               )}
+              {review.updatedAt && (
+                <Badge variant="info" size="sm">
+                  Edited {formatDate(review.updatedAt)}
+                </Badge>
+              )}
+              {review.ownReview && (
+                <Badge variant="primary" size="sm">
+                  Your review
+                </Badge>
+              )}
             </div>
-            <h3 className="text-xl font-bold text-slate-900 mb-2">
+            <h3
+              className={`text-xl font-bold mb-2 ${
+                review.contentAvailable ? "text-slate-900" : "text-slate-400"
+              }`}
+            >
               {review.title}
             </h3>
           </div>
@@ -624,6 +908,16 @@ const ReviewCard: React.FC<ReviewCardProps> = ({ review, formatDate }) => {
       <CardContent>
         <p className="text-slate-700 mb-6 leading-relaxed">{review.review}</p>
 
+        {criteriaScores.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-6">
+            {criteriaScores.map(({ criterion, stars }) => (
+              <Badge key={criterion.id} variant="outline" size="sm">
+                {criterion.label} {formatStars(stars)}★
+              </Badge>
+            ))}
+          </div>
+        )}
+
         {/* Pros and Cons - Enhanced */}
         {(review.pros || review.cons) && (
           <div className="grid md:grid-cols-2 gap-6 mb-6">
@@ -685,10 +979,73 @@ const ReviewCard: React.FC<ReviewCardProps> = ({ review, formatDate }) => {
           </div>
         )}
 
+        {/* Earlier versions, published by the same anonymous author */}
+        {review.history.length > 0 && (
+          <div className="mb-6">
+            <button
+              type="button"
+              onClick={() => setShowHistory((shown) => !shown)}
+              className="text-sm font-medium text-blue-600 hover:text-blue-700"
+            >
+              {showHistory ? "Hide" : "Show"} version history (
+              {review.history.length} earlier version
+              {review.history.length === 1 ? "" : "s"})
+            </button>
+            {showHistory && (
+              <div className="mt-4 space-y-4 border-l-2 border-slate-200 pl-4">
+                {review.history.map((version) => (
+                  <div key={version.version}>
+                    <div className="flex items-center gap-3 mb-1">
+                      <Badge variant="outline" size="sm">
+                        v{version.version}
+                      </Badge>
+                      <StarRating stars={version.rating} size="sm" />
+                      <span className="text-xs text-slate-500">
+                        {formatDate(version.publishedAt)}
+                      </span>
+                    </div>
+                    <div
+                      className={`font-medium ${
+                        version.contentAvailable
+                          ? "text-slate-800"
+                          : "text-slate-400"
+                      }`}
+                    >
+                      {version.title}
+                    </div>
+                    {version.review && (
+                      <p className="text-sm text-slate-600 leading-relaxed">
+                        {version.review}
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Review actions - Enhanced */}
         <div className="flex items-center justify-between text-sm border-t border-slate-200/60 pt-6">
           <div className="flex items-center space-x-6">
-            <button className="flex items-center space-x-2 text-slate-600 hover:text-blue-600 transition-colors group">
+            {/* One anonymous vote per identity; authors can't vote on their own review */}
+            <button
+              type="button"
+              onClick={() => onVoteHelpful(review.id)}
+              disabled={review.ownReview || review.votedHelpful || voting}
+              title={
+                review.ownReview
+                  ? "You wrote this review"
+                  : review.votedHelpful
+                    ? "You found this helpful"
+                    : "Vote anonymously that this review was helpful"
+              }
+              className={`flex items-center space-x-2 transition-colors group disabled:cursor-not-allowed ${
+                review.votedHelpful
+                  ? "text-blue-600"
+                  : "text-slate-600 hover:text-blue-600 disabled:hover:text-slate-600"
+              }`}
+            >
               <div className="w-8 h-8 bg-slate-100 group-hover:bg-blue-100 rounded-lg flex items-center justify-center transition-colors">
                 <svg
                   className="w-4 h-4"
@@ -704,13 +1061,32 @@ const ReviewCard: React.FC<ReviewCardProps> = ({ review, formatDate }) => {
                   />
                 </svg>
               </div>
-              <span className="font-medium">Helpful ({review.helpful})</span>
+              <span className="font-medium">
+                {voting ? "Voting..." : `Helpful (${review.helpful})`}
+              </span>
             </button>
             <div className="flex items-center space-x-2">
               <Badge variant="primary" gradient size="sm">
                 Anonymous Review
               </Badge>
             </div>
+            {review.ownReview && (
+              <div className="flex items-center space-x-2">
+                <Link to={`/submit-review?edit=${encodeURIComponent(review.id)}`}>
+                  <Button variant="outline" size="sm">
+                    Edit
+                  </Button>
+                </Link>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onRevoke(review.id)}
+                  disabled={revoking}
+                >
+                  {revoking ? "Revoking..." : "Revoke"}
+                </Button>
+              </div>
+            )}
           </div>
           <div className="flex items-center space-x-1 text-xs">
             <svg
@@ -727,6 +1103,180 @@ const ReviewCard: React.FC<ReviewCardProps> = ({ review, formatDate }) => {
             <span className="text-slate-500 font-medium">ZK Verified</span>
           </div>
         </div>
+
+        {/* Project team response, threaded under the review */}
+        {review.response ? (
+          <div className="mt-6 ml-6 pl-6 border-l-2 border-emerald-200">
+            <div className="flex items-center gap-3 mb-2">
+              <span className="font-semibold text-slate-900">
+                Response from the project team
+              </span>
+              <Badge variant="success" gradient size="sm">
+                ✓ Verified Owner
+              </Badge>
+              <span className="text-xs text-slate-500">
+                {formatDate(review.response.respondedAt)}
+              </span>
+            </div>
+            {review.response.hidden ? (
+              <p className="text-sm text-slate-500 italic">
+                This response was hidden by a moderator.
+              </p>
+            ) : (
+              <p className="text-slate-700 leading-relaxed whitespace-pre-line">
+                {review.response.text}
+              </p>
+            )}
+          </div>
+        ) : (
+          canRespond && (
+            <div className="mt-6 ml-6 pl-6 border-l-2 border-emerald-200">
+              {showResponseForm ? (
+                <div className="space-y-3">
+                  <textarea
+                    value={responseText}
+                    onChange={(e) => setResponseText(e.target.value)}
+                    rows={4}
+                    maxLength={MAX_RESPONSE_LENGTH}
+                    className="input resize-none"
+                    placeholder="Reply publicly as the verified project team. Each review gets one response."
+                  />
+                  <div className="flex items-center gap-3">
+                    <Button
+                      size="sm"
+                      gradient
+                      onClick={submitResponse}
+                      isLoading={responding}
+                      disabled={responding || !responseText.trim()}
+                    >
+                      Post Response
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setShowResponseForm(false)}
+                      disabled={responding}
+                    >
+                      Cancel
+                    </Button>
+                    <span className="text-xs text-slate-500">
+                      {responseText.length}/{MAX_RESPONSE_LENGTH}
+                    </span>
+                  </div>
+                </div>
+              ) : (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowResponseForm(true)}
+                >
+                  Respond as Project Team
+                </Button>
+              )}
+            </div>
+          )
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+// Lets a dApp's team prove ownership with the key behind the dApp address
+interface ProjectTeamCardProps {
+  project: CatalogProject;
+  isVerifiedTeam: boolean;
+}
+
+const ProjectTeamCard: React.FC<ProjectTeamCardProps> = ({
+  project,
+  isVerifiedTeam,
+}) => {
+  const [ownerKey, setOwnerKey] = useState("");
+  const [verifying, setVerifying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The contract event reloads the project once the owner is verified
+  const handleVerify = async () => {
+    setVerifying(true);
+    setError(null);
+    try {
+      const publicKey = await projectOwnerSession.login(ownerKey, project);
+      if (project.ownerPublicKey !== publicKey) {
+        const authorization = await projectOwnerSession.authorize(
+          "verifyProjectOwner",
+          { dappAddress: project.address }
+        );
+        const adapter = await contractManager.getReadyAdapter();
+        await transactionManager.track(
+          "verifyProjectOwner",
+          {
+            description: `Ownership of ${project.name}`,
+            reference: { dappAddress: project.address },
+          },
+          () => adapter.verifyProjectOwner(project.address, authorization)
+        );
+      }
+      setOwnerKey("");
+    } catch (error) {
+      console.error("Failed to verify ownership:", error);
+      projectOwnerSession.logout();
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  return (
+    <Card variant="glass">
+      <CardHeader spacing="md">
+        <CardTitle size="lg" gradient>
+          Project Team
+        </CardTitle>
+        <CardDescription>
+          {isVerifiedTeam
+            ? "You are signed in as the verified team and can respond to reviews."
+            : project.ownerKey
+              ? "Sign the ownership challenge with the owner key this dApp was registered with to respond to reviews."
+              : "This dApp was registered without an owner key, so its team can't be verified."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent spacing="md">
+        {!project.ownerKey ? null : isVerifiedTeam ? (
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full"
+            onClick={() => projectOwnerSession.logout()}
+          >
+            Sign Out
+          </Button>
+        ) : (
+          <div className="space-y-3">
+            <input
+              type="password"
+              value={ownerKey}
+              onChange={(e) => setOwnerKey(e.target.value)}
+              className="input"
+              placeholder="Owner private key (base64 JWK)"
+              autoComplete="off"
+            />
+            <Button
+              size="sm"
+              gradient
+              className="w-full"
+              onClick={handleVerify}
+              isLoading={verifying}
+              disabled={verifying || !ownerKey.trim()}
+            >
+              Verify Ownership
+            </Button>
+            {error && (
+              <div className="p-4 bg-red-50 border border-red-200 rounded-xl text-sm text-red-700">
+                {error}
+              </div>
+            )}
+          </div>
+        )}
       </CardContent>
     </Card>
   );
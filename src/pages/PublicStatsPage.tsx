@@ -1,62 +1,74 @@
 import React, { useState, useEffect } from 'react';
 import { Card } from '../components/ui/Card';
-import { contractManager } from '../lib/contract-adapter';
-import { syncManager } from '../lib/sync-provider';
+import { contractManager, ContractEvent } from '../lib/contract-adapter';
+import { epochService } from '../lib/epoch';
+
+const RECENT_EVENT_COUNT = 8;
+
+const EVENT_LABELS: Record<ContractEvent['type'], string> = {
+  AdminInitialized: 'Admin key set',
+  DAppRegistered: 'dApp registered',
+  DAppVersionPublished: 'dApp version published',
+  DAppStatusChanged: 'dApp status changed',
+  ReviewSubmitted: 'Review submitted',
+  ReviewUpdated: 'Review updated by its author',
+  ReviewRevoked: 'Review revoked by its author',
+  ReviewVotedHelpful: 'Review marked helpful',
+  ProjectOwnerVerified: 'Project team verified',
+  ReviewResponsePosted: 'Project team responded to a review',
+  ReviewResponseHidden: 'Team response hidden',
+  ReviewResponseRestored: 'Team response restored',
+  ReviewApproved: 'Review approved',
+  ReviewRejected: 'Review rejected',
+  ReviewFlagged: 'Review flagged',
+  ReviewUnflagged: 'Review unflagged',
+  ReviewDeleted: 'Review deleted',
+  RootUpdated: 'Reviewer set updated',
+  ModeratorAdded: 'Moderator added',
+  ModeratorRemoved: 'Moderator removed',
+  EpochAdvanced: 'New epoch'
+};
 
 const PublicStatsPage: React.FC = () => {
   const [stats, setStats] = useState({
-    totalReports: 0,
+    totalDApps: 0,
+    totalReviews: 0,
     currentEpoch: 0,
-    pendingReports: 0,
-    reviewedReports: 0,
-    archivedReports: 0,
-    reportsToday: 0,
-    contractMode: false
+    pendingReviews: 0,
+    verifiedReviews: 0,
+    removedReviews: 0,
+    reviewsThisEpoch: 0
   });
+  const [recentEvents, setRecentEvents] = useState<ContractEvent[]>([]);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [lastUpdated, setLastUpdated] = useState<number | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
     loadStats();
+    // Every contract event can change the numbers on this page
+    return contractManager.getAdapter().subscribe({}, () => loadStats());
   }, []);
 
   const loadStats = async () => {
     setIsRefreshing(true);
     setError(null);
     try {
-      // Get contract state if available
-      const contractAdapter = contractManager.getAdapter();
-      const contractState = await contractAdapter.getContractState();
-      const contractReports = await contractAdapter.listReports();
-      
-      // Get sync provider reports for additional data
-      const syncProvider = syncManager.getProvider();
-      const syncReports = await syncProvider.listReports();
-      
-      // Use contract reports if available, otherwise sync reports
-      const reports = contractReports.length > 0 ? contractReports : syncReports;
-      
-      // Calculate statistics
-      const currentEpoch = contractState.currentEpoch || Math.floor(Date.now() / 1000 / 86400);
-      const todayReports = reports.filter(r => {
-        const reportEpoch = 'epoch' in r ? r.epoch : Math.floor(r.timestamp / 1000 / 86400);
-        return reportEpoch === currentEpoch;
-      });
-      
-      const pending = reports.filter(r => r.status === 'pending').length;
-      const reviewed = reports.filter(r => r.status === 'reviewed').length;
-      const archived = reports.filter(r => r.status === 'archived').length;
-      
+      const adapter = await contractManager.getReadyAdapter();
+      const totals = await adapter.getTotalStats();
+      const reviews = await adapter.listReviews();
+      const events = await adapter.getEvents();
+
       setStats({
-        totalReports: reports.length,
-        currentEpoch,
-        pendingReports: pending,
-        reviewedReports: reviewed,
-        archivedReports: archived,
-        reportsToday: todayReports.length,
-        contractMode: contractManager.isUsingContract()
+        totalDApps: totals.totalDApps,
+        totalReviews: totals.totalReviews,
+        currentEpoch: totals.currentEpoch,
+        pendingReviews: reviews.filter(r => r.status === 'PENDING').length,
+        verifiedReviews: reviews.filter(r => r.status === 'VERIFIED').length,
+        removedReviews: reviews.filter(r => r.status === 'FLAGGED' || r.status === 'REJECTED').length,
+        reviewsThisEpoch: reviews.filter(r => r.epoch === totals.currentEpoch).length
       });
+      setRecentEvents(events.slice(-RECENT_EVENT_COUNT).reverse());
       setLastUpdated(Date.now());
     } catch (error) {
       console.error('Failed to load statistics:', error);
@@ -66,24 +78,13 @@ const PublicStatsPage: React.FC = () => {
     }
   };
 
-  // Calculate time remaining in epoch (24 hours)
-  const getTimeRemaining = () => {
-    const now = Date.now();
-    const epochStart = Math.floor(now / 1000 / 86400) * 86400 * 1000;
-    const epochEnd = epochStart + 86400 * 1000;
-    const remaining = epochEnd - now;
-    const hours = Math.floor(remaining / (1000 * 60 * 60));
-    const minutes = Math.floor((remaining % (1000 * 60 * 60)) / (1000 * 60));
-    return `${hours}h ${minutes}m remaining`;
-  };
-
   // Calculate percentages for progress bars
   const getStatusPercentages = () => {
-    const total = stats.totalReports || 1; // Avoid division by zero
+    const total = stats.pendingReviews + stats.verifiedReviews + stats.removedReviews || 1; // Avoid division by zero
     return {
-      pending: Math.round((stats.pendingReports / total) * 100),
-      reviewed: Math.round((stats.reviewedReports / total) * 100),
-      archived: Math.round((stats.archivedReports / total) * 100)
+      pending: Math.round((stats.pendingReviews / total) * 100),
+      verified: Math.round((stats.verifiedReviews / total) * 100),
+      removed: Math.round((stats.removedReviews / total) * 100)
     };
   };
 
@@ -122,24 +123,24 @@ const PublicStatsPage: React.FC = () => {
 
         <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
           <StatCard 
-            title="Total Reports" 
-            value={stats.totalReports.toString()} 
-            change={stats.contractMode ? "On-chain" : "Local"} 
+            title="Published Reviews" 
+            value={stats.totalReviews.toString()} 
+            change={`across ${stats.totalDApps} dApps`} 
           />
           <StatCard 
             title="Current Epoch" 
             value={stats.currentEpoch.toString()} 
-            change={getTimeRemaining()} 
+            change={epochService.formatTimeRemaining()} 
           />
           <StatCard 
-            title="Pending Review" 
-            value={stats.pendingReports.toString()} 
+            title="Awaiting Moderation" 
+            value={stats.pendingReviews.toString()} 
             change={`${percentages.pending}% of total`} 
           />
           <StatCard 
-            title="Reports Today" 
-            value={stats.reportsToday.toString()} 
-            change="Rate limited" 
+            title="Reviews This Epoch" 
+            value={stats.reviewsThisEpoch.toString()} 
+            change="1 per identity per dApp" 
           />
         </div>
         
@@ -149,19 +150,19 @@ const PublicStatsPage: React.FC = () => {
             Privacy-Preserving Statistics
           </h2>
           <p className="text-gray-600 mb-6">
-            All statistics are aggregated and anonymized. No individual report details or reporter identities are exposed.
+            All statistics are aggregated and anonymized. Reviews are tied to zero-knowledge proofs, never to reviewer identities.
           </p>
           
           <div className="grid md:grid-cols-2 gap-8">
             <div>
-              <h3 className="font-medium text-gray-900 mb-4">Report Status</h3>
+              <h3 className="font-medium text-gray-900 mb-4">Review Status</h3>
               <div className="space-y-3">
                 <ProgressBar label="Pending" percentage={percentages.pending} color="yellow" />
-                <ProgressBar label="Reviewed" percentage={percentages.reviewed} color="green" />
-                <ProgressBar label="Archived" percentage={percentages.archived} color="gray" />
+                <ProgressBar label="Verified" percentage={percentages.verified} color="green" />
+                <ProgressBar label="Flagged or Rejected" percentage={percentages.removed} color="red" />
               </div>
               <p className="text-xs text-gray-500 mt-3">
-                Total: {stats.totalReports} reports
+                Total: {stats.pendingReviews + stats.verifiedReviews + stats.removedReviews} reviews
               </p>
             </div>
             
@@ -169,18 +170,16 @@ const PublicStatsPage: React.FC = () => {
               <h3 className="font-medium text-gray-900 mb-4">System Status</h3>
               <div className="space-y-4">
                 <div className="flex items-center justify-between">
-                  <span className="text-sm text-gray-600">Smart Contract Mode</span>
-                  <span className={`text-sm font-medium ${stats.contractMode ? 'text-green-600' : 'text-gray-500'}`}>
-                    {stats.contractMode ? 'Active' : 'Inactive'}
-                  </span>
+                  <span className="text-sm text-gray-600">Registered dApps</span>
+                  <span className="text-sm font-medium text-gray-900">{stats.totalDApps}</span>
                 </div>
                 <div className="flex items-center justify-between">
                   <span className="text-sm text-gray-600">Epoch Duration</span>
-                  <span className="text-sm font-medium text-gray-900">24 hours</span>
+                  <span className="text-sm font-medium text-gray-900">{epochService.formatDuration()}</span>
                 </div>
                 <div className="flex items-center justify-between">
                   <span className="text-sm text-gray-600">Rate Limit</span>
-                  <span className="text-sm font-medium text-gray-900">1 per identity/epoch</span>
+                  <span className="text-sm font-medium text-gray-900">1 review per dApp/epoch</span>
                 </div>
                 <div className="flex items-center justify-between">
                   <span className="text-sm text-gray-600">Privacy Level</span>
@@ -191,6 +190,27 @@ const PublicStatsPage: React.FC = () => {
           </div>
         </Card>
         
+        {/* Live Activity */}
+        <Card className="p-6 mb-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">
+            Recent Contract Activity
+          </h2>
+          {recentEvents.length === 0 ? (
+            <p className="text-sm text-gray-500">No contract events yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {recentEvents.map(event => (
+                <li key={event.seq} className="flex items-center justify-between py-2 text-sm">
+                  <span className="text-gray-900">{EVENT_LABELS[event.type]}</span>
+                  <span className="text-gray-500">
+                    #{event.seq} · epoch {event.epoch} · {new Date(event.timestamp).toLocaleTimeString()}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </Card>
+
         {/* Info Cards */}
         <div className="space-y-4">
           <Card className="p-4 bg-gray-50 border-gray-200">
@@ -201,9 +221,7 @@ const PublicStatsPage: React.FC = () => {
               <div>
                 <h3 className="font-semibold text-gray-900">About These Statistics</h3>
                 <p className="text-sm text-gray-600 mt-1">
-                  {stats.contractMode 
-                    ? "Statistics are derived from smart contract events and on-chain data. All reports are anchored with mock transactions."
-                    : "Statistics are derived from local storage. Enable Smart Contract Mode in Settings for on-chain anchoring."}
+                  Statistics are derived from contract state and update live as contract events arrive.
                   {" "}The system ensures complete anonymity while providing transparency about overall system usage.
                 </p>
               </div>
@@ -10,6 +10,7 @@ import { generateProof } from '../lib/midnight-stub';
 import { cn } from '../lib/utils';
 import { syncManager } from '../lib/sync-provider';
 import { contractManager } from '../lib/contract-adapter';
+import { epochService } from '../lib/epoch';
 
 interface StepProps {
   currentStep: number;
@@ -149,7 +150,7 @@ const ReporterPage: React.FC = () => {
 
       // Generate proof and nullifier
       const timestamp = Date.now();
-      const epoch = Math.floor(timestamp / 1000 / 86400); // Daily epochs
+      const epoch = epochService.epochAt(timestamp);
       const nullifier = Math.random().toString(36).substring(7);
       const reportHash = `${timestamp}_${nullifier}`;
       
@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from "react";
+import { Link, useSearchParams } from "react-router-dom";
 import {
   Card,
   CardContent,
@@ -8,54 +9,185 @@ import {
 } from "../components/ui/Card";
 import Button from "../components/ui/Button";
 import Badge from "../components/ui/Badge";
+import ReviewerIdentityPanel from "../components/ReviewerIdentityPanel";
+import StarRating from "../components/StarRating";
 import { contractManager } from "../lib/contract-adapter";
-import { ZKProof as AppZKProof } from "../lib/midnight-stub";
+import { identityManager } from "../lib/identity";
+import { fieldToHex } from "../lib/poseidon";
+import { projectCatalog, CatalogProject } from "../lib/project-catalog";
+import { deriveNullifier, describeScope } from "../lib/nullifier";
+import {
+  reviewSubmissionService,
+  SubmissionProgress,
+  SUBMISSION_STAGES,
+  SUBMISSION_STAGE_LABELS,
+  UPDATE_STAGES,
+  MIN_REVIEW_LENGTH,
+  ReviewSubmissionInput,
+  ReviewSubmissionResult,
+  ReviewUpdateResult,
+} from "../lib/review-submission";
+import { reviewContentStore } from "../lib/review-content";
+import {
+  FixtureKeys,
+  fixtureChain,
+  loadFixtureKeys,
+  parseTransactionList,
+  DEFAULT_MIN_TRANSACTIONS,
+} from "../lib/interaction-proof";
+import { MAX_STARS, formatStars, ratingToStars } from "../lib/rating-scale";
+import { getCriteria, criteriaRatingsToStars } from "../lib/review-criteria";
 
 const ReviewSubmissionPage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  // Set when the author is publishing a new version of an existing review
+  const editId = searchParams.get("edit");
   const [formData, setFormData] = useState({
-    projectAddress: "",
+    projectAddress: searchParams.get("dapp") ?? "",
     projectName: "",
-    projectWebsite: "",
     category: "",
     rating: 0,
+    criteria: {} as Record<string, number>, // Stars by criterion id
     title: "",
     review: "",
     pros: "",
     cons: "",
     proofFiles: [] as File[],
   });
+  const [projects, setProjects] = useState<CatalogProject[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [progress, setProgress] = useState<SubmissionProgress | null>(null);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [identityReady, setIdentityReady] = useState(false);
+  const [alreadyReviewed, setAlreadyReviewed] = useState<string | null>(null);
   const [submitted, setSubmitted] = useState(false);
-  const [submissionResult, setSubmissionResult] = useState<{
-    reviewId: string;
-    txHash: string;
-  } | null>(null);
+  const [submissionResult, setSubmissionResult] =
+    useState<ReviewSubmissionResult | null>(null);
+  const [updateResult, setUpdateResult] = useState<ReviewUpdateResult | null>(
+    null
+  );
+  // Optional proof of interaction; left out when no wallet key is given
+  const [interaction, setInteraction] = useState({
+    walletKey: "",
+    transactions: "",
+    minTransactions: DEFAULT_MIN_TRANSACTIONS,
+    beforeBlock: 0,
+  });
+  // Fixture wallet keys, in development builds only
+  const [fixtureKeys, setFixtureKeys] = useState<FixtureKeys | null>(null);
   const [contractStats, setContractStats] = useState({
     totalDApps: 0,
     totalReviews: 0,
     currentEpoch: 0
   });
 
-  const categories = [
-    "DeFi",
-    "NFT",
-    "Gaming",
-    "Infrastructure",
-    "Layer 2",
-    "Bridge",
-    "Wallet",
-    "Exchange",
-    "Lending",
-    "DAO",
-    "Oracle",
-    "Other",
-  ];
-
   useEffect(() => {
     // Load contract stats on component mount
     loadContractStats();
+    loadProjects();
+    fixtureChain.getBlockNumber().then((latest) =>
+      setInteraction((prev) => ({ ...prev, beforeBlock: latest + 1 }))
+    );
+    loadFixtureKeys().then(setFixtureKeys);
   }, []);
 
+  // Keep the selected dApp's name and category in sync with its address;
+  // criteria ratings only carry over while the category stays the same.
+  // An edited review's dApp is fixed and set when the review loads.
+  useEffect(() => {
+    if (editId) return;
+    const project = projects.find(
+      (p) => p.address === formData.projectAddress
+    );
+    setFormData((prev) => {
+      const category = project?.category ?? "";
+      return {
+        ...prev,
+        projectName: project?.name ?? "",
+        category,
+        criteria: category === prev.category ? prev.criteria : {},
+      };
+    });
+  }, [projects, formData.projectAddress]);
+
+  // Start an edit from the review's current version
+  useEffect(() => {
+    if (!editId) return;
+
+    let cancelled = false;
+    const loadReview = async () => {
+      try {
+        const adapter = await contractManager.getReadyAdapter();
+        const record = (await adapter.listReviews()).find(
+          (review) => review.id === editId
+        );
+        if (!record) throw new Error("Review not found");
+        const project = await projectCatalog.getProject(record.dappAddress);
+        const content = await reviewContentStore.get(record.reviewHash);
+        if (cancelled) return;
+
+        const category = project?.category ?? "";
+        setFormData((prev) => ({
+          ...prev,
+          projectAddress: record.dappAddress,
+          projectName: project?.name ?? record.dappAddress,
+          category,
+          rating: ratingToStars(record.rating),
+          criteria: criteriaRatingsToStars(category, record.dimensionRatings),
+          title: content?.title ?? "",
+          review: content?.review ?? "",
+          pros: content?.pros ?? "",
+          cons: content?.cons ?? "",
+        }));
+      } catch (error) {
+        console.error("Failed to load review:", error);
+        if (!cancelled) {
+          setSubmitError(
+            `Could not load the review: ${error instanceof Error ? error.message : error}`
+          );
+        }
+      }
+    };
+    loadReview();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [editId]);
+
+  // Warn before proving if this identity has already reviewed the dApp in the current scope
+  useEffect(() => {
+    const identity = identityManager.getIdentity();
+    if (editId || !identityReady || !identity || !formData.projectAddress) {
+      setAlreadyReviewed(null);
+      return;
+    }
+
+    let cancelled = false;
+    const checkNullifier = async () => {
+      try {
+        const adapter = contractManager.getAdapter();
+        const context = await adapter.getNullifierContext(formData.projectAddress);
+        const nullifier = deriveNullifier(identity.secret, context);
+        const used = await adapter.isNullifierUsed(
+          formData.projectAddress,
+          fieldToHex(nullifier)
+        );
+        if (!cancelled) {
+          setAlreadyReviewed(used ? describeScope(context.scope) : null);
+        }
+      } catch {
+        // Unregistered dApp: nothing reviewed yet
+        if (!cancelled) setAlreadyReviewed(null);
+      }
+    };
+    checkNullifier();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [editId, identityReady, formData.projectAddress]);
+
   const loadContractStats = async () => {
     try {
       const adapter = contractManager.getAdapter();
@@ -66,6 +198,15 @@ const ReviewSubmissionPage: React.FC = () => {
     }
   };
 
+  // Only registered, active dApps accept reviews
+  const loadProjects = async () => {
+    try {
+      setProjects(await projectCatalog.listProjects({ sortBy: "name" }));
+    } catch (error) {
+      console.error('Failed to load projects:', error);
+    }
+  };
+
   const handleInputChange = (
     e: React.ChangeEvent<
       HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement
@@ -79,6 +220,14 @@ const ReviewSubmissionPage: React.FC = () => {
     setFormData((prev) => ({ ...prev, rating }));
   };
 
+  // 0 clears the criterion
+  const handleCriterionRating = (id: string, stars: number) => {
+    setFormData((prev) => ({
+      ...prev,
+      criteria: { ...prev.criteria, [id]: stars },
+    }));
+  };
+
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
       setFormData((prev) => ({
@@ -88,60 +237,93 @@ const ReviewSubmissionPage: React.FC = () => {
     }
   };
 
+  const handleInteractionChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
+  ) => {
+    const { name, value, type } = e.target;
+    setInteraction((prev) => ({
+      ...prev,
+      [name]: type === "number" ? Number(value) : value,
+    }));
+  };
+
+  // Fill in a fixture wallet's key and its whole history; the prover keeps the matching transactions
+  const handleFixtureWallet = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const wallet = fixtureChain
+      .getWallets()
+      .find((w) => w.address === e.target.value);
+    const walletKey = wallet && fixtureKeys?.wallets[wallet.address];
+    if (!wallet || !walletKey) return;
+    setInteraction((prev) => ({
+      ...prev,
+      walletKey,
+      transactions: fixtureChain
+        .listTransactions(wallet.address)
+        .map((tx) => tx.hash)
+        .join("\n"),
+    }));
+  };
+
+  const downloadOpening = () => {
+    if (!submissionResult?.interactionOpening) return;
+    const blob = new Blob(
+      [JSON.stringify(submissionResult.interactionOpening, null, 2)],
+      { type: "application/json" }
+    );
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `interaction-proof-${submissionResult.reviewId}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsSubmitting(true);
+    setSubmitError(null);
 
     try {
-      // Generate review hash from content
-      const reviewContent = JSON.stringify({
+      if (editId) {
+        const result = await reviewSubmissionService.update(
+          {
+            reviewId: editId,
+            title: formData.title,
+            review: formData.review,
+            pros: formData.pros,
+            cons: formData.cons,
+            rating: formData.rating,
+            criteria: formData.criteria,
+          },
+          setProgress
+        );
+        setUpdateResult(result);
+        return;
+      }
+
+      const input: ReviewSubmissionInput = {
+        dappAddress: formData.projectAddress,
         title: formData.title,
         review: formData.review,
         pros: formData.pros,
         cons: formData.cons,
         rating: formData.rating,
-        timestamp: Date.now()
-      });
-      
-      const reviewHash = await generateHash(reviewContent);
-      
-      // Generate interaction proof (simplified for demo)
-      const interactionProof = await generateInteractionProof(formData.projectAddress);
-      
-      // Generate nullifier for rate limiting
-      const nullifier = await generateNullifier(formData.projectAddress);
-      
-      // Generate ZK proof for reviewer membership
-      const zkProof = await generateZKProof({
-        signal: reviewHash,
-        identity: 'demo-reviewer-identity', // In production, this would be user's actual identity
-        merkleProof: [], // In production, this would be actual Merkle proof
-      });
-
-      // Submit to contract
-      const adapter = contractManager.getAdapter();
-      
-      // First check if DApp is registered, if not suggest registration
-      const dappInfo = await adapter.getDAppInfo(formData.projectAddress);
-      if (!dappInfo) {
-        // For demo purposes, we'll register the DApp automatically
-        await adapter.registerDApp(
-          formData.projectAddress,
-          formData.projectName,
-          formData.category,
-          'demo-admin-signature' // In production, this would require actual admin privileges
-        );
+        criteria: formData.criteria,
+      };
+      if (interaction.walletKey.trim()) {
+        input.interaction = {
+          statement: {
+            minTransactions: interaction.minTransactions,
+            beforeBlock: interaction.beforeBlock,
+          },
+          witness: {
+            walletKey: interaction.walletKey,
+            transactions: parseTransactionList(interaction.transactions),
+          },
+        };
       }
-      
-      // Submit the review
-      const result = await adapter.submitReview(
-        formData.projectAddress,
-        reviewHash,
-        formData.rating,
-        interactionProof,
-        nullifier,
-        zkProof
-      );
+
+      const result = await reviewSubmissionService.submit(input, setProgress);
 
       setSubmissionResult(result);
       setSubmitted(true);
@@ -149,86 +331,80 @@ const ReviewSubmissionPage: React.FC = () => {
       // Update contract stats
       await loadContractStats();
       
-    } catch (error: any) {
+    } catch (error) {
       console.error('Review submission failed:', error);
-      alert(`Submission failed: ${error.message}`);
+      setSubmitError(`Submission failed: ${error instanceof Error ? error.message : error}`);
     } finally {
       setIsSubmitting(false);
+      setProgress(null);
     }
   };
 
-  // Helper functions
-  const generateZKProof = async (data: {
-    signal: string;
-    identity: string;
-    merkleProof: any[];
-  }): Promise<AppZKProof> => {
-    // Create a proper ZK proof object structure that matches what the contract adapter expects
-    const proofData = {
-      type: 'dapp-review-proof',
-      signal: data.signal,
-      identity: data.identity,
-      merkleProof: data.merkleProof,
-      timestamp: Date.now(),
-      version: '1.0'
-    };
-    
-    // Generate the proof string
-    const proofString = btoa(JSON.stringify(proofData));
-    
-    // Create public signals (these would be the public inputs to the ZK circuit)
-    const publicSignals = [
-      data.signal, // review hash
-      Math.floor(Date.now() / (1000 * 60 * 60 * 24)).toString(), // current epoch
-      await generateHash(data.identity), // identity commitment (hashed for privacy)
-    ];
-    
-    // Return a proper ZKProof object
-    return {
-      proof: proofString,
-      publicSignals: publicSignals,
-      nullifier: await generateHash(`${data.identity}_${Date.now()}`),
-      timestamp: Date.now()
-    };
-  };
-
-  const generateHash = async (content: string): Promise<string> => {
-    const encoder = new TextEncoder();
-    const data = encoder.encode(content);
-    const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-    const hashArray = Array.from(new Uint8Array(hashBuffer));
-    return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-  };
-
-  const generateInteractionProof = async (projectAddress: string): Promise<string> => {
-    // In production, this would generate actual proof of interaction with the DApp
-    const proofData = `interaction_${projectAddress}_${Date.now()}`;
-    return await generateHash(proofData);
-  };
-
-  const generateNullifier = async (projectAddress: string): Promise<string> => {
-    // Generate nullifier based on user identity and project
-    const nullifierData = `nullifier_${projectAddress}_${Date.now()}_${Math.random()}`;
-    return await generateHash(nullifierData);
-  };
-
   const resetForm = () => {
     setFormData({
       projectAddress: "",
       projectName: "",
-      projectWebsite: "",
       category: "",
       rating: 0,
+      criteria: {},
       title: "",
       review: "",
       pros: "",
       cons: "",
       proofFiles: [],
     });
+    setInteraction((prev) => ({ ...prev, walletKey: "", transactions: "" }));
     setSubmitted(false);
     setSubmissionResult(null);
   };
 
+  if (updateResult) {
+    return (
+      <div className="max-w-3xl mx-auto animate-fadeIn">
+        <Card
+          variant="elevated"
+          className="text-center bg-gradient-to-br from-emerald-50/80 to-teal-50/80 border-emerald-200/60"
+        >
+          <CardContent spacing="lg" className="py-16">
+            <h1 className="text-4xl font-bold gradient-text-success mb-6">
+              Review Updated
+            </h1>
+            <p className="text-xl text-slate-600 mb-10 leading-relaxed max-w-2xl mx-auto">
+              Version {updateResult.version} of your review is published and
+              the project's ratings now use it. Earlier versions stay visible
+              in the review's history. Nobody can tell who made the change.
+            </p>
+
+            <Card variant="glass" className="mb-8 text-left max-w-xl mx-auto">
+              <CardContent spacing="md">
+                <div className="space-y-3">
+                  <div className="flex justify-between items-center">
+                    <span className="font-medium text-slate-600">Version:</span>
+                    <Badge variant="primary" gradient>
+                      v{updateResult.version}
+                    </Badge>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="font-medium text-slate-600">Transaction:</span>
+                    <Badge variant="success" gradient className="font-mono text-xs">
+                      {updateResult.txHash.slice(0, 12)}...
+                    </Badge>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Link to={`/project/${encodeURIComponent(formData.projectAddress)}`}>
+              <Button gradient size="lg">
+                Back to {formData.projectName}
+              </Button>
+            </Link>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   if (submitted && submissionResult) {
     return (
       <div className="max-w-3xl mx-auto animate-fadeIn">
@@ -294,7 +470,36 @@ const ReviewSubmissionPage: React.FC = () => {
                     <span className="font-medium text-slate-600">Status:</span>
                     <Badge variant="success" gradient>✓ Verified</Badge>
                   </div>
+                  <div className="flex justify-between items-center">
+                    <span className="font-medium text-slate-600">Interaction:</span>
+                    {submissionResult.interactionOpening ? (
+                      <Badge variant="success" gradient>
+                        ✓ {submissionResult.interactionOpening.transactionHashes.length} transactions proven
+                      </Badge>
+                    ) : (
+                      <Badge variant="outline">Not proven</Badge>
+                    )}
+                  </div>
                 </div>
+                {submissionResult.interactionOpening && (
+                  <div className="mt-4 p-3 bg-amber-50 border border-amber-200 rounded-xl text-sm text-amber-800">
+                    Only a commitment to your wallet and transactions was
+                    published. Save the opening if you ever want to show
+                    someone the proof; it names your wallet, so keep it private.
+                    <div className="mt-2">
+                      <Button size="sm" variant="outline" type="button" onClick={downloadOpening}>
+                        Download Proof Opening
+                      </Button>
+                    </div>
+                  </div>
+                )}
+                <p className="text-sm text-slate-600 mt-4">
+                  Check whether it landed under{" "}
+                  <Link to="/transactions" className="font-medium text-blue-600 hover:underline">
+                    My Transactions
+                  </Link>
+                  . That list is kept only in this browser.
+                </p>
               </CardContent>
             </Card>
 
@@ -422,22 +627,9 @@ const ReviewSubmissionPage: React.FC = () => {
                   <div className="flex justify-between items-center">
                     <span className="font-medium text-slate-600">Rating:</span>
                     <div className="flex items-center space-x-1">
-                      {[...Array(5)].map((_, i) => (
-                        <svg
-                          key={i}
-                          className={`w-4 h-4 ${
-                            i < formData.rating
-                              ? "text-amber-400"
-                              : "text-slate-300"
-                          }`}
-                          fill="currentColor"
-                          viewBox="0 0 20 20"
-                        >
-                          <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
-                        </svg>
-                      ))}
+                      <StarRating stars={formData.rating} size="sm" />
                       <span className="ml-2 font-bold gradient-text">
-                        {formData.rating}/5
+                        {formatStars(formData.rating)}/{MAX_STARS}
                       </span>
                     </div>
                   </div>
@@ -502,7 +694,7 @@ const ReviewSubmissionPage: React.FC = () => {
       {/* Header - Enhanced */}
       <div className="text-center">
         <h1 className="text-5xl md:text-6xl font-bold hero-title mb-6">
-          Submit Anonymous DApp Review
+          {editId ? "Edit Your Review" : "Submit Anonymous DApp Review"}
         </h1>
         <p className="text-xl text-slate-600 max-w-4xl mx-auto leading-relaxed">
           Share your honest experience with a decentralized application while maintaining
@@ -594,6 +786,8 @@ const ReviewSubmissionPage: React.FC = () => {
         </CardContent>
       </Card>
 
+      <ReviewerIdentityPanel onReadyChange={setIdentityReady} />
+
       <form onSubmit={handleSubmit} className="space-y-10">
         {/* Project Information - Enhanced */}
         <Card variant="elevated" className="form-section">
@@ -606,72 +800,58 @@ const ReviewSubmissionPage: React.FC = () => {
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-6">
-            <div className="grid md:grid-cols-2 gap-6">
-              <div>
-                <label className="block text-sm font-bold text-slate-700 mb-3">
-                  DApp Contract Address *
-                </label>
-                <input
-                  type="text"
-                  name="projectAddress"
-                  value={formData.projectAddress}
-                  onChange={handleInputChange}
-                  className="input font-mono text-sm"
-                  placeholder="0x1234567890abcdef..."
-                  required
-                />
-                <p className="text-xs text-slate-500 mt-1">
-                  The smart contract address of the DApp you're reviewing
-                </p>
-              </div>
-              <div>
-                <label className="block text-sm font-bold text-slate-700 mb-3">
-                  DApp Name *
-                </label>
+            <div>
+              <label className="block text-sm font-bold text-slate-700 mb-3">
+                DApp *
+              </label>
+              {editId ? (
                 <input
                   type="text"
-                  name="projectName"
-                  value={formData.projectName}
-                  onChange={handleInputChange}
+                  value={
+                    formData.category
+                      ? `${formData.projectName} · ${formData.category}`
+                      : formData.projectName
+                  }
                   className="input"
-                  placeholder="e.g., Uniswap, Chainlink, Aave..."
-                  required
+                  readOnly
                 />
-              </div>
-            </div>
-            <div className="grid md:grid-cols-2 gap-6">
-              <div>
-                <label className="block text-sm font-bold text-slate-700 mb-3">
-                  DApp Website
-                </label>
-                <input
-                  type="url"
-                  name="projectWebsite"
-                  value={formData.projectWebsite}
-                  onChange={handleInputChange}
-                  className="input"
-                  placeholder="https://example.com"
-                />
-              </div>
-              <div>
-                <label className="block text-sm font-bold text-slate-700 mb-3">
-                  Category *
-                </label>
+              ) : (
                 <select
-                  name="category"
-                  value={formData.category}
+                  name="projectAddress"
+                  value={formData.projectAddress}
                   onChange={handleInputChange}
                   className="input"
                   required
                 >
-                  <option value="">Select a category...</option>
-                  {categories.map((cat) => (
-                    <option key={cat} value={cat}>
-                      {cat}
+                  <option value="">Select a registered DApp...</option>
+                  {projects.map((project) => (
+                    <option key={project.address} value={project.address}>
+                      {project.name} · {project.category}
                     </option>
                   ))}
                 </select>
-              </div>
+              )}
+              {formData.projectAddress && (
+                <p className="text-xs text-slate-500 mt-1 font-mono break-all">
+                  {formData.projectAddress}
+                </p>
+              )}
+              {projects.length === 0 && !editId && (
+                <p className="text-xs text-slate-500 mt-1">
+                  No DApps are open for reviews yet. DApps are registered by
+                  an admin from the{" "}
+                  <Link to="/admin" className="text-blue-600 hover:underline">
+                    admin panel
+                  </Link>
+                  .
+                </p>
+              )}
+              {alreadyReviewed && (
+                <p className="text-xs text-red-600 mt-1">
+                  You have already reviewed this DApp. Reviews are limited to{" "}
+                  {alreadyReviewed}.
+                </p>
+              )}
             </div>
           </CardContent>
         </Card>
@@ -688,45 +868,84 @@ const ReviewSubmissionPage: React.FC = () => {
           </CardHeader>
           <CardContent>
             <div className="flex flex-col items-center space-y-6">
-              <div className="flex items-center space-x-3">
-                {[1, 2, 3, 4, 5].map((star) => (
-                  <button
-                    key={star}
-                    type="button"
-                    onClick={() => handleRatingClick(star)}
-                    className={`text-5xl transition-all duration-300 hover:scale-125 transform ${
-                      star <= formData.rating
-                        ? "text-amber-400 drop-shadow-lg scale-110"
-                        : "text-slate-300 hover:text-amber-200 hover:drop-shadow-md"
-                    }`}
-                  >
-                    ★
-                  </button>
-                ))}
-              </div>
+              <StarRating
+                stars={formData.rating}
+                size="xl"
+                onChange={handleRatingClick}
+              />
               <div className="text-center">
                 {formData.rating > 0 ? (
                   <div className="space-y-2">
                     <Badge variant="primary" gradient size="lg">
-                      {formData.rating}/5 stars selected
+                      {formatStars(formData.rating)}/{MAX_STARS} stars selected
                     </Badge>
                     <p className="text-sm text-slate-600">
-                      {formData.rating === 5
+                      {formData.rating >= 4.5
                         ? "Excellent!"
-                        : formData.rating === 4
+                        : formData.rating >= 3.5
                         ? "Very Good"
-                        : formData.rating === 3
+                        : formData.rating >= 2.5
                         ? "Good"
-                        : formData.rating === 2
+                        : formData.rating >= 1.5
                         ? "Fair"
                         : "Poor"}
                     </p>
                   </div>
                 ) : (
-                  <span className="text-slate-500">Click stars to rate</span>
+                  <span className="text-slate-500">
+                    Click stars to rate; the left half of a star gives a half star
+                  </span>
                 )}
               </div>
             </div>
+
+            {/* Optional criteria ratings, which depend on the dApp's category */}
+            <div className="mt-8 pt-6 border-t border-slate-200 space-y-4">
+              <p className="text-sm font-bold text-slate-700">
+                {formData.category
+                  ? `Rate ${formData.category} criteria (optional)`
+                  : "Rate specific aspects (optional)"}
+              </p>
+              {getCriteria(formData.category).map((criterion) => {
+                const stars = formData.criteria[criterion.id] ?? 0;
+                return (
+                  <div
+                    key={criterion.id}
+                    className="flex flex-col md:flex-row md:items-center justify-between gap-2"
+                  >
+                    <div>
+                      <div className="font-medium text-slate-800">
+                        {criterion.label}
+                      </div>
+                      <div className="text-xs text-slate-500">
+                        {criterion.description}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <StarRating
+                        stars={stars}
+                        size="lg"
+                        onChange={(value) =>
+                          handleCriterionRating(criterion.id, value)
+                        }
+                      />
+                      <span className="w-8 text-sm text-slate-600">
+                        {stars > 0 ? formatStars(stars) : "–"}
+                      </span>
+                      {stars > 0 && (
+                        <button
+                          type="button"
+                          onClick={() => handleCriterionRating(criterion.id, 0)}
+                          className="text-xs text-slate-500 hover:text-slate-700"
+                        >
+                          Clear
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
           </CardContent>
         </Card>
 
@@ -770,14 +989,14 @@ const ReviewSubmissionPage: React.FC = () => {
               <div className="flex justify-between items-center mt-2">
                 <div
                   className={`text-sm ${
-                    formData.review.length >= 50
+                    formData.review.length >= MIN_REVIEW_LENGTH
                       ? "text-emerald-600"
                       : "text-amber-600"
                   }`}
                 >
-                  Minimum 50 characters ({formData.review.length}/50)
+                  Minimum {MIN_REVIEW_LENGTH} characters ({formData.review.length}/{MIN_REVIEW_LENGTH})
                 </div>
-                {formData.review.length >= 50 && (
+                {formData.review.length >= MIN_REVIEW_LENGTH && (
                   <Badge variant="success" gradient size="sm">
                     ✓ Requirement met
                   </Badge>
@@ -813,6 +1032,99 @@ const ReviewSubmissionPage: React.FC = () => {
           </CardContent>
         </Card>
 
+        {/* Proof of Interaction; an edit keeps the original proof */}
+        {!editId && (
+          <Card variant="elevated" className="form-section">
+            <CardHeader>
+              <CardTitle size="xl" gradient>
+                Proof of Interaction (Optional)
+              </CardTitle>
+              <CardDescription>
+                Show that a wallet you control sent transactions to this DApp.
+                Only a commitment is published, never the wallet or its
+                transactions, and proven reviews count fully toward the DApp's
+                reputation. You keep the opening and can share it with anyone
+                who wants to check the claim.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {fixtureKeys && (
+                <div>
+                  <label className="block text-sm font-bold text-slate-700 mb-3">
+                    Fixture Wallet
+                  </label>
+                  <select
+                    value=""
+                    onChange={handleFixtureWallet}
+                    className="input"
+                  >
+                    <option value="">Fill in a wallet from the local fixture chain...</option>
+                    {fixtureChain.getWallets().map((wallet) => (
+                      <option key={wallet.address} value={wallet.address}>
+                        {wallet.label} · {wallet.address.slice(0, 10)}...
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-bold text-slate-700 mb-3">
+                  Wallet Private Key
+                </label>
+                <input
+                  type="password"
+                  name="walletKey"
+                  value={interaction.walletKey}
+                  onChange={handleInteractionChange}
+                  className="input font-mono"
+                  placeholder="Base64 private key; used only in this browser to sign the challenge"
+                  autoComplete="off"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-bold text-slate-700 mb-3">
+                  Transactions
+                </label>
+                <textarea
+                  name="transactions"
+                  value={interaction.transactions}
+                  onChange={handleInteractionChange}
+                  className="textarea min-h-[100px] font-mono text-xs"
+                  placeholder="One transaction hash per line, or a JSON array of receipts"
+                />
+              </div>
+              <div className="grid md:grid-cols-2 gap-6">
+                <div>
+                  <label className="block text-sm font-bold text-slate-700 mb-3">
+                    At Least This Many Transactions
+                  </label>
+                  <input
+                    type="number"
+                    name="minTransactions"
+                    min={1}
+                    value={interaction.minTransactions}
+                    onChange={handleInteractionChange}
+                    className="input"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-bold text-slate-700 mb-3">
+                    Before Block
+                  </label>
+                  <input
+                    type="number"
+                    name="beforeBlock"
+                    min={1}
+                    value={interaction.beforeBlock}
+                    onChange={handleInteractionChange}
+                    className="input"
+                  />
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Proof Upload - Enhanced */}
         <Card variant="elevated" className="form-section">
           <CardHeader>
@@ -1026,13 +1338,13 @@ const ReviewSubmissionPage: React.FC = () => {
             size="xl"
             isLoading={isSubmitting}
             disabled={
-              !formData.projectAddress ||
+              !identityReady ||
+              alreadyReviewed !== null ||
               !formData.projectName ||
-              !formData.category ||
               !formData.title ||
               !formData.review ||
               formData.rating === 0 ||
-              formData.review.length < 50
+              formData.review.length < MIN_REVIEW_LENGTH
             }
             gradient
             className="px-16 py-5 text-lg shadow-2xl hover:shadow-blue-500/25"
@@ -1060,7 +1372,9 @@ const ReviewSubmissionPage: React.FC = () => {
                     ></path>
                   </svg>
                   <span className="animate-pulse">
-                    Submitting to Midnight Network...
+                    {progress
+                      ? `${SUBMISSION_STAGE_LABELS[progress.stage]}...`
+                      : "Submitting to Midnight Network..."}
                   </span>
                 </div>
               </>
@@ -1079,11 +1393,46 @@ const ReviewSubmissionPage: React.FC = () => {
                     d="M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16m14 0h2m-2 0h-5m-9 0H3m2 0h5M9 7h1m-1 4h1m4-4h1m-1 4h1m-5 10v-5a1 1 0 011-1h2a1 1 0 011 1v5m-4 0h4"
                   />
                 </svg>
-                Submit to Midnight Contract
+                {editId ? "Publish Updated Review" : "Submit to Midnight Contract"}
               </>
             )}
           </Button>
         </div>
+
+        {/* Per-stage progress */}
+        {isSubmitting && progress && (
+          <ol className="max-w-md mx-auto space-y-2 text-sm">
+            {(editId ? UPDATE_STAGES : SUBMISSION_STAGES).map((stage, index) => {
+              const done =
+                index < progress.step - 1 ||
+                (stage === progress.stage && progress.status === "completed");
+              const active = stage === progress.stage && !done;
+              return (
+                <li
+                  key={stage}
+                  className={`flex items-center ${
+                    done
+                      ? "text-emerald-600"
+                      : active
+                      ? "text-blue-600 font-medium"
+                      : "text-slate-400"
+                  }`}
+                >
+                  <span className="w-5 mr-2 text-center">
+                    {done ? "✓" : active ? "…" : index + 1}
+                  </span>
+                  {SUBMISSION_STAGE_LABELS[stage]}
+                </li>
+              );
+            })}
+          </ol>
+        )}
+
+        {submitError && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-xl text-sm text-red-700">
+            {submitError}
+          </div>
+        )}
       </form>
     </div>
   );
@@ -1,6 +1,6 @@
-import React, { useState, useEffect } from 'react';
+import { useState, useEffect } from 'react';
 import { syncManager } from '../lib/sync-provider';
-import { contractManager } from '../lib/contract-adapter';
+import { contractManager, CONTRACT_NETWORKS, ContractNetwork } from '../lib/contract-adapter';
 
 export default function SettingsPage() {
   const [syncEnabled, setSyncEnabled] = useState(false);
@@ -9,7 +9,9 @@ export default function SettingsPage() {
   const [isChecking, setIsChecking] = useState(false);
   const [syncStatus, setSyncStatus] = useState<'connected' | 'disconnected' | 'error'>('disconnected');
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
-  const [contractEnabled, setContractEnabled] = useState(true); // Default to true
+  const [network, setNetwork] = useState<ContractNetwork>(contractManager.getNetwork());
+  const [switchingTo, setSwitchingTo] = useState<ContractNetwork | null>(null);
+  const [networkError, setNetworkError] = useState<string | null>(null);
 
   useEffect(() => {
     // Load current settings
@@ -47,10 +49,6 @@ export default function SettingsPage() {
       setSyncUrl(savedUrl);
       setApiKey(savedKey);
       
-      // Check if contract mode is enabled
-      const isContractEnabled = contractManager.isUsingContract();
-      setContractEnabled(isContractEnabled);
-      
       // Check connection if sync is enabled
       const storedEnabled = localStorage.getItem('sync_enabled') === 'true';
       if (storedEnabled) {
@@ -127,6 +125,21 @@ export default function SettingsPage() {
     }
   };
 
+  const handleNetworkChange = async (target: ContractNetwork) => {
+    if (target === network) return;
+    setSwitchingTo(target);
+    setNetworkError(null);
+    try {
+      await contractManager.switchNetwork(target);
+      setNetwork(target);
+    } catch (error) {
+      console.error('Failed to switch network:', error);
+      setNetworkError(error instanceof Error ? error.message : 'Failed to switch network');
+    } finally {
+      setSwitchingTo(null);
+    }
+  };
+
   const handleTestConnection = () => {
     const effectiveUrl = syncUrl || window.location.origin;
     checkConnection(effectiveUrl, apiKey);
@@ -145,66 +158,53 @@ export default function SettingsPage() {
         <div className="p-6 space-y-6">
           {/* Smart Contract Settings */}
           <div>
-            <h2 className="text-lg font-medium text-gray-900 mb-4">Smart Contract Integration</h2>
+            <h2 className="text-lg font-medium text-gray-900 mb-4">Contract Network</h2>
             
-            {/* Contract Toggle */}
-            <div className="flex items-center justify-between mb-6 p-4 bg-gray-50 rounded-lg">
-              <div>
-                <label htmlFor="contract-toggle" className="text-sm font-medium text-gray-900">
-                  Smart Contract Mode
-                </label>
-                <p className="text-sm text-gray-500 mt-1">
-                  Enabled by default. Anchors reports on-chain with mock transactions, enforces nullifier uniqueness, and emits contract events.
-                </p>
-              </div>
-              <button
-                id="contract-toggle"
-                type="button"
-                onClick={async () => {
-                  const newState = !contractEnabled;
-                  setContractEnabled(newState);
-                  await contractManager.switchAdapter(newState);
-                  setSaveStatus('saved');
-                  setTimeout(() => setSaveStatus('idle'), 2000);
-                }}
-                className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
-                  contractEnabled ? 'bg-gray-900' : 'bg-gray-300'
-                }`}
-                role="switch"
-                aria-checked={contractEnabled}
-              >
-                <span className="sr-only">Enable smart contract mode</span>
-                <span
-                  className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
-                    contractEnabled ? 'translate-x-6' : 'translate-x-1'
-                  }`}
-                />
-              </button>
+            <p className="text-sm text-gray-500 mb-4">
+              Choose where reviews are submitted and where ledger state is read from.
+            </p>
+
+            <div className="space-y-3 mb-4" role="radiogroup" aria-label="Contract network">
+              {CONTRACT_NETWORKS.map(config => {
+                const configured = contractManager.isConfigured(config);
+                const selected = network === config.id;
+                return (
+                  <button
+                    key={config.id}
+                    type="button"
+                    role="radio"
+                    aria-checked={selected}
+                    onClick={() => handleNetworkChange(config.id)}
+                    disabled={!configured || switchingTo !== null}
+                    className={`w-full text-left p-4 rounded-lg border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                      selected ? 'border-gray-900 bg-gray-50' : 'border-gray-200 hover:bg-gray-50'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium text-gray-900">{config.label}</span>
+                      <span className="text-xs text-gray-500">
+                        {switchingTo === config.id ? 'Connecting...' :
+                         selected ? '● Active' :
+                         !configured ? 'Not configured' : ''}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-500 mt-1">{config.description}</p>
+                    {config.rpcUrl && (
+                      <p className="text-xs text-gray-400 mt-1 font-mono">{config.rpcUrl}</p>
+                    )}
+                  </button>
+                );
+              })}
             </div>
 
-            {contractEnabled ? (
-              <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-lg">
-                <div className="flex items-center space-x-2">
-                  <svg className="w-4 h-4 text-green-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
-                  </svg>
-                  <span className="text-sm text-green-800">
-                    Smart contract mode active - Reports are anchored on-chain with mock transactions
-                  </span>
-                </div>
-              </div>
-            ) : (
-              <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
-                <div className="flex items-center space-x-2">
-                  <svg className="w-4 h-4 text-yellow-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
-                  </svg>
-                  <span className="text-sm text-yellow-800">
-                    Smart contract mode disabled - Using local storage only (for testing)
-                  </span>
-                </div>
+            {networkError && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+                <span className="text-sm text-red-800">{networkError}</span>
               </div>
             )}
+            <p className="text-xs text-gray-500">
+              Each network has its own ledger. Set VITE_DEVNET_RPC_URL or VITE_TESTNET_RPC_URL to change the endpoints.
+            </p>
           </div>
 
           {/* Sync Settings Section */}
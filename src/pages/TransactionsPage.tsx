@@ -0,0 +1,193 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { Card } from '../components/ui/Card';
+import Button from '../components/ui/Button';
+import Badge from '../components/ui/Badge';
+import { contractManager, ReviewRecord } from '../lib/contract-adapter';
+import { transactionManager, TransactionRecord, TransactionStatus } from '../lib/transactions';
+
+const STATUS_BADGES: Record<TransactionStatus, { variant: 'warning' | 'success' | 'danger'; label: string }> = {
+  pending: { variant: 'warning', label: 'Pending' },
+  confirmed: { variant: 'success', label: 'Confirmed' },
+  failed: { variant: 'danger', label: 'Failed' }
+};
+
+// Transactions whose review's current status is worth showing
+const REVIEW_OPERATIONS = ['submitReview', 'updateReview', 'revokeReview'];
+
+const TransactionsPage: React.FC = () => {
+  const [transactions, setTransactions] = useState<TransactionRecord[]>([]);
+  const [reviewStatuses, setReviewStatuses] = useState<Record<string, ReviewRecord['status']>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTransactions = useCallback(async () => {
+    const records = await transactionManager.list();
+
+    // Current moderation state of submitted reviews, read from the public review list
+    const statuses: Record<string, ReviewRecord['status']> = {};
+    const reviewDApps = new Set(
+      records
+        .filter(record => REVIEW_OPERATIONS.includes(record.operation) && record.status === 'confirmed')
+        .filter(record => record.network === contractManager.getNetwork())
+        .map(record => record.reference.dappAddress)
+        .filter((address): address is string => !!address)
+    );
+    if (reviewDApps.size > 0) {
+      const adapter = await contractManager.getReadyAdapter();
+      for (const address of reviewDApps) {
+        const reviews = await adapter.listReviews(address);
+        reviews.forEach(review => {
+          statuses[review.id] = review.status;
+        });
+      }
+    }
+
+    return { records, statuses };
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = () => {
+      loadTransactions()
+        .then(({ records, statuses }) => {
+          if (cancelled) return;
+          setTransactions(records);
+          setReviewStatuses(statuses);
+        })
+        .catch(err => {
+          console.error('Failed to load transactions:', err);
+          if (!cancelled) setError('Failed to load transactions. Please try again.');
+        })
+        .finally(() => {
+          if (!cancelled) setIsLoading(false);
+        });
+    };
+
+    load();
+    const unsubscribe = transactionManager.subscribe(load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [loadTransactions]);
+
+  const handleRefresh = async (id: string) => {
+    setRefreshing(id);
+    setError(null);
+    try {
+      await transactionManager.refresh(id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to check transaction');
+    } finally {
+      setRefreshing(null);
+    }
+  };
+
+  const handleRemove = async (id: string) => {
+    setError(null);
+    try {
+      await transactionManager.remove(id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove transaction');
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6 animate-fadeIn">
+      <section className="text-center py-8 px-4">
+        <h1 className="text-3xl md:text-4xl font-bold text-gray-900 mb-4">
+          My Transactions
+        </h1>
+        <p className="text-lg text-gray-600 max-w-2xl mx-auto">
+          Check that your reviews and other transactions made it on-chain
+        </p>
+      </section>
+
+      <Card className="p-4 bg-gray-50 border-gray-200">
+        <p className="text-sm text-gray-600">
+          This list is kept only in this browser. Receipts are looked up by
+          transaction hash, which the contract already publishes, so checking
+          a review never tells the network who wrote it.
+        </p>
+      </Card>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-xl text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="text-center text-gray-500">Loading transactions...</p>
+      ) : transactions.length === 0 ? (
+        <Card className="p-8 text-center">
+          <p className="text-gray-600 mb-4">No transactions from this browser yet.</p>
+          <Link to="/submit-review">
+            <Button>Submit a Review</Button>
+          </Link>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {transactions.map(tx => {
+            const badge = STATUS_BADGES[tx.status];
+            const reviewStatus = tx.reference.reviewId ? reviewStatuses[tx.reference.reviewId] : undefined;
+            return (
+              <Card key={tx.id} className="p-5">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <h2 className="font-semibold text-gray-900">{tx.description}</h2>
+                      <Badge variant={badge.variant} size="sm">{badge.label}</Badge>
+                      {reviewStatus && (
+                        <Badge variant="info" size="sm">Review {reviewStatus.toLowerCase()}</Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      {tx.operation} · {tx.network} · {new Date(tx.createdAt).toLocaleString()}
+                      {tx.attempts > 1 && ` · ${tx.attempts} attempts`}
+                    </p>
+                    {tx.txHash && (
+                      <p className="text-xs font-mono text-gray-600 break-all">{tx.txHash}</p>
+                    )}
+                    {tx.receipt && (
+                      <p className="text-xs text-gray-600">
+                        Block #{tx.receipt.blockNumber} · epoch {tx.receipt.epoch} · {tx.receipt.events.length} event(s)
+                      </p>
+                    )}
+                    {tx.error && (
+                      <p className={`text-xs ${tx.status === 'failed' ? 'text-red-600' : 'text-gray-500'}`}>
+                        {tx.status === 'failed' ? 'Reason: ' : 'Last error: '}{tx.error}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex gap-2 flex-shrink-0">
+                    {tx.status === 'pending' && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleRefresh(tx.id)}
+                        disabled={refreshing === tx.id}
+                      >
+                        {refreshing === tx.id ? 'Checking...' : 'Check Again'}
+                      </Button>
+                    )}
+                    {tx.status !== 'pending' && (
+                      <Button size="sm" variant="ghost" onClick={() => handleRemove(tx.id)}>
+                        Remove
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TransactionsPage;
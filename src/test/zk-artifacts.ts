@@ -0,0 +1,25 @@
+import { createServer } from 'node:http';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { AddressInfo } from 'node:net';
+import { ArtifactLoader } from '../lib/midnightjs';
+
+export const PUBLIC_DIR = path.resolve(__dirname, '../../public');
+
+// The prover fetches its artifacts, so serve public/ the way Vite does and
+// point the artifact loader at it. Resolves to a function that stops the server.
+export async function serveZkArtifacts(): Promise<() => void> {
+  const server = createServer(async (request, response) => {
+    try {
+      response.end(await readFile(path.join(PUBLIC_DIR, request.url ?? '')));
+    } catch {
+      response.statusCode = 404;
+      response.end();
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  ArtifactLoader.getInstance().setBasePath(`http://127.0.0.1:${port}/zk-artifacts`);
+
+  return () => server.close();
+}
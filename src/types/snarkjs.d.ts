@@ -0,0 +1,45 @@
+// Minimal type declarations for the parts of snarkjs used by MidnightJS
+
+declare module 'snarkjs' {
+  export interface SnarkjsGroth16Proof {
+    pi_a: string[];
+    pi_b: string[][];
+    pi_c: string[];
+    protocol: string;
+    curve: string;
+  }
+
+  export interface SnarkjsVerificationKey {
+    protocol: string;
+    curve: string;
+    nPublic: number;
+    [key: string]: unknown;
+  }
+
+  type ArtifactSource = string | Uint8Array | { type: 'mem'; data?: Uint8Array };
+
+  export const wtns: {
+    calculate(
+      input: Record<string, unknown>,
+      wasm: ArtifactSource,
+      wtnsOut: { type: 'mem'; data?: Uint8Array }
+    ): Promise<void>;
+  };
+
+  export const groth16: {
+    prove(
+      zkey: ArtifactSource,
+      witness: ArtifactSource
+    ): Promise<{ proof: SnarkjsGroth16Proof; publicSignals: string[] }>;
+    fullProve(
+      input: Record<string, unknown>,
+      wasm: ArtifactSource,
+      zkey: ArtifactSource
+    ): Promise<{ proof: SnarkjsGroth16Proof; publicSignals: string[] }>;
+    verify(
+      verificationKey: SnarkjsVerificationKey,
+      publicSignals: string[],
+      proof: SnarkjsGroth16Proof
+    ): Promise<boolean>;
+  };
+}
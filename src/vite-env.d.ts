@@ -5,6 +5,12 @@ interface ImportMetaEnv {
   readonly VITE_SYNC_ENABLED?: string
   readonly VITE_SYNC_BASE_URL?: string
   readonly VITE_SYNC_API_KEY?: string
+  readonly VITE_NULLIFIER_SCOPE?: string
+  readonly VITE_ADMIN_PUBLIC_KEY?: string
+  readonly VITE_DEVNET_RPC_URL?: string
+  readonly VITE_TESTNET_RPC_URL?: string
+  readonly VITE_EPOCH_GENESIS?: string
+  readonly VITE_EPOCH_DURATION_MS?: string
 }
 
 interface ImportMeta {
@@ -24,4 +24,8 @@ export default defineConfig({
   optimizeDeps: {
     include: ['react', 'react-dom', 'react-router-dom'],
   },
+  test: {
+    // snarkjs spawns web workers, which can't be created inside vitest's worker threads
+    pool: 'forks',
+  },
 });